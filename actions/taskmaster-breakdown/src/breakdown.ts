@@ -0,0 +1,774 @@
+/**
+ * Taskmaster Breakdown
+ *
+ * Breaks a parent issue down into sub-issues: runs the Taskmaster CLI against
+ * a PRD built from the issue, creates and links the sub-issues, wires up their
+ * dependencies and records the breakdown state on the parent. Re-runs are
+ * recognized and update the earlier sub-issues instead of duplicating them,
+ * and sub-issues that are still too complex are broken down in turn.
+ * Shared by the breakdown action and the `/replan` command.
+ */
+
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  setupTaskmasterCli,
+  getTaskmasterConfigFromCentralized,
+  runTaskmasterCli,
+  parseAndValidateTaskGraph
+} from '../../taskmaster-generate/src/taskmaster-cli';
+import { 
+  TaskmasterConfig,
+  parseIssueBody,
+  EnhancedGitHubApi,
+  createSubIssueFromTask,
+  addSubIssueRelationship,
+  updateIssueWithDependencies,
+  updateBodyWithRequiredBy,
+  updateDependencyLabels,
+  applyDependencyLabels,
+  dependencyLabelsChanged,
+  syncIssueDependencyLinks,
+  createProjectSync,
+  projectFieldsForTask,
+  syncIssueToProject,
+  calculateComplexityForTask,
+  ParentIssueStateManager,
+  stripBreakdownSections,
+  refreshSubIssueFromTask,
+  buildSubIssueTaskKey,
+  extractTaskKey,
+  buildObsoleteLabels,
+  OBSOLETE_LABEL,
+  referenceFromIssue,
+  repositoryFromIssue,
+  sameRepository,
+  renderMermaidFlowchart,
+  GITHUB_COMMENT_MAX_LENGTH,
+  type ApiIssue,
+  type CommandPolicy,
+  type CommandPolicyRequest,
+  type PolicyDecision,
+  type ParentIssueState,
+  type SubIssueTask as Task,
+  type Issue,
+  type ParentIssue,
+  type BreakdownMetadata
+} from '../../../scripts/index';
+import { IdempotencyManager } from '../../../scripts/idempotency-manager';
+
+export interface TaskGraph {
+  tasks: Task[];
+  metadata?: any;
+}
+
+/**
+ * Get issue data using GitHub API
+ */
+export async function getIssue(githubApi: EnhancedGitHubApi, issueNumber: number): Promise<Issue> {
+  // Use octokit directly since getIssue doesn't exist yet
+  const response = await (githubApi as any).octokit.issues.get({
+    owner: (githubApi as any).config.owner,
+    repo: (githubApi as any).config.repo,
+    issue_number: issueNumber
+  });
+  
+  return {
+    ...response.data,
+    expectedBody: response.data.body || ''
+  };
+}
+
+/**
+ * Build a temporary PRD document from the parent issue content so the
+ * Taskmaster CLI can decompose it like any other PRD
+ */
+export function buildPrdFromIssue(parentIssue: Issue): string {
+  const body = parentIssue.body || '';
+  const parsed = parseIssueBody(body);
+
+  // Fall back to the raw body (minus front-matter and our marker) for
+  // hand-written issues that don't follow the generated section layout
+  const description = parsed.description ||
+    body.replace(/^---\n[\s\S]*?\n---\n*/, '').replace(/<!--[\s\S]*?-->/g, '').trim();
+
+  if (!description && !parsed.details) {
+    throw new Error(`Issue #${parentIssue.number} has no description to break down`);
+  }
+
+  let prd = `# ${parentIssue.title}\n\n`;
+  prd += `## Overview\n\n${description}\n\n`;
+
+  if (parsed.details) {
+    prd += `## Details\n\n${parsed.details}\n\n`;
+  }
+
+  if (parsed.testStrategy) {
+    prd += `## Test Strategy\n\n${parsed.testStrategy}\n\n`;
+  }
+
+  return prd;
+}
+
+/**
+ * Run the Taskmaster CLI against a PRD built from the parent issue
+ */
+export async function generateTaskBreakdown(
+  parentIssue: Issue,
+  config: TaskmasterConfig,
+  maxDepth: number,
+  complexityThreshold: number
+): Promise<TaskGraph> {
+  const binaryInfo = await setupTaskmasterCli(getTaskmasterConfigFromCentralized(config));
+
+  const workDir = fs.mkdtempSync(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'taskmaster-breakdown-'));
+  const prdPath = path.join(workDir, `issue-${parentIssue.number}.prd.md`);
+  const taskGraphPath = path.join(workDir, 'task-graph.json');
+
+  try {
+    fs.writeFileSync(prdPath, buildPrdFromIssue(parentIssue), 'utf8');
+    core.info(`📄 Wrote temporary PRD for issue #${parentIssue.number} to ${prdPath}`);
+
+    const runResult = await runTaskmasterCli(binaryInfo, {
+      prdPath,
+      complexityThreshold,
+      maxDepth,
+      outputPath: taskGraphPath,
+      workingDir: workDir,
+      additionalArgs: config.taskmasterArgs ? config.taskmasterArgs.split(' ').filter((arg: string) => arg.trim()) : []
+    });
+
+    core.info(`✅ CLI execution completed with exit code: ${runResult.exitCode}`);
+
+    if (!runResult.taskGraphGenerated) {
+      throw new Error('Task graph was not generated by CLI');
+    }
+
+    const parseResult = parseAndValidateTaskGraph(runResult.taskGraphPath);
+    if (!parseResult.success || !parseResult.taskGraph) {
+      throw new Error(`Generated task graph failed validation: ${parseResult.errors.join(', ')}`);
+    }
+
+    const tasks = parseResult.taskGraph.tasks as Task[];
+
+    // Add required-by relationships
+    for (const task of tasks) {
+      task.requiredBy = tasks.filter(t => t.dependencies?.includes(task.id));
+    }
+
+    return {
+      tasks,
+      metadata: {
+        ...parseResult.taskGraph.metadata,
+        parentIssue: parentIssue.number,
+        breakdownDepth: maxDepth,
+        complexityThreshold,
+        generated: new Date().toISOString()
+      }
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * How a breakdown run treated an earlier breakdown of the same issue
+ * - create: the issue was not broken down before
+ * - noop: the issue body and arguments are unchanged, nothing was done
+ * - update: earlier sub-issues were matched to the new tasks by task key,
+ *   then updated; new tasks got sub-issues and leftovers were retired
+ * - replace: `--replace` retired the earlier sub-issues before creating new ones
+ */
+export type BreakdownMode = 'create' | 'noop' | 'update' | 'replace';
+
+/**
+ * Decision taken for a breakdown run, reported back to the commenter
+ */
+export interface BreakdownDecision {
+  mode: BreakdownMode;
+  /** Key of this run, from the parent issue, its body and the arguments */
+  runKey: string;
+  /** Key of the earlier run, when there was one */
+  previousRunKey?: string;
+  created: number[];
+  updated: number[];
+  unchanged: number[];
+  retired: number[];
+}
+
+/**
+ * Prefix of the hidden marker recording the run key in the breakdown summary
+ */
+export const BREAKDOWN_RUN_MARKER_PREFIX = '<!-- taskmaster-breakdown-run';
+
+/**
+ * Hidden marker recording the key of a breakdown run
+ */
+export function breakdownRunMarker(runKey: string): string {
+  return `${BREAKDOWN_RUN_MARKER_PREFIX}:${runKey} -->`;
+}
+
+/**
+ * Key of the latest breakdown run recorded in a parent issue body, if any
+ */
+export function extractBreakdownRunKey(body: string | null | undefined): string | undefined {
+  const match = (body || '').match(/<!-- taskmaster-breakdown-run:([0-9a-f]+) -->/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Summarize a breakdown decision for the command reply
+ */
+export function describeBreakdownDecision(issueNumber: number, decision: BreakdownDecision): string {
+  const { created, updated, unchanged, retired } = decision;
+  switch (decision.mode) {
+    case 'noop':
+      return `#${issueNumber} and the arguments are unchanged since the last breakdown, so its ${unchanged.length} sub-issues were left as they are. ` +
+        'Edit the issue, change the arguments or add `--replace` to break it down again.';
+    case 'update':
+      return `Updated the breakdown of #${issueNumber}: ${created.length} sub-issues created, ${updated.length} updated, ` +
+        `${unchanged.length} unchanged and ${retired.length} retired.`;
+    case 'replace':
+      return `Replaced the breakdown of #${issueNumber}: retired ${retired.length} sub-issues and created ${created.length}.`;
+    default:
+      return created.length > 0
+        ? `Broke #${issueNumber} down into ${created.length} sub-issues.`
+        : `No sub-issues were generated for #${issueNumber}.`;
+  }
+}
+
+/**
+ * Retire a sub-issue so it is never reused
+ *
+ * The sub-issue is unlinked from its parent, labeled obsolete and closed.
+ * Sub-issues in other repositories are only unlinked.
+ *
+ * @returns whether the sub-issue was labeled and closed
+ */
+async function retireSubIssue(githubApi: EnhancedGitHubApi, parentIssueNumber: number, subIssue: ApiIssue): Promise<boolean> {
+  const repository = githubApi.getRepository();
+  await githubApi.removeSubIssue(parentIssueNumber, referenceFromIssue(subIssue, repository));
+  if (!sameRepository(repositoryFromIssue(subIssue) || repository, repository)) {
+    return false;
+  }
+
+  const labels = (subIssue.labels || []).map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean);
+  await githubApi.updateIssue(subIssue.number, {
+    labels: buildObsoleteLabels(labels),
+    state: 'closed'
+  });
+  core.info(`🗑️ Retired sub-issue #${subIssue.number}`);
+  return true;
+}
+
+/**
+ * Retire the current sub-issues of an issue so a new breakdown replaces them
+ *
+ * @returns numbers of the retired sub-issues
+ */
+export async function retireSubIssues(githubApi: EnhancedGitHubApi, issueNumber: number): Promise<number[]> {
+  const retired: number[] = [];
+  for (const subIssue of await githubApi.getSubIssues(issueNumber)) {
+    if (await retireSubIssue(githubApi, issueNumber, subIssue)) {
+      retired.push(subIssue.number);
+    }
+  }
+  return retired;
+}
+
+/**
+ * Sub-issues of an earlier breakdown of the issue, by task key
+ *
+ * Only open or closed sub-issues in the issue's repository that carry a task
+ * key scoped to the issue count; retired sub-issues are skipped.
+ */
+function findBreakdownSubIssues(githubApi: EnhancedGitHubApi, parentIssue: ParentIssue): Map<string, ApiIssue> {
+  const repository = githubApi.getRepository();
+  const scope = `issue-${parentIssue.number}/`;
+  const byKey = new Map<string, ApiIssue>();
+
+  for (const subIssue of parentIssue.subIssues) {
+    const labels = (subIssue.labels || []).map(label => typeof label === 'string' ? label : label.name || '');
+    const key = extractTaskKey(subIssue.body);
+    if (key?.startsWith(scope) && !labels.includes(OBSOLETE_LABEL) &&
+        sameRepository(repositoryFromIssue(subIssue) || repository, repository)) {
+      byKey.set(key, subIssue);
+    }
+  }
+  return byKey;
+}
+
+/**
+ * Record a finished breakdown run in the idempotency state
+ */
+function recordBreakdownRun(
+  idempotencyManager: IdempotencyManager,
+  issueNumber: number,
+  body: string,
+  args: Record<string, number>,
+  subIssueNumbers: number[],
+  error?: string
+): void {
+  try {
+    idempotencyManager.beginTransaction();
+    const runKey = idempotencyManager.recordBreakdownStart(issueNumber, body, args);
+    idempotencyManager.recordBreakdownComplete(runKey, subIssueNumbers, error);
+    idempotencyManager.commitTransaction();
+  } catch (recordError) {
+    core.warning(`Failed to record breakdown run of #${issueNumber}: ${recordError instanceof Error ? recordError.message : String(recordError)}`);
+  }
+}
+
+/**
+ * Options for a breakdown run
+ */
+export interface BreakdownOptions {
+  maxDepth: number;
+  complexityThreshold: number;
+  /** Validated command arguments, recorded in the breakdown state */
+  commandArgs: { [key: string]: any };
+  /** Retire the sub-issues of an earlier breakdown instead of updating them */
+  replace?: boolean;
+  /** Idempotency state recording breakdown runs; defaults to the state file in the working directory */
+  idempotencyManager?: IdempotencyManager;
+  /** Level of the issue in a recursive breakdown; 1 for the issue the command was posted on */
+  level?: number;
+  /** Policy limiting the number of sub-issues, with the command it applies to */
+  policy?: CommandPolicy;
+  policyRequest?: CommandPolicyRequest;
+  /** Sub-issues created so far by the command, shared by its recursive breakdowns */
+  subIssueBudget?: SubIssueBudget;
+}
+
+/**
+ * Sub-issues a breakdown command has created across all levels of a
+ * recursive breakdown, so the policy limit applies to the whole command
+ */
+export interface SubIssueBudget {
+  used: number;
+}
+
+/**
+ * Outcome of a breakdown run
+ */
+export interface BreakdownResult {
+  parentIssue: ParentIssue;
+  taskGraph: TaskGraph;
+  createdSubIssues: Issue[];
+  /** How an earlier breakdown of the issue was treated */
+  decision: BreakdownDecision;
+  /** Parent state after the breakdown; unset when no tasks were generated */
+  parentState?: ParentIssueState;
+  /** Set when the policy refused the breakdown's sub-issues */
+  policyDecision?: PolicyDecision;
+  consistencyCheck?: { isConsistent: boolean; issues: string[] };
+  /** Breakdowns of sub-issues that were too complex, one level deeper */
+  childBreakdowns?: BreakdownResult[];
+}
+
+/**
+ * Break an issue down into linked sub-issues
+ *
+ * Re-running a breakdown is idempotent: runs are keyed by the parent issue,
+ * its body (without the sections breakdowns write) and the arguments. A run
+ * with the key of the previous one does nothing, any other run updates the
+ * earlier sub-issues in place unless `replace` is set.
+ *
+ * Sub-issues whose tasks are more complex than the threshold are broken down
+ * themselves, each level with one less depth, until `maxDepth` is used up.
+ */
+export async function breakdownIssue(
+  githubApi: EnhancedGitHubApi,
+  issueNumber: number,
+  config: TaskmasterConfig,
+  options: BreakdownOptions
+): Promise<BreakdownResult> {
+  const { maxDepth, complexityThreshold, commandArgs, level = 1 } = options;
+  const idempotencyManager = options.idempotencyManager || new IdempotencyManager();
+  // Every level of a recursive breakdown draws on the budget of the command
+  const subIssueBudget = options.subIssueBudget || { used: 0 };
+
+  // Step 2: Fetch parent issue data and initialize state manager
+  const stateManager = new ParentIssueStateManager(githubApi);
+  const projectSync = createProjectSync(githubApi, config.projectUrl);
+  
+  core.info(`🔍 Fetching parent issue #${issueNumber}...`);
+  const parentIssueData = await getIssue(githubApi, issueNumber);
+  const parentIssue: ParentIssue = {
+    ...parentIssueData,
+    subIssues: await githubApi.getSubIssues(issueNumber)
+  };
+  
+  core.info(`📊 Parent issue: ${parentIssue.title}`);
+
+  // Decide how to treat an earlier breakdown: the run key in the summary is
+  // authoritative, the idempotency state covers summaries that were edited away
+  const runBody = stripBreakdownSections(parentIssue.body || '');
+  const runArgs = { complexityThreshold, maxDepth };
+  const runKey = idempotencyManager.calculateBreakdownRunKey(issueNumber, runBody, runArgs);
+  const existingSubIssues = findBreakdownSubIssues(githubApi, parentIssue);
+  const recordedRun = idempotencyManager.getLatestBreakdownRun(issueNumber);
+  const previousRunKey = extractBreakdownRunKey(parentIssue.body) ||
+    (recordedRun?.status === 'completed' && existingSubIssues.size > 0 ? recordedRun.runKey : undefined);
+
+  const decision: BreakdownDecision = {
+    mode: 'create',
+    runKey,
+    ...(previousRunKey ? { previousRunKey } : {}),
+    created: [],
+    updated: [],
+    unchanged: [],
+    retired: []
+  };
+  if (options.replace) {
+    decision.mode = previousRunKey || existingSubIssues.size > 0 ? 'replace' : 'create';
+  } else if (previousRunKey === runKey) {
+    decision.mode = 'noop';
+  } else if (previousRunKey || existingSubIssues.size > 0) {
+    decision.mode = 'update';
+  }
+  core.info(`🔑 Breakdown run ${runKey}: ${decision.mode}${previousRunKey ? ` (previous run ${previousRunKey})` : ''}`);
+
+  if (decision.mode === 'noop') {
+    decision.unchanged = Array.from(existingSubIssues.values()).map(issue => issue.number);
+    core.info(`⏭️ Parent issue #${issueNumber} was already broken down with these arguments, nothing to do`);
+    return { parentIssue, taskGraph: { tasks: [] }, createdSubIssues: [], decision };
+  }
+
+  if (decision.mode === 'replace') {
+    decision.retired = await retireSubIssues(githubApi, issueNumber);
+    parentIssue.subIssues = await githubApi.getSubIssues(issueNumber);
+    existingSubIssues.clear();
+  }
+
+  // Initialize breakdown state
+  const breakdownMetadata: BreakdownMetadata = {
+    executedAt: new Date(),
+    maxDepth,
+    complexityThreshold,
+    commandArgs,
+    level
+  };
+  
+  await stateManager.initializeBreakdown(issueNumber, breakdownMetadata);
+  core.info(`🚧 Initialized breakdown state for parent issue #${issueNumber}`);
+
+  // Step 3: Generate task breakdown by running the parent issue through the Taskmaster CLI
+  core.info(`🚀 Generating task breakdown...`);
+  
+  let taskGraph: TaskGraph;
+  try {
+    taskGraph = await generateTaskBreakdown(parentIssue, config, maxDepth, complexityThreshold);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await stateManager.failBreakdown(issueNumber, errorMessage);
+    recordBreakdownRun(idempotencyManager, issueNumber, runBody, runArgs, [], errorMessage);
+    throw error;
+  }
+  
+  if (!taskGraph.tasks || taskGraph.tasks.length === 0) {
+    core.warning('No breakdown tasks generated');
+    return { parentIssue, taskGraph, createdSubIssues: [], decision };
+  }
+  
+  core.info(`📋 Generated ${taskGraph.tasks.length} breakdown tasks`);
+
+  if (options.policy && options.policyRequest) {
+    // Sub-issues updated in place do not count towards the limit
+    const newTasks = taskGraph.tasks.filter(task => !existingSubIssues.has(buildSubIssueTaskKey(task, parentIssue)));
+    const policyDecision = await enforceSubIssueBudget({ ...options, subIssueBudget }, newTasks.length);
+    if (!policyDecision.allowed) {
+      core.warning(`🚫 Breakdown denied by policy: ${policyDecision.reason}`);
+      await stateManager.failBreakdown(issueNumber, `Denied by policy: ${policyDecision.reason}`);
+      recordBreakdownRun(idempotencyManager, issueNumber, runBody, runArgs, [], `Denied by policy: ${policyDecision.reason}`);
+      return { parentIssue, taskGraph, createdSubIssues: [], decision, policyDecision };
+    }
+  }
+
+  // Step 4: Create sub-issues using GitHub API, reusing those of an earlier breakdown
+  core.info(`🏗️ Creating sub-issues for breakdown...`);
+  
+  const createdSubIssues: Issue[] = [];
+  const idToIssue: Record<string, Issue> = {};
+  const reusedSubIssues = new Set<number>();
+  const changedSubIssues = new Set<number>();
+  
+  // Create sub-issues for each task
+  for (const task of taskGraph.tasks) {
+    try {
+      const existingIssue = existingSubIssues.get(buildSubIssueTaskKey(task, parentIssue));
+      const subIssue = existingIssue
+        ? await refreshSubIssueFromTask(githubApi, existingIssue, task, parentIssue)
+        : await createSubIssueFromTask(
+          githubApi,
+          task,
+          parentIssue,
+          undefined, // No parent task for breakdown
+          undefined  // Complexity is not scored for breakdown sub-issues
+        );
+      
+      createdSubIssues.push(subIssue);
+      idToIssue[String(task.id)] = subIssue;
+
+      if (existingIssue) {
+        reusedSubIssues.add(subIssue.number);
+        if (subIssue.title !== existingIssue.title) {
+          changedSubIssues.add(subIssue.number);
+        }
+        core.info(`♻️ Reused sub-issue #${subIssue.number}: ${task.title}`);
+      } else {
+        decision.created.push(subIssue.number);
+        core.info(`✅ Created sub-issue #${subIssue.number}: ${task.title}`);
+      }
+    } catch (error) {
+      core.error(`❌ Failed to create sub-issue for task ${task.id}: ${error}`);
+    }
+  }
+
+  // Step 5: Link sub-issues to parent via sub-issues API
+  core.info(`🔗 Linking sub-issues to parent #${parentIssue.number}...`);
+  
+  for (const subIssue of createdSubIssues) {
+    try {
+      await addSubIssueRelationship(githubApi, parentIssue, subIssue);
+    } catch (error) {
+      core.warning(`Failed to link sub-issue #${subIssue.number}: ${error}`);
+    }
+  }
+
+  // Update sub-issues with dependency relationships
+  core.info(`🔄 Updating sub-issues with dependencies...`);
+  const subIssueNumbers = createdSubIssues.map(issue => issue.number);
+  for (const task of taskGraph.tasks) {
+    const subIssue = idToIssue[String(task.id)];
+    if (!subIssue) continue;
+
+    // Update dependencies
+    const depIssues = task.dependencies?.map(depId => idToIssue[String(depId)]).filter(Boolean);
+    if (depIssues?.length) {
+      subIssue.expectedBody = updateIssueWithDependencies(subIssue.expectedBody, depIssues);
+    }
+
+    // Update required-by relationships
+    const reqByTasks = taskGraph.tasks.filter(t => t.dependencies?.includes(task.id));
+    const reqByIssues = reqByTasks.map(t => idToIssue[String(t.id)]).filter(Boolean);
+    if (reqByIssues?.length) {
+      subIssue.expectedBody = updateBodyWithRequiredBy(subIssue.expectedBody, reqByIssues);
+    }
+
+    // Update labels based on dependency status
+    const baseLabels = (subIssue.labels as any[])?.map(l => typeof l === 'string' ? l : l.name) || [];
+    const dependencyLabels = updateDependencyLabels(task, depIssues);
+    const updatedLabels = applyDependencyLabels(baseLabels, dependencyLabels);
+
+    // Update the issue if needed
+    if (subIssue.expectedBody !== subIssue.body || dependencyLabelsChanged(baseLabels, dependencyLabels)) {
+      try {
+        await githubApi.updateIssue(subIssue.number, {
+          body: subIssue.expectedBody,
+          labels: updatedLabels
+        });
+        changedSubIssues.add(subIssue.number);
+        core.info(`📝 Updated sub-issue #${subIssue.number} with dependencies and labels`);
+      } catch (error) {
+        core.warning(`Failed to update sub-issue #${subIssue.number}: ${error}`);
+      }
+    }
+
+    await syncIssueDependencyLinks(githubApi, subIssue.number, (depIssues || []).map(i => i.number), subIssueNumbers);
+    await syncIssueToProject(projectSync, subIssue, projectFieldsForTask(task, {
+      labels: updatedLabels,
+      parent: `#${parentIssue.number}`
+    }));
+  }
+
+  for (const number of reusedSubIssues) {
+    (changedSubIssues.has(number) ? decision.updated : decision.unchanged).push(number);
+  }
+
+  // Retire sub-issues of the earlier breakdown whose tasks are gone
+  for (const existingIssue of existingSubIssues.values()) {
+    if (reusedSubIssues.has(existingIssue.number)) continue;
+    try {
+      if (await retireSubIssue(githubApi, issueNumber, existingIssue)) {
+        decision.retired.push(existingIssue.number);
+      }
+    } catch (error) {
+      core.warning(`Failed to retire sub-issue #${existingIssue.number}: ${error}`);
+    }
+  }
+
+  // Step 6: Complete breakdown and update parent issue state
+  core.info(`📝 Completing breakdown for parent issue #${parentIssue.number}...`);
+  
+  await stateManager.completeBreakdown(parentIssue.number, subIssueNumbers);
+  
+  // Replace the breakdown summary section of the body (legacy support); the
+  // run key marker lets the next run recognize this one
+  const currentIssue = await githubApi.getIssue(parentIssue.number);
+  const currentBody = currentIssue.body || '';
+  const strippedBody = currentBody
+    .replace(/\n*## Breakdown Summary\n[\s\S]*?\n\*Breakdown executed on [^\n]*\*\n?/, '')
+    .trimEnd();
+  const summaryHead = `
+
+## Breakdown Summary
+Generated ${createdSubIssues.length} sub-issues from breakdown command:
+${createdSubIssues.map(issue => `- [ ] #${issue.number} ${issue.title}`).join('\n')}
+`;
+  const summaryTail = `
+${breakdownRunMarker(runKey)}
+*Breakdown executed on ${new Date().toISOString()} with max-depth=${maxDepth}, complexity-threshold=${complexityThreshold}*
+`;
+  const dependencyGraph = renderBreakdownGraph(
+    taskGraph,
+    idToIssue,
+    GITHUB_COMMENT_MAX_LENGTH - strippedBody.length - summaryHead.length - summaryTail.length
+  );
+  const updatedParentBody = strippedBody + summaryHead + dependencyGraph + summaryTail;
+  if (updatedParentBody !== currentBody) {
+    try {
+      await githubApi.updateIssue(parentIssue.number, {
+        body: updatedParentBody
+      });
+      core.info(`📝 Updated breakdown summary of parent issue #${parentIssue.number}`);
+    } catch (error) {
+      core.warning(`Failed to update parent issue body: ${error}`);
+    }
+  }
+
+  recordBreakdownRun(idempotencyManager, issueNumber, runBody, runArgs, subIssueNumbers);
+
+  // Step 7: Break down sub-issues that are still too complex, then refresh
+  // this issue's state from theirs
+  const childBreakdowns = await breakdownComplexSubIssues(githubApi, config, { ...options, subIssueBudget }, taskGraph, idToIssue, idempotencyManager);
+  if (childBreakdowns.length > 0) {
+    await stateManager.refreshParentState(parentIssue.number);
+  }
+
+  // Validate state consistency
+  const consistencyCheck = await stateManager.validateStateConsistency(parentIssue.number);
+  if (!consistencyCheck.isConsistent) {
+    core.warning(`State consistency issues detected for parent #${parentIssue.number}:`);
+    for (const issue of consistencyCheck.issues) {
+      core.warning(`  - ${issue}`);
+    }
+  } else {
+    core.info(`✅ Parent issue state is consistent`);
+  }
+
+  return {
+    parentIssue,
+    taskGraph,
+    createdSubIssues,
+    decision,
+    parentState: stateManager.getState(parentIssue.number),
+    consistencyCheck,
+    childBreakdowns
+  };
+}
+
+/**
+ * Dependency graph of a breakdown's sub-issues for the parent's breakdown
+ * summary, labeled with their issue numbers; empty when it does not fit in
+ * `maxLength`
+ */
+export function renderBreakdownGraph(taskGraph: TaskGraph, idToIssue: Record<string, Issue>, maxLength: number): string {
+  const heading = '\n### Dependency Graph\n';
+  const issueNumbers = Object.fromEntries(Object.entries(idToIssue).map(([taskId, issue]) => [taskId, issue.number]));
+  const flowchart = renderMermaidFlowchart(taskGraph, {
+    maxDisplayDepth: 1,
+    maxLength: maxLength - heading.length - 1,
+    issueNumbers
+  });
+  return flowchart.markdown ? `${heading}${flowchart.markdown}\n` : '';
+}
+
+/**
+ * Whether a task is complex enough to be broken down further
+ *
+ * Task complexity is scored 1-10 and the threshold runs 1-100, so scores are
+ * scaled by ten: with the default threshold of 40, tasks scoring 5 or more
+ * are broken down.
+ */
+export function exceedsComplexityThreshold(task: Task, complexityThreshold: number): boolean {
+  return calculateComplexityForTask(task) * 10 > complexityThreshold;
+}
+
+/**
+ * Check a breakdown's new sub-issues against the policy's per-command limit
+ * and take them from the command's budget when allowed
+ *
+ * Every level of a recursive breakdown draws on the same budget. Only the
+ * breakdown the command was posted on replies to a denial; deeper levels
+ * are skipped quietly.
+ */
+export async function enforceSubIssueBudget(options: BreakdownOptions, count: number): Promise<PolicyDecision> {
+  const budget = options.subIssueBudget || { used: 0 };
+  const total = budget.used + count;
+  const decision = (options.level || 1) === 1
+    ? await options.policy!.enforceSubIssueLimit(options.policyRequest!, total)
+    : options.policy!.checkSubIssueLimit(total);
+
+  if (decision.allowed) {
+    budget.used = total;
+  }
+  return decision;
+}
+
+/**
+ * Break down the open sub-issues whose tasks exceed the complexity threshold,
+ * one level deeper and with one less depth
+ *
+ * A failed child breakdown is logged and does not fail its parent's. Child
+ * breakdowns stop once the command's sub-issue budget is used up.
+ */
+async function breakdownComplexSubIssues(
+  githubApi: EnhancedGitHubApi,
+  config: TaskmasterConfig,
+  options: BreakdownOptions,
+  taskGraph: TaskGraph,
+  idToIssue: Record<string, Issue>,
+  idempotencyManager: IdempotencyManager
+): Promise<BreakdownResult[]> {
+  const level = options.level || 1;
+  if (options.maxDepth <= 1) {
+    return [];
+  }
+
+  const childBreakdowns: BreakdownResult[] = [];
+  for (const task of taskGraph.tasks) {
+    const subIssue = idToIssue[String(task.id)];
+    if (!subIssue || subIssue.state === 'closed' || !exceedsComplexityThreshold(task, options.complexityThreshold)) {
+      continue;
+    }
+
+    if (options.policy && options.subIssueBudget && options.subIssueBudget.used >= options.policy.maxSubIssues) {
+      core.info(`🛑 The limit of ${options.policy.maxSubIssues} sub-issues per command is used up; not breaking down further sub-issues`);
+      break;
+    }
+
+    core.info(`🪜 Sub-issue #${subIssue.number} scores ${calculateComplexityForTask(task)}/10, above threshold ${options.complexityThreshold}; breaking it down at level ${level + 1}`);
+    try {
+      childBreakdowns.push(await breakdownIssue(githubApi, subIssue.number, config, {
+        ...options,
+        maxDepth: options.maxDepth - 1,
+        replace: false,
+        idempotencyManager,
+        level: level + 1
+      }));
+    } catch (error) {
+      core.warning(`Failed to break down sub-issue #${subIssue.number}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return childBreakdowns;
+}
+
+/**
+ * A breakdown result followed by the results of its child breakdowns, depth first
+ */
+export function flattenBreakdownResults(result: BreakdownResult): BreakdownResult[] {
+  return [result, ...(result.childBreakdowns || []).flatMap(flattenBreakdownResults)];
+}
@@ -0,0 +1,206 @@
+/**
+ * Taskmaster Command Action
+ *
+ * This action runs slash commands posted as issue comments against the
+ * issue they were posted on:
+ * - /replan regenerates the issue's sub-issues
+ * - /split N, /merge #a #b, /estimate, /assign @user and /unbreakdown
+ * Triggered by issue comments starting with a registered command.
+ */
+
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import {
+  loadConfig,
+  TaskmasterConfig,
+  createGitHubApiClient,
+  createProjectSync,
+  createIssueCommandRegistry,
+  createCommandPolicy,
+  formatCommandUsage,
+  CommandReply,
+  BREAKDOWN_VALIDATION_CONFIG,
+  type CommandDefinition,
+  type CommandInvocation,
+  type IssueCommandContext
+} from '../../../scripts/index';
+import { breakdownIssue, flattenBreakdownResults } from '../../taskmaster-breakdown/src/breakdown';
+
+/**
+ * `/replan`: regenerate the sub-issues of an issue with the Taskmaster CLI
+ *
+ * Accepts the same arguments as `/breakdown`.
+ */
+function createReplanCommand(config: TaskmasterConfig): CommandDefinition<IssueCommandContext> {
+  return {
+    name: 'replan',
+    description: 'Regenerate the sub-issues of this issue',
+    permission: 'write',
+    args: BREAKDOWN_VALIDATION_CONFIG,
+    handler: async (invocation, context) => {
+      const args = invocation.args as { [key: string]: any };
+      const maxDepth = args.maxDepth || args.depth || config.breakdownMaxDepth || 2;
+      const complexityThreshold = args.complexityThreshold || args.threshold || args.complexity || config.complexityThreshold || 40;
+
+      const result = await breakdownIssue(context.githubApi, context.issueNumber, config, {
+        maxDepth,
+        complexityThreshold,
+        commandArgs: args,
+        replace: true,
+        policy: context.policy,
+        policyRequest: { command: 'replan', issueNumber: context.issueNumber, actor: context.actor, commentId: context.commentId }
+      });
+      if (result.policyDecision && !result.policyDecision.allowed) {
+        return { success: false, message: `/replan denied by policy: ${result.policyDecision.reason}` };
+      }
+
+      // Complex sub-issues are broken down recursively; count every level
+      const created = flattenBreakdownResults(result).flatMap(breakdown => breakdown.createdSubIssues.map(issue => issue.number));
+      return {
+        success: true,
+        message: `Replanned #${context.issueNumber}: retired ${result.decision.retired.length} and created ${created.length} sub-issues`,
+        issueNumbers: created
+      };
+    }
+  };
+}
+
+/**
+ * Positional arguments as reply arguments, e.g. `issues: #2 acme/api#7`
+ */
+function formatPositionalArgs(
+  definition: CommandDefinition<IssueCommandContext>,
+  positional: CommandInvocation['positional']
+): { [name: string]: string } {
+  const formatted: { [name: string]: string } = {};
+  for (const rule of definition.positional || []) {
+    const value = positional[rule.name];
+    if (value === undefined) continue;
+    formatted[rule.name] = (Array.isArray(value) ? value : [value]).map(v => {
+      if (typeof v === 'object') return `${v.owner}/${v.repo}#${v.number}`;
+      if (rule.type === 'issue') return `#${v}`;
+      if (rule.type === 'user') return `@${v}`;
+      return String(v);
+    }).join(' ');
+  }
+  return formatted;
+}
+
+async function run(): Promise<void> {
+  try {
+    core.info('⌨️ Starting Taskmaster Command action');
+
+    // Load configuration with priority: defaults < config files < env vars < action inputs
+    const config = loadConfig(
+      {
+        validate: true,
+        baseDir: process.cwd()
+      },
+      {
+        // Action input overrides
+        breakdownMaxDepth: core.getInput('breakdown-max-depth') ?
+          parseInt(core.getInput('breakdown-max-depth'), 10) : undefined,
+        complexityThreshold: core.getInput('complexity-threshold') ?
+          parseInt(core.getInput('complexity-threshold'), 10) : undefined,
+        taskmasterArgs: core.getInput('taskmaster-args') || undefined,
+        githubToken: core.getInput('github-token') || undefined,
+        taskmasterVersion: core.getInput('taskmaster-version') || undefined,
+        taskmasterBaseUrl: core.getInput('taskmaster-base-url') || undefined,
+        forceDownload: core.getInput('force-download') ?
+          core.getBooleanInput('force-download') : undefined,
+        projectUrl: core.getInput('project-url') || undefined
+      }
+    );
+
+    const context = github.context;
+    const payload = context.payload;
+
+    // Validate that this is an issue comment event
+    if (!payload.comment || !payload.issue) {
+      throw new Error('This action must be triggered by an issue comment event');
+    }
+
+    const commentBody: string = payload.comment.body || '';
+    const issueNumber: number = payload.issue.number;
+    const actor: string = payload.comment.user?.login || context.actor;
+
+    core.info(`📝 Processing comment by @${actor} on issue #${issueNumber}`);
+
+    const githubApi = createGitHubApiClient({
+      token: config.githubToken!,
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      debug: true
+    });
+
+    const registry = createIssueCommandRegistry();
+    registry.register(createReplanCommand(config));
+    core.info(`🧭 Registered commands: ${registry.names().map(name => `/${name}`).join(', ')}`);
+
+    // Acknowledge registered commands with 👀 while they are processed
+    const reply = new CommandReply(githubApi, issueNumber, payload.comment.id);
+    const parsed = registry.parse(commentBody);
+    if (parsed) {
+      await reply.acknowledge();
+    }
+
+    const result = await registry.dispatch(commentBody, {
+      githubApi,
+      issueNumber,
+      actor,
+      commentId: payload.comment.id,
+      policy: createCommandPolicy(githubApi, config),
+      projectSync: createProjectSync(githubApi, config.projectUrl)
+    });
+
+    core.setOutput('command', result.command || '');
+    core.setOutput('command-status', result.status);
+    core.setOutput('command-message', result.message);
+    core.setOutput('issue-numbers', JSON.stringify(result.result?.issueNumbers || []));
+
+    const command = result.command || '';
+    const args = parsed
+      ? { ...formatPositionalArgs(registry.get(parsed.command)!, parsed.invocation.positional), ...parsed.invocation.args }
+      : {};
+    switch (result.status) {
+      case 'not-found':
+        core.info('ℹ️ No command found in comment, nothing to do');
+        break;
+      case 'succeeded':
+        await reply.complete({
+          command,
+          status: 'succeeded',
+          message: result.message,
+          args,
+          issues: (result.result?.issueNumbers || []).map(number => ({ number }))
+        });
+        core.info(`✅ ${result.message}`);
+        break;
+      case 'denied':
+        // The policy already replied to the comment
+        await reply.decline();
+        core.warning(`🚫 ${result.message}`);
+        break;
+      default:
+        // Invalid commands get their usage, failed ones the handler's message
+        await reply.complete({
+          command,
+          status: result.status === 'invalid' ? 'invalid' : 'failed',
+          message: result.status === 'invalid' ? `Usage: \`${formatCommandUsage(registry.get(command)!)}\`` : result.message,
+          args,
+          errors: result.errors
+        });
+        for (const error of result.errors) {
+          core.error(`  - ${error}`);
+        }
+        core.setFailed(result.message);
+    }
+
+  } catch (error) {
+    const errorMessage = `Action failed: ${error instanceof Error ? error.message : String(error)}`;
+    core.setFailed(errorMessage);
+    core.error(errorMessage);
+  }
+}
+
+run();
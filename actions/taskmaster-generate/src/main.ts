@@ -11,10 +11,37 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { DefaultArtifactClient } from '@actions/artifact';
 import { setupTaskmasterCli, getTaskmasterConfigFromInputs, runTaskmasterCli, validateTaskGraph } from './taskmaster-cli';
-import { loadConfig, TaskmasterConfig } from '../../../scripts/index';
+import { loadConfig, TaskmasterConfig, BinaryInfo, findFiles, parsePatternList } from '../../../scripts/index';
+import { IdempotencyManager, IssueState } from '../../../scripts/idempotency-manager';
+import {
+  planIssueReconciliation,
+  issueStatesFromFrontMatter,
+  hasIssueChanged,
+  buildObsoleteLabels,
+  OBSOLETE_LABEL,
+  type DesiredIssue,
+  type ReconciledIssue,
+  type ObsoleteIssueAction
+} from '../../../scripts/issue-reconciliation';
 import { createGitHubApiClient, EnhancedGitHubApi } from '../../../scripts/github-api';
-import { postTaskGraphPreview, PrCommentConfig } from '../../../scripts/pr-comment-manager';
+import { createArtifactManager } from '../../../scripts/artifact-manager';
+import { buildTaskKey, buildTaskKeyLine, buildPrdNamespace } from '../../../scripts/task-identity';
+import { dependencyLabelsForIssues, syncIssueDependencyLinks } from '../../../scripts/dependency-policy';
+import { formatIssueReference, referenceFromIssue, repositoryFromIssue, sameRepository } from '../../../scripts/issue-reference';
+import { createProjectSync, projectFieldsForTask, syncIssueToProject } from '../../../scripts/project-sync';
+import { calculateComplexityForTask, complexityLevel } from '../../../scripts/task-complexity';
+import { extractPrdMilestones, planMilestones, MilestoneManager, type MilestoneDefinition } from '../../../scripts/milestone-mapping';
+import { postTaskGraphPreview, PrCommentConfig, PreviewCommentResult } from '../../../scripts/pr-comment-manager';
 import { TaskGraph as MarkdownTaskGraph } from '../../../scripts/markdown-formatter';
+import { writeTaskGraphReports } from '../../../scripts/task-graph-renderers';
+import {
+  snapshotTaskGraph,
+  snapshotIssueStates,
+  attachIssueNumbers,
+  diffTaskGraphs,
+  formatTaskGraphDiff,
+  type TaskGraphDiff
+} from '../../../scripts/task-graph-diff';
 import { components } from "@octokit/openapi-types";
 
 // GitHub API types
@@ -33,59 +60,66 @@ interface Task {
   dependencies?: number[];
   status?: string;
   subtasks?: Task[];
+  /** Target repository (`owner/repo`); subtasks inherit their parent's */
+  repository?: string;
+  /** Effort estimate, copied to the project board's Estimate field */
+  estimate?: number;
+  /** Title of the milestone the task's issue is assigned to */
+  milestone?: string;
   // Added by app logic
   requiredBy?: Task[];
 }
 
 interface TaskGraph {
   tasks: Task[];
+  milestones?: MilestoneDefinition[];
   metadata?: any;
 }
 
-const UNIQUE_MARKER = '<!-- created-by-taskmaster-script -->';
+/**
+ * Result of uploading a task graph artifact
+ */
+interface ArtifactUploadResult {
+  /** Name the artifact was uploaded under */
+  artifactName: string;
+  /** Artifact ID assigned by GitHub */
+  artifactId?: number;
+  /** Uploaded size in bytes */
+  artifactSize?: number;
+  /** Structured metadata describing the task graph */
+  metadata: Record<string, string>;
+}
 
 /**
- * Calculate complexity score for a task based on various factors
+ * Outcome of processing a single PRD file
  */
-function calculateComplexityForTask(task: Task, allTasks: Task[]): number {
-  let complexity = 1; // Base complexity
-  
-  // Add complexity based on description length
-  if (task.description) {
-    complexity += Math.min(task.description.length / 100, 3);
-  }
-  
-  // Add complexity based on details length
-  if (task.details) {
-    complexity += Math.min(task.details.length / 200, 3);
-  }
-  
-  // Add complexity based on number of dependencies
-  if (task.dependencies) {
-    complexity += task.dependencies.length * 0.5;
-  }
-  
-  // Add complexity based on number of subtasks
-  if (task.subtasks) {
-    complexity += task.subtasks.length * 0.3;
-  }
-  
-  // Priority affects complexity
-  switch (task.priority?.toLowerCase()) {
-    case 'critical':
-      complexity += 2;
-      break;
-    case 'high':
-      complexity += 1;
-      break;
-    case 'low':
-      complexity -= 0.5;
-      break;
-  }
-  
-  return Math.min(Math.max(Math.round(complexity), 1), 10);
+interface PrdProcessingResult {
+  /** PRD file path */
+  prdFile: string;
+  /** Namespace prefixed to this PRD's issue titles and task keys */
+  namespace: string;
+  /** Processing status */
+  status: 'completed' | 'skipped' | 'failed';
+  /** Path to the generated task graph */
+  taskGraphPath?: string;
+  /** Reports rendered next to the task graph, by format */
+  reports?: Record<string, string>;
+  /** Number of top-level tasks in the task graph */
+  taskCount: number;
+  /** Issues created or updated from this PRD */
+  issueNumbers: number[];
+  /** Issues retired because their task disappeared from this PRD */
+  retiredIssueNumbers: number[];
+  /** Uploaded task graph artifact */
+  artifact?: ArtifactUploadResult;
+  /** Preview comment posted for this PRD (dry-run on pull requests) */
+  previewComment?: PreviewCommentResult;
+  /** Error message if processing failed */
+  error?: string;
 }
 
+const UNIQUE_MARKER = '<!-- created-by-taskmaster-script -->';
+
 /**
  * Check if a task is blocked by dependencies
  */
@@ -169,8 +203,10 @@ function getArtifactSizeInfo(filePath: string): { sizeBytes: number; sizeKB: num
 async function uploadTaskGraphArtifact(
   taskGraphPath: string, 
   config: TaskmasterConfig,
-  prdFilePath: string
-): Promise<void> {
+  prdFilePath: string,
+  artifactName: string = 'taskmaster-artifacts',
+  reportPaths: string[] = []
+): Promise<ArtifactUploadResult> {
   core.info('📤 Uploading task graph as artifact with metadata...');
   
   let tempArtifactDir: string | undefined;
@@ -253,9 +289,17 @@ async function uploadTaskGraphArtifact(
     // Copy the task graph to the required path
     fs.copyFileSync(taskGraphPath, artifactTaskGraphPath);
     
-    // Upload artifact with the required directory structure
-    const artifactName = 'taskmaster-artifacts';
+    // Reports are named after the task graph, so they keep its suffix (.html, .csv) in the artifact
     const files = [artifactTaskGraphPath];
+    const taskGraphBaseName = path.basename(taskGraphPath, '.json');
+    for (const reportPath of reportPaths) {
+      const suffix = path.basename(reportPath).slice(taskGraphBaseName.length);
+      const artifactReportPath = path.join(artifactTaskmasterDir, `task-graph${suffix}`);
+      fs.copyFileSync(reportPath, artifactReportPath);
+      files.push(artifactReportPath);
+    }
+
+    // Upload artifact with the required directory structure
     const rootDirectory = tempArtifactDir;
     
     const uploadResponse = await artifactClient.uploadArtifact(
@@ -275,19 +319,12 @@ async function uploadTaskGraphArtifact(
     core.info(`  • Upload URL: Available in GitHub Actions UI`);
     core.info(`  • Artifact Path: artifacts/taskmaster/task-graph.json`);
     
-    // Set outputs for other steps
-    if (uploadResponse.id) {
-      core.setOutput('artifact-id', uploadResponse.id.toString());
-    }
-    core.setOutput('artifact-name', artifactName);
-    if (uploadResponse.size) {
-      core.setOutput('artifact-size', uploadResponse.size.toString());
-    }
-    
-    // Export metadata as outputs for potential use by other actions
-    Object.entries(metadata).forEach(([key, value]) => {
-      core.setOutput(`metadata-${key.replace(/_/g, '-')}`, value);
-    });
+    return {
+      artifactName,
+      artifactId: uploadResponse.id,
+      artifactSize: uploadResponse.size,
+      metadata
+    };
     
   } catch (error) {
     const errorMessage = `Failed to upload artifact: ${error instanceof Error ? error.message : String(error)}`;
@@ -308,85 +345,23 @@ async function uploadTaskGraphArtifact(
 }
 
 /**
- * Find PRD files matching the given glob pattern
- * Simple implementation using Node.js built-in functions
+ * Find PRD files matching the given glob pattern list, honouring .taskmasterignore
  */
 function findPrdFiles(pattern: string): string[] {
-  // For simplicity, support basic patterns like "docs/*.prd.md" or "*.prd.md"
-  const basePath = process.cwd();
-  const files: string[] = [];
-  
-  // Handle simple glob patterns
-  if (pattern.includes('*')) {
-    const parts = pattern.split('/');
-    let currentPath = basePath;
-    
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      
-      if (part === '.' || part === '') {
-        continue;
-      }
-      
-      if (part.includes('*')) {
-        // This is a wildcard part, scan the directory
-        if (fs.existsSync(currentPath) && fs.statSync(currentPath).isDirectory()) {
-          const entries = fs.readdirSync(currentPath);
-          
-          for (const entry of entries) {
-            const entryPath = path.join(currentPath, entry);
-            
-            if (i === parts.length - 1) {
-              // Last part, check if it matches the pattern and is a file
-              if (fs.statSync(entryPath).isFile() && matchesPattern(entry, part)) {
-                files.push(entryPath);
-              }
-            } else {
-              // Not the last part, continue recursively if it's a directory
-              if (fs.statSync(entryPath).isDirectory() && matchesPattern(entry, part)) {
-                const remainingPattern = parts.slice(i + 1).join('/');
-                const subFiles = findPrdFiles(path.join(entryPath, remainingPattern));
-                files.push(...subFiles);
-              }
-            }
-          }
-        }
-        break; // Stop processing after wildcard
-      } else {
-        // Regular directory name
-        currentPath = path.join(currentPath, part);
-      }
-    }
-  } else {
-    // No wildcards, just check if the file exists
-    const fullPath = path.resolve(basePath, pattern);
-    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
-      files.push(fullPath);
-    }
-  }
-  
-  return files;
-}
-
-/**
- * Simple pattern matching for basic wildcards
- */
-function matchesPattern(filename: string, pattern: string): boolean {
-  // Convert simple glob patterns to regex
-  const regexPattern = pattern
-    .replace(/\*/g, '.*')
-    .replace(/\?/g, '.');
-    
-  const regex = new RegExp(`^${regexPattern}$`, 'i');
-  return regex.test(filename);
+  return findFiles(parsePatternList(pattern), { cwd: process.cwd() });
 }
 
 /**
  * Helper to generate comprehensive labels for issues
  */
-function generateIssueLabels(task: Task, parentTask?: Task, complexityScore?: number): string[] {
+function generateIssueLabels(task: Task, parentTask?: Task, complexityScore?: number, namespace?: string): string[] {
   const labels = ['taskmaster'];
   
+  // PRD namespace label
+  if (namespace) {
+    labels.push(`prd:${namespace}`);
+  }
+  
   // Priority labels
   if (task.priority) {
     labels.push(`priority:${task.priority.toLowerCase()}`);
@@ -407,13 +382,7 @@ function generateIssueLabels(task: Task, parentTask?: Task, complexityScore?: nu
   
   // Complexity labels
   if (complexityScore !== undefined) {
-    if (complexityScore >= 8) {
-      labels.push('complexity:high');
-    } else if (complexityScore >= 5) {
-      labels.push('complexity:medium');
-    } else {
-      labels.push('complexity:low');
-    }
+    labels.push(`complexity:${complexityLevel(complexityScore)}`);
   }
   
   // Dependency status labels
@@ -429,36 +398,15 @@ function generateIssueLabels(task: Task, parentTask?: Task, complexityScore?: nu
   return labels;
 }
 
-/**
- * Helper to update issue labels based on dependency status
- */
-function updateDependencyLabels(task: Task, dependencyIssues: Issue[] | undefined): string[] {
-  const additionalLabels: string[] = [];
-  
-  if (!dependencyIssues || dependencyIssues.length === 0) {
-    return additionalLabels;
-  }
-  
-  const openDependencies = dependencyIssues.filter(issue => issue.state === 'open');
-  
-  if (openDependencies.length > 0) {
-    additionalLabels.push('blocked');
-    additionalLabels.push(`blocked-by:${openDependencies.length}`);
-  } else {
-    // All dependencies are closed, task is ready
-    additionalLabels.push('ready');
-  }
-  
-  return additionalLabels;
-}
-
 /**
  * Build YAML front-matter and issue body from task data
  */
-function buildIssueBody(task: Task, parentIssue?: Issue): string {
+function buildIssueBody(task: Task, parentTask?: Task, parentIssue?: Issue, namespace?: string): string {
   const yamlLines = [
     '---',
     `id: ${task.id}`,
+    buildTaskKeyLine(buildTaskKey(parentTask ? `${parentTask.id}.${task.id}` : task.id, namespace)),
+    namespace ? `prd: ${namespace}` : '',
     parentIssue ? `parent: ${parentIssue.number}` : '',
     task.dependencies && task.dependencies.length > 0 ? 
       `dependencies: [${task.dependencies.join(', ')}]` : '',
@@ -499,12 +447,14 @@ function buildIssueBody(task: Task, parentIssue?: Issue): string {
 
 /**
  * Update issue body with dependency links
+ *
+ * Dependencies in other repositories are written as `owner/repo#N`.
  */
-function updateIssueWithDependencies(body: string, dependencyIssues: Issue[]): string {
+function updateIssueWithDependencies(body: string, dependencyIssues: Issue[], repository: string): string {
   if (!dependencyIssues?.length) return body;
   
   const depSection = `## Dependencies\n${dependencyIssues.map(i => 
-    `- [${i.state === 'closed' ? 'x' : ' '}] #${i.number}`
+    `- [${i.state === 'closed' ? 'x' : ' '}] ${formatIssueReference(referenceFromIssue(i, repository), repository)}`
   ).join('\n')}\n\n`;
   
   return body.replace(/## Dependencies[\s\S]+?\n\n/, depSection);
@@ -512,38 +462,62 @@ function updateIssueWithDependencies(body: string, dependencyIssues: Issue[]): s
 
 /**
  * Update issue body with required-by links
+ *
+ * Dependents in other repositories are written as `owner/repo#N`.
  */
-function updateBodyWithRequiredBy(body: string, requiredByIssues: Issue[]): string {
+function updateBodyWithRequiredBy(body: string, requiredByIssues: Issue[], repository: string): string {
   if (!requiredByIssues?.length) return body;
   
   const reqBySection = `## Required By\n${requiredByIssues.map(i => 
-    `- [ ] #${i.number}`
+    `- [ ] ${formatIssueReference(referenceFromIssue(i, repository), repository)}`
   ).join('\n')}\n\n`;
   
   // Add before the UNIQUE_MARKER
   return body.replace(UNIQUE_MARKER, `${reqBySection}${UNIQUE_MARKER}`);
 }
 
+/**
+ * Build the issue title for a task, e.g. `[3] Title`, `[3.1] Title` or `[billing:3] Title`
+ */
+function buildIssueTitle(task: Task, parentTask?: Task, namespace?: string): string {
+  const prefix = namespace ? `${namespace}:` : '';
+  return parentTask ? `[${prefix}${parentTask.id}.${task.id}] ${task.title}` : `[${prefix}${task.id}] ${task.title}`;
+}
+
 /**
  * Create or get an existing issue for a task
  */
-async function createOrGetIssue(githubApi: EnhancedGitHubApi, task: Task, parentTask?: Task, parentIssue?: Issue): Promise<Issue> {
-  const title = parentTask ? `[${parentTask.id}.${task.id}] ${task.title}` : `[${task.id}] ${task.title}`;
+async function createOrGetIssue(
+  githubApi: EnhancedGitHubApi,
+  task: Task,
+  parentTask?: Task,
+  parentIssue?: Issue,
+  namespace?: string
+): Promise<Issue> {
+  const title = buildIssueTitle(task, parentTask, namespace);
+  const body = buildIssueBody(task, parentTask, parentIssue, namespace);
   
-  // Check if issue already exists
-  const existingIssue = await githubApi.findExistingIssue(title, UNIQUE_MARKER);
+  // Check if issue already exists, preferring its stable task key over the title
+  const taskId = parentTask ? `${parentTask.id}.${task.id}` : task.id;
+  const existingIssue = await githubApi.findExistingIssue(title, UNIQUE_MARKER, {
+    taskKey: buildTaskKey(taskId, namespace),
+    // Issues of single-PRD repositories were keyed without a namespace
+    legacyTaskKey: namespace ? buildTaskKey(taskId) : undefined,
+    description: task.description,
+    fuzzyMatch: true,
+    excludeLabels: [OBSOLETE_LABEL]
+  });
   
   if (existingIssue) {
     core.info(`Found existing issue #${existingIssue.number}: ${title}`);
     return {
       ...existingIssue,
-      expectedBody: buildIssueBody(task, parentIssue)
+      expectedBody: body
     };
   }
 
   // Create new issue
-  const body = buildIssueBody(task, parentIssue);
-  const labels = generateIssueLabels(task, parentTask);
+  const labels = generateIssueLabels(task, parentTask, undefined, namespace);
   
   core.info(`Creating issue: ${title}`);
   const newIssue = await githubApi.createIssue({
@@ -560,19 +534,13 @@ async function createOrGetIssue(githubApi: EnhancedGitHubApi, task: Task, parent
 
 /**
  * Add a sub-issue relationship using GitHub's sub-issue API
+ *
+ * `githubApi` is the client for the parent's repository; the sub-issue may
+ * live in another repository.
  */
 async function addSubIssue(githubApi: EnhancedGitHubApi, parentIssue: ParentIssue, subIssue: Issue): Promise<void> {
   try {
-    // Try to add the sub-issue using GitHub's sub-issue API via the octokit client
-    await githubApi.executeWithRetry(async () => {
-      return await githubApi.client.request('PUT /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/{sub_issue_number}', {
-        owner: github.context.repo.owner,
-        repo: github.context.repo.repo,
-        issue_number: parentIssue.number,
-        sub_issue_number: subIssue.number
-      });
-    }, 'add-sub-issue');
-    
+    await githubApi.addSubIssue(parentIssue.number, referenceFromIssue(subIssue, githubApi.getRepository()));
     core.info(`Added issue #${subIssue.number} as sub-issue of #${parentIssue.number}`);
   } catch (error) {
     core.warning(`Failed to add sub-issue relationship: ${error}`);
@@ -581,19 +549,84 @@ async function addSubIssue(githubApi: EnhancedGitHubApi, parentIssue: ParentIssu
   }
 }
 
+/**
+ * Remove a sub-issue relationship using GitHub's sub-issue API
+ *
+ * `githubApi` is the client for the parent's repository.
+ */
+async function removeSubIssue(githubApi: EnhancedGitHubApi, parentIssueNumber: number, subIssue: ApiIssue): Promise<void> {
+  try {
+    await githubApi.removeSubIssue(parentIssueNumber, referenceFromIssue(subIssue, githubApi.getRepository()));
+    core.info(`Removed issue #${subIssue.number} from sub-issues of #${parentIssueNumber}`);
+  } catch (error) {
+    core.warning(`Failed to remove sub-issue relationship: ${error}`);
+  }
+}
+
+/**
+ * Options controlling how a task graph is published as issues
+ */
+interface IssuePublishOptions {
+  /** Namespace prefixed to issue titles */
+  namespace?: string;
+  /** Idempotency state to record issues in (requires an active transaction) */
+  idempotencyManager?: IdempotencyManager;
+  /** Content hash of the PRD being processed */
+  contentHash?: string;
+  /** Issues recorded from previous runs of this PRD; enables reconciliation */
+  previousIssues?: IssueState[];
+  /** What to do with issues whose task disappeared */
+  obsoleteIssueAction?: ObsoleteIssueAction;
+  /** Projects v2 board to place issues on */
+  projectUrl?: string;
+  /** Milestones declared by the PRD's phase and release sections */
+  milestones?: MilestoneDefinition[];
+  /** Days per task on a milestone's critical path when deriving due dates (0 to disable) */
+  milestoneDaysPerTask?: number;
+}
+
+/**
+ * Issues touched while publishing a task graph
+ */
+interface IssuePublishResult {
+  /** Issues created or updated for tasks in the graph */
+  issueNumbers: number[];
+  /** Issues retired because their task disappeared */
+  retiredIssueNumbers: number[];
+}
+
 /**
  * Parse task graph and create GitHub issues
+ * 
+ * When issues from a previous run are supplied, the graph is reconciled
+ * against them: recorded issues are reused and updated in place, and issues
+ * whose task disappeared are retired.
+ *
+ * Tasks with a `repository` get their issues in that repository; dependencies
+ * and sub-issues between repositories are linked by `owner/repo#N`. Only
+ * issues in the workflow's repository are recorded in the idempotency state,
+ * which is keyed by issue number; the others are found again by task key.
+ *
+ * Issues are assigned to the milestones declared by the PRD or task graph,
+ * which are created in each issue's repository when missing.
  */
-async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken: string): Promise<number> {
+async function parseTaskGraphAndCreateIssues(
+  taskGraphPath: string,
+  githubToken: string,
+  options: IssuePublishOptions = {}
+): Promise<IssuePublishResult> {
   core.info('📋 Parsing task graph and creating GitHub issues...');
   
+  const { namespace, idempotencyManager, contentHash } = options;
+  const result: IssuePublishResult = { issueNumbers: [], retiredIssueNumbers: [] };
+  
   // Read and parse task graph
   const taskGraphContent = fs.readFileSync(taskGraphPath, 'utf8');
   const taskGraph: TaskGraph = JSON.parse(taskGraphContent);
   
   if (!taskGraph.tasks || taskGraph.tasks.length === 0) {
     core.warning('No tasks found in task graph');
-    return 0;
+    return result;
   }
 
   // Create GitHub API client
@@ -608,6 +641,19 @@ async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken:
     debug: false
   });
 
+  const projectSync = createProjectSync(githubApi, options.projectUrl);
+
+  /**
+   * Client for the repository an issue lives in
+   */
+  const clientForIssue = (issue: ApiIssue): EnhancedGitHubApi => githubApi.forRepository(repositoryFromIssue(issue));
+
+  /**
+   * Client for the repository a task's issue belongs in
+   */
+  const clientForTask = (task: Task, parentTask?: Task): EnhancedGitHubApi =>
+    githubApi.forRepository(task.repository || parentTask?.repository);
+
   // Build required-by relationships
   const tasks = taskGraph.tasks;
   for (const task of tasks) {
@@ -620,14 +666,160 @@ async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken:
     }
   }
 
+  // Map tasks to milestones, deriving missing due dates from the critical path
+  const milestonePlan = planMilestones(taskGraph, {
+    declared: options.milestones,
+    daysPerTask: options.milestoneDaysPerTask
+  });
+  const milestoneManager = new MilestoneManager();
+
+  if (milestonePlan.milestones.size > 0) {
+    core.info(`🏁 ${milestonePlan.milestones.size} milestone(s), ${milestonePlan.assignments.size} task(s) assigned: ` +
+      Array.from(milestonePlan.milestones.values())
+        .map(m => m.dueOn ? `${m.title} (due ${m.dueOn.slice(0, 10)})` : m.title)
+        .join(', '));
+  }
+
+  /**
+   * Number of the milestone a task's issue belongs to, creating the milestone when missing
+   */
+  const resolveMilestone = async (taskId: string, issueApi: EnhancedGitHubApi): Promise<number | undefined> => {
+    const title = milestonePlan.assignments.get(taskId);
+    if (!title) {
+      return undefined;
+    }
+
+    try {
+      return await milestoneManager.ensureMilestone(issueApi, milestonePlan.milestones.get(title)!);
+    } catch (error) {
+      core.warning(`Failed to create or find milestone "${title}" in ${issueApi.getRepository()}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+
+  // Diff the task graph against issues recorded for this PRD
+  const desiredIssues: DesiredIssue[] = [];
+  for (const task of tasks) {
+    desiredIssues.push({
+      taskId: String(task.id),
+      dependencies: (task.dependencies || []).map(String)
+    });
+    for (const sub of task.subtasks || []) {
+      desiredIssues.push({
+        taskId: `${task.id}.${sub.id}`,
+        parentTaskId: String(task.id),
+        dependencies: (sub.dependencies || []).map(depId => `${task.id}.${depId}`)
+      });
+    }
+  }
+
+  // Idempotency state does not outlive the workflow run that wrote it, so
+  // without recorded issues the PRD's issues are rebuilt from their front-matter
+  let previousIssues = options.previousIssues;
+  if (previousIssues && previousIssues.length === 0 && namespace) {
+    previousIssues = issueStatesFromFrontMatter(
+      await githubApi.listLabelledIssues('taskmaster'),
+      namespace,
+      body => idempotencyManager ? idempotencyManager.calculateIssueBodyHash(body) : ''
+    );
+    for (const issue of previousIssues) {
+      idempotencyManager?.restoreIssueState({ ...issue, sourceHash: contentHash || '' });
+    }
+  }
+
+  const plan = previousIssues ? planIssueReconciliation(desiredIssues, previousIssues) : undefined;
+  const matchedByTask = new Map<string, ReconciledIssue>(plan ? plan.matched.map(m => [m.desired.taskId, m]) : []);
+  const desiredByTask = new Map<string, DesiredIssue>(desiredIssues.map(d => [d.taskId, d]));
+
+  if (plan) {
+    core.info(`🔁 Reconciling with ${previousIssues!.length} recorded issue(s): ` +
+      `${plan.toCreate.length} new, ${plan.matched.length} existing, ${plan.toRetire.length} obsolete`);
+  }
+
+  /**
+   * Reuse the recorded issue for a task when there is one, otherwise find or create it by title
+   */
+  const resolveIssue = async (task: Task, parentTask?: Task, parentIssue?: Issue): Promise<Issue> => {
+    const taskId = parentTask ? `${parentTask.id}.${task.id}` : String(task.id);
+    const match = matchedByTask.get(taskId);
+    
+    if (match) {
+      try {
+        const existingIssue = await clientForTask(task, parentTask).getIssue(match.recorded.issueNumber);
+        core.info(`Reconciling recorded issue #${existingIssue.number} for task ${taskId}`);
+        return {
+          ...existingIssue,
+          expectedBody: buildIssueBody(task, parentTask, parentIssue, namespace)
+        };
+      } catch (error) {
+        core.warning(`Recorded issue #${match.recorded.issueNumber} for task ${taskId} could not be loaded, looking it up by title: ${error instanceof Error ? error.message : String(error)}`);
+        matchedByTask.delete(taskId);
+      }
+    }
+    
+    return createOrGetIssue(clientForTask(task, parentTask), task, parentTask, parentIssue, namespace);
+  };
+
+  /**
+   * Push the expected title, body, labels and milestone to an issue if anything changed, and record it
+   */
+  const syncIssue = async (issue: Issue, taskId: string, title: string, labels: string[], milestone?: number): Promise<void> => {
+    const match = matchedByTask.get(taskId);
+    const desired = desiredByTask.get(taskId)!;
+    const bodyHash = idempotencyManager ? idempotencyManager.calculateIssueBodyHash(issue.expectedBody) : '';
+    // An issue retired (and possibly closed) while its task was gone is live again
+    const reopen = match !== undefined && match.revived && match.recorded.issueNumber === issue.number && issue.state === 'closed';
+    
+    const needsUpdate = reopen ||
+      issue.expectedBody !== issue.body ||
+      issue.title !== title ||
+      (milestone !== undefined && issue.milestone?.number !== milestone) ||
+      (match !== undefined && idempotencyManager !== undefined && hasIssueChanged(match.recorded, bodyHash, labels));
+    
+    if (needsUpdate) {
+      await clientForIssue(issue).updateIssue(issue.number, {
+        title,
+        body: issue.expectedBody,
+        labels,
+        ...(milestone !== undefined ? { milestone } : {}),
+        ...(reopen ? { state: 'open' as const } : {})
+      });
+      core.info(`${reopen ? 'Reopened' : 'Updated'} issue #${issue.number} with dependencies and labels.`);
+    }
+
+    if (!idempotencyManager || !contentHash || !sameRepository(clientForIssue(issue).getRepository(), githubApi.getRepository())) {
+      return;
+    }
+    
+    if (match && match.recorded.issueNumber === issue.number) {
+      idempotencyManager.recordIssueReconciliation(issue.number, {
+        sourceHash: contentHash,
+        body: issue.expectedBody,
+        labels,
+        state: reopen ? 'open' : undefined,
+        dependencies: desired.dependencies,
+        parentTaskId: desired.parentTaskId
+      });
+    } else {
+      idempotencyManager.recordIssueCreation(
+        issue.number,
+        taskId,
+        contentHash,
+        issue.expectedBody,
+        labels,
+        desired.dependencies,
+        desired.parentTaskId
+      );
+    }
+  };
+
   const idToIssue: Record<string, Issue> = {};
-  let issuesCreated = 0;
 
   // Create issues for main tasks first
   for (const task of tasks) {
-    const issue = await createOrGetIssue(githubApi, task);
+    const issue = await resolveIssue(task);
     idToIssue[String(task.id)] = issue;
-    issuesCreated++;
+    result.issueNumbers.push(issue.number);
 
     // Create issues for subtasks
     if (task.subtasks) {
@@ -635,59 +827,81 @@ async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken:
       parentIssue.subIssues = [];
 
       for (const sub of task.subtasks) {
-        const subIssue = await createOrGetIssue(githubApi, sub, task, issue);
+        const subIssue = await resolveIssue(sub, task, issue);
         idToIssue[`${task.id}.${sub.id}`] = subIssue;
         
         // Add to parent's sub-issues list
         parentIssue.subIssues.push(subIssue);
         
         // Try to create sub-issue relationship
-        await addSubIssue(githubApi, parentIssue, subIssue);
-        issuesCreated++;
+        await addSubIssue(clientForIssue(parentIssue), parentIssue, subIssue);
+        result.issueNumbers.push(subIssue.number);
       }
     }
   }
 
+  // Re-link tasks that moved to a different parent
+  for (const match of matchedByTask.values()) {
+    if (!match.parentChanged || !match.recorded.parentTaskId) continue;
+    
+    const previousParent = previousIssues!.find(i => i.taskId === match.recorded.parentTaskId);
+    const issue = idToIssue[match.desired.taskId];
+    if (previousParent && issue) {
+      // Recorded issues always live in the workflow's repository
+      await removeSubIssue(githubApi, previousParent.issueNumber, issue);
+    }
+  }
+
+  // Native dependency links between issues of this task graph are owned by the PRD.
+  // They are qualified by repository since links are synced through the client
+  // of each issue's repository; retired issues are always in the workflow's
+  const managedIssues = [
+    ...Object.values(idToIssue).map(i => referenceFromIssue(i, githubApi.getRepository())),
+    ...(plan?.toRetire || []).map(i => referenceFromIssue({ number: i.issueNumber }, githubApi.getRepository()))
+  ];
+
   // Update issues with dependency links and labels
   for (const task of tasks) {
     const issue = idToIssue[String(task.id)];
+    const issueApi = clientForIssue(issue);
+    const repository = issueApi.getRepository();
     
     const depIssues = task.dependencies?.map(depId => idToIssue[String(depId)]).filter(Boolean);
     if (depIssues?.length) {
-      issue.expectedBody = updateIssueWithDependencies(issue.expectedBody, depIssues);
+      issue.expectedBody = updateIssueWithDependencies(issue.expectedBody, depIssues, repository);
     }
 
     const reqByIssues = task.requiredBy?.map(reqBy => idToIssue[String(reqBy.id)]).filter(Boolean);
     if (reqByIssues?.length) {
-      issue.expectedBody = updateBodyWithRequiredBy(issue.expectedBody, reqByIssues);
+      issue.expectedBody = updateBodyWithRequiredBy(issue.expectedBody, reqByIssues, repository);
     }
 
     // Generate updated labels with dependency status
-    const baseLabels = generateIssueLabels(task);
-    const dependencyLabels = updateDependencyLabels(task, depIssues);
+    const baseLabels = generateIssueLabels(task, undefined, undefined, namespace);
+    const dependencyLabels = dependencyLabelsForIssues(depIssues);
     const updatedLabels = [...baseLabels, ...dependencyLabels];
 
-    // Update issue if needed
-    const needsUpdate = issue.expectedBody !== issue.body;
-    if (needsUpdate) {
-      await githubApi.updateIssue(issue.number, {
-        body: issue.expectedBody,
-        labels: updatedLabels,
-      });
-      core.info(`Updated issue #${issue.number} with dependencies and labels.`);
-    }
+    const milestone = await resolveMilestone(String(task.id), issueApi);
+    await syncIssue(issue, String(task.id), buildIssueTitle(task, undefined, namespace), updatedLabels, milestone);
+    await syncIssueToProject(projectSync, issue, projectFieldsForTask(task, {
+      labels: updatedLabels,
+      complexity: complexityLevel(calculateComplexityForTask(task))
+    }));
+    await syncIssueDependencyLinks(issueApi, issue.number, (depIssues || []).map(i => referenceFromIssue(i, repository)), managedIssues);
 
     // Update subtasks
     if (task.subtasks) {
       for (const sub of task.subtasks) {
         const subIssue = idToIssue[`${task.id}.${sub.id}`];
+        const subIssueApi = clientForIssue(subIssue);
+        const subRepository = subIssueApi.getRepository();
         
         const subDepIssues = sub.dependencies?.map(depId => 
           idToIssue[`${task.id}.${depId}`] || idToIssue[String(depId)]
         ).filter(Boolean);
         
         if (subDepIssues?.length) {
-          subIssue.expectedBody = updateIssueWithDependencies(subIssue.expectedBody, subDepIssues);
+          subIssue.expectedBody = updateIssueWithDependencies(subIssue.expectedBody, subDepIssues, subRepository);
         }
 
         const subReqByIssues = sub.requiredBy?.map(reqBy => 
@@ -695,23 +909,63 @@ async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken:
         ).filter(Boolean);
         
         if (subReqByIssues?.length) {
-          subIssue.expectedBody = updateBodyWithRequiredBy(subIssue.expectedBody, subReqByIssues);
+          subIssue.expectedBody = updateBodyWithRequiredBy(subIssue.expectedBody, subReqByIssues, subRepository);
         }
 
-        const subBaseLabels = generateIssueLabels(sub, task);
-        const subDependencyLabels = updateDependencyLabels(sub, subDepIssues);
+        const subBaseLabels = generateIssueLabels(sub, task, undefined, namespace);
+        const subDependencyLabels = dependencyLabelsForIssues(subDepIssues);
         const subUpdatedLabels = [...subBaseLabels, ...subDependencyLabels];
 
-        const subNeedsUpdate = subIssue.expectedBody !== subIssue.body;
-        if (subNeedsUpdate) {
-          await githubApi.updateIssue(subIssue.number, {
-            body: subIssue.expectedBody,
-            labels: subUpdatedLabels,
-          });
-          core.info(`Updated sub-issue #${subIssue.number} with dependencies and labels.`);
-        }
+        const subMilestone = await resolveMilestone(`${task.id}.${sub.id}`, subIssueApi);
+        await syncIssue(subIssue, `${task.id}.${sub.id}`, buildIssueTitle(sub, task, namespace), subUpdatedLabels, subMilestone);
+        await syncIssueToProject(projectSync, subIssue, projectFieldsForTask(sub, {
+          labels: subUpdatedLabels,
+          complexity: complexityLevel(calculateComplexityForTask(sub)),
+          parent: formatIssueReference(referenceFromIssue(issue, repository), subRepository)
+        }));
+        await syncIssueDependencyLinks(subIssueApi, subIssue.number, (subDepIssues || []).map(i => referenceFromIssue(i, subRepository)), managedIssues);
+      }
+    }
+  }
+
+  // Retire issues whose task disappeared from the PRD
+  for (const obsolete of plan?.toRetire || []) {
+    let issue: ApiIssue | undefined;
+    try {
+      issue = await githubApi.getIssue(obsolete.issueNumber);
+    } catch (error) {
+      core.warning(`Obsolete issue #${obsolete.issueNumber} could not be loaded, only retiring it in state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const currentLabels = issue
+      ? (issue.labels || []).map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean)
+      : obsolete.labels;
+    const labels = buildObsoleteLabels(currentLabels);
+    const shouldClose = options.obsoleteIssueAction === 'close' && issue?.state === 'open';
+
+    if (issue) {
+      await githubApi.updateIssue(issue.number, {
+        labels,
+        ...(shouldClose ? { state: 'closed' as const } : {})
+      });
+      core.info(`🗄️ ${shouldClose ? 'Closed' : 'Labelled'} obsolete issue #${issue.number} (task ${obsolete.taskId})`);
+
+      const parentIssue = obsolete.parentTaskId ? idToIssue[obsolete.parentTaskId] : undefined;
+      if (parentIssue) {
+        await removeSubIssue(clientForIssue(parentIssue), parentIssue.number, issue);
       }
     }
+
+    if (idempotencyManager && contentHash) {
+      idempotencyManager.recordIssueReconciliation(obsolete.issueNumber, {
+        sourceHash: contentHash,
+        labels,
+        state: shouldClose ? 'closed' : undefined,
+        dependencies: [],
+        parentTaskId: obsolete.parentTaskId
+      });
+    }
+    result.retiredIssueNumbers.push(obsolete.issueNumber);
   }
 
   // Wait for all pending API requests to complete
@@ -719,11 +973,311 @@ async function parseTaskGraphAndCreateIssues(taskGraphPath: string, githubToken:
   const queueStatus = githubApi.getQueueStatus();
   core.info(`Final queue status: ${queueStatus.pending} pending, ${queueStatus.active} active`);
 
-  // Clean up resources
+  // Clean up resources, including the clients of other repositories
   githubApi.destroy();
 
-  core.info(`✅ Created/updated ${issuesCreated} GitHub issues`);
-  return issuesCreated;
+  core.info(`✅ Created/updated ${result.issueNumbers.length} GitHub issues` +
+    (result.retiredIssueNumbers.length > 0 ? `, retired ${result.retiredIssueNumbers.length}` : ''));
+  return result;
+}
+
+/**
+ * Diff section for a PR preview comment
+ *
+ * The task graph is diffed against the task graph artifact of the PR's base
+ * branch, with issue numbers taken from idempotency state, or against the
+ * issues recorded for the PRD when no artifact is found.
+ *
+ * @returns undefined when there is nothing to diff against
+ */
+async function buildPreviewDiff(
+  prdFile: string,
+  artifactName: string,
+  taskGraph: TaskGraph,
+  config: TaskmasterConfig,
+  idempotencyManager: IdempotencyManager
+): Promise<string | undefined> {
+  const recordedIssues = idempotencyManager.getIssuesForPrdFile(prdFile);
+  const head = snapshotTaskGraph(taskGraph);
+  const baseBranch = github.context.payload.pull_request?.base?.ref;
+  let diff: TaskGraphDiff | undefined;
+
+  if (baseBranch) {
+    const artifactManager = createArtifactManager();
+    const githubApi = createGitHubApiClient({
+      token: config.githubToken,
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo
+    });
+    try {
+      const artifact = await githubApi.findLatestArtifact(artifactName, { exactName: true, branch: baseBranch });
+      const baseGraph = artifact && await artifactManager.downloadPublishedTaskGraph(artifact.id, {
+        token: config.githubToken,
+        workflowRunId: artifact.workflowRunId,
+        repositoryOwner: github.context.repo.owner,
+        repositoryName: github.context.repo.repo
+      });
+      if (baseGraph) {
+        diff = diffTaskGraphs(attachIssueNumbers(snapshotTaskGraph(baseGraph), recordedIssues), head, 'artifact');
+      }
+    } catch (error) {
+      core.warning(`Failed to load the task graph of ${baseBranch}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      artifactManager.cleanup();
+      githubApi.destroy();
+    }
+  }
+
+  if (!diff && recordedIssues.length > 0) {
+    diff = diffTaskGraphs(snapshotIssueStates(recordedIssues), head, 'idempotency-state');
+  }
+
+  if (!diff) {
+    core.info('No base task graph or recorded issues to diff the preview against');
+    return undefined;
+  }
+
+  core.info(`🔀 Preview diff against the ${diff.source === 'artifact' ? `${baseBranch} task graph` : 'recorded issues'}: ` +
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`);
+  return formatTaskGraphDiff(diff, {
+    reconcileIssues: config.reconcileIssues,
+    obsoleteIssueAction: config.obsoleteIssueAction
+  });
+}
+
+/**
+ * Run the Taskmaster CLI on a single PRD and publish its task graph and issues
+ *
+ * `namespace` scopes the PRD's issues; `outputName` suffixes its task graph
+ * file, artifact and preview comment and is only set when several PRDs are
+ * processed, so single-PRD workflows keep their output names.
+ */
+async function processPrdFile(
+  prdFile: string,
+  namespace: string,
+  outputName: string | undefined,
+  binaryInfo: BinaryInfo,
+  config: TaskmasterConfig,
+  idempotencyManager: IdempotencyManager,
+  isDryRun: boolean
+): Promise<PrdProcessingResult> {
+  core.info(`🔄 Processing PRD file: ${prdFile} (namespace: ${namespace})`);
+
+  const result: PrdProcessingResult = {
+    prdFile,
+    namespace,
+    status: 'failed',
+    taskCount: 0,
+    issueNumbers: [],
+    retiredIssueNumbers: []
+  };
+
+  const prdContent = fs.readFileSync(prdFile, 'utf8');
+  const taskGraphId = `task-graph-${namespace}-${Date.now()}`;
+  let contentHash: string | undefined;
+  let previousIssues: IssueState[] | undefined;
+
+  // Track PRD processing in idempotency state (issues are only touched outside dry-run)
+  if (!isDryRun) {
+    const prdState = idempotencyManager.checkPrdState(prdContent, prdFile);
+    if (prdState.isProcessed && prdState.state?.status === 'completed') {
+      core.info(`⏭️ PRD ${prdFile} is unchanged since its last successful run, skipping`);
+      result.status = 'skipped';
+      result.issueNumbers = prdState.state.generatedIssues.map(n => parseInt(n, 10));
+      return result;
+    }
+
+    // Capture issues from earlier versions of this PRD before the new version is recorded;
+    // when there are none, they are rebuilt from the issues' front-matter while publishing
+    if (config.reconcileIssues) {
+      previousIssues = idempotencyManager.getIssuesForPrdFile(prdFile);
+    }
+
+    idempotencyManager.beginTransaction();
+    contentHash = idempotencyManager.recordPrdProcessingStart(prdContent, prdFile, taskGraphId);
+  }
+
+  // Run Taskmaster CLI to generate task graph
+  const taskGraphPath = path.join(process.cwd(), outputName ? `task-graph-${outputName}.json` : 'task-graph.json');
+  
+  try {
+    const runResult = await runTaskmasterCli(binaryInfo, {
+      prdPath: prdFile,
+      complexityThreshold: config.complexityThreshold,
+      maxDepth: config.maxDepth,
+      outputPath: taskGraphPath,
+      additionalArgs: config.taskmasterArgs ? config.taskmasterArgs.split(' ').filter((arg: string) => arg.trim()) : [],
+      // Enhanced options for better reliability
+      retryAttempts: 2,
+      retryDelay: 1000,
+      enableProgressMonitoring: true,
+      gracefulShutdown: true,
+      timeout: 300000 // 5 minutes
+    });
+
+    core.info(`✅ CLI execution completed with exit code: ${runResult.exitCode}`);
+    core.info(`⏱️ Execution took ${Math.round(runResult.duration / 1000)}s over ${runResult.attemptsCount} attempt(s)`);
+    
+    if (!runResult.taskGraphGenerated) {
+      throw new Error('Task graph was not generated by CLI');
+    }
+
+    // Validate the generated task graph
+    const isValid = validateTaskGraph(runResult.taskGraphPath, config);
+    if (!isValid) {
+      throw new Error('Generated task graph failed validation');
+    }
+    
+    result.taskGraphPath = runResult.taskGraphPath;
+    
+    // Read and log task graph summary
+    const taskGraphContent = fs.readFileSync(runResult.taskGraphPath, 'utf8');
+    const taskGraph = JSON.parse(taskGraphContent);
+    result.taskCount = taskGraph.tasks ? taskGraph.tasks.length : 0;
+    core.info(`📊 Generated task graph with ${result.taskCount} tasks`);
+
+    // Render reports next to the task graph; they are a convenience, so failures only warn
+    const reportFormats = config.reportFormats.split(',').map(format => format.trim()).filter(Boolean);
+    if (reportFormats.length > 0) {
+      try {
+        result.reports = writeTaskGraphReports(taskGraph, runResult.taskGraphPath, reportFormats, {
+          title: `Task Graph: ${prdFile}`
+        });
+        core.info(`📄 Rendered task graph reports: ${Object.values(result.reports).join(', ')}`);
+      } catch (reportError) {
+        core.warning(`Task graph reports were not rendered: ${reportError instanceof Error ? reportError.message : String(reportError)}`);
+      }
+    }
+    
+    // Upload task graph as artifact with metadata
+    try {
+      result.artifact = await uploadTaskGraphArtifact(
+        runResult.taskGraphPath,
+        config,
+        prdFile,
+        outputName ? `taskmaster-artifacts-${outputName}` : 'taskmaster-artifacts',
+        Object.values(result.reports || {})
+      );
+    } catch (artifactError) {
+      // Log error but don't fail the entire action
+      core.warning(`Artifact upload failed but continuing with issue creation: ${artifactError instanceof Error ? artifactError.message : String(artifactError)}`);
+    }
+    
+    // Parse task graph and create GitHub issues (skip in dry-run mode)
+    if (isDryRun) {
+      core.info('🎯 DRY-RUN mode: Skipping GitHub issue creation');
+      
+      const totalTasks = countTotalTasks(taskGraph.tasks || []);
+      const leafTasks = countLeafTasks(taskGraph.tasks || []);
+      const hierarchyDepth = calculateTaskHierarchyDepth(taskGraph.tasks || []);
+      
+      core.info(`📊 DRY-RUN Summary:`);
+      core.info(`  • Top-level tasks: ${result.taskCount}`);
+      core.info(`  • Total tasks (including subtasks): ${totalTasks}`);
+      core.info(`  • Leaf tasks: ${leafTasks}`);
+      core.info(`  • Task hierarchy depth: ${hierarchyDepth}`);
+      core.info('🎯 Task graph generated successfully - would create GitHub issues in non-dry-run mode');
+      
+      // Post preview comment on PR if this is a pull_request event
+      const prNumber = process.env.GITHUB_PR_NUMBER;
+      if (github.context.eventName === 'pull_request' && prNumber && config.githubToken) {
+        try {
+          core.info('📝 Posting task graph preview comment to PR...');
+          
+          // Convert task graph to markdown format with complexity and blocked status
+          const markdownTaskGraph: MarkdownTaskGraph = {
+            tasks: taskGraph.tasks.map((task: any) => ({
+              ...task,
+              complexityScore: calculateComplexityForTask(task),
+              isBlocked: checkIfTaskIsBlocked(task, taskGraph.tasks)
+            })),
+            metadata: {
+              totalTasks,
+              leafTasks,
+              hierarchyDepth,
+              generationTimestamp: new Date().toISOString(),
+              complexityThreshold: config.complexityThreshold,
+              maxDepth: config.maxDepth
+            }
+          };
+          
+          const prCommentConfig: PrCommentConfig = {
+            token: config.githubToken,
+            owner: github.context.repo.owner,
+            repo: github.context.repo.repo,
+            prNumber: parseInt(prNumber, 10),
+            debug: process.env.DEBUG === 'true',
+            previewKey: outputName
+          };
+          
+          const diffSection = await buildPreviewDiff(
+            prdFile,
+            outputName ? `taskmaster-artifacts-${outputName}` : 'taskmaster-artifacts',
+            taskGraph,
+            config,
+            idempotencyManager
+          );
+          
+          result.previewComment = await postTaskGraphPreview(markdownTaskGraph, prCommentConfig, {
+            includeDetails: totalTasks <= 10,
+            useCollapsibleSections: totalTasks > 5,
+            showComplexity: true,
+            showBlockedStatus: true,
+            includeSummary: true,
+            includeDependencyGraph: true
+          }, diffSection);
+          
+          core.info(`✅ Posted task graph preview comment #${result.previewComment.commentId} (${result.previewComment.isNew ? 'new' : 'updated'})` +
+            (result.previewComment.commentIds.length > 1 ? ` in ${result.previewComment.commentIds.length} parts` : ''));
+          
+        } catch (error) {
+          core.warning(`Failed to post preview comment: ${error instanceof Error ? error.message : String(error)}`);
+          // Don't fail the action if preview comment fails
+        }
+      } else {
+        core.info('⏭️ Skipping preview comment (not a pull request or missing required data)');
+      }
+    } else {
+      const githubToken = config.githubToken;
+      if (!githubToken) {
+        throw new Error('GitHub token is required for issue creation');
+      }
+      
+      const publishResult = await parseTaskGraphAndCreateIssues(runResult.taskGraphPath, githubToken, {
+        namespace,
+        idempotencyManager,
+        contentHash,
+        previousIssues,
+        obsoleteIssueAction: config.obsoleteIssueAction,
+        projectUrl: config.projectUrl,
+        milestones: extractPrdMilestones(prdContent),
+        milestoneDaysPerTask: config.milestoneDaysPerTask
+      });
+      result.issueNumbers = publishResult.issueNumbers;
+      result.retiredIssueNumbers = publishResult.retiredIssueNumbers;
+    }
+
+    if (contentHash) {
+      idempotencyManager.recordPrdProcessingComplete(contentHash, result.issueNumbers);
+      idempotencyManager.commitTransaction();
+    }
+
+    result.status = 'completed';
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    core.error(`❌ Failed to process PRD ${prdFile}: ${result.error}`);
+
+    // Roll back everything recorded for this run, then keep just the failure on record
+    if (contentHash) {
+      idempotencyManager.rollbackTransaction();
+      idempotencyManager.beginTransaction();
+      const failedHash = idempotencyManager.recordPrdProcessingStart(prdContent, prdFile, taskGraphId);
+      idempotencyManager.recordPrdProcessingFailure(failedHash, result.error);
+      idempotencyManager.commitTransaction();
+    }
+  }
+
+  return result;
 }
 
 async function run(): Promise<void> {
@@ -749,6 +1303,12 @@ async function run(): Promise<void> {
         maxDepth: core.getInput('max-depth') ? 
           parseInt(core.getInput('max-depth'), 10) : undefined,
         prdPathGlob: core.getInput('prd-path-glob') || undefined,
+        reconcileIssues: core.getInput('reconcile-issues') ? 
+          core.getBooleanInput('reconcile-issues') : undefined,
+        obsoleteIssueAction: (core.getInput('obsolete-issue-action') || undefined) as TaskmasterConfig['obsoleteIssueAction'] | undefined,
+        projectUrl: core.getInput('project-url') || undefined,
+        milestoneDaysPerTask: core.getInput('milestone-days-per-task') ?
+          parseInt(core.getInput('milestone-days-per-task'), 10) : undefined,
         taskmasterArgs: core.getInput('taskmaster-args') || undefined,
         githubToken: core.getInput('github-token') || undefined,
         taskmasterVersion: core.getInput('taskmaster-version') || undefined,
@@ -758,7 +1318,8 @@ async function run(): Promise<void> {
         maxArtifactsCount: core.getInput('max-artifacts-count') ? 
           parseInt(core.getInput('max-artifacts-count'), 10) : undefined,
         retentionDays: core.getInput('retention-days') ? 
-          parseInt(core.getInput('retention-days'), 10) : undefined
+          parseInt(core.getInput('retention-days'), 10) : undefined,
+        reportFormats: core.getInput('report-formats') || undefined
       }
     );
 
@@ -766,9 +1327,13 @@ async function run(): Promise<void> {
     core.info(`  • Complexity threshold: ${config.complexityThreshold}`);
     core.info(`  • Max depth: ${config.maxDepth}`);
     core.info(`  • PRD path glob: ${config.prdPathGlob}`);
+    core.info(`  • Reconcile issues: ${config.reconcileIssues} (obsolete issues: ${config.obsoleteIssueAction})`);
+    core.info(`  • Project: ${config.projectUrl || 'none'}`);
+    core.info(`  • Milestone days per task: ${config.milestoneDaysPerTask || 'declared due dates only'}`);
     core.info(`  • Taskmaster version: ${config.taskmasterVersion}`);
     core.info(`  • Retention days: ${config.retentionDays}`);
     core.info(`  • Max artifacts count: ${config.maxArtifactsCount}`);
+    core.info(`  • Report formats: ${config.reportFormats || 'none'}`);
     core.info(`  • Dry-run mode: ${isDryRun}`);
 
     // Set up Taskmaster CLI binary with version pinning
@@ -789,151 +1354,93 @@ async function run(): Promise<void> {
       core.warning(`No PRD files found matching pattern: ${config.prdPathGlob}`);
       core.setOutput('task-graph', '');
       core.setOutput('issues-created', '0');
+      core.setOutput('prd-results', '[]');
       return;
     }
 
     core.info(`📁 Found ${prdFiles.length} PRD file(s) to process`);
     prdFiles.forEach(file => core.info(`   • ${file}`));
 
-    // For now, process the first PRD file found
-    // TODO: In the future, we might want to support multiple PRD files
-    const prdFile = prdFiles[0];
-    core.info(`🔄 Processing PRD file: ${prdFile}`);
+    const idempotencyManager = new IdempotencyManager();
 
-    // Run Taskmaster CLI to generate task graph
-    const taskGraphPath = path.join(process.cwd(), 'task-graph.json');
-    
-    try {
-      const runResult = await runTaskmasterCli(binaryInfo, {
-        prdPath: prdFile,
-        complexityThreshold: config.complexityThreshold,
-        maxDepth: config.maxDepth,
-        outputPath: taskGraphPath,
-        additionalArgs: config.taskmasterArgs ? config.taskmasterArgs.split(' ').filter((arg: string) => arg.trim()) : [],
-        // Enhanced options for better reliability
-        retryAttempts: 2,
-        retryDelay: 1000,
-        enableProgressMonitoring: true,
-        gracefulShutdown: true,
-        timeout: 300000 // 5 minutes
-      });
+    // Process PRDs one at a time; a failure in one PRD does not stop the others
+    const results: PrdProcessingResult[] = [];
+    for (const prdFile of prdFiles) {
+      results.push(await processPrdFile(
+        prdFile,
+        buildPrdNamespace(prdFile),
+        prdFiles.length > 1 ? buildPrdNamespace(prdFile) : undefined,
+        binaryInfo,
+        config,
+        idempotencyManager,
+        isDryRun
+      ));
+    }
 
-      core.info(`✅ CLI execution completed with exit code: ${runResult.exitCode}`);
-      core.info(`⏱️ Execution took ${Math.round(runResult.duration / 1000)}s over ${runResult.attemptsCount} attempt(s)`);
-      
-      // Validate the generated task graph
-      if (runResult.taskGraphGenerated) {
-        const isValid = validateTaskGraph(runResult.taskGraphPath);
-        if (!isValid) {
-          throw new Error('Generated task graph failed validation');
-        }
-        
-        // Set outputs for other steps to use
-        core.setOutput('task-graph', runResult.taskGraphPath);
-        core.setOutput('task-graph-generated', 'true');
-        
-        // Read and log task graph summary
-        const taskGraphContent = fs.readFileSync(runResult.taskGraphPath, 'utf8');
-        const taskGraph = JSON.parse(taskGraphContent);
-        const taskCount = taskGraph.tasks ? taskGraph.tasks.length : 0;
-        core.info(`📊 Generated task graph with ${taskCount} tasks`);
-        
-        // Upload task graph as artifact with metadata
-        try {
-          await uploadTaskGraphArtifact(runResult.taskGraphPath, config, prdFile);
-        } catch (artifactError) {
-          // Log error but don't fail the entire action
-          core.warning(`Artifact upload failed but continuing with issue creation: ${artifactError instanceof Error ? artifactError.message : String(artifactError)}`);
+    const generated = results.filter(r => r.taskGraphPath);
+    const failed = results.filter(r => r.status === 'failed');
+    const issuesCreated = results.reduce((sum, r) => sum + (r.status === 'completed' ? r.issueNumbers.length : 0), 0);
+
+    core.info('📊 PRD processing summary:');
+    for (const result of results) {
+      const statusEmoji = result.status === 'completed' ? '✅' : result.status === 'skipped' ? '⏭️' : '❌';
+      core.info(`  ${statusEmoji} ${result.prdFile}: ${result.status}` +
+        (result.status === 'failed' ? ` (${result.error})` : `, ${result.issueNumbers.length} issue(s)`) +
+        (result.retiredIssueNumbers.length > 0 ? `, ${result.retiredIssueNumbers.length} retired` : ''));
+    }
+
+    // Set outputs for other steps to use
+    core.setOutput('task-graph', generated.length > 0 ? generated[0].taskGraphPath! : '');
+    core.setOutput('task-graph-generated', generated.length > 0 ? 'true' : 'false');
+    const reports = generated.length > 0 ? generated[0].reports || {} : {};
+    core.setOutput('task-graph-reports', JSON.stringify(reports));
+    core.setOutput('task-graph-html', reports.html || '');
+    core.setOutput('task-graph-csv', reports.csv || '');
+    core.setOutput('task-graph-schema', reports['json-schema'] || '');
+    core.setOutput('issues-created', issuesCreated.toString());
+    core.setOutput('prds-processed', results.filter(r => r.status === 'completed').length.toString());
+    core.setOutput('prds-skipped', results.filter(r => r.status === 'skipped').length.toString());
+    core.setOutput('prds-failed', failed.length.toString());
+    core.setOutput('prd-results', JSON.stringify(results.map(r => ({
+      prdFile: r.prdFile,
+      namespace: r.namespace,
+      status: r.status,
+      taskGraph: r.taskGraphPath,
+      reports: r.reports,
+      taskCount: r.taskCount,
+      issueNumbers: r.issueNumbers,
+      retiredIssueNumbers: r.retiredIssueNumbers,
+      artifactName: r.artifact?.artifactName,
+      artifactId: r.artifact?.artifactId,
+      error: r.error
+    }))));
+
+    // Single-PRD outputs are kept for workflows written before multi-PRD support
+    if (results.length === 1) {
+      const [result] = results;
+      if (result.artifact) {
+        if (result.artifact.artifactId) {
+          core.setOutput('artifact-id', result.artifact.artifactId.toString());
         }
-        
-        // Parse task graph and create GitHub issues (skip in dry-run mode)
-        if (isDryRun) {
-          core.info('🎯 DRY-RUN mode: Skipping GitHub issue creation');
-          core.setOutput('issues-created', '0');
-          
-          // Read and log task graph summary for dry-run
-          const taskGraphContent = fs.readFileSync(runResult.taskGraphPath, 'utf8');
-          const taskGraph = JSON.parse(taskGraphContent);
-          const taskCount = taskGraph.tasks ? taskGraph.tasks.length : 0;
-          const totalTasks = countTotalTasks(taskGraph.tasks || []);
-          const leafTasks = countLeafTasks(taskGraph.tasks || []);
-          const hierarchyDepth = calculateTaskHierarchyDepth(taskGraph.tasks || []);
-          
-          core.info(`📊 DRY-RUN Summary:`);
-          core.info(`  • Top-level tasks: ${taskCount}`);
-          core.info(`  • Total tasks (including subtasks): ${totalTasks}`);
-          core.info(`  • Leaf tasks: ${leafTasks}`);
-          core.info(`  • Task hierarchy depth: ${hierarchyDepth}`);
-          core.info('🎯 Task graph generated successfully - would create GitHub issues in non-dry-run mode');
-          
-          // Post preview comment on PR if this is a pull_request event
-          const prNumber = process.env.GITHUB_PR_NUMBER;
-          if (github.context.eventName === 'pull_request' && prNumber && config.githubToken) {
-            try {
-              core.info('📝 Posting task graph preview comment to PR...');
-              
-              // Convert task graph to markdown format with complexity and blocked status
-              const markdownTaskGraph: MarkdownTaskGraph = {
-                tasks: taskGraph.tasks.map((task: any) => ({
-                  ...task,
-                  complexityScore: calculateComplexityForTask(task, taskGraph.tasks),
-                  isBlocked: checkIfTaskIsBlocked(task, taskGraph.tasks)
-                })),
-                metadata: {
-                  totalTasks,
-                  leafTasks,
-                  hierarchyDepth,
-                  generationTimestamp: new Date().toISOString(),
-                  complexityThreshold: config.complexityThreshold,
-                  maxDepth: config.maxDepth
-                }
-              };
-              
-              const prCommentConfig: PrCommentConfig = {
-                token: config.githubToken,
-                owner: github.context.repo.owner,
-                repo: github.context.repo.repo,
-                prNumber: parseInt(prNumber, 10),
-                debug: process.env.DEBUG === 'true'
-              };
-              
-              const result = await postTaskGraphPreview(markdownTaskGraph, prCommentConfig, {
-                includeDetails: totalTasks <= 10,
-                useCollapsibleSections: totalTasks > 5,
-                showComplexity: true,
-                showBlockedStatus: true,
-                includeSummary: true
-              });
-              
-              core.info(`✅ Posted task graph preview comment #${result.commentId} (${result.isNew ? 'new' : 'updated'})`);
-              core.setOutput('preview-comment-id', result.commentId.toString());
-              core.setOutput('preview-comment-created', result.isNew.toString());
-              
-            } catch (error) {
-              core.warning(`Failed to post preview comment: ${error instanceof Error ? error.message : String(error)}`);
-              // Don't fail the action if preview comment fails
-            }
-          } else {
-            core.info('⏭️ Skipping preview comment (not a pull request or missing required data)');
-          }
-        } else {
-          const githubToken = config.githubToken;
-          if (!githubToken) {
-            throw new Error('GitHub token is required for issue creation');
-          }
-          
-          const issuesCreated = await parseTaskGraphAndCreateIssues(runResult.taskGraphPath, githubToken);
-          core.setOutput('issues-created', issuesCreated.toString());
+        core.setOutput('artifact-name', result.artifact.artifactName);
+        if (result.artifact.artifactSize) {
+          core.setOutput('artifact-size', result.artifact.artifactSize.toString());
         }
         
-      } else {
-        throw new Error('Task graph was not generated by CLI');
+        // Export metadata as outputs for potential use by other actions
+        Object.entries(result.artifact.metadata).forEach(([key, value]) => {
+          core.setOutput(`metadata-${key.replace(/_/g, '-')}`, value);
+        });
+      }
+      if (result.previewComment) {
+        core.setOutput('preview-comment-id', result.previewComment.commentId.toString());
+        core.setOutput('preview-comment-created', result.previewComment.isNew.toString());
       }
+    }
 
-    } catch (error) {
-      const errorMessage = `Failed to generate task graph: ${error instanceof Error ? error.message : String(error)}`;
-      core.setFailed(errorMessage);
-      throw error;
+    if (failed.length > 0) {
+      throw new Error(`Failed to generate task graph for ${failed.length} of ${results.length} PRD file(s): ` +
+        failed.map(r => `${r.prdFile} (${r.error})`).join('; '));
     }
 
     core.info(isDryRun ? '✅ Taskmaster Generate completed successfully (DRY-RUN mode)' : '✅ Taskmaster Generate completed successfully');
@@ -944,4 +1451,4 @@ async function run(): Promise<void> {
   }
 }
 
-run();
\ No newline at end of file
+run();
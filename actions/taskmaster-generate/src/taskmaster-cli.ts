@@ -9,7 +9,7 @@ import * as core from '@actions/core';
 import * as path from 'path';
 import * as fs from 'fs';
 import { spawn } from 'child_process';
-import { parseTaskGraphJson, extractTasksForGitHub, calculateTaskComplexity, type TaskGraph } from '../../../scripts/index';
+import { parseTaskGraphJson, processCliOutput, extractTasksForGitHub, calculateTaskComplexity, type TaskGraph } from '../../../scripts/index';
 import { downloadBinary, BinaryDownloadOptions, BinaryInfo, TaskmasterConfig, loadFromEnvironment } from '../../../scripts/index';
 
 /**
@@ -395,8 +395,11 @@ async function executeCliWithMonitoring(
 
 /**
  * Validate that the generated task-graph.json has the expected structure
+ *
+ * The task graph must satisfy its schema and dependency rules; each issue is
+ * logged with its JSON pointer and code. Output limits come from `config`.
  */
-export function validateTaskGraph(taskGraphPath: string): boolean {
+export function validateTaskGraph(taskGraphPath: string, config: Partial<TaskmasterConfig> = {}): boolean {
   try {
     if (!fs.existsSync(taskGraphPath)) {
       core.error(`Task graph file not found: ${taskGraphPath}`);
@@ -405,34 +408,30 @@ export function validateTaskGraph(taskGraphPath: string): boolean {
 
     const content = fs.readFileSync(taskGraphPath, 'utf8');
     
-    // Use enhanced JSON parsing with schema validation
-    const parseResult = parseTaskGraphJson(content);
-    
-    if (parseResult.errors.length > 0) {
+    // Parse and validate against the schema and dependency rules
+    const processed = processCliOutput(content, { config, outputFormat: 'json', sanitize: false, taskGraph: true });
+    const warnings = processed.validation.warnings || [];
+
+    if (warnings.length > 0) {
+      core.warning('⚠️ Task graph validation warnings:');
+      warnings.forEach((warning: string) => core.warning(`  - ${warning}`));
+    }
+
+    if (!processed.success) {
       core.error('❌ Task graph validation failed:');
-      
-      if (parseResult.parseErrors.length > 0) {
-        core.error('JSON Parse Errors:');
-        parseResult.parseErrors.forEach((error: string) => core.error(`  - ${error}`));
-      }
-      
-      if (parseResult.validationErrors.length > 0) {
-        core.error('Schema Validation Errors:');
-        parseResult.validationErrors.forEach((error: string) => core.error(`  - ${error}`));
-      }
-      
+      processed.errors.forEach((error: string) => core.error(`  - ${error}`));
       return false;
     }
 
-    if (!parseResult.data) {
+    if (!processed.validation.data) {
       core.error('❌ Task graph validation failed: No data returned');
       return false;
     }
 
-    const taskGraph = parseResult.data;
+    const taskGraph: TaskGraph = processed.validation.data;
     
     // Log validation success and task graph info
-    core.info('✅ Task graph JSON parsing and schema validation completed');
+    core.info('✅ Task graph JSON parsing, schema and dependency validation completed');
     
     const complexity = calculateTaskComplexity(taskGraph);
     core.info(`📊 Task Graph Analysis:`);
@@ -2,7 +2,8 @@
  * Taskmaster Watcher Action
  * 
  * This action watches for issue changes and updates dependencies/blocked status.
- * Triggered by issue closed events and cron schedules.
+ * Triggered by issue closed, reopened, edited, labeled, unlabeled, deleted and
+ * transferred events and cron schedules.
  */
 
 import * as core from '@actions/core';
@@ -14,7 +15,6 @@ import {
   createGitHubApiClient,
   parseIssueBody,
   ApiIssue,
-  type ParsedDependency,
   DependencyGraphAnalyzer,
   type ParsedIssueData,
   ArtifactManager,
@@ -22,7 +22,45 @@ import {
   type ProcessingCheckpoint,
   type BatchMetrics,
   OperationPriority,
-  ParentIssueStateManager
+  ParentIssueStateManager,
+  resolveDependencyLabels,
+  applyDependencyLabels,
+  dependencyLabelsChanged,
+  BLOCKED_LABEL,
+  READY_LABEL,
+  isDependencyLabel,
+  syncIssueDependencyLinks,
+  updateDependencyEntry,
+  type DependencyEntryChange,
+  type ParsedDependency,
+  type DependencyNodeKey,
+  type IssueReference,
+  issueReferenceKey,
+  parseRepository,
+  formatIssueReference,
+  referenceFromIssue,
+  repositoryFromIssue,
+  createProjectSync,
+  projectStatusForLabels,
+  type ProjectSync,
+  parseBreakdownChecklist,
+  syncBreakdownChecklist,
+  createDriftReport,
+  countDrift,
+  countFixedDrift,
+  formatDriftReport,
+  type DriftMode,
+  type DriftReport,
+  type DanglingReference,
+  type LabelDrift,
+  type ParentCheckboxDrift,
+  isUsableScanCache,
+  isScanCacheExpired,
+  createScanCache,
+  restoreDependencyGraph,
+  applyIssueChanges,
+  selectIssuesToRescan,
+  type ScanCache
 } from '../../../scripts/index';
 
 interface BlockedStatusResult {
@@ -37,18 +75,65 @@ interface BlockedStatusResult {
     batchMetrics?: BatchMetrics;
     artifactId?: string;
   };
+  /** Drift found by a full scan */
+  driftReport?: DriftReport;
+}
+
+/**
+ * Parse an open issue for the dependency graph, keyed by issue number
+ *
+ * @returns null when the body can't be parsed
+ */
+function parseIssueForGraph(githubApi: EnhancedGitHubApi, issue: ApiIssue): ParsedIssueData | null {
+  try {
+    const parsed = parseIssueBody(issue.body || '');
+    parsed.issueNumber = issue.number;
+    parsed.repository = repositoryFromIssue(issue) || githubApi.getRepository();
+    return parsed;
+  } catch (parseError) {
+    core.warning(`Failed to parse issue #${issue.number}: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+    return null;
+  }
+}
+
+/**
+ * Parse open issues for the dependency graph, keyed by issue number
+ */
+function parseIssuesForGraph(githubApi: EnhancedGitHubApi, openIssues: ApiIssue[]): ParsedIssueData[] {
+  return openIssues
+    .filter(issue => issue.body)
+    .map(issue => parseIssueForGraph(githubApi, issue))
+    .filter((parsed): parsed is ParsedIssueData => parsed !== null);
+}
+
+/**
+ * Repository-qualified graph keys of issues, for mapping graph results back to API issues
+ */
+function indexIssuesByKey(githubApi: EnhancedGitHubApi, issues: ApiIssue[]): Map<DependencyNodeKey, ApiIssue> {
+  return new Map(issues.map(issue => [
+    issueReferenceKey(repositoryFromIssue(issue) || githubApi.getRepository(), issue.number),
+    issue
+  ]));
 }
 
 /**
- * Enhanced function to find issues that can be unblocked by closed issues
- * Uses advanced dependency graph analysis for better performance
+ * Issue events that can change the blocked state of an issue or its dependents
  */
-async function findUnblockableIssuesBatch(
+const WATCHED_ISSUE_ACTIONS = ['closed', 'reopened', 'edited', 'labeled', 'unlabeled', 'deleted', 'transferred'];
+
+/**
+ * Find the open issues that depend directly on a blocker
+ *
+ * Dependents are looked up in the dependency graph built from the
+ * `## Dependencies` checklists of open issues. Graph nodes are
+ * repository-qualified (`owner/repo#N`) so blockers in other repositories
+ * are told apart from local issues with the same number.
+ */
+async function findDependentIssuesBatch(
   githubApi: EnhancedGitHubApi,
-  closedIssueNumbers: number[]
-): Promise<{ unblockableIssues: ApiIssue[]; metrics: any }> {
+  blocker: IssueReference
+): Promise<{ dependents: ApiIssue[]; metrics: any }> {
   const startTime = Date.now();
-  const unblockableIssues: ApiIssue[] = [];
   
   try {
     // Get all open issues with taskmaster label
@@ -58,24 +143,8 @@ async function findUnblockableIssuesBatch(
     });
 
     // Parse all issues to create dependency graph
-    const parsedIssues: ParsedIssueData[] = [];
-    for (const issue of openIssues) {
-      if (!issue.body) continue;
-      
-      try {
-        const parsed = parseIssueBody(issue.body);
-        // Add issue number if not in YAML front-matter
-        if (!parsed.yamlFrontMatter.id) {
-          parsed.yamlFrontMatter.id = issue.number;
-        }
-        parsedIssues.push(parsed);
-      } catch (parseError) {
-        core.warning(`Failed to parse issue #${issue.number}: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      }
-    }
-    
-    // Build dependency graph
-    const graph = DependencyGraphAnalyzer.buildDependencyGraph(parsedIssues);
+    const parsedIssues = parseIssuesForGraph(githubApi, openIssues);
+    const graph = DependencyGraphAnalyzer.buildDependencyGraph(parsedIssues, { repository: githubApi.getRepository() });
     
     // Detect cycles
     const cycles = DependencyGraphAnalyzer.detectCircularDependencies(graph);
@@ -83,27 +152,20 @@ async function findUnblockableIssuesBatch(
       core.warning(`Detected ${cycles.length} circular dependencies: ${cycles.map(c => c.description).join(', ')}`);
     }
     
-    // Find unblockable issues using enhanced algorithm
-    const unblockableIds = DependencyGraphAnalyzer.findUnblockableIssues(graph, closedIssueNumbers);
-    
-    // Map back to API issues
-    for (const issueId of unblockableIds) {
-      const issue = openIssues.find(i => i.number === issueId);
-      if (issue) {
-        unblockableIssues.push(issue);
-      }
-    }
-    
-    const processingTime = Date.now() - startTime;
+    // Map the blocker's dependents back to API issues
+    const blockerKey = issueReferenceKey(`${blocker.owner}/${blocker.repo}`, blocker.number);
+    const issuesByKey = indexIssuesByKey(githubApi, openIssues);
+    const dependents = DependencyGraphAnalyzer.findDependentIssues(graph, [blockerKey])
+      .map(key => issuesByKey.get(key))
+      .filter((issue): issue is ApiIssue => Boolean(issue));
     
     return {
-      unblockableIssues,
+      dependents,
       metrics: {
-        processingTimeMs: processingTime,
+        processingTimeMs: Date.now() - startTime,
         issuesScanned: openIssues.length,
         dependencyGraphSize: graph.size,
-        cyclesDetected: cycles.length,
-        unblockableFound: unblockableIssues.length
+        cyclesDetected: cycles.length
       }
     };
   } catch (error) {
@@ -113,35 +175,64 @@ async function findUnblockableIssuesBatch(
 }
 
 /**
- * Update issue labels to reflect dependency status
+ * Add the open issues linked to a blocker through native "blocked by" dependencies
+ *
+ * These may have no body checklist, and may live in other repositories.
  */
-function updateDependencyLabels(dependencies: ParsedDependency[]): string[] {
-  const additionalLabels: string[] = [];
-  
-  if (dependencies.length === 0) {
-    return additionalLabels;
+async function addNativeDependents(githubApi: EnhancedGitHubApi, issueNumber: number, dependents: ApiIssue[]): Promise<void> {
+  const nativeDependents = await githubApi.getBlocking(issueNumber);
+  const knownIssues = indexIssuesByKey(githubApi, dependents);
+  for (const [key, dependent] of indexIssuesByKey(githubApi, nativeDependents || [])) {
+    if (dependent.state === 'open' && !knownIssues.has(key)) {
+      dependents.push(dependent);
+    }
   }
-  
-  const openDependencies = dependencies.filter(dep => !dep.completed);
-  
-  if (openDependencies.length > 0) {
-    additionalLabels.push('blocked');
-    additionalLabels.push(`blocked-by:${openDependencies.length}`);
-  } else {
-    // All dependencies are closed, task is ready
-    additionalLabels.push('ready');
+}
+
+/**
+ * Apply a change of a blocker to the `## Dependencies` checklists of its dependents
+ *
+ * Checklists decide the blocked state of issues without native dependencies,
+ * so they must follow the blocker. Bodies are updated in place so labels are
+ * recomputed from the new checklist.
+ */
+async function updateDependentChecklists(
+  githubApi: EnhancedGitHubApi,
+  dependents: ApiIssue[],
+  blocker: IssueReference,
+  change: DependencyEntryChange,
+  result: BlockedStatusResult
+): Promise<void> {
+  for (const dependent of dependents) {
+    if (!dependent.body) continue;
+    
+    const repository = repositoryFromIssue(dependent) || githubApi.getRepository();
+    const body = updateDependencyEntry(dependent.body, repository, blocker, change);
+    if (body === dependent.body) continue;
+    
+    try {
+      await githubApi.forRepository(repository).updateIssue(dependent.number, { body });
+      dependent.body = body;
+      core.info(`Updated dependency checklist of issue #${dependent.number}`);
+    } catch (error) {
+      const errorMsg = `Failed to update dependency checklist of issue #${dependent.number}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMsg);
+      core.error(errorMsg);
+    }
   }
-  
-  return additionalLabels;
 }
 
 /**
  * Update an issue's labels and body to reflect new dependency status
+ *
+ * `githubApi` must be the client for the issue's repository. When a project
+ * board is configured, the issue's Status field follows the new state.
  */
 async function updateIssueStatus(
   githubApi: EnhancedGitHubApi,
   issue: ApiIssue,
-  newDependencyLabels: string[]
+  newDependencyLabels: string[],
+  projectSync: ProjectSync | null
 ): Promise<void> {
   if (!issue.body) return;
   
@@ -150,31 +241,107 @@ async function updateIssueStatus(
     typeof label === 'string' ? label : label.name
   ).filter((label: any): label is string => Boolean(label)) || [];
   
-  const filteredLabels = currentLabels.filter((label: string) => 
-    !label.startsWith('blocked') && label !== 'ready'
-  );
-  
-  const updatedLabels = [...filteredLabels, ...newDependencyLabels];
+  const updatedLabels = applyDependencyLabels(currentLabels, newDependencyLabels);
   
   try {
     await githubApi.updateIssue(issue.number, {
       labels: updatedLabels
     });
     
-    const statusChange = newDependencyLabels.includes('ready') ? 'unblocked (ready)' : 
-                        newDependencyLabels.includes('blocked') ? 'blocked' : 'unknown';
+    const statusChange = newDependencyLabels.includes(READY_LABEL) ? 'unblocked (ready)' : 
+                        newDependencyLabels.includes(BLOCKED_LABEL) ? 'blocked' : 'unknown';
     core.info(`Updated issue #${issue.number} status to: ${statusChange}`);
   } catch (error) {
     core.error(`Failed to update issue #${issue.number}: ${error instanceof Error ? error.message : String(error)}`);
     throw error;
   }
+  
+  const projectStatus = projectStatusForLabels(newDependencyLabels);
+  if (projectSync && projectStatus) {
+    try {
+      if (await projectSync.syncStatus(issue, projectStatus)) {
+        core.info(`Updated project status of issue #${issue.number} to: ${projectStatus}`);
+      }
+    } catch (error) {
+      core.warning(`Failed to update project status of issue #${issue.number}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Recompute the dependency labels of issues and update those that drifted
+ *
+ * Like full scans, issues without dependencies keep their labels unless
+ * `clearWithoutDependencies` is set, e.g. after their last dependency was
+ * removed.
+ */
+async function recomputeDependencyLabels(
+  githubApi: EnhancedGitHubApi,
+  issues: ApiIssue[],
+  projectSync: ProjectSync | null,
+  result: BlockedStatusResult,
+  options: { clearWithoutDependencies?: boolean } = {}
+): Promise<void> {
+  // Process issues in batches for better performance
+  const batchSize = 10;
+  for (let i = 0; i < issues.length; i += batchSize) {
+    const batch = issues.slice(i, i + batchSize);
+    
+    await Promise.allSettled(batch.map(async (issue) => {
+      try {
+        if (!issue.body) return;
+        
+        const issueApi = githubApi.forRepository(repositoryFromIssue(issue));
+        const newDependencyLabels = await resolveDependencyLabels(issueApi, issue);
+        if (newDependencyLabels.length === 0 && !options.clearWithoutDependencies) return;
+        
+        const currentLabels = issue.labels?.map((label: any) => 
+          typeof label === 'string' ? label : label.name
+        ).filter((label: any): label is string => Boolean(label)) || [];
+        if (!dependencyLabelsChanged(currentLabels, newDependencyLabels)) return;
+        
+        await updateIssueStatus(issueApi, issue, newDependencyLabels, projectSync);
+        result.issuesUpdated++;
+        
+        if (newDependencyLabels.includes(READY_LABEL) && !currentLabels.includes(READY_LABEL)) {
+          result.dependenciesResolved++;
+        }
+      } catch (error) {
+        const errorMsg = `Failed to update issue #${issue.number}: ${error instanceof Error ? error.message : String(error)}`;
+        result.errors.push(errorMsg);
+        core.error(errorMsg);
+      }
+    }));
+  }
+}
+
+/**
+ * Native "blocked by" link targets for parsed dependencies
+ */
+function dependencyLinkTargets(dependencies: ParsedDependency[]): Array<number | IssueReference> {
+  return dependencies.map(dep => dep.repository
+    ? { ...parseRepository(dep.repository), number: dep.issueNumber }
+    : dep.issueNumber);
 }
 
 /**
  * Process blocked status management for webhook mode (single issue)
- * Enhanced with batch processing and performance monitoring
+ *
+ * - `closed`, `reopened`, `deleted` and `transferred` change the issue as a
+ *   blocker: its dependents' checklists follow and their labels are
+ *   recomputed, unblocking or re-blocking them
+ * - `edited` re-links and recomputes an issue whose `## Dependencies`
+ *   section changed
+ * - `labeled` and `unlabeled` restore dependency labels changed by hand
+ *
+ * With `autoCloseParents`, closing or reopening a sub-issue also updates
+ * its parent's progress and closes or reopens the parent.
  */
-async function processWebhookMode(githubApi: EnhancedGitHubApi): Promise<BlockedStatusResult> {
+async function processWebhookMode(
+  githubApi: EnhancedGitHubApi,
+  projectSync: ProjectSync | null,
+  config: TaskmasterConfig
+): Promise<BlockedStatusResult> {
   const startTime = Date.now();
   const result: BlockedStatusResult = {
     issuesUpdated: 0,
@@ -184,64 +351,107 @@ async function processWebhookMode(githubApi: EnhancedGitHubApi): Promise<Blocked
   
   const payload = github.context.payload;
   
-  if (payload.action !== 'closed' || !payload.issue) {
-    core.info('No relevant issue closed event found');
+  if (!payload.issue || !WATCHED_ISSUE_ACTIONS.includes(payload.action || '')) {
+    core.info('No relevant issue event found');
     return result;
   }
   
-  const closedIssue = payload.issue;
-  core.info(`Processing closed issue: #${closedIssue.number} - "${closedIssue.title}"`);
+  const issue = payload.issue as ApiIssue;
+  core.info(`Processing ${payload.action} issue: #${issue.number} - "${issue.title}"`);
   
   try {
-    const { unblockableIssues, metrics } = await findUnblockableIssuesBatch(githubApi, [closedIssue.number]);
-    
-    core.info(`Found ${unblockableIssues.length} issues that could be unblocked (scanned ${metrics.issuesScanned} issues in ${metrics.processingTimeMs}ms)`);
-    
-    if (metrics.cyclesDetected > 0) {
-      core.warning(`Detected ${metrics.cyclesDetected} circular dependencies during processing`);
-    }
-    
     // Initialize parent issue state manager for dynamic updates
-    const stateManager = new ParentIssueStateManager(githubApi);
-    
-    // Update parent issue state if the closed issue was a sub-issue
-    await stateManager.updateFromSubIssueChange(closedIssue.number, 'closed');
-    core.info(`🔄 Updated parent issue state for closed sub-issue #${closedIssue.number}`);
+    const stateManager = new ParentIssueStateManager(githubApi, undefined, {
+      autoCloseParents: config.autoCloseParents
+    });
+    const blocker = referenceFromIssue(issue, githubApi.getRepository());
     
-    // Process unblockable issues in batches for better performance
-    const batchSize = 10;
-    for (let i = 0; i < unblockableIssues.length; i += batchSize) {
-      const batch = unblockableIssues.slice(i, i + batchSize);
+    switch (payload.action) {
+      case 'closed':
+      case 'reopened': {
+        const closed = payload.action === 'closed';
+        const { dependents, metrics } = await findDependentIssuesBatch(githubApi, blocker);
+        await addNativeDependents(githubApi, issue.number, dependents);
+        
+        core.info(`Found ${dependents.length} dependent issues to ${closed ? 'unblock' : 're-block'} (scanned ${metrics.issuesScanned} issues in ${metrics.processingTimeMs}ms)`);
+        
+        await updateDependentChecklists(githubApi, dependents, blocker, { completed: closed }, result);
+        await recomputeDependencyLabels(githubApi, dependents, projectSync, result);
+        
+        // A reopened issue is blocked again by whatever is still open
+        if (!closed) {
+          await recomputeDependencyLabels(githubApi, [issue], projectSync, result);
+        }
+        
+        // Update parent issue state if the issue was a sub-issue; closing or
+        // reopening the parent itself is opt-in through autoCloseParents
+        await stateManager.updateFromSubIssueChange(issue.number, closed ? 'closed' : 'open');
+        core.info(`🔄 Updated parent issue state for ${payload.action} sub-issue #${issue.number}`);
+        
+        result.performanceMetrics = { ...metrics, processingTimeMs: Date.now() - startTime };
+        break;
+      }
       
-      await Promise.allSettled(batch.map(async (issue) => {
-        try {
-          if (!issue.body) return;
-          
-          const parsed = parseIssueBody(issue.body);
-          const newDependencyLabels = updateDependencyLabels(parsed.dependencies);
-          
-          await updateIssueStatus(githubApi, issue, newDependencyLabels);
-          result.issuesUpdated++;
-          
-          if (newDependencyLabels.includes('ready')) {
-            result.dependenciesResolved++;
-          }
-        } catch (error) {
-          const errorMsg = `Failed to update issue #${issue.number}: ${error instanceof Error ? error.message : String(error)}`;
-          result.errors.push(errorMsg);
-          core.error(errorMsg);
+      case 'deleted':
+      case 'transferred': {
+        // Native links go with the issue; checklist entries are dropped or
+        // pointed at the issue's new location
+        const newIssue = payload.changes?.new_issue;
+        const newRepository = payload.changes?.new_repository?.full_name;
+        const change: DependencyEntryChange = payload.action === 'transferred' && newIssue && newRepository
+          ? { reference: { ...parseRepository(newRepository), number: newIssue.number } }
+          : { reference: null };
+        
+        const { dependents, metrics } = await findDependentIssuesBatch(githubApi, blocker);
+        core.info(`Found ${dependents.length} dependent issues of ${payload.action} issue (scanned ${metrics.issuesScanned} issues in ${metrics.processingTimeMs}ms)`);
+        
+        await updateDependentChecklists(githubApi, dependents, blocker, change, result);
+        await recomputeDependencyLabels(githubApi, dependents, projectSync, result, { clearWithoutDependencies: true });
+        
+        result.performanceMetrics = { ...metrics, processingTimeMs: Date.now() - startTime };
+        break;
+      }
+      
+      case 'edited': {
+        if (payload.changes?.body === undefined || issue.state !== 'open') {
+          core.info('Issue body unchanged, nothing to do');
+          break;
         }
-      }));
+        
+        const previous = parseIssueBody(payload.changes.body.from || '').dependencies;
+        const current = parseIssueBody(issue.body || '').dependencies;
+        const describe = (dependencies: ParsedDependency[]) =>
+          dependencies.map(dep => `${dep.completed ? 'x' : ' '}${dep.repository || ''}#${dep.issueNumber}`).sort().join(',');
+        if (describe(previous) === describe(current)) {
+          core.info('Dependencies unchanged, nothing to do');
+          break;
+        }
+        
+        // Native links win over the checklist, so they follow the edit;
+        // links added by hand are kept
+        await syncIssueDependencyLinks(
+          githubApi,
+          issue.number,
+          dependencyLinkTargets(current),
+          dependencyLinkTargets([...previous, ...current])
+        );
+        await recomputeDependencyLabels(githubApi, [issue], projectSync, result, { clearWithoutDependencies: true });
+        break;
+      }
+      
+      case 'labeled':
+      case 'unlabeled': {
+        const label: string = payload.label?.name || '';
+        if (!isDependencyLabel(label) || issue.state !== 'open') {
+          core.info(`Label "${label}" is not a dependency label, nothing to do`);
+          break;
+        }
+        
+        await recomputeDependencyLabels(githubApi, [issue], projectSync, result);
+        break;
+      }
     }
     
-    // Add performance metrics
-    result.performanceMetrics = {
-      processingTimeMs: Date.now() - startTime,
-      issuesScanned: metrics.issuesScanned,
-      dependencyGraphSize: metrics.dependencyGraphSize,
-      cyclesDetected: metrics.cyclesDetected
-    };
-    
   } catch (error) {
     const errorMsg = `Failed to process webhook mode: ${error instanceof Error ? error.message : String(error)}`;
     result.errors.push(errorMsg);
@@ -251,11 +461,267 @@ async function processWebhookMode(githubApi: EnhancedGitHubApi): Promise<Blocked
   return result;
 }
 
+/**
+ * Look up issues by reference, once each
+ *
+ * Resolves to null for deleted issues, to the issue at its new location for
+ * transferred ones, and to undefined when the lookup failed otherwise.
+ * Open issues already listed are never fetched again.
+ */
+function createIssueLookup(
+  githubApi: EnhancedGitHubApi,
+  knownIssues: ApiIssue[]
+): (reference: IssueReference) => Promise<ApiIssue | null | undefined> {
+  const cache = new Map<DependencyNodeKey, Promise<ApiIssue | null | undefined>>();
+  for (const [key, issue] of indexIssuesByKey(githubApi, knownIssues)) {
+    cache.set(key, Promise.resolve(issue));
+  }
+  
+  return (reference) => {
+    const key = issueReferenceKey(`${reference.owner}/${reference.repo}`, reference.number);
+    if (!cache.has(key)) {
+      cache.set(key, githubApi.forRepository(`${reference.owner}/${reference.repo}`).getIssue(reference.number).catch(error => {
+        if (error?.status === 404 || error?.status === 410) {
+          return null;
+        }
+        core.warning(`Failed to look up ${key}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }));
+    }
+    return cache.get(key)!;
+  };
+}
+
+/**
+ * Find `## Dependencies` entries pointing at deleted or transferred issues
+ *
+ * In fix mode, entries of deleted issues are dropped and entries of
+ * transferred issues point at their new location. Bodies are updated in
+ * place so labels are recomputed from the fixed checklist.
+ */
+async function detectDanglingReferences(
+  githubApi: EnhancedGitHubApi,
+  openIssues: ApiIssue[],
+  lookup: (reference: IssueReference) => Promise<ApiIssue | null | undefined>,
+  report: DriftReport
+): Promise<void> {
+  for (const issue of openIssues) {
+    if (!issue.body) continue;
+    
+    const repository = repositoryFromIssue(issue) || githubApi.getRepository();
+    const found: DanglingReference[] = [];
+    let body = issue.body;
+    
+    for (const dep of parseIssueBody(issue.body).dependencies) {
+      const reference: IssueReference = { ...parseRepository(dep.repository || repository), number: dep.issueNumber };
+      const referenceKey = issueReferenceKey(`${reference.owner}/${reference.repo}`, reference.number);
+      const blocker = await lookup(reference);
+      if (blocker === undefined) continue;
+      
+      const newReference = blocker && referenceFromIssue(blocker, `${reference.owner}/${reference.repo}`);
+      if (newReference && issueReferenceKey(`${newReference.owner}/${newReference.repo}`, newReference.number) === referenceKey) continue;
+      
+      found.push({
+        issueNumber: issue.number,
+        reference: referenceKey,
+        reason: newReference ? 'transferred' : 'deleted',
+        ...(newReference ? { newReference: formatIssueReference(newReference) } : {}),
+        fixed: false
+      });
+      body = updateDependencyEntry(body, repository, reference, { reference: newReference });
+    }
+    
+    if (found.length > 0 && report.mode === 'fix') {
+      try {
+        await githubApi.forRepository(repository).updateIssue(issue.number, { body });
+        issue.body = body;
+        found.forEach(drift => { drift.fixed = true; });
+        core.info(`Fixed ${found.length} dangling dependencies of issue #${issue.number}`);
+      } catch (error) {
+        core.warning(`Failed to fix dangling dependencies of issue #${issue.number}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    report.danglingReferences.push(...found);
+  }
+}
+
+/**
+ * Find `## Breakdown Summary` checkboxes out of step with their sub-issues
+ *
+ * In fix mode the checkboxes are ticked or unticked to match.
+ */
+async function detectParentCheckboxDrift(
+  githubApi: EnhancedGitHubApi,
+  openIssues: ApiIssue[],
+  lookup: (reference: IssueReference) => Promise<ApiIssue | null | undefined>,
+  report: DriftReport
+): Promise<void> {
+  for (const parent of openIssues) {
+    const entries = parseBreakdownChecklist(parent.body || '');
+    if (entries.length === 0) continue;
+    
+    const repository = repositoryFromIssue(parent) || githubApi.getRepository();
+    const closedSubIssues = new Map<number, boolean>();
+    const found: ParentCheckboxDrift[] = [];
+    
+    for (const entry of entries) {
+      const subIssue = await lookup({ ...parseRepository(repository), number: entry.issueNumber });
+      if (!subIssue) continue;
+      
+      const closed = subIssue.state === 'closed';
+      closedSubIssues.set(entry.issueNumber, closed);
+      if (closed !== entry.checked) {
+        found.push({
+          parentIssueNumber: parent.number,
+          subIssueNumber: entry.issueNumber,
+          checked: entry.checked,
+          subIssueState: closed ? 'closed' : 'open',
+          fixed: false
+        });
+      }
+    }
+    
+    if (found.length > 0 && report.mode === 'fix') {
+      try {
+        const body = syncBreakdownChecklist(parent.body || '', closedSubIssues);
+        await githubApi.forRepository(repository).updateIssue(parent.number, { body });
+        parent.body = body;
+        found.forEach(drift => { drift.fixed = true; });
+        core.info(`Fixed ${found.length} breakdown checkboxes of issue #${parent.number}`);
+      } catch (error) {
+        core.warning(`Failed to fix breakdown checkboxes of issue #${parent.number}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    report.parentCheckboxes.push(...found);
+  }
+}
+
+/**
+ * Publish a drift report as job summary and JSON artifact
+ *
+ * Publishing failures are logged rather than thrown so they never fail the scan.
+ */
+async function publishDriftReport(report: DriftReport, artifactManager: ArtifactManager | null): Promise<void> {
+  core.info(`🧭 Drift: ${countDrift(report)} findings, ${countFixedDrift(report)} fixed (${report.mode} mode)`);
+  
+  try {
+    await core.summary.addRaw(formatDriftReport(report)).write();
+  } catch (error) {
+    core.warning(`Failed to write drift report job summary: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  if (artifactManager) {
+    await artifactManager.uploadDriftReport(report);
+  }
+}
+
+/**
+ * Checkpoint name under which full scans save their scan cache
+ */
+const SCAN_CACHE_CHECKPOINT = 'watcher-scan-cache';
+
+/**
+ * Open issues of a full scan and the ones among them to re-check
+ */
+interface ScanState {
+  cache: ScanCache;
+  /** Open issues whose dependency state may have moved since the last scan */
+  issuesToScan: ApiIssue[];
+  incremental: boolean;
+}
+
+/**
+ * Load the scan cache saved by the latest full scan
+ *
+ * @returns null when there is none, e.g. because the checkpoint expired,
+ * or it can't be used
+ */
+async function loadScanCache(
+  githubApi: EnhancedGitHubApi,
+  artifactManager: ArtifactManager,
+  token: string
+): Promise<ScanCache | null> {
+  try {
+    const artifact = await githubApi.findLatestArtifact(`checkpoint-${SCAN_CACHE_CHECKPOINT}-`);
+    if (!artifact) return null;
+    
+    const { owner, repo } = parseRepository(githubApi.getRepository());
+    const saved = await artifactManager.downloadCheckpoint(artifact.id, {
+      token,
+      workflowRunId: artifact.workflowRunId,
+      repositoryOwner: owner,
+      repositoryName: repo
+    });
+    const scanCache = saved?.additionalData?.scanCache;
+    return isUsableScanCache(scanCache, githubApi.getRepository()) ? scanCache : null;
+  } catch (error) {
+    core.warning(`Failed to load scan cache: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * List the open issues of a full scan
+ *
+ * With a scan cache only issues updated since its cursor are listed, with
+ * the ETag of the previous listing, and only the issues they can affect are
+ * re-checked. Without one, or when it has expired, every open issue is
+ * listed and re-checked.
+ */
+async function loadScanState(
+  githubApi: EnhancedGitHubApi,
+  artifactManager: ArtifactManager,
+  config: TaskmasterConfig
+): Promise<ScanState> {
+  const parse = (issue: ApiIssue) => parseIssueForGraph(githubApi, issue);
+  const cache = config.incrementalScan
+    ? await loadScanCache(githubApi, artifactManager, config.githubToken)
+    : null;
+  
+  if (cache && isScanCacheExpired(cache)) {
+    core.info(`Scan cache was built at ${cache.builtAt}, rebuilding it to drop deleted issues`);
+  } else if (cache) {
+    const since = cache.cursor;
+    const listing = await githubApi.listIssuesConditional({ state: 'all', labels: 'taskmaster', since }, cache.etag);
+    if (listing.notModified) {
+      core.info(`No issues changed since ${since} (304 Not Modified)`);
+    }
+    
+    const changes = applyIssueChanges(cache, listing.issues, parse, listing.etag);
+    core.info(`Incremental scan since ${since}: ${changes.changed.length} changed, ${changes.removed.length} removed`);
+    return { cache, issuesToScan: selectIssuesToRescan(cache, changes), incremental: true };
+  }
+  
+  const scanStartedAt = new Date();
+  const { issues: openIssues } = await githubApi.listIssuesConditional({
+    state: 'open',
+    labels: 'taskmaster'
+  });
+  if (!cache) {
+    core.info(config.incrementalScan ? 'No scan cache found, scanning all issues' : 'Incremental scans are disabled, scanning all issues');
+  }
+  return {
+    cache: createScanCache(githubApi.getRepository(), openIssues, parse, scanStartedAt),
+    issuesToScan: openIssues,
+    incremental: false
+  };
+}
+
 /**
  * Process blocked status management for full scan mode (all issues)
  * Enhanced with dependency graph analysis and optimized batch processing
+ *
+ * Everything found out of step is recorded in a drift report; in
+ * `report-only` mode nothing is changed. Incremental scans only re-check
+ * the labels of the issues changed since the previous scan and the issues
+ * they affect; references and breakdown checklists of every open issue are
+ * checked in each scan.
  */
-async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<BlockedStatusResult> {
+async function processFullScanMode(
+  githubApi: EnhancedGitHubApi,
+  projectSync: ProjectSync | null,
+  config: TaskmasterConfig
+): Promise<BlockedStatusResult> {
   const startTime = Date.now();
   const result: BlockedStatusResult = {
     issuesUpdated: 0,
@@ -270,13 +736,13 @@ async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<Blocke
     // Initialize artifact manager for large-scale operations
     artifactManager = createArtifactManager();
     
-    // Get all open issues with taskmaster label
-    const openIssues = await githubApi.listIssues({
-      state: 'open',
-      labels: 'taskmaster'
-    });
+    // Get all open issues with taskmaster label, from the scan cache when possible
+    const { cache, issuesToScan, incremental } = await loadScanState(githubApi, artifactManager, config);
+    const openIssues = Object.values(cache.issues).map(cached => cached.issue);
     
-    core.info(`Scanning ${openIssues.length} open issues for dependency status updates`);
+    core.info(incremental
+      ? `Scanning ${issuesToScan.length} of ${openIssues.length} open issues for dependency status updates`
+      : `Scanning ${openIssues.length} open issues for dependency status updates`);
     
     // For large PRDs (500+ tasks), upload current state as artifact
     if (openIssues.length >= 500) {
@@ -308,25 +774,8 @@ async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<Blocke
       }
     }
     
-    // Parse all issues and build dependency graph
-    const parsedIssues: ParsedIssueData[] = [];
-    for (const issue of openIssues) {
-      if (!issue.body) continue;
-      
-      try {
-        const parsed = parseIssueBody(issue.body);
-        // Add issue number if not in YAML front-matter
-        if (!parsed.yamlFrontMatter.id) {
-          parsed.yamlFrontMatter.id = issue.number;
-        }
-        parsedIssues.push(parsed);
-      } catch (parseError) {
-        core.warning(`Failed to parse issue #${issue.number}: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      }
-    }
-    
-    // Build dependency graph and analyze
-    const graph = DependencyGraphAnalyzer.buildDependencyGraph(parsedIssues);
+    // The dependency graph was patched with the changed issues only
+    const graph = restoreDependencyGraph(cache);
     const cycles = DependencyGraphAnalyzer.detectCircularDependencies(graph);
     const resolutionOrder = DependencyGraphAnalyzer.getDependencyResolutionOrder(graph);
     
@@ -336,35 +785,61 @@ async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<Blocke
     
     core.info(`Dependency graph analysis: ${graph.size} nodes, ${resolutionOrder.resolvedNodes}/${resolutionOrder.totalNodes} resolvable`);
     
+    const driftReport = createDriftReport(githubApi.getRepository(), config.driftMode);
+    driftReport.issuesScanned = openIssues.length;
+    driftReport.cycles = cycles.map(c => ({ cycle: c.cycle.map(String), description: c.description }));
+    result.driftReport = driftReport;
+    
+    // Checklists are fixed first so labels are recomputed from them. References
+    // can dangle without their issue changing, e.g. when the referenced issue
+    // is deleted, so every cached open issue is checked, not only the changed ones
+    const lookup = createIssueLookup(githubApi, openIssues);
+    await detectDanglingReferences(githubApi, openIssues, lookup, driftReport);
+    await detectParentCheckboxDrift(githubApi, openIssues, lookup, driftReport);
+    
     // Process issues in dependency resolution order for optimal efficiency
-    const issuesToProcess = resolutionOrder.order
-      .map(id => openIssues.find(issue => issue.number === id))
+    const issuesByKey = indexIssuesByKey(githubApi, issuesToScan);
+    const orderedIssues = resolutionOrder.order
+      .map(id => issuesByKey.get(id))
       .filter((issue): issue is ApiIssue => Boolean(issue));
     
+    // Issues depending on issues outside the graph (closed, or in other
+    // repositories) never enter the resolution order, so process them last
+    const issuesToProcess = [
+      ...orderedIssues,
+      ...issuesToScan.filter(issue => !orderedIssues.includes(issue))
+    ];
+    
     // Use optimized batch processing with adaptive sizing
     const batchResult = await githubApi.processBatch(
       issuesToProcess,
       async (issue) => {
         if (!issue.body) return null;
         
-        const parsed = parseIssueBody(issue.body);
-        const dependencies = parsed.dependencies;
+        const newDependencyLabels = await resolveDependencyLabels(githubApi, issue);
         
-        if (dependencies.length === 0) return null;
+        if (newDependencyLabels.length === 0) return null;
         
-        const newDependencyLabels = updateDependencyLabels(dependencies);
         const currentLabels = issue.labels?.map((label: any) => 
           typeof label === 'string' ? label : label.name
         ).filter((label: any): label is string => Boolean(label)) || [];
         
         // Check if labels need updating
-        const hasBlocked = currentLabels.some((label: string) => label.startsWith('blocked'));
-        const hasReady = currentLabels.includes('ready');
-        const shouldBeBlocked = newDependencyLabels.some(label => label.startsWith('blocked'));
-        const shouldBeReady = newDependencyLabels.includes('ready');
+        const hasReady = currentLabels.includes(READY_LABEL);
+        const shouldBeReady = newDependencyLabels.includes(READY_LABEL);
         
-        if ((hasBlocked !== shouldBeBlocked) || (hasReady !== shouldBeReady)) {
-          await updateIssueStatus(githubApi, issue, newDependencyLabels);
+        if (dependencyLabelsChanged(currentLabels, newDependencyLabels)) {
+          const drift: LabelDrift = {
+            issueNumber: issue.number,
+            currentLabels: currentLabels.filter(isDependencyLabel),
+            expectedLabels: newDependencyLabels,
+            fixed: false
+          };
+          driftReport.labels.push(drift);
+          if (config.driftMode === 'report-only') return null;
+          
+          await updateIssueStatus(githubApi, issue, newDependencyLabels, projectSync);
+          drift.fixed = true;
           
           return {
             issueNumber: issue.number,
@@ -379,7 +854,7 @@ async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<Blocke
       {
         operationType: 'dependency-status-update',
         priority: OperationPriority.HIGH,
-        enableCheckpointing: openIssues.length >= 100,
+        enableCheckpointing: issuesToScan.length >= 100,
         checkpointCallback: artifactManager ? async (checkpoint: ProcessingCheckpoint) => {
           await artifactManager!.saveCheckpoint(artifactId || 'unknown', checkpoint, {
             scanType: 'full-scan',
@@ -435,16 +910,31 @@ async function processFullScanMode(githubApi: EnhancedGitHubApi): Promise<Blocke
       }
     }
     
+    // Save the scan cache for the next incremental scan
+    if (config.incrementalScan) {
+      await artifactManager.saveCheckpoint(SCAN_CACHE_CHECKPOINT, {
+        totalItems: issuesToProcess.length,
+        processedItems: batchResult.successful.length + batchResult.failed.length,
+        completedItems: batchResult.successful.length,
+        failedItems: batchResult.failed.length,
+        currentBatchSize: batchResult.metrics.batchSize,
+        startTime: new Date(startTime),
+        lastUpdateTime: new Date()
+      }, { scanCache: cache });
+    }
+    
     // Add performance metrics
     result.performanceMetrics = {
       processingTimeMs: Date.now() - startTime,
-      issuesScanned: openIssues.length,
+      issuesScanned: issuesToScan.length,
       dependencyGraphSize: graph.size,
       cyclesDetected: cycles.length,
       batchMetrics: batchResult.metrics,
       artifactId
     };
     
+    await publishDriftReport(driftReport, artifactManager);
+    
     // Generate performance report for large operations
     if (artifactManager && artifactId && openIssues.length >= 100) {
       try {
@@ -493,13 +983,21 @@ async function run(): Promise<void> {
       {
         // Action input overrides
         githubToken: core.getInput('github-token') || undefined,
-        scanMode: (core.getInput('scan-mode') as 'webhook' | 'full') || undefined
+        scanMode: (core.getInput('scan-mode') as 'webhook' | 'full') || undefined,
+        driftMode: (core.getInput('drift-mode') as DriftMode) || undefined,
+        incrementalScan: core.getInput('incremental-scan') ?
+          core.getBooleanInput('incremental-scan') : undefined,
+        autoCloseParents: core.getInput('auto-close-parents') ?
+          core.getBooleanInput('auto-close-parents') : undefined,
+        projectUrl: core.getInput('project-url') || undefined
       }
     );
 
     core.info(`📋 Configuration loaded:`);
     core.info(`  • Scan mode: ${config.scanMode}`);
     core.info(`  • Repository: ${github.context.repo.owner}/${github.context.repo.repo}`);
+    core.info(`  • Project: ${config.projectUrl || 'none'}`);
+    core.info(`  • Auto-close parents: ${config.autoCloseParents}`);
 
     // Create GitHub API client
     const githubApi = createGitHubApiClient({
@@ -508,16 +1006,18 @@ async function run(): Promise<void> {
       repo: github.context.repo.repo,
       debug: false
     });
+    const projectSync = createProjectSync(githubApi, config.projectUrl);
 
     let result: BlockedStatusResult;
 
     // Process based on scan mode
     if (config.scanMode === 'webhook') {
       core.info('🔗 Processing in webhook mode (single issue)');
-      result = await processWebhookMode(githubApi);
+      result = await processWebhookMode(githubApi, projectSync, config);
     } else {
       core.info('🔍 Processing in full scan mode (all issues)');
-      result = await processFullScanMode(githubApi);
+      core.info(`🧭 Drift mode: ${config.driftMode}`);
+      result = await processFullScanMode(githubApi, projectSync, config);
     }
 
     // Report results
@@ -530,6 +1030,7 @@ async function run(): Promise<void> {
 
     core.setOutput('issues-updated', result.issuesUpdated.toString());
     core.setOutput('dependencies-resolved', result.dependenciesResolved.toString());
+    core.setOutput('drift-count', (result.driftReport ? countDrift(result.driftReport) : 0).toString());
     
     if (result.errors.length > 0) {
       core.warning(`Completed with ${result.errors.length} errors`);
@@ -16,6 +16,8 @@ import * as dotenv from 'dotenv';
 import { components } from "@octokit/openapi-types";
 import { EnhancedGitHubApi, createGitHubApiClient } from './scripts/github-api';
 import { IdempotencyManager } from './scripts/idempotency-manager';
+import { updateDependencyLabels } from './scripts/sub-issue-creation';
+import { syncIssueDependencyLinks } from './scripts/dependency-policy';
 
 // Types for Node.js globals (process, etc.)
 // If you see type errors, run: npm install --save-dev @types/node
@@ -84,27 +86,6 @@ try {
   complexityMap = {};
 }
 
-// Helper to update issue labels based on dependency status
-function updateDependencyLabels(task: Task, dependencyIssues: Issue[] | undefined): string[] {
-  const additionalLabels: string[] = [];
-  
-  if (!dependencyIssues || dependencyIssues.length === 0) {
-    return additionalLabels;
-  }
-  
-  const openDependencies = dependencyIssues.filter(issue => issue.state === 'open');
-  
-  if (openDependencies.length > 0) {
-    additionalLabels.push('blocked');
-    additionalLabels.push(`blocked-by:${openDependencies.length}`);
-  } else {
-    // All dependencies are closed, task is ready
-    additionalLabels.push('ready');
-  }
-  
-  return additionalLabels;
-}
-
 // Helper to generate comprehensive labels for issues
 function generateIssueLabels(task: Task, parentTask?: Task, complexityScore?: number): string[] {
   const labels = ['taskmaster'];
@@ -408,6 +389,8 @@ async function main() {
     }
 
     // Update issues with dependency links and labels
+    const managedIssueNumbers = Object.values(idToIssue).map(i => i.number);
+
     // For parent tasks
     for (const task of tasks) {
       const issue = idToIssue[`${task.id}`];
@@ -443,6 +426,9 @@ async function main() {
         );
       }
 
+      // Link native "blocked by" dependencies alongside the labels
+      await syncIssueDependencyLinks(githubApi, issue.number, (depIssues || []).map(i => i.number), managedIssueNumbers);
+
         // For subtasks
       if (task.subtasks) {
         for (const sub of task.subtasks) {
@@ -477,6 +463,8 @@ async function main() {
               subUpdatedLabels
             );
           }
+
+          await syncIssueDependencyLinks(githubApi, issue.number, (depIssues || []).map(i => i.number), managedIssueNumbers);
         }
       }
     }
@@ -16,6 +16,7 @@ import * as https from 'https';
 import * as http from 'http';
 import { DefaultArtifactClient } from '@actions/artifact';
 import type { ProcessingCheckpoint } from './github-api';
+import type { DriftReport } from './drift-report';
 
 /**
  * Task graph metadata for artifact storage
@@ -325,6 +326,66 @@ export class ArtifactManager {
     }
   }
 
+  /**
+   * Download the task graph published by the generate action, possibly in an earlier workflow run
+   *
+   * @returns the parsed `artifacts/taskmaster/task-graph.json`, or null when it could not be downloaded
+   */
+  async downloadPublishedTaskGraph(
+    artifactId: number,
+    findBy: { token: string; workflowRunId: number; repositoryOwner: string; repositoryName: string }
+  ): Promise<any | null> {
+    const downloadPath = path.join(this.tempDir, `task-graph-download-${artifactId}`);
+
+    try {
+      await this.artifactClient.downloadArtifact(artifactId, { path: downloadPath, findBy });
+
+      const taskGraphPath = path.join(downloadPath, 'artifacts', 'taskmaster', 'task-graph.json');
+      if (!fs.existsSync(taskGraphPath)) {
+        console.warn(`⚠️ Downloaded artifact ${artifactId} has no task graph`);
+        return null;
+      }
+
+      return JSON.parse(fs.readFileSync(taskGraphPath, 'utf8'));
+    } catch (error) {
+      console.warn(`⚠️ Failed to download task graph artifact ${artifactId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    } finally {
+      // Clean up downloaded files
+      fs.rmSync(downloadPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download a checkpoint saved by `saveCheckpoint`, possibly in an earlier workflow run
+   *
+   * @returns the saved checkpoint data, or null when it could not be downloaded
+   */
+  async downloadCheckpoint(
+    artifactId: number,
+    findBy: { token: string; workflowRunId: number; repositoryOwner: string; repositoryName: string }
+  ): Promise<{ taskGraphId: string; checkpoint: ProcessingCheckpoint; additionalData: any; savedAt: string } | null> {
+    const downloadPath = path.join(this.tempDir, `checkpoint-download-${artifactId}`);
+
+    try {
+      await this.artifactClient.downloadArtifact(artifactId, { path: downloadPath, findBy });
+
+      const checkpointFile = fs.readdirSync(downloadPath).find(file => file.startsWith('checkpoint-') && file.endsWith('.json'));
+      if (!checkpointFile) {
+        console.warn(`⚠️ Downloaded checkpoint artifact ${artifactId} has no checkpoint file`);
+        return null;
+      }
+
+      return JSON.parse(fs.readFileSync(path.join(downloadPath, checkpointFile), 'utf8'));
+    } catch (error) {
+      console.warn(`⚠️ Failed to download checkpoint ${artifactId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    } finally {
+      // Clean up downloaded files
+      fs.rmSync(downloadPath, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Create replay data for failed operations
    */
@@ -436,6 +497,39 @@ export class ArtifactManager {
     }
   }
 
+  /**
+   * Upload a watcher drift report as a JSON artifact
+   *
+   * @returns the artifact name, or null when the upload failed
+   */
+  async uploadDriftReport(report: DriftReport): Promise<string | null> {
+    const reportId = `drift-report-${this.generateArtifactId()}`;
+    const reportPath = path.join(this.tempDir, `${reportId}.json`);
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+    try {
+      await this.artifactClient.uploadArtifact(
+        reportId,
+        [reportPath],
+        this.tempDir,
+        {
+          retentionDays: 30
+        }
+      );
+
+      console.log(`✅ Drift report uploaded: ${reportId}`);
+      return reportId;
+    } catch (error) {
+      console.warn(`⚠️ Failed to upload drift report: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    } finally {
+      // Clean up temp file
+      if (fs.existsSync(reportPath)) {
+        fs.unlinkSync(reportPath);
+      }
+    }
+  }
+
   /**
    * Calculate total tasks recursively
    */
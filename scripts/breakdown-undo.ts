@@ -0,0 +1,268 @@
+/**
+ * Breakdown Undo
+ *
+ * Reverses a `/breakdown`: the sub-issues it created are detached from the
+ * parent and closed (optionally locked), deleted or transferred, and the
+ * parent is reset to not broken down.
+ *
+ * Sub-issues that people have already worked on (edited or commented on by
+ * anyone other than automation) are refused unless forced, so an undo never
+ * throws away human work silently.
+ */
+
+import { ApiIssue, EnhancedGitHubApi } from './github-api';
+import { CommandDefinition, hasPermission } from './command-registry';
+import { ValidationConfig } from './comment-parser';
+import { ParentIssueStateManager } from './parent-issue-state-manager';
+import { buildObsoleteLabels } from './issue-reconciliation';
+import { isRepository } from './issue-reference';
+
+/**
+ * What happens to a detached sub-issue
+ */
+export type SubIssueDisposal = 'close' | 'delete' | 'transfer';
+
+/**
+ * Options for undoing a breakdown
+ */
+export interface UndoBreakdownOptions {
+  /** Defaults to `close` */
+  disposal?: SubIssueDisposal;
+  /** Lock closed sub-issues */
+  lock?: boolean;
+  /** `owner/repo` to transfer sub-issues to (`transfer` only) */
+  transferTo?: string;
+  /** Undo even when sub-issues have human activity */
+  force?: boolean;
+}
+
+/**
+ * Sub-issue that was refused because people worked on it
+ */
+export interface RefusedSubIssue {
+  number: number;
+  reason: string;
+}
+
+/**
+ * Outcome of undoing a breakdown
+ */
+export interface UndoBreakdownResult {
+  /** Whether the breakdown was undone (false when sub-issues were refused) */
+  undone: boolean;
+  /** Sub-issues that were detached and disposed of */
+  subIssueNumbers: number[];
+  refused: RefusedSubIssue[];
+}
+
+/**
+ * Label of sub-issues created by a breakdown
+ */
+export const BREAKDOWN_GENERATED_LABEL = 'breakdown-generated';
+
+const ISSUE_ACTIVITY_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    viewer { login }
+    repository(owner: $owner, name: $repo) {
+      issue(number: $number) {
+        editor { login __typename }
+        comments(first: 100) { nodes { author { login __typename } } }
+        timelineItems(first: 50, itemTypes: [RENAMED_TITLE_EVENT]) {
+          nodes { ... on RenamedTitleEvent { actor { login __typename } } }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Whether an actor is automation: a bot, or the user the token belongs to
+ */
+function isAutomation(actor: { login?: string; __typename?: string } | null | undefined, viewer: string): boolean {
+  return !actor || actor.__typename === 'Bot' || !!actor.login?.endsWith('[bot]') || actor.login === viewer;
+}
+
+/**
+ * Why an issue counts as worked on by people, or null when only automation touched it
+ */
+export async function findHumanActivity(githubApi: EnhancedGitHubApi, issueNumber: number): Promise<string | null> {
+  const [owner, repo] = githubApi.getRepository().split('/');
+  const response = await githubApi.graphql<any>(ISSUE_ACTIVITY_QUERY, { owner, repo, number: issueNumber }, 'issue-activity');
+  const viewer = response?.viewer?.login || '';
+  const issue = response?.repository?.issue;
+  if (!issue) {
+    return null;
+  }
+
+  if (!isAutomation(issue.editor, viewer)) {
+    return `edited by @${issue.editor.login}`;
+  }
+
+  const commenter = (issue.comments?.nodes || []).find((comment: any) => !isAutomation(comment?.author, viewer));
+  if (commenter) {
+    return `commented on by @${commenter.author.login}`;
+  }
+
+  const renamer = (issue.timelineItems?.nodes || []).find((event: any) => !isAutomation(event?.actor, viewer));
+  if (renamer) {
+    return `retitled by @${renamer.actor.login}`;
+  }
+
+  return null;
+}
+
+/**
+ * Sub-issues created by the breakdown of a parent issue
+ *
+ * Uses the sub-issues recorded in the parent's breakdown state, falling back
+ * to linked sub-issues labeled `breakdown-generated`.
+ */
+export async function findBreakdownSubIssues(
+  githubApi: EnhancedGitHubApi,
+  stateManager: ParentIssueStateManager,
+  parentIssueNumber: number
+): Promise<number[]> {
+  const state = await stateManager.loadState(parentIssueNumber);
+  if (state && state.subIssueNumbers.length > 0) {
+    return state.subIssueNumbers;
+  }
+
+  const labelled = (issue: ApiIssue) =>
+    (issue.labels || []).some(label => (typeof label === 'string' ? label : label.name) === BREAKDOWN_GENERATED_LABEL);
+  return (await githubApi.getSubIssues(parentIssueNumber)).filter(labelled).map(issue => issue.number);
+}
+
+/**
+ * Undo the breakdown of a parent issue
+ *
+ * Nothing is changed when any sub-issue is refused.
+ */
+export async function undoBreakdown(
+  githubApi: EnhancedGitHubApi,
+  parentIssueNumber: number,
+  options: UndoBreakdownOptions = {}
+): Promise<UndoBreakdownResult> {
+  const disposal = options.disposal || 'close';
+  const stateManager = new ParentIssueStateManager(githubApi);
+  const subIssueNumbers = await findBreakdownSubIssues(githubApi, stateManager, parentIssueNumber);
+
+  const refused: RefusedSubIssue[] = [];
+  if (!options.force) {
+    for (const number of subIssueNumbers) {
+      const reason = await findHumanActivity(githubApi, number);
+      if (reason) {
+        refused.push({ number, reason });
+      }
+    }
+  }
+  if (refused.length > 0) {
+    return { undone: false, subIssueNumbers: [], refused };
+  }
+
+  const linked = new Set((await githubApi.getSubIssues(parentIssueNumber)).map(issue => issue.number));
+
+  for (const number of subIssueNumbers) {
+    if (linked.has(number)) {
+      await githubApi.removeSubIssue(parentIssueNumber, number);
+    }
+
+    switch (disposal) {
+      case 'delete':
+        await githubApi.deleteIssue(number);
+        break;
+      case 'transfer':
+        await githubApi.transferIssue(number, options.transferTo!);
+        break;
+      default: {
+        const issue = await githubApi.getIssue(number);
+        const labels = (issue.labels || []).map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean);
+        await githubApi.updateIssue(number, { labels: buildObsoleteLabels(labels), state: 'closed' });
+        if (options.lock) {
+          await githubApi.lockIssue(number, 'resolved');
+        }
+      }
+    }
+  }
+
+  await stateManager.resetBreakdown(parentIssueNumber);
+  return { undone: true, subIssueNumbers, refused };
+}
+
+/**
+ * Arguments of `/unbreakdown`
+ */
+export const UNBREAKDOWN_VALIDATION_CONFIG: ValidationConfig = {
+  mode: {
+    type: 'string',
+    allowedValues: ['close', 'delete', 'transfer'],
+    description: 'What happens to the sub-issues: close (default), delete or transfer'
+  },
+  transferTo: {
+    type: 'string',
+    description: 'Repository (owner/repo) to transfer the sub-issues to'
+  },
+  lock: {
+    type: 'boolean',
+    description: 'Lock the closed sub-issues'
+  },
+  force: {
+    type: 'boolean',
+    description: 'Undo even when sub-issues were edited or commented on'
+  }
+};
+
+/**
+ * `/unbreakdown`: undo the breakdown of the issue
+ *
+ * Deleting sub-issues needs admin permission; everything else needs write.
+ */
+export const unbreakdownCommand: CommandDefinition = {
+  name: 'unbreakdown',
+  description: 'Detach and close (or delete, or transfer) the sub-issues created by /breakdown',
+  permission: 'write',
+  args: UNBREAKDOWN_VALIDATION_CONFIG,
+  validate: ({ args }) => {
+    const errors: string[] = [];
+    const mode = args.mode || 'close';
+    if (mode === 'transfer' && !(typeof args.transferTo === 'string' && isRepository(args.transferTo))) {
+      errors.push("--mode transfer needs --transfer-to owner/repo");
+    }
+    if (mode !== 'transfer' && args.transferTo !== undefined) {
+      errors.push('--transfer-to is only used with --mode transfer');
+    }
+    if (mode !== 'close' && args.lock) {
+      errors.push('--lock is only used with --mode close');
+    }
+    return errors;
+  },
+  handler: async ({ args }, { githubApi, issueNumber, actor }) => {
+    const disposal = (args.mode || 'close') as SubIssueDisposal;
+    if (disposal === 'delete') {
+      const permission = await githubApi.getCollaboratorPermission(actor);
+      if (!hasPermission(permission, 'admin')) {
+        return { success: false, message: `@${actor} needs admin permission to delete sub-issues (has ${permission})` };
+      }
+    }
+
+    const result = await undoBreakdown(githubApi, issueNumber, {
+      disposal,
+      lock: args.lock === true,
+      transferTo: args.transferTo as string | undefined,
+      force: args.force === true
+    });
+
+    if (!result.undone) {
+      const reasons = result.refused.map(r => `#${r.number} (${r.reason})`).join(', ');
+      return { success: false, message: `Refusing to undo the breakdown of #${issueNumber}: ${reasons}. Use --force to undo anyway` };
+    }
+
+    const verb = disposal === 'delete' ? 'deleted' : disposal === 'transfer' ? `transferred to ${args.transferTo}` : 'closed';
+    return {
+      success: true,
+      message: result.subIssueNumbers.length > 0
+        ? `Undid the breakdown of #${issueNumber}: ${verb} ${result.subIssueNumbers.map(n => `#${n}`).join(', ')}`
+        : `Reset #${issueNumber}; its breakdown had no sub-issues`,
+      issueNumbers: result.subIssueNumbers
+    };
+  }
+};
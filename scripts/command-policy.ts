@@ -0,0 +1,319 @@
+/**
+ * Command Policy
+ *
+ * Decides whether a slash command posted as an issue comment may run, before
+ * anything is executed:
+ * - the commenter needs a minimum repository permission
+ * - teams can be allowed or denied (`acme/maintainers`, `!acme/contractors`)
+ * - issues can be required to carry, or refused for carrying, labels
+ * - commenters and issues have cooldowns between commands
+ * - a single command may only create so many sub-issues
+ *
+ * Denials are answered with a reply comment explaining why, so commenters
+ * are never left guessing why nothing happened.
+ */
+
+import { EnhancedGitHubApi, CollaboratorPermission } from './github-api';
+import { GitHubMetadataExtractor, UserInfo } from './metadata-extractor';
+import { parseCommand } from './comment-parser';
+import { hasPermission } from './command-registry';
+import { TaskmasterConfig } from './config-management';
+
+/**
+ * Policy settings
+ */
+export interface CommandPolicyConfig {
+  /** Minimum repository permission of the commenter */
+  minimumPermission: CollaboratorPermission;
+  /** Teams whose members may run commands; empty allows everyone */
+  allowedTeams: string[];
+  /** Teams whose members may not run commands */
+  deniedTeams: string[];
+  /** Labels of which the issue needs one; empty allows every issue */
+  allowedLabels: string[];
+  /** Labels that refuse commands on the issue */
+  deniedLabels: string[];
+  /** Minutes a commenter waits between commands (0 to disable) */
+  userCooldownMinutes: number;
+  /** Minutes an issue waits between commands (0 to disable) */
+  issueCooldownMinutes: number;
+  /** Most sub-issues a single command may create */
+  maxSubIssues: number;
+  /** Commands counted towards cooldowns */
+  commands: string[];
+}
+
+/**
+ * Rule that denied a command
+ */
+export type PolicyRule = 'permission' | 'team' | 'label' | 'user-cooldown' | 'issue-cooldown' | 'sub-issue-limit';
+
+/**
+ * Outcome of evaluating a command against the policy
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Rule that denied the command */
+  rule?: PolicyRule;
+  /** Why the command was denied */
+  reason?: string;
+  /** When a cooldown ends */
+  retryAfter?: Date;
+}
+
+/**
+ * A command about to run
+ */
+export interface CommandPolicyRequest {
+  /** Command name without the slash */
+  command: string;
+  /** Issue the command was posted on */
+  issueNumber: number;
+  /** Login of the commenter */
+  actor: string;
+  /** ID of the comment holding the command, excluded from cooldowns */
+  commentId?: number;
+  /** Commenter details; looked up when missing */
+  commenter?: UserInfo;
+}
+
+/**
+ * Commands the Taskmaster actions respond to
+ */
+export const TASKMASTER_COMMANDS = ['breakdown', 'replan', 'split', 'merge', 'estimate', 'assign', 'unbreakdown'];
+
+/**
+ * Marker identifying policy denial replies
+ */
+export const POLICY_DENIAL_MARKER = '<!-- taskmaster-policy-denial -->';
+
+/**
+ * Split a comma-separated list into allowed and denied (`!`-prefixed) entries
+ */
+export function parsePolicyList(value: string): { allowed: string[]; denied: string[] } {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+  return {
+    allowed: entries.filter(entry => !entry.startsWith('!')),
+    denied: entries.filter(entry => entry.startsWith('!')).map(entry => entry.slice(1).trim()).filter(Boolean)
+  };
+}
+
+/**
+ * Policy settings from the Taskmaster configuration
+ */
+export function commandPolicyFromConfig(config: TaskmasterConfig): CommandPolicyConfig {
+  const teams = parsePolicyList(config.commandTeams || '');
+  const labels = parsePolicyList(config.commandLabels || '');
+  return {
+    minimumPermission: config.commandPermission || 'triage',
+    allowedTeams: teams.allowed,
+    deniedTeams: teams.denied,
+    allowedLabels: labels.allowed,
+    deniedLabels: labels.denied,
+    userCooldownMinutes: config.commandUserCooldown || 0,
+    issueCooldownMinutes: config.commandIssueCooldown || 0,
+    maxSubIssues: config.maxSubIssuesPerCommand || 25,
+    commands: TASKMASTER_COMMANDS
+  };
+}
+
+/**
+ * Reply comment explaining a denial
+ */
+export function formatPolicyDenial(request: CommandPolicyRequest, decision: PolicyDecision): string {
+  const lines = [
+    POLICY_DENIAL_MARKER,
+    `@${request.actor} \`/${request.command}\` was not run: ${decision.reason}.`
+  ];
+  if (decision.retryAfter) {
+    lines.push('', `You can try again after ${decision.retryAfter.toISOString()}.`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Policy consulted before comment commands run
+ */
+export class CommandPolicy {
+  private githubApi: EnhancedGitHubApi;
+  private config: CommandPolicyConfig;
+
+  constructor(githubApi: EnhancedGitHubApi, config: CommandPolicyConfig) {
+    this.githubApi = githubApi;
+    this.config = config;
+  }
+
+  /**
+   * Most sub-issues a single command may create
+   */
+  get maxSubIssues(): number {
+    return this.config.maxSubIssues;
+  }
+
+  /**
+   * Evaluate a command against the policy
+   *
+   * Rules are checked from cheapest to most expensive; the first rule that
+   * fails denies the command.
+   */
+  async evaluate(request: CommandPolicyRequest): Promise<PolicyDecision> {
+    const commenter = request.commenter || await new GitHubMetadataExtractor(this.githubApi).extractUserInfo(request.actor);
+    const permission = commenter.permission || await this.githubApi.getCollaboratorPermission(request.actor);
+
+    if (!hasPermission(permission, this.config.minimumPermission)) {
+      return this.deny('permission', `commands need ${this.config.minimumPermission} permission on this repository (you have ${permission})`);
+    }
+
+    const teamDecision = await this.checkTeams(commenter.login);
+    if (!teamDecision.allowed) {
+      return teamDecision;
+    }
+
+    const labelDecision = await this.checkLabels(request.issueNumber);
+    if (!labelDecision.allowed) {
+      return labelDecision;
+    }
+
+    if (this.config.issueCooldownMinutes > 0) {
+      const since = new Date(Date.now() - this.config.issueCooldownMinutes * 60 * 1000);
+      const last = await this.findLastCommand(request.issueNumber, since, request.commentId);
+      if (last) {
+        return this.deny('issue-cooldown', `another command was posted on this issue less than ${this.config.issueCooldownMinutes} minutes ago`,
+          new Date(last.getTime() + this.config.issueCooldownMinutes * 60 * 1000));
+      }
+    }
+
+    if (this.config.userCooldownMinutes > 0) {
+      const since = new Date(Date.now() - this.config.userCooldownMinutes * 60 * 1000);
+      const last = await this.findLastCommandBy(commenter.login, since, request.commentId);
+      if (last) {
+        return this.deny('user-cooldown', `you posted another command less than ${this.config.userCooldownMinutes} minutes ago`,
+          new Date(last.getTime() + this.config.userCooldownMinutes * 60 * 1000));
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Check the number of sub-issues a command is about to create
+   */
+  checkSubIssueLimit(count: number): PolicyDecision {
+    if (count > this.config.maxSubIssues) {
+      return this.deny('sub-issue-limit', `it would create ${count} sub-issues, more than the limit of ${this.config.maxSubIssues} per command`);
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Evaluate a command and reply to the comment when it is denied
+   */
+  async enforce(request: CommandPolicyRequest): Promise<PolicyDecision> {
+    const decision = await this.evaluate(request);
+    if (!decision.allowed) {
+      await this.replyToDenial(request, decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Check a sub-issue count and reply to the comment when it is over the limit
+   */
+  async enforceSubIssueLimit(request: CommandPolicyRequest, count: number): Promise<PolicyDecision> {
+    const decision = this.checkSubIssueLimit(count);
+    if (!decision.allowed) {
+      await this.replyToDenial(request, decision);
+    }
+    return decision;
+  }
+
+  private deny(rule: PolicyRule, reason: string, retryAfter?: Date): PolicyDecision {
+    return { allowed: false, rule, reason, ...(retryAfter ? { retryAfter } : {}) };
+  }
+
+  /**
+   * Check denied teams first, then require membership of an allowed team
+   */
+  private async checkTeams(login: string): Promise<PolicyDecision> {
+    for (const team of this.config.deniedTeams) {
+      if (await this.githubApi.isTeamMember(team, login)) {
+        return this.deny('team', `members of ${team} may not run commands`);
+      }
+    }
+
+    if (this.config.allowedTeams.length === 0) {
+      return { allowed: true };
+    }
+    for (const team of this.config.allowedTeams) {
+      if (await this.githubApi.isTeamMember(team, login)) {
+        return { allowed: true };
+      }
+    }
+    return this.deny('team', `commands are limited to members of ${this.config.allowedTeams.join(', ')}`);
+  }
+
+  private async checkLabels(issueNumber: number): Promise<PolicyDecision> {
+    if (this.config.allowedLabels.length === 0 && this.config.deniedLabels.length === 0) {
+      return { allowed: true };
+    }
+
+    const issue = await this.githubApi.getIssue(issueNumber);
+    const labels = new Set((issue.labels || [])
+      .map(label => (typeof label === 'string' ? label : label.name || '').toLowerCase())
+      .filter(Boolean));
+
+    const denied = this.config.deniedLabels.find(label => labels.has(label.toLowerCase()));
+    if (denied) {
+      return this.deny('label', `issues labeled \`${denied}\` do not accept commands`);
+    }
+    if (this.config.allowedLabels.length > 0 && !this.config.allowedLabels.some(label => labels.has(label.toLowerCase()))) {
+      return this.deny('label', `commands only run on issues labeled ${this.config.allowedLabels.map(label => `\`${label}\``).join(', ')}`);
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * When the latest command on an issue since a time was posted, if any
+   */
+  private async findLastCommand(issueNumber: number, since: Date, excludeCommentId?: number, author?: string): Promise<Date | null> {
+    const comments = await this.githubApi.listIssueComments(issueNumber, since.toISOString());
+    const times = comments
+      .filter(comment => comment.id !== excludeCommentId && new Date(comment.created_at) >= since)
+      .filter(comment => !author || comment.user?.login === author)
+      .filter(comment => parseCommand(comment.body || '', { supportedCommands: this.config.commands, allowPositional: true }) !== null)
+      .map(comment => new Date(comment.created_at).getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  }
+
+  /**
+   * When a user's latest command in the repository since a time was posted, if any
+   */
+  private async findLastCommandBy(login: string, since: Date, excludeCommentId?: number): Promise<Date | null> {
+    let last: Date | null = null;
+    for (const issueNumber of await this.githubApi.findIssuesCommentedBy(login, since.toISOString())) {
+      const time = await this.findLastCommand(issueNumber, since, excludeCommentId, login);
+      if (time && (!last || time > last)) {
+        last = time;
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Explain a denial on the issue; failing to reply never fails the command path
+   */
+  private async replyToDenial(request: CommandPolicyRequest, decision: PolicyDecision): Promise<void> {
+    try {
+      await this.githubApi.createComment(request.issueNumber, formatPolicyDenial(request, decision));
+    } catch (error) {
+      console.warn(`Failed to reply to denied /${request.command} on #${request.issueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Factory function to create the command policy from the Taskmaster configuration
+ */
+export function createCommandPolicy(githubApi: EnhancedGitHubApi, config: TaskmasterConfig): CommandPolicy {
+  return new CommandPolicy(githubApi, commandPolicyFromConfig(config));
+}
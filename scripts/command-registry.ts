@@ -0,0 +1,374 @@
+/**
+ * Command Registry
+ *
+ * Slash commands posted as issue comments (`/split 3`, `/assign @octocat`)
+ * are registered here. Each command declares:
+ * - its positional and flag arguments, validated before it runs
+ * - the repository permission the commenter needs
+ * - the handler that carries it out
+ *
+ * Actions build a registry with the commands they serve and dispatch each
+ * comment through it.
+ */
+
+import { EnhancedGitHubApi, CollaboratorPermission } from './github-api';
+import { parseCommand, validateCommandArgs, ValidationConfig } from './comment-parser';
+import { IssueReference, parseIssueReference } from './issue-reference';
+import type { CommandPolicy } from './command-policy';
+
+/**
+ * Repository permissions from lowest to highest
+ */
+export const PERMISSION_LEVELS: CollaboratorPermission[] = ['none', 'read', 'triage', 'write', 'maintain', 'admin'];
+
+/**
+ * Type of a positional argument
+ * - `number`: an integer
+ * - `issue`: `#12`, `owner/repo#12` or an issue URL
+ * - `user`: `@login`
+ * - `string`: any token
+ */
+export type PositionalArgumentType = 'number' | 'issue' | 'user' | 'string';
+
+/**
+ * Schema for a positional argument
+ */
+export interface PositionalArgumentRule {
+  /** Name the value is stored under */
+  name: string;
+  type: PositionalArgumentType;
+  required?: boolean;
+  /** Collect all remaining values (last argument only) */
+  variadic?: boolean;
+  /** Range for numbers */
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+/**
+ * Parsed positional argument value
+ */
+export type PositionalValue = number | string | IssueReference;
+
+/**
+ * A validated command, ready for its handler
+ */
+export interface CommandInvocation {
+  command: string;
+  /** Flag arguments, with camelCase names */
+  args: { [key: string]: string | number | boolean };
+  /** Positional arguments by name; variadic ones are arrays */
+  positional: { [name: string]: PositionalValue | PositionalValue[] };
+  rawText: string;
+}
+
+/**
+ * What a command runs against
+ */
+export interface CommandContext {
+  githubApi: EnhancedGitHubApi;
+  /** Issue the command was posted on */
+  issueNumber: number;
+  /** Login of the commenter */
+  actor: string;
+  /** ID of the comment holding the command */
+  commentId?: number;
+  /** Policy consulted before the command runs */
+  policy?: CommandPolicy;
+}
+
+/**
+ * Outcome reported by a command handler
+ */
+export interface CommandResult {
+  success: boolean;
+  /** Human-readable summary */
+  message: string;
+  /** Issues created or changed by the command */
+  issueNumbers?: number[];
+}
+
+/**
+ * A registered slash command
+ */
+export interface CommandDefinition<TContext extends CommandContext = CommandContext> {
+  /** Command name without the slash */
+  name: string;
+  description: string;
+  /** Minimum repository permission of the commenter */
+  permission: CollaboratorPermission;
+  positional?: PositionalArgumentRule[];
+  args?: ValidationConfig;
+  /** Checks spanning several arguments; returns error messages */
+  validate?: (invocation: CommandInvocation) => string[];
+  handler: (invocation: CommandInvocation, context: TContext) => Promise<CommandResult>;
+}
+
+/**
+ * Result of parsing a comment against the registry
+ */
+export interface CommandParseResult {
+  /** Matched command name */
+  command: string;
+  invocation: CommandInvocation;
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Result of dispatching a comment
+ */
+export interface CommandDispatchResult {
+  /** Matched command name, if any */
+  command?: string;
+  status: 'not-found' | 'invalid' | 'forbidden' | 'denied' | 'succeeded' | 'failed';
+  message: string;
+  errors: string[];
+  /** Handler result, when the handler ran */
+  result?: CommandResult;
+}
+
+/**
+ * Whether a permission satisfies a required permission
+ */
+export function hasPermission(actual: CollaboratorPermission, required: CollaboratorPermission): boolean {
+  return PERMISSION_LEVELS.indexOf(actual) >= PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * Usage line for a command, e.g. `/merge <issues...>`
+ */
+export function formatCommandUsage(definition: CommandDefinition<any>): string {
+  const positional = (definition.positional || []).map(rule => {
+    const name = rule.variadic ? `${rule.name}...` : rule.name;
+    return rule.required ? `<${name}>` : `[${name}]`;
+  });
+  const flags = Object.keys(definition.args || {}).map(key => `[--${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}]`);
+  return [`/${definition.name}`, ...positional, ...flags].join(' ');
+}
+
+/**
+ * Parse a positional value, pushing an error when it doesn't fit its rule
+ */
+function parsePositionalValue(token: string, rule: PositionalArgumentRule, errors: string[]): PositionalValue | undefined {
+  switch (rule.type) {
+    case 'number': {
+      if (!/^-?\d+$/.test(token)) {
+        errors.push(`Argument '${rule.name}' must be a whole number, got ${token}`);
+        return undefined;
+      }
+      const value = parseInt(token, 10);
+      if (rule.min !== undefined && value < rule.min) {
+        errors.push(`Argument '${rule.name}': ${value} is below minimum allowed value of ${rule.min}`);
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        errors.push(`Argument '${rule.name}': ${value} exceeds maximum allowed value of ${rule.max}`);
+      }
+      return value;
+    }
+    case 'issue': {
+      // Bare `#N` stays a number for the handler to resolve in its own repository
+      const bare = token.match(/^#(\d+)$/);
+      if (bare) {
+        return parseInt(bare[1], 10);
+      }
+      const reference = parseIssueReference(token);
+      if (!reference) {
+        errors.push(`Argument '${rule.name}' must be an issue reference like #12, got ${token}`);
+        return undefined;
+      }
+      return reference;
+    }
+    case 'user': {
+      const match = token.match(/^@?([A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\[bot\])?)$/);
+      if (!match) {
+        errors.push(`Argument '${rule.name}' must be a user like @octocat, got ${token}`);
+        return undefined;
+      }
+      return match[1];
+    }
+    default:
+      return token;
+  }
+}
+
+/**
+ * Match positional tokens to their rules
+ */
+function parsePositionalArgs(
+  tokens: string[],
+  rules: PositionalArgumentRule[],
+  errors: string[]
+): { [name: string]: PositionalValue | PositionalValue[] } {
+  const values: { [name: string]: PositionalValue | PositionalValue[] } = {};
+  let index = 0;
+
+  for (const rule of rules) {
+    if (rule.variadic) {
+      const parsed = tokens.slice(index)
+        .map(token => parsePositionalValue(token, rule, errors))
+        .filter((value): value is PositionalValue => value !== undefined);
+      index = tokens.length;
+      if (parsed.length === 0 && rule.required) {
+        errors.push(`Missing required argument: '${rule.name}'`);
+      }
+      values[rule.name] = parsed;
+      continue;
+    }
+
+    if (index >= tokens.length) {
+      if (rule.required) {
+        errors.push(`Missing required argument: '${rule.name}'`);
+      }
+      continue;
+    }
+
+    const value = parsePositionalValue(tokens[index++], rule, errors);
+    if (value !== undefined) {
+      values[rule.name] = value;
+    }
+  }
+
+  if (index < tokens.length) {
+    errors.push(`Unexpected argument: ${tokens.slice(index).join(' ')}`);
+  }
+
+  return values;
+}
+
+/**
+ * Registry of slash commands
+ */
+export class CommandRegistry<TContext extends CommandContext = CommandContext> {
+  private commands: Map<string, CommandDefinition<TContext>> = new Map();
+
+  /**
+   * Register a command; names are case-insensitive and must be unique
+   */
+  register(definition: CommandDefinition<TContext>): this {
+    const name = definition.name.toLowerCase();
+    if (this.commands.has(name)) {
+      throw new Error(`Command /${name} is already registered`);
+    }
+    this.commands.set(name, definition);
+    return this;
+  }
+
+  /**
+   * Registered command by name
+   */
+  get(name: string): CommandDefinition<TContext> | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  /**
+   * Names of all registered commands
+   */
+  names(): string[] {
+    return Array.from(this.commands.keys());
+  }
+
+  /**
+   * All registered commands
+   */
+  list(): CommandDefinition<TContext>[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Find and validate the command in a comment
+   *
+   * Returns null when the comment contains no registered command.
+   */
+  parse(commentBody: string): CommandParseResult | null {
+    const parsed = parseCommand(commentBody, { supportedCommands: this.names(), allowPositional: true });
+    if (!parsed) {
+      return null;
+    }
+
+    const definition = this.get(parsed.command)!;
+    const errors = [...parsed.errors];
+    const validation = validateCommandArgs(parsed.args, definition.args || {});
+    errors.push(...validation.errors);
+
+    const invocation: CommandInvocation = {
+      command: definition.name,
+      args: validation.normalized,
+      positional: parsePositionalArgs(parsed.positional, definition.positional || [], errors),
+      rawText: parsed.rawText
+    };
+
+    if (errors.length === 0 && definition.validate) {
+      errors.push(...definition.validate(invocation));
+    }
+
+    return {
+      command: definition.name,
+      invocation,
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Parse a comment, check the commenter's permission and run the command
+   *
+   * When the context carries a policy, it is consulted after the permission
+   * check and answers denials itself. Handler errors are reported as a failed
+   * result rather than thrown.
+   */
+  async dispatch(commentBody: string, context: TContext): Promise<CommandDispatchResult> {
+    const parsed = this.parse(commentBody);
+    if (!parsed) {
+      return { status: 'not-found', message: 'No command found in comment', errors: [] };
+    }
+
+    const { command } = parsed;
+    if (!parsed.isValid) {
+      return {
+        command,
+        status: 'invalid',
+        message: `Invalid /${command} command. Usage: ${formatCommandUsage(this.get(command)!)}`,
+        errors: parsed.errors
+      };
+    }
+
+    const definition = this.get(command)!;
+    const permission = await context.githubApi.getCollaboratorPermission(context.actor);
+    if (!hasPermission(permission, definition.permission)) {
+      return {
+        command,
+        status: 'forbidden',
+        message: `@${context.actor} needs ${definition.permission} permission to run /${command} (has ${permission})`,
+        errors: []
+      };
+    }
+
+    if (context.policy) {
+      const decision = await context.policy.enforce({
+        command,
+        issueNumber: context.issueNumber,
+        actor: context.actor,
+        commentId: context.commentId
+      });
+      if (!decision.allowed) {
+        return { command, status: 'denied', message: `/${command} denied by policy: ${decision.reason}`, errors: [] };
+      }
+    }
+
+    try {
+      const result = await definition.handler(parsed.invocation, context);
+      return {
+        command,
+        status: result.success ? 'succeeded' : 'failed',
+        message: result.message,
+        errors: [],
+        result
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { command, status: 'failed', message: `/${command} failed: ${message}`, errors: [message] };
+    }
+  }
+}
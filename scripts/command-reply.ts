@@ -0,0 +1,152 @@
+/**
+ * Command Reply
+ *
+ * Acknowledges a slash command on the comment that triggered it:
+ * - 👀 when processing starts, 🚀 or 😕 when it finishes
+ * - a single reply comment with the outcome, the effective arguments, the
+ *   issues created and any validation errors
+ *
+ * The reply carries a hidden marker keyed to the triggering comment, so a
+ * re-run of the same command edits its reply instead of adding another.
+ */
+
+import { EnhancedGitHubApi } from './github-api';
+
+/**
+ * Outcome of a command, as reported in its reply
+ */
+export interface CommandReport {
+  /** Command name without the slash */
+  command: string;
+  status: 'succeeded' | 'failed' | 'invalid';
+  /** Human-readable summary */
+  message?: string;
+  /** Arguments the command ran with, after defaults were applied */
+  args?: { [key: string]: string | number | boolean | undefined };
+  /** Issues created or changed by the command */
+  issues?: Array<{ number: number; title?: string }>;
+  /** Validation or execution errors */
+  errors?: string[];
+}
+
+/**
+ * Prefix of the hidden marker identifying command replies
+ */
+export const COMMAND_REPLY_MARKER_PREFIX = '<!-- taskmaster-command-reply';
+
+const COMMAND_REPLY_FOOTER = '\n\n---\n*🤖 This reply is updated by Taskmaster when the command is re-run.*\n';
+
+/**
+ * Hidden marker of the reply to a triggering comment
+ */
+export function commandReplyMarker(commentId: number): string {
+  return `${COMMAND_REPLY_MARKER_PREFIX}:${commentId} -->`;
+}
+
+/**
+ * Markdown body of a command reply, without marker
+ */
+export function formatCommandReply(report: CommandReport): string {
+  const heading = {
+    succeeded: `### ✅ \`/${report.command}\` succeeded`,
+    failed: `### ❌ \`/${report.command}\` failed`,
+    invalid: `### ⚠️ \`/${report.command}\` is invalid`
+  }[report.status];
+  const sections = [heading];
+
+  if (report.message) {
+    sections.push(report.message);
+  }
+
+  const args = Object.entries(report.args || {}).filter(([, value]) => value !== undefined && value !== '');
+  if (args.length > 0) {
+    sections.push([
+      '**Arguments:**',
+      '',
+      '| Argument | Value |',
+      '|----------|-------|',
+      ...args.map(([name, value]) => `| \`${name}\` | \`${value}\` |`)
+    ].join('\n'));
+  }
+
+  if (report.issues && report.issues.length > 0) {
+    sections.push([
+      `**Issues (${report.issues.length}):**`,
+      ...report.issues.map(issue => `- #${issue.number}${issue.title ? ` ${issue.title}` : ''}`)
+    ].join('\n'));
+  }
+
+  if (report.errors && report.errors.length > 0) {
+    sections.push(['**Errors:**', ...report.errors.map(error => `- ${error}`)].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Reactions and reply for one triggering comment
+ *
+ * Acknowledging never fails the command: errors are logged and ignored.
+ */
+export class CommandReply {
+  private githubApi: EnhancedGitHubApi;
+  private issueNumber: number;
+  private commentId: number;
+
+  constructor(githubApi: EnhancedGitHubApi, issueNumber: number, commentId: number) {
+    this.githubApi = githubApi;
+    this.issueNumber = issueNumber;
+    this.commentId = commentId;
+  }
+
+  /**
+   * React with 👀 to show the command is being processed
+   */
+  async acknowledge(): Promise<void> {
+    await this.react('eyes');
+  }
+
+  /**
+   * React with 🚀 or 😕 and post or update the reply
+   *
+   * @returns ID of the reply comment, when it could be posted
+   */
+  async complete(report: CommandReport): Promise<number | null> {
+    await this.react(report.status === 'succeeded' ? 'rocket' : 'confused');
+    return this.post(report);
+  }
+
+  /**
+   * React with 😕 without replying, for outcomes already explained elsewhere
+   */
+  async decline(): Promise<void> {
+    await this.react('confused');
+  }
+
+  /**
+   * Post the reply, or update the reply of an earlier run
+   */
+  async post(report: CommandReport): Promise<number | null> {
+    const marker = commandReplyMarker(this.commentId);
+    const body = formatCommandReply(report) + COMMAND_REPLY_FOOTER + marker;
+    try {
+      const comments = await this.githubApi.listIssueComments(this.issueNumber);
+      const existing = comments.find(comment => comment.body?.includes(marker));
+      const reply = existing
+        ? await this.githubApi.updateComment(existing.id, body)
+        : await this.githubApi.createComment(this.issueNumber, body);
+      return reply.id;
+    } catch (error) {
+      console.warn(`Failed to reply to comment ${this.commentId} on #${this.issueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private async react(content: 'eyes' | 'rocket' | 'confused'): Promise<void> {
+    try {
+      await this.githubApi.addCommentReaction(this.commentId, content);
+    } catch (error) {
+      console.warn(`Failed to react to comment ${this.commentId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -9,6 +9,8 @@
 export interface ParsedCommand {
   command: string;
   args: CommandArguments;
+  /** Bare arguments in order (only collected with `allowPositional`) */
+  positional: string[];
   rawText: string;
   isValid: boolean;
   errors: string[];
@@ -22,6 +24,8 @@ export interface CommentParseOptions {
   supportedCommands?: string[];
   caseSensitive?: boolean;
   allowMultipleCommands?: boolean;
+  /** Collect bare arguments (e.g. `/split 3`, `/assign @octocat`) instead of rejecting them */
+  allowPositional?: boolean;
 }
 
 // Default supported commands
@@ -55,7 +59,8 @@ export function parseCommand(
   const { 
     supportedCommands = DEFAULT_SUPPORTED_COMMANDS, 
     caseSensitive = false,
-    allowMultipleCommands = false
+    allowMultipleCommands = false,
+    allowPositional = false
   } = options;
   
   const errors: string[] = [];
@@ -74,7 +79,7 @@ export function parseCommand(
       const normalizedLine = caseSensitive ? trimmedLine : trimmedLine.toLowerCase();
       const normalizedCmd = caseSensitive ? cmd : cmd.toLowerCase();
       
-      if (normalizedLine.startsWith(`/${normalizedCmd}`)) {
+      if (new RegExp(`^/${normalizedCmd}(?:\\s|$)`).test(normalizedLine)) {
         commandCount++;
         if (commandCount === 1) {
           commandLine = trimmedLine;
@@ -95,11 +100,13 @@ export function parseCommand(
   }
   
   // Parse arguments from the command line
-  const args = parseCommandArguments(commandLine, commandMatch, errors);
+  const positional: string[] = [];
+  const args = parseCommandArguments(commandLine, commandMatch, errors, allowPositional ? positional : undefined);
   
   return {
     command: commandMatch,
     args,
+    positional,
     rawText: commandLine,
     isValid: errors.length === 0,
     errors
@@ -112,16 +119,20 @@ export function parseCommand(
  * - /breakdown --depth 3 --threshold 50
  * - /breakdown max-depth=2 complexity=30
  * - /breakdown --depth=3 threshold=50
+ *
+ * Bare arguments are collected into `positional` when it is given, and
+ * rejected otherwise.
  */
 function parseCommandArguments(
   commandLine: string, 
   command: string, 
-  errors: string[]
+  errors: string[],
+  positional?: string[]
 ): CommandArguments {
   const args: CommandArguments = {};
   
-  // Remove the command part
-  const argsString = commandLine.replace(new RegExp(`^\\s*/${command}\\s*`), '').trim();
+  // Remove the command part (the line starts with it, in any case)
+  const argsString = commandLine.trim().slice(command.length + 1).trim();
   
   if (!argsString) {
     return args;
@@ -178,8 +189,10 @@ function parseCommandArguments(
       }
     }
     
-    // Handle single argument (treat as boolean or unknown)
-    if (!token.startsWith('-')) {
+    // Handle single argument (positional, or unknown)
+    if (positional && !token.startsWith('-')) {
+      positional.push(token);
+    } else if (!token.startsWith('-')) {
       errors.push(`Unexpected argument: ${token}`);
     } else {
       errors.push(`Invalid flag format: ${token}`);
@@ -305,7 +318,7 @@ function parseValue(value: string, errors: string[]): string | number | boolean
 /**
  * Enhanced validation configuration for command arguments
  */
-interface ValidationRule {
+export interface ValidationRule {
   type: 'number' | 'string' | 'boolean';
   required?: boolean;
   min?: number;
@@ -314,14 +327,14 @@ interface ValidationRule {
   description?: string;
 }
 
-interface ValidationConfig {
+export interface ValidationConfig {
   [key: string]: ValidationRule;
 }
 
 /**
  * Validation configuration for breakdown command arguments
  */
-const BREAKDOWN_VALIDATION_CONFIG: ValidationConfig = {
+export const BREAKDOWN_VALIDATION_CONFIG: ValidationConfig = {
   maxDepth: {
     type: 'number',
     min: 1,
@@ -351,6 +364,10 @@ const BREAKDOWN_VALIDATION_CONFIG: ValidationConfig = {
     min: 1,
     max: 100,
     description: 'Complexity threshold for task breakdown (1-100)'
+  },
+  replace: {
+    type: 'boolean',
+    description: 'Retire the sub-issues of an earlier breakdown and create new ones'
   }
 } as const;
 
@@ -402,21 +419,19 @@ function validateArgument(
 }
 
 /**
- * Enhanced validation for breakdown command arguments
+ * Validate command arguments against a validation config
+ *
+ * Argument names are normalized to camelCase; unknown arguments are
+ * reported with suggestions for similar known names.
  */
-export function validateBreakdownArgs(args: CommandArguments): { 
-  isValid: boolean; 
+export function validateCommandArgs(args: CommandArguments, config: ValidationConfig): {
+  isValid: boolean;
   errors: string[];
-  normalized: {
-    maxDepth?: number;
-    complexityThreshold?: number;
-    depth?: number;
-    threshold?: number;
-    complexity?: number;
-  };
+  normalized: { [key: string]: string | number | boolean };
+  keyMappings: { [normalizedKey: string]: string };
 } {
   const errors: string[] = [];
-  const normalized: any = {};
+  const normalized: { [key: string]: string | number | boolean } = {};
   
   // Track original keys for better error messages
   const keyMappings: { [normalizedKey: string]: string } = {};
@@ -430,17 +445,19 @@ export function validateBreakdownArgs(args: CommandArguments): {
   }
   
   // Validate each known argument
-  for (const [normalizedKey, rule] of Object.entries(BREAKDOWN_VALIDATION_CONFIG)) {
+  for (const [normalizedKey, rule] of Object.entries(config)) {
     if (normalizedKey in normalized) {
       const value = normalized[normalizedKey];
       const originalKey = keyMappings[normalizedKey];
       const argErrors = validateArgument(normalizedKey, value, rule, originalKey);
       errors.push(...argErrors);
+    } else if (rule.required) {
+      errors.push(`Missing required argument: '${normalizedKey}'`);
     }
   }
   
   // Check for unknown arguments with helpful suggestions
-  const knownKeys = Object.keys(BREAKDOWN_VALIDATION_CONFIG);
+  const knownKeys = Object.keys(config);
   for (const originalKey of Object.keys(args)) {
     const normalizedKey = normalizeKey(originalKey);
     if (!knownKeys.includes(normalizedKey)) {
@@ -492,13 +509,40 @@ export function validateBreakdownArgs(args: CommandArguments): {
         } else {
           errorMsg += `. Did you mean: ${suggestions.join(', ')}?`;
         }
-      } else {
+      } else if (knownKeys.length > 0) {
         errorMsg += `. Valid arguments are: ${knownKeys.join(', ')}`;
+      } else {
+        errorMsg += `. This command takes no arguments`;
       }
       errors.push(errorMsg);
     }
   }
   
+  return {
+    isValid: errors.length === 0,
+    errors,
+    normalized,
+    keyMappings
+  };
+}
+
+/**
+ * Enhanced validation for breakdown command arguments
+ */
+export function validateBreakdownArgs(args: CommandArguments): { 
+  isValid: boolean; 
+  errors: string[];
+  normalized: {
+    maxDepth?: number;
+    complexityThreshold?: number;
+    depth?: number;
+    threshold?: number;
+    complexity?: number;
+    replace?: boolean;
+  };
+} {
+  const { errors, normalized, keyMappings } = validateCommandArgs(args, BREAKDOWN_VALIDATION_CONFIG);
+  
   // Check for conflicting arguments
   const depthArgs = ['maxDepth', 'depth'].filter(key => key in normalized);
   if (depthArgs.length > 1) {
@@ -515,7 +559,7 @@ export function validateBreakdownArgs(args: CommandArguments): {
   return {
     isValid: errors.length === 0,
     errors,
-    normalized
+    normalized: normalized as any
   };
 }
 
@@ -12,6 +12,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseProjectUrl } from './project-sync';
+import type { CollaboratorPermission } from './github-api';
 
 /**
  * Core configuration parameters used across all Taskmaster actions
@@ -22,11 +24,35 @@ export interface TaskmasterConfig {
   maxDepth: number;
   prdPathGlob: string;
   
+  // Reconciliation parameters
+  reconcileIssues: boolean;
+  obsoleteIssueAction: 'label' | 'close';
+  
   // Breakdown parameters
   breakdownMaxDepth: number;
   
+  // Comment command policy
+  /** Minimum repository permission of commenters running commands */
+  commandPermission: CollaboratorPermission;
+  /** Comma-separated teams (`org/team` or `team`) allowed to run commands; `!team` denies */
+  commandTeams: string;
+  /** Comma-separated labels an issue needs to accept commands; `!label` refuses */
+  commandLabels: string;
+  /** Minutes a commenter waits between commands (0 to disable) */
+  commandUserCooldown: number;
+  /** Minutes an issue waits between commands (0 to disable) */
+  commandIssueCooldown: number;
+  /** Most sub-issues a single command may create */
+  maxSubIssuesPerCommand: number;
+  
   // Watcher parameters
   scanMode: 'webhook' | 'full';
+  /** Whether full scans fix the drift they report or only report it */
+  driftMode: 'report-only' | 'fix';
+  /** Whether full scans only re-read issues changed since the previous scan */
+  incrementalScan: boolean;
+  /** Whether parents are closed and reopened with their sub-issues */
+  autoCloseParents: boolean;
   
   // CLI parameters
   taskmasterVersion: string;
@@ -36,6 +62,10 @@ export interface TaskmasterConfig {
   
   // GitHub integration
   githubToken: string;
+  /** Projects v2 board to place issues on (empty to disable) */
+  projectUrl: string;
+  /** Days per task on a milestone's critical path when deriving due dates (0 to disable) */
+  milestoneDaysPerTask: number;
   
   // Artifact retention policies
   maxArtifactsCount: number;
@@ -48,6 +78,8 @@ export interface TaskmasterConfig {
   outputFormat: 'json' | 'xml' | 'text' | 'auto';
   outputSanitize: boolean;
   outputMaxSize: number;
+  /** Comma-separated formats the generate action renders task graph reports in (empty to disable) */
+  reportFormats: string;
 }
 
 /**
@@ -82,19 +114,33 @@ export const DEFAULT_CONFIG: TaskmasterConfig = {
   complexityThreshold: 40,
   maxDepth: 3,
   prdPathGlob: 'docs/**.prd.md',
+  reconcileIssues: true,
+  obsoleteIssueAction: 'label',
   breakdownMaxDepth: 2,
+  commandPermission: 'triage',
+  commandTeams: '',
+  commandLabels: '',
+  commandUserCooldown: 0,
+  commandIssueCooldown: 0,
+  maxSubIssuesPerCommand: 25,
   scanMode: 'webhook',
+  driftMode: 'fix',
+  incrementalScan: true,
+  autoCloseParents: false,
   taskmasterVersion: '1.0.0',
   taskmasterBaseUrl: 'https://github.com/taskmaster-ai/taskmaster/releases/download',
   taskmasterArgs: '',
   forceDownload: false,
   githubToken: '',
+  projectUrl: '',
+  milestoneDaysPerTask: 0,
   maxArtifactsCount: 10,
   retentionDays: 30,
   actionMode: 'full',
   outputFormat: 'auto',
   outputSanitize: true,
-  outputMaxSize: 1048576 // 1MB default
+  outputMaxSize: 1048576, // 1MB default
+  reportFormats: 'html,csv,json-schema'
 };
 
 /**
@@ -140,6 +186,46 @@ export const VALIDATION_RULES: ValidationRule[] = [
     },
     sanitize: (value: any) => Math.max(1, Math.min(5, Number(value)))
   },
+  {
+    key: 'commandPermission',
+    validate: (value: string) => {
+      if (!['none', 'read', 'triage', 'write', 'maintain', 'admin'].includes(value)) {
+        return 'Command permission must be one of: none, read, triage, write, maintain, admin';
+      }
+      return true;
+    },
+    sanitize: (value: any) => String(value).trim().toLowerCase()
+  },
+  {
+    key: 'commandUserCooldown',
+    validate: (value: number) => {
+      if (typeof value !== 'number' || value < 0 || value > 1440) {
+        return 'Command user cooldown must be a number of minutes between 0 and 1440';
+      }
+      return true;
+    },
+    sanitize: (value: any) => Math.max(0, Math.min(1440, Number(value)))
+  },
+  {
+    key: 'commandIssueCooldown',
+    validate: (value: number) => {
+      if (typeof value !== 'number' || value < 0 || value > 1440) {
+        return 'Command issue cooldown must be a number of minutes between 0 and 1440';
+      }
+      return true;
+    },
+    sanitize: (value: any) => Math.max(0, Math.min(1440, Number(value)))
+  },
+  {
+    key: 'maxSubIssuesPerCommand',
+    validate: (value: number) => {
+      if (typeof value !== 'number' || value < 1 || value > 100) {
+        return 'Max sub-issues per command must be a number between 1 and 100';
+      }
+      return true;
+    },
+    sanitize: (value: any) => Math.max(1, Math.min(100, Number(value)))
+  },
   {
     key: 'scanMode',
     validate: (value: string) => {
@@ -150,6 +236,50 @@ export const VALIDATION_RULES: ValidationRule[] = [
     },
     sanitize: (value: any) => String(value).toLowerCase()
   },
+  {
+    key: 'driftMode',
+    validate: (value: string) => {
+      if (!['report-only', 'fix'].includes(value)) {
+        return 'Drift mode must be either "report-only" or "fix"';
+      }
+      return true;
+    },
+    sanitize: (value: any) => String(value).toLowerCase()
+  },
+  {
+    key: 'incrementalScan',
+    validate: (value: boolean) => {
+      if (typeof value !== 'boolean') {
+        return 'Incremental scan must be a boolean value';
+      }
+      return true;
+    },
+    sanitize: (value: any) => {
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string') {
+        const lower = value.toLowerCase();
+        return lower === 'true' || lower === '1' || lower === 'yes';
+      }
+      return Boolean(value);
+    }
+  },
+  {
+    key: 'autoCloseParents',
+    validate: (value: boolean) => {
+      if (typeof value !== 'boolean') {
+        return 'Auto close parents must be a boolean value';
+      }
+      return true;
+    },
+    sanitize: (value: any) => {
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string') {
+        const lower = value.toLowerCase();
+        return lower === 'true' || lower === '1' || lower === 'yes';
+      }
+      return Boolean(value);
+    }
+  },
   {
     key: 'actionMode',
     validate: (value: string) => {
@@ -170,6 +300,33 @@ export const VALIDATION_RULES: ValidationRule[] = [
     },
     sanitize: (value: any) => String(value).trim()
   },
+  {
+    key: 'reconcileIssues',
+    validate: (value: boolean) => {
+      if (typeof value !== 'boolean') {
+        return 'Reconcile issues must be a boolean value';
+      }
+      return true;
+    },
+    sanitize: (value: any) => {
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string') {
+        const lower = value.toLowerCase();
+        return lower === 'true' || lower === '1' || lower === 'yes';
+      }
+      return Boolean(value);
+    }
+  },
+  {
+    key: 'obsoleteIssueAction',
+    validate: (value: string) => {
+      if (!['label', 'close'].includes(value)) {
+        return 'Obsolete issue action must be either "label" or "close"';
+      }
+      return true;
+    },
+    sanitize: (value: any) => String(value).toLowerCase()
+  },
   {
     key: 'taskmasterVersion',
     validate: (value: string) => {
@@ -200,6 +357,31 @@ export const VALIDATION_RULES: ValidationRule[] = [
     },
     sanitize: (value: any) => String(value).trim()
   },
+  {
+    key: 'projectUrl',
+    validate: (value: string) => {
+      if (value === '') {
+        return true;
+      }
+      try {
+        parseProjectUrl(value);
+        return true;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    },
+    sanitize: (value: any) => String(value).trim()
+  },
+  {
+    key: 'milestoneDaysPerTask',
+    validate: (value: number) => {
+      if (typeof value !== 'number' || value < 0 || value > 365) {
+        return 'Milestone days per task must be a number between 0 and 365';
+      }
+      return true;
+    },
+    sanitize: (value: any) => Math.max(0, Math.min(365, Number(value)))
+  },
   {
     key: 'outputFormat',
     validate: (value: string) => {
@@ -237,6 +419,18 @@ export const VALIDATION_RULES: ValidationRule[] = [
     },
     sanitize: (value: any) => Math.max(1, Math.min(10485760, Number(value)))
   },
+  {
+    key: 'reportFormats',
+    validate: (value: string) => {
+      const formats = value.split(',').map(format => format.trim()).filter(Boolean);
+      const unknown = formats.filter(format => !['markdown', 'html', 'csv', 'json-schema'].includes(format));
+      if (unknown.length > 0) {
+        return `Report formats must be a comma-separated list of: markdown, html, csv, json-schema (got ${unknown.join(', ')})`;
+      }
+      return true;
+    },
+    sanitize: (value: any) => String(value).toLowerCase().trim()
+  },
   {
     key: 'maxArtifactsCount',
     validate: (value: number) => {
@@ -325,19 +519,33 @@ export function loadFromEnvironment(): Partial<TaskmasterConfig> {
     ['complexityThreshold', ['INPUT_COMPLEXITY-THRESHOLD', 'INPUT_COMPLEXITY_THRESHOLD', 'TM_COMPLEXITY_THRESHOLD']],
     ['maxDepth', ['INPUT_MAX-DEPTH', 'INPUT_MAX_DEPTH', 'TM_MAX_DEPTH']],
     ['prdPathGlob', ['INPUT_PRD-PATH-GLOB', 'INPUT_PRD_PATH_GLOB', 'TM_PRD_PATH_GLOB']],
+    ['reconcileIssues', ['INPUT_RECONCILE-ISSUES', 'INPUT_RECONCILE_ISSUES', 'TM_RECONCILE_ISSUES']],
+    ['obsoleteIssueAction', ['INPUT_OBSOLETE-ISSUE-ACTION', 'INPUT_OBSOLETE_ISSUE_ACTION', 'TM_OBSOLETE_ISSUE_ACTION']],
     ['breakdownMaxDepth', ['INPUT_BREAKDOWN-MAX-DEPTH', 'INPUT_BREAKDOWN_MAX_DEPTH', 'TM_BREAKDOWN_MAX_DEPTH']],
+    ['commandPermission', ['INPUT_COMMAND-PERMISSION', 'INPUT_COMMAND_PERMISSION', 'TM_COMMAND_PERMISSION']],
+    ['commandTeams', ['INPUT_COMMAND-TEAMS', 'INPUT_COMMAND_TEAMS', 'TM_COMMAND_TEAMS']],
+    ['commandLabels', ['INPUT_COMMAND-LABELS', 'INPUT_COMMAND_LABELS', 'TM_COMMAND_LABELS']],
+    ['commandUserCooldown', ['INPUT_COMMAND-USER-COOLDOWN', 'INPUT_COMMAND_USER_COOLDOWN', 'TM_COMMAND_USER_COOLDOWN']],
+    ['commandIssueCooldown', ['INPUT_COMMAND-ISSUE-COOLDOWN', 'INPUT_COMMAND_ISSUE_COOLDOWN', 'TM_COMMAND_ISSUE_COOLDOWN']],
+    ['maxSubIssuesPerCommand', ['INPUT_MAX-SUB-ISSUES-PER-COMMAND', 'INPUT_MAX_SUB_ISSUES_PER_COMMAND', 'TM_MAX_SUB_ISSUES_PER_COMMAND']],
     ['scanMode', ['INPUT_SCAN-MODE', 'INPUT_SCAN_MODE', 'TM_SCAN_MODE']],
+    ['driftMode', ['INPUT_DRIFT-MODE', 'INPUT_DRIFT_MODE', 'TM_DRIFT_MODE']],
+    ['incrementalScan', ['INPUT_INCREMENTAL-SCAN', 'INPUT_INCREMENTAL_SCAN', 'TM_INCREMENTAL_SCAN']],
+    ['autoCloseParents', ['INPUT_AUTO-CLOSE-PARENTS', 'INPUT_AUTO_CLOSE_PARENTS', 'TM_AUTO_CLOSE_PARENTS']],
     ['taskmasterVersion', ['INPUT_TASKMASTER-VERSION', 'INPUT_TASKMASTER_VERSION', 'TM_TASKMASTER_VERSION']],
     ['taskmasterBaseUrl', ['INPUT_TASKMASTER-BASE-URL', 'INPUT_TASKMASTER_BASE_URL', 'TM_TASKMASTER_BASE_URL']],
     ['taskmasterArgs', ['INPUT_TASKMASTER-ARGS', 'INPUT_TASKMASTER_ARGS', 'TM_TASKMASTER_ARGS']],
     ['forceDownload', ['INPUT_FORCE-DOWNLOAD', 'INPUT_FORCE_DOWNLOAD', 'TM_FORCE_DOWNLOAD']],
     ['githubToken', ['INPUT_GITHUB-TOKEN', 'INPUT_GITHUB_TOKEN', 'TM_GITHUB_TOKEN', 'GITHUB_TOKEN']],
+    ['projectUrl', ['INPUT_PROJECT-URL', 'INPUT_PROJECT_URL', 'TM_PROJECT_URL']],
+    ['milestoneDaysPerTask', ['INPUT_MILESTONE-DAYS-PER-TASK', 'INPUT_MILESTONE_DAYS_PER_TASK', 'TM_MILESTONE_DAYS_PER_TASK']],
     ['maxArtifactsCount', ['INPUT_MAX-ARTIFACTS-COUNT', 'INPUT_MAX_ARTIFACTS_COUNT', 'TM_MAX_ARTIFACTS_COUNT']],
     ['retentionDays', ['INPUT_RETENTION-DAYS', 'INPUT_RETENTION_DAYS', 'TM_RETENTION_DAYS']],
     ['actionMode', ['INPUT_ACTION-MODE', 'INPUT_ACTION_MODE', 'TM_ACTION_MODE']],
     ['outputFormat', ['INPUT_OUTPUT-FORMAT', 'INPUT_OUTPUT_FORMAT', 'TM_OUTPUT_FORMAT']],
     ['outputSanitize', ['INPUT_OUTPUT-SANITIZE', 'INPUT_OUTPUT_SANITIZE', 'TM_OUTPUT_SANITIZE']],
-    ['outputMaxSize', ['INPUT_OUTPUT-MAX-SIZE', 'INPUT_OUTPUT_MAX_SIZE', 'TM_OUTPUT_MAX_SIZE']]
+    ['outputMaxSize', ['INPUT_OUTPUT-MAX-SIZE', 'INPUT_OUTPUT_MAX_SIZE', 'TM_OUTPUT_MAX_SIZE']],
+    ['reportFormats', ['INPUT_REPORT-FORMATS', 'INPUT_REPORT_FORMATS', 'TM_REPORT_FORMATS']]
   ];
 
   for (const [configKey, envKeys] of envMappings) {
@@ -346,9 +554,12 @@ export function loadFromEnvironment(): Partial<TaskmasterConfig> {
       if (value !== undefined) {
         // Convert string values to appropriate types
         if (configKey === 'complexityThreshold' || configKey === 'maxDepth' || configKey === 'breakdownMaxDepth' || 
-            configKey === 'maxArtifactsCount' || configKey === 'retentionDays' || configKey === 'outputMaxSize') {
+            configKey === 'maxArtifactsCount' || configKey === 'retentionDays' || configKey === 'outputMaxSize' ||
+            configKey === 'milestoneDaysPerTask' || configKey === 'commandUserCooldown' || configKey === 'commandIssueCooldown' ||
+            configKey === 'maxSubIssuesPerCommand') {
           config[configKey] = parseInt(value, 10);
-        } else if (configKey === 'forceDownload' || configKey === 'outputSanitize') {
+        } else if (configKey === 'forceDownload' || configKey === 'outputSanitize' || configKey === 'reconcileIssues' ||
+            configKey === 'incrementalScan' || configKey === 'autoCloseParents') {
           config[configKey] = value.toLowerCase() === 'true';
         } else {
           (config as any)[configKey] = value;
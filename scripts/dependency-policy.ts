@@ -0,0 +1,222 @@
+/**
+ * Dependency Policy
+ *
+ * Single source of truth for how task dependencies block issues:
+ * - Native "blocked by" issue dependencies are the primary record where
+ *   GitHub supports them
+ * - `blocked`, `blocked-by:N` and `ready` labels are a projection of the
+ *   dependency state, kept for filtering and for repositories without
+ *   native dependencies
+ *
+ * Used by the generate, breakdown and watcher actions and by create-issues.ts.
+ */
+
+import { EnhancedGitHubApi, ApiIssue } from './github-api';
+import { parseIssueBody, ParsedDependency } from './issue-parser';
+import {
+  IssueReference,
+  formatIssueReference,
+  issueReferenceKey,
+  parseIssueReference,
+  sameRepository
+} from './issue-reference';
+
+/**
+ * Label for issues with at least one open dependency
+ */
+export const BLOCKED_LABEL = 'blocked';
+
+/**
+ * Label for issues whose dependencies are all closed
+ */
+export const READY_LABEL = 'ready';
+
+/**
+ * Prefix of the label counting open dependencies (`blocked-by:2`)
+ */
+export const BLOCKED_BY_LABEL_PREFIX = 'blocked-by:';
+
+/**
+ * Dependency labels for an issue with the given number of open and total dependencies
+ *
+ * Issues without dependencies get no dependency labels at all.
+ */
+export function buildDependencyLabels(openCount: number, totalCount: number): string[] {
+  if (totalCount === 0) {
+    return [];
+  }
+
+  if (openCount > 0) {
+    return [BLOCKED_LABEL, `${BLOCKED_BY_LABEL_PREFIX}${openCount}`];
+  }
+
+  // All dependencies are closed, task is ready
+  return [READY_LABEL];
+}
+
+/**
+ * Dependency labels from the issues an issue depends on
+ */
+export function dependencyLabelsForIssues(dependencyIssues: Array<{ state?: string | null }> | undefined): string[] {
+  if (!dependencyIssues) {
+    return [];
+  }
+
+  const openCount = dependencyIssues.filter(issue => issue.state === 'open').length;
+  return buildDependencyLabels(openCount, dependencyIssues.length);
+}
+
+/**
+ * Dependency labels from dependencies parsed out of an issue body
+ */
+export function dependencyLabelsForParsed(dependencies: ParsedDependency[]): string[] {
+  const openCount = dependencies.filter(dep => !dep.completed).length;
+  return buildDependencyLabels(openCount, dependencies.length);
+}
+
+/**
+ * Whether a label is managed by the dependency policy
+ */
+export function isDependencyLabel(label: string): boolean {
+  return label === BLOCKED_LABEL || label === READY_LABEL || label.startsWith(BLOCKED_BY_LABEL_PREFIX);
+}
+
+/**
+ * Replace the dependency labels in a label set, keeping all other labels
+ */
+export function applyDependencyLabels(currentLabels: string[], dependencyLabels: string[]): string[] {
+  return [...currentLabels.filter(label => !isDependencyLabel(label)), ...dependencyLabels];
+}
+
+/**
+ * Whether an issue's current dependency labels differ from the expected ones
+ */
+export function dependencyLabelsChanged(currentLabels: string[], dependencyLabels: string[]): boolean {
+  const current = currentLabels.filter(isDependencyLabel).sort();
+  const expected = [...dependencyLabels].sort();
+  return current.length !== expected.length || current.some((label, index) => label !== expected[index]);
+}
+
+/**
+ * Dependency labels for an existing issue
+ *
+ * Native "blocked by" dependencies win when the issue has any; otherwise the
+ * issue body's `## Dependencies` checklist is used, with blockers in other
+ * repositories looked up live. `githubApi` must be the client for the
+ * issue's repository.
+ */
+export async function resolveDependencyLabels(githubApi: EnhancedGitHubApi, issue: ApiIssue): Promise<string[]> {
+  const blockers = await githubApi.getBlockedBy(issue.number);
+  if (blockers && blockers.length > 0) {
+    return dependencyLabelsForIssues(blockers);
+  }
+
+  if (!issue.body) {
+    return [];
+  }
+
+  const dependencies = await resolveCrossRepositoryDependencies(githubApi, parseIssueBody(issue.body).dependencies);
+  return dependencyLabelsForParsed(dependencies);
+}
+
+/**
+ * Refresh the completion state of dependencies in other repositories
+ *
+ * Nothing ticks checklist entries for blockers in another repository, so
+ * their issue state is fetched instead. Entries that can't be fetched keep
+ * their checkbox state.
+ */
+export async function resolveCrossRepositoryDependencies(
+  githubApi: EnhancedGitHubApi,
+  dependencies: ParsedDependency[]
+): Promise<ParsedDependency[]> {
+  return Promise.all(dependencies.map(async dep => {
+    if (!dep.repository || sameRepository(dep.repository, githubApi.getRepository())) {
+      return dep;
+    }
+
+    try {
+      const blocker = await githubApi.forRepository(dep.repository).getIssue(dep.issueNumber);
+      return { ...dep, completed: blocker.state === 'closed' };
+    } catch (error) {
+      console.warn(`Failed to resolve ${dep.repository}#${dep.issueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      return dep;
+    }
+  }));
+}
+
+/**
+ * Change to a blocker's entry in a `## Dependencies` checklist
+ *
+ * `completed` ticks or unticks the entry. `reference` points the entry at
+ * the blocker's new location after a transfer; null drops the entry of a
+ * deleted blocker.
+ */
+export interface DependencyEntryChange {
+  completed?: boolean;
+  reference?: IssueReference | null;
+}
+
+/**
+ * Apply a change to a blocker's entry in an issue body's `## Dependencies` checklist
+ *
+ * Entries are matched by issue reference, with bare `#N` resolved against
+ * `repository`, the repository of the issue the body belongs to. Returns the
+ * body unchanged when it has no entry for the blocker.
+ */
+export function updateDependencyEntry(
+  body: string,
+  repository: string,
+  blocker: IssueReference,
+  change: DependencyEntryChange
+): string {
+  const blockerKey = issueReferenceKey(`${blocker.owner}/${blocker.repo}`, blocker.number);
+  let inDependencies = false;
+
+  const lines = body.split('\n').flatMap(line => {
+    if (/^## /.test(line)) {
+      inDependencies = /^## Dependencies\s*$/.test(line);
+      return [line];
+    }
+
+    const match = inDependencies && line.match(/^(\s*- \[)([x ])(\]\s*(?:Task\s*)?)((?:[\w.-]+\/[\w.-]+)?#\d+)(.*)$/);
+    const reference = match ? parseIssueReference(match[4], repository) : null;
+    if (!match || !reference || issueReferenceKey(`${reference.owner}/${reference.repo}`, reference.number) !== blockerKey) {
+      return [line];
+    }
+
+    if (change.reference === null) {
+      return [];
+    }
+
+    const checkbox = change.completed === undefined ? match[2] : change.completed ? 'x' : ' ';
+    const text = change.reference ? formatIssueReference(change.reference, repository) : match[4];
+    return [`${match[1]}${checkbox}${match[3]}${text}${match[5]}`];
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Mirror an issue's task dependencies as native "blocked by" links
+ *
+ * Blockers outside `managedIssueNumbers` (e.g. added by hand) are never
+ * removed. Blockers in other repositories are given as issue references.
+ * Failures are logged rather than thrown since the labels still carry the
+ * dependency state.
+ *
+ * @returns whether native links are in place
+ */
+export async function syncIssueDependencyLinks(
+  githubApi: EnhancedGitHubApi,
+  issueNumber: number,
+  dependencyIssueNumbers: Array<number | IssueReference>,
+  managedIssueNumbers: Array<number | IssueReference> = []
+): Promise<boolean> {
+  try {
+    return await githubApi.setBlockedBy(issueNumber, dependencyIssueNumbers, { managedIssueNumbers });
+  } catch (error) {
+    console.warn(`Failed to link dependencies of #${issueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Drift Report
+ *
+ * Records what a full watcher scan found out of step with the dependency
+ * state, and whether it was fixed:
+ * - issues whose dependency labels disagree with their dependencies
+ * - dependency references to deleted or transferred issues
+ * - parent `## Breakdown Summary` checkboxes out of step with sub-issues
+ * - circular dependencies, which are reported but never fixed
+ *
+ * The report is published as a job summary and as a JSON artifact.
+ */
+
+/**
+ * Whether a full scan only reports drift or also fixes it
+ */
+export type DriftMode = 'report-only' | 'fix';
+
+/**
+ * Issue whose dependency labels disagree with its dependencies
+ */
+export interface LabelDrift {
+  issueNumber: number;
+  /** Dependency labels on the issue */
+  currentLabels: string[];
+  /** Dependency labels the dependency state calls for */
+  expectedLabels: string[];
+  fixed: boolean;
+}
+
+/**
+ * Dependency checklist entry pointing at an issue that no longer exists there
+ */
+export interface DanglingReference {
+  issueNumber: number;
+  /** Reference as resolved from the checklist, e.g. `acme/web#12` */
+  reference: string;
+  reason: 'deleted' | 'transferred';
+  /** New location of a transferred issue */
+  newReference?: string;
+  fixed: boolean;
+}
+
+/**
+ * Breakdown checklist entry whose checkbox disagrees with its sub-issue
+ */
+export interface ParentCheckboxDrift {
+  parentIssueNumber: number;
+  subIssueNumber: number;
+  checked: boolean;
+  subIssueState: 'open' | 'closed';
+  fixed: boolean;
+}
+
+/**
+ * Circular dependency between open issues
+ */
+export interface CycleDrift {
+  cycle: string[];
+  description: string;
+}
+
+export interface DriftReport {
+  mode: DriftMode;
+  repository: string;
+  generatedAt: Date;
+  issuesScanned: number;
+  labels: LabelDrift[];
+  danglingReferences: DanglingReference[];
+  parentCheckboxes: ParentCheckboxDrift[];
+  cycles: CycleDrift[];
+}
+
+/**
+ * Empty drift report for a scan of a repository
+ */
+export function createDriftReport(repository: string, mode: DriftMode): DriftReport {
+  return {
+    mode,
+    repository,
+    generatedAt: new Date(),
+    issuesScanned: 0,
+    labels: [],
+    danglingReferences: [],
+    parentCheckboxes: [],
+    cycles: []
+  };
+}
+
+/**
+ * Number of drift findings in a report
+ */
+export function countDrift(report: DriftReport): number {
+  return report.labels.length + report.danglingReferences.length + report.parentCheckboxes.length + report.cycles.length;
+}
+
+/**
+ * Number of drift findings that were fixed
+ */
+export function countFixedDrift(report: DriftReport): number {
+  return [...report.labels, ...report.danglingReferences, ...report.parentCheckboxes].filter(finding => finding.fixed).length;
+}
+
+/**
+ * Markdown job summary of a drift report
+ */
+export function formatDriftReport(report: DriftReport): string {
+  const total = countDrift(report);
+  const sections = [
+    '## 🧭 Taskmaster Drift Report',
+    `Scanned ${report.issuesScanned} open issues in \`${report.repository}\` in \`${report.mode}\` mode.`
+  ];
+
+  if (total === 0) {
+    sections.push('✅ No drift found.');
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  sections.push(report.mode === 'fix'
+    ? `Found ${total} drift findings, fixed ${countFixedDrift(report)}.`
+    : `Found ${total} drift findings; nothing was changed.`);
+
+  const status = (fixed: boolean) => fixed ? '✅ fixed' : '⚠️ open';
+  const labels = (list: string[]) => list.length > 0 ? list.map(label => `\`${label}\``).join(' ') : '*none*';
+
+  if (report.labels.length > 0) {
+    sections.push([
+      `### Labels (${report.labels.length})`,
+      '| Issue | Current | Expected | Status |',
+      '| --- | --- | --- | --- |',
+      ...report.labels.map(drift =>
+        `| #${drift.issueNumber} | ${labels(drift.currentLabels)} | ${labels(drift.expectedLabels)} | ${status(drift.fixed)} |`)
+    ].join('\n'));
+  }
+
+  if (report.danglingReferences.length > 0) {
+    sections.push([
+      `### Dangling dependencies (${report.danglingReferences.length})`,
+      '| Issue | Dependency | Reason | Status |',
+      '| --- | --- | --- | --- |',
+      ...report.danglingReferences.map(drift => {
+        const reason = drift.reason === 'transferred' && drift.newReference ? `transferred to ${drift.newReference}` : drift.reason;
+        return `| #${drift.issueNumber} | ${drift.reference} | ${reason} | ${status(drift.fixed)} |`;
+      })
+    ].join('\n'));
+  }
+
+  if (report.parentCheckboxes.length > 0) {
+    sections.push([
+      `### Parent checkboxes (${report.parentCheckboxes.length})`,
+      '| Parent | Sub-issue | Checkbox | Sub-issue state | Status |',
+      '| --- | --- | --- | --- | --- |',
+      ...report.parentCheckboxes.map(drift =>
+        `| #${drift.parentIssueNumber} | #${drift.subIssueNumber} | ${drift.checked ? 'checked' : 'unchecked'} | ${drift.subIssueState} | ${status(drift.fixed)} |`)
+    ].join('\n'));
+  }
+
+  if (report.cycles.length > 0) {
+    sections.push([
+      `### Circular dependencies (${report.cycles.length})`,
+      'Cycles are not fixed automatically; remove one dependency of each.',
+      '',
+      ...report.cycles.map(cycle => `- ${cycle.description}`)
+    ].join('\n'));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
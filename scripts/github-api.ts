@@ -11,9 +11,53 @@
 
 import { Octokit } from '@octokit/rest';
 import { components } from "@octokit/openapi-types";
+import { extractTaskKey, findBestTaskMatch } from './task-identity';
+import { IssueReference, issueReferenceKey, parseRepository, repositoryFromIssue, sameRepository } from './issue-reference';
 
 // GitHub API types
 export type ApiIssue = components["schemas"]["issue"];
+export type ApiMilestone = components["schemas"]["milestone"];
+export type ApiIssueComment = components["schemas"]["issue-comment"];
+
+/**
+ * Options for resolving an existing issue
+ */
+export interface FindExistingIssueOptions {
+  /** Stable task key stored in the issue front-matter */
+  taskKey?: string;
+  /** Key the task carried before it was scoped, adopted once when no issue carries `taskKey` */
+  legacyTaskKey?: string;
+  /** Task description, used by the fuzzy matcher */
+  description?: string;
+  /** Fall back to fuzzy matching against issues without a task key */
+  fuzzyMatch?: boolean;
+  /** Label used to list keyed issues and fuzzy match candidates (default: taskmaster) */
+  fuzzyMatchLabel?: string;
+  /** Issues carrying any of these labels are never returned, e.g. retired issues */
+  excludeLabels?: string[];
+}
+
+/**
+ * Repository permission of a user, from lowest to highest
+ */
+export type CollaboratorPermission = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+/**
+ * Reactions GitHub supports on comments
+ */
+export type CommentReaction = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * Result of a conditional issue listing
+ */
+export interface ConditionalIssueList {
+  /** All issues of the listing; empty when it was not modified */
+  issues: ApiIssue[];
+  /** ETag of the first page, to send with the next listing */
+  etag?: string;
+  /** Whether GitHub answered 304 Not Modified to the ETag sent */
+  notModified: boolean;
+}
 
 /**
  * Configuration for GitHub API operations
@@ -47,6 +91,36 @@ export interface GitHubApiConfig {
   batchConfig?: BatchProcessingConfig;
   /** Rate limit configuration */
   rateLimitConfig?: RateLimitConfig;
+  /** How sub-issue links are stored (default: auto) */
+  subIssueMode?: SubIssueMode;
+  /** Whether "blocked by" dependencies are linked natively (default: auto) */
+  issueDependencyMode?: IssueDependencyMode;
+}
+
+/**
+ * How sub-issue relationships are stored:
+ * - native: GitHub's sub-issues REST API
+ * - body: `## Subtasks` / `Parent Task` sections in issue bodies
+ * - auto: native, falling back to body links when the API is unavailable
+ */
+export type SubIssueMode = 'auto' | 'native' | 'body';
+
+/**
+ * How "blocked by" issue dependencies are recorded:
+ * - native: GitHub's issue dependencies REST API
+ * - labels: dependency labels only
+ * - auto: native where the repository supports it, labels only otherwise
+ */
+export type IssueDependencyMode = 'auto' | 'native' | 'labels';
+
+/**
+ * Where to move a sub-issue within its parent's sub-issue list
+ */
+export interface SubIssuePosition {
+  /** Place the sub-issue directly after this issue number */
+  afterIssueNumber?: number;
+  /** Place the sub-issue directly before this issue number */
+  beforeIssueNumber?: number;
 }
 
 /**
@@ -314,6 +388,21 @@ export class EnhancedGitHubApi {
   private lastRequestTime: number = 0;
   private requestSpacing: number = 0;
 
+  // Generated issues listed once per client for task-key and fuzzy lookups, by label
+  private labelledIssues = new Map<string, ApiIssue[]>();
+
+  // Legacy issues already migrated to a task during this run
+  private migratedIssues = new Set<number>();
+
+  // Cleared once the sub-issues API turns out to be unavailable (auto mode)
+  private nativeSubIssuesAvailable = true;
+
+  // Cleared once the issue dependencies API turns out to be unavailable (auto mode)
+  private nativeDependenciesAvailable = true;
+
+  // Clients for other repositories, by lower-cased `owner/repo`
+  private repositoryClients = new Map<string, EnhancedGitHubApi>();
+
   constructor(config: GitHubApiConfig) {
     this.config = {
       maxConcurrent: 3,
@@ -325,6 +414,8 @@ export class EnhancedGitHubApi {
       circuitBreakerTimeout: 60000,
       enableGracefulDegradation: true,
       operationTimeout: 30000,
+      subIssueMode: 'auto',
+      issueDependencyMode: 'auto',
       batchConfig: {
         enableAdaptiveBatching: true,
         minBatchSize: 5,
@@ -1050,9 +1141,41 @@ export class EnhancedGitHubApi {
 
   /**
    * Check if an issue already exists with improved duplicate detection
+   *
+   * When a task key is given, an issue carrying that key in its front-matter
+   * wins over a title match, so retitled tasks keep their issue; an issue
+   * carrying `legacyTaskKey` is adopted when none carries the key. With
+   * `fuzzyMatch`, issues created before task keys existed are matched by
+   * title similarity or description hash as a last resort.
    */
-  async findExistingIssue(title: string, uniqueMarker?: string): Promise<ApiIssue | null> {
-    return this.executeWithRetry(async () => {
+  async findExistingIssue(title: string, uniqueMarker?: string, options: FindExistingIssueOptions = {}): Promise<ApiIssue | null> {
+    const excluded = new Set((options.excludeLabels || []).map(label => label.toLowerCase()));
+    const hasMarker = (issue: ApiIssue) => (!uniqueMarker || (!!issue.body && issue.body.includes(uniqueMarker))) &&
+      !(issue.labels || []).some(label => excluded.has((typeof label === 'string' ? label : label.name || '').toLowerCase()));
+
+    if (options.taskKey) {
+      // Keys are short strings such as "1" that full-text search cannot pin
+      // down, so they are compared against the front-matter of every
+      // labelled issue instead
+      const labelled = (await this.listLabelledIssues(options.fuzzyMatchLabel || 'taskmaster')).filter(hasMarker);
+      const keyedIssue = labelled.find(issue => extractTaskKey(issue.body) === options.taskKey);
+
+      if (keyedIssue) {
+        return keyedIssue;
+      }
+
+      const legacyIssue = options.legacyTaskKey
+        ? labelled.find(issue => extractTaskKey(issue.body) === options.legacyTaskKey && !this.migratedIssues.has(issue.number))
+        : undefined;
+
+      if (legacyIssue) {
+        this.log(`Adopted issue #${legacyIssue.number} with legacy key "${options.legacyTaskKey}" for key "${options.taskKey}"`, 'info');
+        this.migratedIssues.add(legacyIssue.number);
+        return legacyIssue;
+      }
+    }
+
+    const titledIssue = await this.executeWithRetry(async () => {
       // Search for issues with the exact title
       const searchQuery = `repo:${this.config.owner}/${this.config.repo} in:title "${title}"`;
       const searchResult = await this.octokit.search.issuesAndPullRequests({
@@ -1063,10 +1186,14 @@ export class EnhancedGitHubApi {
       // Look for exact matches
       for (const issue of searchResult.data.items) {
         if (issue.title === title) {
+          // An issue keyed to a different task is not a duplicate of this one
+          const issueKey = extractTaskKey(issue.body);
+          if (options.taskKey && issueKey && issueKey !== options.taskKey) {
+            continue;
+          }
+
           // If we have a unique marker, check for it in the body
-          if (uniqueMarker && issue.body && issue.body.includes(uniqueMarker)) {
-            return issue as ApiIssue;
-          } else if (!uniqueMarker) {
+          if (hasMarker(issue as ApiIssue)) {
             return issue as ApiIssue;
           }
         }
@@ -1074,6 +1201,44 @@ export class EnhancedGitHubApi {
 
       return null;
     }, 'find-existing-issue', OperationPriority.MEDIUM);
+
+    if (titledIssue || !options.fuzzyMatch) {
+      return titledIssue;
+    }
+
+    const candidates = (await this.listLabelledIssues(options.fuzzyMatchLabel || 'taskmaster'))
+      .filter(issue => !extractTaskKey(issue.body) && !this.migratedIssues.has(issue.number) && hasMarker(issue));
+    const match = findBestTaskMatch({ title, description: options.description }, candidates);
+    if (!match) {
+      return null;
+    }
+
+    this.log(`Matched "${title}" to unkeyed issue #${match.issue.number} by ${match.reason} (score ${match.score.toFixed(2)})`, 'info');
+    // Each legacy issue migrates to exactly one task
+    this.migratedIssues.add(match.issue.number);
+    return match.issue;
+  }
+
+  /**
+   * All issues with the given label, fetched once per client
+   *
+   * The listing is shared with task-key lookups and must not be modified.
+   */
+  async listLabelledIssues(label: string): Promise<ApiIssue[]> {
+    const cached = this.labelledIssues.get(label);
+    if (cached) {
+      return cached;
+    }
+
+    const issues: ApiIssue[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.listIssues({ state: 'all', labels: label, per_page: 100, page });
+      issues.push(...batch.filter(issue => !issue.pull_request));
+      if (batch.length < 100) break;
+    }
+
+    this.labelledIssues.set(label, issues);
+    return issues;
   }
 
   /**
@@ -1084,6 +1249,7 @@ export class EnhancedGitHubApi {
     body: string;
     labels?: string[];
     assignees?: string[];
+    milestone?: number;
   }): Promise<ApiIssue> {
     return this.executeWithRetry(async () => {
       const response = await this.octokit.issues.create({
@@ -1091,7 +1257,12 @@ export class EnhancedGitHubApi {
         repo: this.config.repo,
         ...params
       });
-      return response.data as ApiIssue;
+      const issue = response.data as ApiIssue;
+      // Later key lookups in this run must see the new issue
+      for (const label of params.labels || []) {
+        this.labelledIssues.get(label)?.push(issue);
+      }
+      return issue;
     }, 'create-issue', OperationPriority.HIGH);
   }
 
@@ -1102,7 +1273,9 @@ export class EnhancedGitHubApi {
     title?: string;
     body?: string;
     state?: 'open' | 'closed';
+    state_reason?: 'completed' | 'not_planned' | 'reopened';
     labels?: string[];
+    milestone?: number | null;
   }): Promise<ApiIssue> {
     return this.executeWithRetry(async () => {
       const response = await this.octokit.issues.update({
@@ -1137,9 +1310,372 @@ export class EnhancedGitHubApi {
   }
 
   /**
-   * Get sub-issues for a given issue by parsing issue relationships
+   * List all issues matching a query with a conditional request
+   *
+   * The first page is requested with `If-None-Match` when an ETag of an
+   * earlier identical listing is given; a 304 answer does not count against
+   * the rate limit and resolves with `notModified` and no issues. `since`
+   * limits the listing to issues updated at or after an ISO 8601 timestamp.
+   */
+  async listIssuesConditional(params: {
+    state?: 'open' | 'closed' | 'all';
+    labels?: string;
+    since?: string;
+  } = {}, etag?: string): Promise<ConditionalIssueList> {
+    return this.executeWithRetry(async () => {
+      const issues: ApiIssue[] = [];
+      let firstPageEtag: string | undefined;
+      for (let page = 1; ; page++) {
+        let response;
+        try {
+          response = await this.octokit.issues.listForRepo({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            state: 'all',
+            per_page: 100,
+            ...params,
+            page,
+            ...(page === 1 && etag ? { headers: { 'if-none-match': etag } } : {})
+          });
+        } catch (error) {
+          if (page === 1 && (error as any)?.status === 304) {
+            return { issues: [], etag, notModified: true };
+          }
+          throw error;
+        }
+        if (page === 1) {
+          firstPageEtag = response.headers.etag;
+        }
+        const batch = response.data as ApiIssue[];
+        issues.push(...batch);
+        if (batch.length < 100) break;
+      }
+      return { issues, etag: firstPageEtag, notModified: false };
+    }, 'list-issues-conditional', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Most recent unexpired workflow artifact whose name starts with a prefix
+   *
+   * Artifacts of earlier workflow runs are found too; the run ID is needed
+   * to download them. `exactName` matches the whole name and `branch` only
+   * accepts artifacts of workflow runs on that branch.
+   */
+  async findLatestArtifact(
+    namePrefix: string,
+    options: { exactName?: boolean; branch?: string } = {}
+  ): Promise<{ id: number; name: string; workflowRunId: number } | null> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.actions.listArtifactsForRepo({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        per_page: 100,
+        ...(options.exactName ? { name: namePrefix } : {})
+      });
+      const artifact = response.data.artifacts
+        .filter(a => (options.exactName ? a.name === namePrefix : a.name.startsWith(namePrefix)) && !a.expired && a.workflow_run?.id)
+        .filter(a => !options.branch || a.workflow_run?.head_branch === options.branch)
+        .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))[0];
+      return artifact ? { id: artifact.id, name: artifact.name, workflowRunId: artifact.workflow_run!.id! } : null;
+    }, 'find-artifact', OperationPriority.LOW);
+  }
+
+  /**
+   * Add assignees to an issue
+   */
+  async addAssignees(issueNumber: number, assignees: string[]): Promise<ApiIssue> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.issues.addAssignees({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: issueNumber,
+        assignees
+      });
+      return response.data as ApiIssue;
+    }, 'add-assignees', OperationPriority.HIGH);
+  }
+
+  /**
+   * Lock an issue's conversation
+   */
+  async lockIssue(issueNumber: number, reason?: 'off-topic' | 'too heated' | 'resolved' | 'spam'): Promise<void> {
+    return this.executeWithRetry(async () => {
+      await this.octokit.issues.lock({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: issueNumber,
+        ...(reason ? { lock_reason: reason } : {})
+      });
+    }, 'lock-issue', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Delete an issue permanently
+   *
+   * Only exposed through GraphQL; the token's user must be a repository admin.
+   */
+  async deleteIssue(issueNumber: number): Promise<void> {
+    const issue = await this.getIssue(issueNumber);
+    await this.graphql(
+      'mutation($issueId: ID!) { deleteIssue(input: { issueId: $issueId }) { clientMutationId } }',
+      { issueId: issue.node_id },
+      'delete-issue',
+      OperationPriority.HIGH
+    );
+  }
+
+  /**
+   * Transfer an issue to another repository of the same owner
+   *
+   * @returns the issue's number and URL in its new repository
+   */
+  async transferIssue(issueNumber: number, repository: string): Promise<{ number: number; url: string }> {
+    const issue = await this.getIssue(issueNumber);
+    const { owner, repo } = parseRepository(repository);
+    const target = await this.graphql<any>(
+      'query($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { id } }',
+      { owner, repo },
+      'get-repository-id'
+    );
+    if (!target?.repository?.id) {
+      throw new Error(`Repository ${repository} not found or not accessible`);
+    }
+
+    const response = await this.graphql<any>(
+      'mutation($issueId: ID!, $repositoryId: ID!) { transferIssue(input: { issueId: $issueId, repositoryId: $repositoryId }) { issue { number url } } }',
+      { issueId: issue.node_id, repositoryId: target.repository.id },
+      'transfer-issue',
+      OperationPriority.HIGH
+    );
+    return response.transferIssue.issue;
+  }
+
+  /**
+   * Comment on an issue
+   */
+  async createComment(issueNumber: number, body: string): Promise<{ id: number; html_url: string }> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.issues.createComment({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: issueNumber,
+        body
+      });
+      return { id: response.data.id, html_url: response.data.html_url };
+    }, 'create-comment', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Replace the body of a comment
+   */
+  async updateComment(commentId: number, body: string): Promise<{ id: number; html_url: string }> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.issues.updateComment({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        comment_id: commentId,
+        body
+      });
+      return { id: response.data.id, html_url: response.data.html_url };
+    }, 'update-comment', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * React to an issue comment; reacting twice with the same content is a no-op
+   */
+  async addCommentReaction(commentId: number, content: CommentReaction): Promise<void> {
+    return this.executeWithRetry(async () => {
+      await this.octokit.reactions.createForIssueComment({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        comment_id: commentId,
+        content
+      });
+    }, 'add-comment-reaction', OperationPriority.LOW);
+  }
+
+  /**
+   * Repository permission of a user
+   *
+   * Uses the role name where GitHub reports one, so `triage` and `maintain`
+   * are distinguished from `read` and `write`. Users who are not
+   * collaborators have `none`.
+   */
+  async getCollaboratorPermission(username: string): Promise<CollaboratorPermission> {
+    try {
+      return await this.executeWithRetry(async () => {
+        const response = await this.octokit.repos.getCollaboratorPermissionLevel({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          username
+        });
+        const roleName = (response.data as { role_name?: string }).role_name;
+        const levels: CollaboratorPermission[] = ['none', 'read', 'triage', 'write', 'maintain', 'admin'];
+        return (levels.find(level => level === roleName) || response.data.permission) as CollaboratorPermission;
+      }, 'get-collaborator-permission', OperationPriority.MEDIUM);
+    } catch (error) {
+      if ((error as any)?.status === 404) {
+        return 'none';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a user is an active member of a team
+   *
+   * @param team - `org/team-slug`, or a team slug of the repository owner
+   */
+  async isTeamMember(team: string, username: string): Promise<boolean> {
+    const [org, teamSlug] = team.includes('/') ? team.split('/', 2) : [this.config.owner, team];
+    try {
+      return await this.executeWithRetry(async () => {
+        const response = await this.octokit.teams.getMembershipForUserInOrg({
+          org,
+          team_slug: teamSlug,
+          username
+        });
+        return response.data.state === 'active';
+      }, 'get-team-membership', OperationPriority.MEDIUM);
+    } catch (error) {
+      if ((error as any)?.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Comments on an issue, oldest first
+   *
+   * @param since - only comments updated at or after this ISO 8601 timestamp
+   */
+  async listIssueComments(issueNumber: number, since?: string): Promise<ApiIssueComment[]> {
+    return this.executeWithRetry(async () => {
+      const comments: ApiIssueComment[] = [];
+      for (let page = 1; ; page++) {
+        const response = await this.octokit.issues.listComments({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          issue_number: issueNumber,
+          ...(since ? { since } : {}),
+          per_page: 100,
+          page
+        });
+        comments.push(...response.data);
+        if (response.data.length < 100) break;
+      }
+      return comments;
+    }, 'list-issue-comments', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Numbers of the issues in the repository a user commented on since a time
+   *
+   * @param since - ISO 8601 timestamp
+   */
+  async findIssuesCommentedBy(username: string, since: string): Promise<number[]> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.search.issuesAndPullRequests({
+        q: `repo:${this.config.owner}/${this.config.repo} commenter:${username} updated:>=${since}`,
+        per_page: 100
+      });
+      return response.data.items.map(issue => issue.number);
+    }, 'find-commented-issues', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * List all milestones of the repository, open and closed
+   */
+  async listMilestones(): Promise<ApiMilestone[]> {
+    return this.executeWithRetry(async () => {
+      const milestones: ApiMilestone[] = [];
+      for (let page = 1; ; page++) {
+        const response = await this.octokit.issues.listMilestones({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          state: 'all',
+          per_page: 100,
+          page
+        });
+        milestones.push(...(response.data as ApiMilestone[]));
+        if (response.data.length < 100) break;
+      }
+      return milestones;
+    }, 'list-milestones', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Create a milestone
+   */
+  async createMilestone(params: {
+    title: string;
+    description?: string;
+    due_on?: string;
+  }): Promise<ApiMilestone> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.issues.createMilestone({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ...params
+      });
+      return response.data as ApiMilestone;
+    }, 'create-milestone', OperationPriority.HIGH);
+  }
+
+  /**
+   * Update a milestone
+   */
+  async updateMilestone(milestoneNumber: number, params: {
+    title?: string;
+    description?: string;
+    due_on?: string;
+    state?: 'open' | 'closed';
+  }): Promise<ApiMilestone> {
+    return this.executeWithRetry(async () => {
+      const response = await this.octokit.issues.updateMilestone({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        milestone_number: milestoneNumber,
+        ...params
+      });
+      return response.data as ApiMilestone;
+    }, 'update-milestone', OperationPriority.HIGH);
+  }
+
+  /**
+   * Get sub-issues for a given issue
+   *
+   * Uses the native sub-issues API, falling back to the issue body's
+   * `## Subtasks` / `Required By` sections when it is unavailable.
    */
   async getSubIssues(issueNumber: number): Promise<ApiIssue[]> {
+    if (this.usesNativeSubIssues()) {
+      try {
+        return await this.executeWithRetry(async () => {
+          const subIssues: ApiIssue[] = [];
+          for (let page = 1; ; page++) {
+            const response = await this.octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+              owner: this.config.owner,
+              repo: this.config.repo,
+              issue_number: issueNumber,
+              per_page: 100,
+              page
+            });
+            const batch = response.data as ApiIssue[];
+            subIssues.push(...batch);
+            if (batch.length < 100) break;
+          }
+          return subIssues;
+        }, 'list-sub-issues', OperationPriority.MEDIUM);
+      } catch (error) {
+        // A 404 here may also mean the parent does not exist, so fall back
+        // for this call only; the body lookup reports a missing parent itself
+        if (!this.canFallBackToBodySubIssues(error)) throw error;
+        this.log(`Sub-issues API unavailable for #${issueNumber}, reading sub-issues from body`, 'warn');
+      }
+    }
+
     return this.executeWithRetry(async () => {
       // Get the parent issue to parse its body for sub-issue references
       const parentIssue = await this.octokit.issues.get({
@@ -1169,6 +1705,162 @@ export class EnhancedGitHubApi {
     }, 'get-sub-issues', OperationPriority.MEDIUM);
   }
 
+  /**
+   * Get the parent of a sub-issue, or null for issues without one
+   *
+   * Uses the native sub-issues API, falling back to the sub-issue body's
+   * `Parent Task: #N` meta line when it is unavailable.
+   */
+  async getParentIssue(issueNumber: number): Promise<ApiIssue | null> {
+    if (this.usesNativeSubIssues()) {
+      try {
+        return await this.executeWithRetry(async () => {
+          const response = await this.octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}/parent', {
+            owner: this.config.owner,
+            repo: this.config.repo,
+            issue_number: issueNumber
+          });
+          return response.data as ApiIssue;
+        }, 'get-parent-issue', OperationPriority.MEDIUM);
+      } catch (error) {
+        // Issues without a parent are answered 404 too; in auto mode the
+        // body lookup tells both cases apart
+        if (this.config.subIssueMode === 'native' && (error as any)?.status === 404) return null;
+        if (!this.canFallBackToBodySubIssues(error)) throw error;
+      }
+    }
+
+    return this.executeWithRetry(async () => {
+      const subIssue = await this.octokit.issues.get({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: issueNumber
+      });
+
+      const parentRef = (subIssue.data.body || '').match(/-\s*(?:\*\*)?Parent Task:(?:\*\*)?\s*#(\d+)/i);
+      if (!parentRef) return null;
+
+      const parentIssue = await this.octokit.issues.get({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: parseInt(parentRef[1], 10)
+      });
+      return parentIssue.data as ApiIssue;
+    }, 'get-parent-issue', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Whether sub-issue operations should try the native API
+   */
+  private usesNativeSubIssues(): boolean {
+    switch (this.config.subIssueMode) {
+      case 'native':
+        return true;
+      case 'body':
+        return false;
+      default:
+        return this.nativeSubIssuesAvailable;
+    }
+  }
+
+  /**
+   * Whether a failed native sub-issue call may be retried with body links
+   *
+   * GitHub answers 404 (or 410 on some GHES versions) for endpoints it does
+   * not serve; only auto mode falls back.
+   */
+  private canFallBackToBodySubIssues(error: unknown): boolean {
+    const status = (error as any)?.status;
+    return this.config.subIssueMode === 'auto' && (status === 404 || status === 410);
+  }
+
+  /**
+   * Record that the native sub-issues API is unavailable for this repository
+   */
+  private disableNativeSubIssues(error: unknown): void {
+    this.nativeSubIssuesAvailable = false;
+    this.log(`Sub-issues API unavailable, using issue body links instead: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+  }
+
+  /**
+   * Run a GraphQL query or mutation
+   *
+   * For APIs only exposed through GraphQL, such as Projects v2. Requests go
+   * through the same queue, retry and rate limit handling as REST calls.
+   */
+  async graphql<T = any>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    category = 'graphql',
+    priority: OperationPriority = OperationPriority.MEDIUM
+  ): Promise<T> {
+    return this.executeWithRetry(async () => {
+      return await this.octokit.graphql<T>(query, variables);
+    }, category, priority);
+  }
+
+  /**
+   * Repository this client operates on, as `owner/repo`
+   */
+  getRepository(): string {
+    return `${this.config.owner}/${this.config.repo}`;
+  }
+
+  /**
+   * Client for another repository, sharing this client's token and settings
+   *
+   * Returns this client for its own repository (or no repository); clients
+   * for other repositories are created once and reused.
+   */
+  forRepository(repository?: string): EnhancedGitHubApi {
+    if (!repository || sameRepository(repository, this.getRepository())) {
+      return this;
+    }
+
+    const key = repository.toLowerCase();
+    let client = this.repositoryClients.get(key);
+    if (!client) {
+      client = new EnhancedGitHubApi({ ...this.config, ...parseRepository(repository) });
+      client.octokit = this.octokit;
+      this.repositoryClients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Fetch an issue by number in this repository or by reference in any repository
+   */
+  private async getReferencedIssue(issue: number | IssueReference): Promise<ApiIssue> {
+    return typeof issue === 'number'
+      ? this.getIssue(issue)
+      : this.forRepository(`${issue.owner}/${issue.repo}`).getIssue(issue.number);
+  }
+
+  /**
+   * Repository-qualified key of an issue number or reference
+   */
+  private issueKey(issue: number | IssueReference): string {
+    return typeof issue === 'number'
+      ? issueReferenceKey(this.getRepository(), issue)
+      : issueReferenceKey(`${issue.owner}/${issue.repo}`, issue.number);
+  }
+
+  /**
+   * Repository-qualified key of an issue returned by the API
+   */
+  private apiIssueKey(issue: ApiIssue): string {
+    return issueReferenceKey(repositoryFromIssue(issue) || this.getRepository(), issue.number);
+  }
+
+  /**
+   * Display form of an issue number or reference (`#N` or `owner/repo#N`)
+   */
+  private describeIssue(issue: number | IssueReference): string {
+    return typeof issue === 'number' || sameRepository(`${issue.owner}/${issue.repo}`, this.getRepository())
+      ? `#${typeof issue === 'number' ? issue : issue.number}`
+      : `${issue.owner}/${issue.repo}#${issue.number}`;
+  }
+
   /**
    * Get a single issue by number
    */
@@ -1228,9 +1920,52 @@ export class EnhancedGitHubApi {
   }
 
   /**
-   * Add a sub-issue relationship by updating issue bodies and metadata
+   * Add a sub-issue relationship
+   *
+   * Uses the native sub-issues API, falling back to linking the issues
+   * through their bodies when it is unavailable. Adding an existing
+   * sub-issue is a no-op. A sub-issue in another repository is given as an
+   * issue reference and can only be linked natively.
    */
-  async addSubIssue(parentIssueNumber: number, subIssueNumber: number): Promise<void> {
+  async addSubIssue(
+    parentIssueNumber: number,
+    subIssueRef: number | IssueReference,
+    options: { replaceParent?: boolean } = {}
+  ): Promise<void> {
+    const subIssueNumber = typeof subIssueRef === 'number' ? subIssueRef : subIssueRef.number;
+    const crossRepository = this.isCrossRepository(subIssueRef);
+
+    if (this.usesNativeSubIssues()) {
+      const subIssue = await this.getReferencedIssue(subIssueRef);
+      try {
+        await this.executeWithRetry(async () => {
+          await this.octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+            owner: this.config.owner,
+            repo: this.config.repo,
+            issue_number: parentIssueNumber,
+            sub_issue_id: subIssue.id,
+            replace_parent: options.replaceParent
+          });
+        }, 'add-sub-issue', OperationPriority.HIGH);
+        this.log(`Added sub-issue relationship: #${parentIssueNumber} -> ${this.describeIssue(subIssueRef)}`, 'info');
+        return;
+      } catch (error) {
+        if ((error as any)?.status === 422) {
+          const existing = await this.getSubIssues(parentIssueNumber);
+          if (existing.some(issue => this.apiIssueKey(issue) === this.issueKey(subIssueRef))) {
+            this.log(`Sub-issue relationship already exists: #${parentIssueNumber} -> ${this.describeIssue(subIssueRef)}`, 'debug');
+            return;
+          }
+        }
+        if (crossRepository || !this.canFallBackToBodySubIssues(error)) throw error;
+        this.disableNativeSubIssues(error);
+      }
+    }
+
+    if (crossRepository) {
+      throw new Error(`Cannot link ${this.describeIssue(subIssueRef)} to #${parentIssueNumber}: cross-repository sub-issues require the native sub-issues API`);
+    }
+
     return this.executeWithRetry(async () => {
       // Get both issues
       const [parentIssue, subIssue] = await Promise.all([
@@ -1246,6 +1981,11 @@ export class EnhancedGitHubApi {
         })
       ]);
 
+      if (this.parseSubIssuesFromBody(parentIssue.data.body || '').includes(subIssueNumber)) {
+        this.log(`Sub-issue relationship already exists: #${parentIssueNumber} -> #${subIssueNumber}`, 'debug');
+        return;
+      }
+
       // Update parent issue body to include sub-issue reference
       const updatedParentBody = this.addSubIssueToBody(
         parentIssue.data.body || '', 
@@ -1333,8 +2073,38 @@ export class EnhancedGitHubApi {
 
   /**
    * Remove a sub-issue relationship
+   *
+   * Uses the native sub-issues API, falling back to editing the issue
+   * bodies when it is unavailable. Cross-repository sub-issues can only be
+   * unlinked natively.
    */
-  async removeSubIssue(parentIssueNumber: number, subIssueNumber: number): Promise<void> {
+  async removeSubIssue(parentIssueNumber: number, subIssueRef: number | IssueReference): Promise<void> {
+    const subIssueNumber = typeof subIssueRef === 'number' ? subIssueRef : subIssueRef.number;
+    const crossRepository = this.isCrossRepository(subIssueRef);
+
+    if (this.usesNativeSubIssues()) {
+      const subIssue = await this.getReferencedIssue(subIssueRef);
+      try {
+        await this.executeWithRetry(async () => {
+          await this.octokit.request('DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue', {
+            owner: this.config.owner,
+            repo: this.config.repo,
+            issue_number: parentIssueNumber,
+            sub_issue_id: subIssue.id
+          });
+        }, 'remove-sub-issue', OperationPriority.HIGH);
+        this.log(`Removed sub-issue relationship: #${parentIssueNumber} -> ${this.describeIssue(subIssueRef)}`, 'info');
+        return;
+      } catch (error) {
+        if (crossRepository || !this.canFallBackToBodySubIssues(error)) throw error;
+        this.disableNativeSubIssues(error);
+      }
+    }
+
+    if (crossRepository) {
+      throw new Error(`Cannot unlink ${this.describeIssue(subIssueRef)} from #${parentIssueNumber}: cross-repository sub-issues require the native sub-issues API`);
+    }
+
     return this.executeWithRetry(async () => {
       // Get both issues
       const [parentIssue, subIssue] = await Promise.all([
@@ -1382,6 +2152,91 @@ export class EnhancedGitHubApi {
     }, 'remove-sub-issue', OperationPriority.HIGH);
   }
 
+  /**
+   * Move a sub-issue within its parent's sub-issue list
+   *
+   * Uses the native sub-issues API, falling back to reordering the
+   * parent body's `## Subtasks` section when it is unavailable.
+   */
+  async reprioritizeSubIssue(parentIssueNumber: number, subIssueNumber: number, position: SubIssuePosition): Promise<void> {
+    const anchorNumber = position.afterIssueNumber ?? position.beforeIssueNumber;
+    if (anchorNumber === undefined) {
+      throw new Error('reprioritizeSubIssue requires afterIssueNumber or beforeIssueNumber');
+    }
+
+    if (this.usesNativeSubIssues()) {
+      const [subIssue, anchor] = await Promise.all([this.getIssue(subIssueNumber), this.getIssue(anchorNumber)]);
+      try {
+        await this.executeWithRetry(async () => {
+          await this.octokit.request('PATCH /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/priority', {
+            owner: this.config.owner,
+            repo: this.config.repo,
+            issue_number: parentIssueNumber,
+            sub_issue_id: subIssue.id,
+            ...(position.afterIssueNumber !== undefined ? { after_id: anchor.id } : { before_id: anchor.id })
+          });
+        }, 'reprioritize-sub-issue', OperationPriority.MEDIUM);
+        this.log(`Reprioritized sub-issue #${subIssueNumber} of #${parentIssueNumber}`, 'info');
+        return;
+      } catch (error) {
+        if (!this.canFallBackToBodySubIssues(error)) throw error;
+        this.disableNativeSubIssues(error);
+      }
+    }
+
+    return this.executeWithRetry(async () => {
+      const parentIssue = await this.octokit.issues.get({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: parentIssueNumber
+      });
+
+      const body = parentIssue.data.body || '';
+      const updatedBody = this.moveSubIssueInBody(body, subIssueNumber, position);
+      if (updatedBody === body) {
+        return;
+      }
+
+      await this.octokit.issues.update({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        issue_number: parentIssueNumber,
+        body: updatedBody
+      });
+
+      this.log(`Reprioritized sub-issue #${subIssueNumber} of #${parentIssueNumber}`, 'info');
+    }, 'reprioritize-sub-issue', OperationPriority.MEDIUM);
+  }
+
+  /**
+   * Move a sub-issue entry within the parent body's `## Subtasks` section
+   */
+  private moveSubIssueInBody(body: string, subIssueNumber: number, position: SubIssuePosition): string {
+    const subtasksSectionRegex = /(## Subtasks\s*\n)((?:\s*-\s*\[[\sx]\]\s*#\d+.*\n?)*)/mi;
+    const match = subtasksSectionRegex.exec(body);
+    if (!match) {
+      return body;
+    }
+
+    const entryNumber = (line: string) => parseInt(line.match(/#(\d+)/)?.[1] || '', 10);
+    const lines = match[2].split('\n').filter(line => line.trim() !== '');
+    const moving = lines.find(line => entryNumber(line) === subIssueNumber);
+    if (!moving) {
+      return body;
+    }
+
+    const remaining = lines.filter(line => line !== moving);
+    const anchorIndex = remaining.findIndex(line =>
+      entryNumber(line) === (position.afterIssueNumber ?? position.beforeIssueNumber)
+    );
+    if (anchorIndex === -1) {
+      return body;
+    }
+
+    remaining.splice(position.afterIssueNumber !== undefined ? anchorIndex + 1 : anchorIndex, 0, moving);
+    return body.replace(subtasksSectionRegex, `${match[1]}${remaining.join('\n')}\n`);
+  }
+
   /**
    * Remove sub-issue reference from parent issue body
    */
@@ -1405,6 +2260,194 @@ export class EnhancedGitHubApi {
     );
   }
 
+  /**
+   * Whether an issue number or reference points outside this repository
+   */
+  private isCrossRepository(issue: number | IssueReference): boolean {
+    return typeof issue !== 'number' && !sameRepository(`${issue.owner}/${issue.repo}`, this.getRepository());
+  }
+
+  /**
+   * Whether dependency operations should try the native API
+   */
+  private usesNativeDependencies(): boolean {
+    switch (this.config.issueDependencyMode) {
+      case 'native':
+        return true;
+      case 'labels':
+        return false;
+      default:
+        return this.nativeDependenciesAvailable;
+    }
+  }
+
+  /**
+   * Handle a failed native dependency call on issues known to exist
+   *
+   * In auto mode a 404/410 means the repository has no issue dependencies,
+   * so native linking is switched off; anything else is rethrown.
+   */
+  private handleDependencyApiError(error: unknown): void {
+    const status = (error as any)?.status;
+    if (this.config.issueDependencyMode !== 'auto' || (status !== 404 && status !== 410)) {
+      throw error;
+    }
+
+    this.nativeDependenciesAvailable = false;
+    this.log(`Issue dependencies API unavailable, keeping dependency labels only: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+  }
+
+  /**
+   * List the issues an issue is blocked by, or null when native dependencies are unavailable
+   */
+  async getBlockedBy(issueNumber: number): Promise<ApiIssue[] | null> {
+    return this.listIssueDependencies(issueNumber, 'blocked_by');
+  }
+
+  /**
+   * List the issues an issue is blocking, or null when native dependencies are unavailable
+   */
+  async getBlocking(issueNumber: number): Promise<ApiIssue[] | null> {
+    return this.listIssueDependencies(issueNumber, 'blocking');
+  }
+
+  private async listIssueDependencies(issueNumber: number, direction: 'blocked_by' | 'blocking'): Promise<ApiIssue[] | null> {
+    if (!this.usesNativeDependencies()) {
+      return null;
+    }
+
+    try {
+      return await this.executeWithRetry(async () => {
+        const issues: ApiIssue[] = [];
+        for (let page = 1; ; page++) {
+          const response = await this.octokit.request(`GET /repos/{owner}/{repo}/issues/{issue_number}/dependencies/${direction}`, {
+            owner: this.config.owner,
+            repo: this.config.repo,
+            issue_number: issueNumber,
+            per_page: 100,
+            page
+          });
+          const batch = response.data as ApiIssue[];
+          issues.push(...batch);
+          if (batch.length < 100) break;
+        }
+        return issues;
+      }, `list-issue-${direction.replace('_', '-')}`, OperationPriority.MEDIUM);
+    } catch (error) {
+      // Tell a missing endpoint apart from a missing issue before giving up on native dependencies
+      await this.getIssue(issueNumber);
+      this.handleDependencyApiError(error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark an issue as blocked by another issue, which may live in another repository
+   *
+   * @returns false when native dependencies are unavailable
+   */
+  async addBlockedBy(issueNumber: number, blockingIssueRef: number | IssueReference): Promise<boolean> {
+    if (!this.usesNativeDependencies()) {
+      return false;
+    }
+
+    const blockingIssue = await this.getReferencedIssue(blockingIssueRef);
+    try {
+      await this.executeWithRetry(async () => {
+        await this.octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by', {
+          owner: this.config.owner,
+          repo: this.config.repo,
+          issue_number: issueNumber,
+          issue_id: blockingIssue.id
+        });
+      }, 'add-issue-dependency', OperationPriority.HIGH);
+      this.log(`Added dependency: #${issueNumber} blocked by ${this.describeIssue(blockingIssueRef)}`, 'info');
+      return true;
+    } catch (error) {
+      if ((error as any)?.status === 422) {
+        const existing = await this.getBlockedBy(issueNumber);
+        if (existing?.some(issue => this.apiIssueKey(issue) === this.issueKey(blockingIssueRef))) {
+          return true;
+        }
+      }
+      await this.getIssue(issueNumber);
+      this.handleDependencyApiError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a "blocked by" dependency between two issues
+   *
+   * @returns false when native dependencies are unavailable
+   */
+  async removeBlockedBy(issueNumber: number, blockingIssueRef: number | IssueReference): Promise<boolean> {
+    if (!this.usesNativeDependencies()) {
+      return false;
+    }
+
+    const blockingIssue = await this.getReferencedIssue(blockingIssueRef);
+    try {
+      await this.executeWithRetry(async () => {
+        await this.octokit.request('DELETE /repos/{owner}/{repo}/issues/{issue_number}/dependencies/blocked_by/{issue_id}', {
+          owner: this.config.owner,
+          repo: this.config.repo,
+          issue_number: issueNumber,
+          issue_id: blockingIssue.id
+        });
+      }, 'remove-issue-dependency', OperationPriority.HIGH);
+      this.log(`Removed dependency: #${issueNumber} blocked by ${this.describeIssue(blockingIssueRef)}`, 'info');
+      return true;
+    } catch (error) {
+      await this.getIssue(issueNumber);
+      this.handleDependencyApiError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Make an issue's "blocked by" dependencies match the given issues
+   *
+   * Missing links are added. Extra links are only removed when their issue is
+   * listed in `managedIssueNumbers`, so dependencies added by hand survive.
+   * Issues in other repositories are given as issue references.
+   *
+   * @returns false when native dependencies are unavailable
+   */
+  async setBlockedBy(
+    issueNumber: number,
+    blockingIssues: Array<number | IssueReference>,
+    options: { managedIssueNumbers?: Array<number | IssueReference> } = {}
+  ): Promise<boolean> {
+    const existing = await this.getBlockedBy(issueNumber);
+    if (existing === null) {
+      return false;
+    }
+
+    const existingKeys = new Set(existing.map(issue => this.apiIssueKey(issue)));
+    const desiredKeys = new Set(blockingIssues.map(issue => this.issueKey(issue)));
+    const managedKeys = new Set((options.managedIssueNumbers || []).map(issue => this.issueKey(issue)));
+
+    for (const blockingIssue of blockingIssues) {
+      if (!existingKeys.has(this.issueKey(blockingIssue)) && !(await this.addBlockedBy(issueNumber, blockingIssue))) {
+        return false;
+      }
+    }
+
+    for (const issue of existing) {
+      const key = this.apiIssueKey(issue);
+      if (desiredKeys.has(key) || !managedKeys.has(key)) continue;
+
+      const repository = repositoryFromIssue(issue);
+      const blockingIssue = repository ? { ...parseRepository(repository), number: issue.number } : issue.number;
+      if (!(await this.removeBlockedBy(issueNumber, blockingIssue))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
   /**
    * Get current rate limit status
    */
@@ -1900,9 +2943,12 @@ export class EnhancedGitHubApi {
   }
 
   /**
-   * Clean up timers and resources
+   * Clean up timers and resources, including those of the clients created by `forRepository`
    */
   destroy(): void {
+    this.repositoryClients.forEach(client => client.destroy());
+    this.repositoryClients.clear();
+
     if (this.rateLimitResetTimer) {
       clearTimeout(this.rateLimitResetTimer);
       this.rateLimitResetTimer = null;
@@ -0,0 +1,446 @@
+/**
+ * Glob Matcher
+ *
+ * Path matching and file discovery for PRD globs and ignore files:
+ * - `*`, `?` and `**` wildcards (GitHub Actions path filter semantics)
+ * - Brace sets (`{a,b}`, nestable) and character classes (`[abc]`, `[!a-z]`)
+ * - Ordered include/exclude pattern lists using `!` negation
+ * - `.taskmasterignore` files with gitignore-style rules
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Options for glob matching and file discovery
+ */
+export interface GlobOptions {
+  /** Directory patterns are resolved against (default: process.cwd()) */
+  cwd?: string;
+  /** Match case-insensitively, like the matcher this replaced (default: true) */
+  nocase?: boolean;
+  /** Ignore file name in cwd, or false to disable (default: .taskmasterignore) */
+  ignoreFile?: string | false;
+  /** Additional gitignore-style rules applied after the ignore file */
+  ignore?: string[];
+}
+
+/**
+ * Default ignore file name
+ */
+export const DEFAULT_IGNORE_FILE = '.taskmasterignore';
+
+/**
+ * Directories never worth descending into during discovery
+ */
+const ALWAYS_IGNORED_DIRECTORIES = ['.git', 'node_modules'];
+
+const GLOB_MAGIC = /[*?[{]/;
+
+/**
+ * Expand brace sets into the list of patterns they describe
+ * e.g. `docs/{api,ui}/*.md` -> [`docs/api/*.md`, `docs/ui/*.md`]
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        const alternatives = splitTopLevel(pattern.slice(start + 1, i));
+
+        // A brace without a top-level comma is literal text
+        if (alternatives.length < 2) {
+          continue;
+        }
+
+        const prefix = pattern.slice(0, start);
+        const suffixes = expandBraces(pattern.slice(i + 1));
+        const expanded: string[] = [];
+
+        for (const alternative of alternatives) {
+          for (const inner of expandBraces(alternative)) {
+            for (const suffix of suffixes) {
+              expanded.push(prefix + inner + suffix);
+            }
+          }
+        }
+
+        return expanded;
+      }
+    }
+  }
+
+  return [pattern];
+}
+
+/**
+ * Split brace content on commas that are not nested in inner braces
+ */
+function splitTopLevel(content: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (char === '\\' && i + 1 < content.length) {
+      current += char + content[++i];
+      continue;
+    }
+
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Convert a single brace-free glob into a regular expression source
+ */
+function globToRegexSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (i + 1 < pattern.length) {
+        source += escapeRegex(pattern[++i]);
+      }
+      continue;
+    }
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        i++;
+
+        if (atSegmentStart && pattern[i + 1] === '/') {
+          // `**/` matches zero or more whole directories
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          // Bare `**` (e.g. `docs/**.prd.md`) matches across directories
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      continue;
+    }
+
+    if (char === '[') {
+      const close = findClassEnd(pattern, i);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+
+      let body = pattern.slice(i + 1, close);
+      let negated = false;
+      if (body.startsWith('!') || body.startsWith('^')) {
+        negated = true;
+        body = body.slice(1);
+      }
+
+      source += `[${negated ? '^/' : ''}${body.replace(/\\/g, '\\\\').replace(/\]/g, '\\]')}]`;
+      i = close;
+      continue;
+    }
+
+    source += escapeRegex(char);
+  }
+
+  return source;
+}
+
+/**
+ * Find the closing bracket of a character class, or -1 if there is none
+ */
+function findClassEnd(pattern: string, open: number): number {
+  let i = open + 1;
+  if (pattern[i] === '!' || pattern[i] === '^') i++;
+  // A `]` right after the opening bracket is part of the class
+  if (pattern[i] === ']') i++;
+
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === ']') return i;
+    if (pattern[i] === '/') return -1;
+  }
+
+  return -1;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+/**
+ * Normalize a path for matching: forward slashes, no leading `./` or `/`
+ */
+function normalizePath(filePath: string): string {
+  return filePath
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '');
+}
+
+/**
+ * Compile a glob pattern (without leading `!`) into a regular expression
+ */
+export function compileGlob(pattern: string, options: Pick<GlobOptions, 'nocase'> = {}): RegExp {
+  // Backslashes in patterns are escapes, so only the leading `./` or `/` is stripped
+  const sources = expandBraces(pattern.replace(/^(\.\/)+/, '').replace(/^\/+/, '')).map(globToRegexSource);
+  return new RegExp(`^(?:${sources.join('|')})$`, options.nocase === false ? '' : 'i');
+}
+
+/**
+ * Check whether a relative path matches a single glob pattern
+ */
+export function matchGlob(filePath: string, pattern: string, options: Pick<GlobOptions, 'nocase'> = {}): boolean {
+  return compileGlob(pattern, options).test(normalizePath(filePath));
+}
+
+/**
+ * Split a pattern list input into individual patterns
+ *
+ * Accepts newline- or comma-separated strings (commas inside braces are kept)
+ * and drops blank lines and `#` comments.
+ */
+export function parsePatternList(input: string | string[]): string[] {
+  const lines = Array.isArray(input) ? input : input.split(/\r?\n/);
+  const patterns: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    patterns.push(...splitTopLevel(trimmed).map(p => p.trim()).filter(Boolean));
+  }
+
+  return patterns;
+}
+
+/**
+ * Trim ignore-file lines, dropping blanks and `#` comments
+ */
+function readRuleLines(lines: string[]): string[] {
+  return lines.map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Compiled include/exclude pattern
+ */
+interface CompiledPattern {
+  regex: RegExp;
+  negated: boolean;
+}
+
+/**
+ * Ordered include/exclude list where the last matching pattern wins
+ */
+export class GlobPatternList {
+  private patterns: CompiledPattern[];
+  private includeByDefault: boolean;
+
+  /**
+   * @param includeByDefault Result for paths no pattern matches. Defaults to
+   *   true for lists made only of exclusions ("everything except ..."), false otherwise
+   */
+  constructor(patterns: string[], options: Pick<GlobOptions, 'nocase'> = {}, includeByDefault?: boolean) {
+    this.patterns = patterns.map(pattern => {
+      const negated = pattern.startsWith('!');
+      return {
+        regex: compileGlob(negated ? pattern.slice(1) : pattern, options),
+        negated
+      };
+    });
+    this.includeByDefault = includeByDefault ?? (this.patterns.length > 0 && this.patterns.every(p => p.negated));
+  }
+
+  /**
+   * Check whether a relative path is selected by the list
+   */
+  matches(filePath: string): boolean {
+    const normalized = normalizePath(filePath);
+    let included = this.includeByDefault;
+
+    for (const pattern of this.patterns) {
+      if (pattern.regex.test(normalized)) {
+        included = !pattern.negated;
+      }
+    }
+
+    return included;
+  }
+}
+
+/**
+ * Convert gitignore-style rules into glob patterns
+ *
+ * - Rules without a slash match at any depth (`drafts` -> `**\/drafts`)
+ * - A leading `/` anchors the rule to the root
+ * - A trailing `/` restricts the rule to directories
+ * - Matching a directory also matches everything below it
+ */
+export function ignoreRulesToGlobs(rules: string[]): string[] {
+  const globs: string[] = [];
+
+  for (const rule of readRuleLines(rules)) {
+    const negated = rule.startsWith('!');
+    let body = negated ? rule.slice(1) : rule;
+    const directoryOnly = body.endsWith('/');
+    body = body.replace(/\/+$/, '');
+
+    if (!body) continue;
+
+    const anchored = body.startsWith('/') || body.includes('/');
+    body = body.replace(/^\/+/, '');
+    if (!anchored) {
+      body = `**/${body}`;
+    }
+
+    const prefix = negated ? '!' : '';
+    if (!directoryOnly) {
+      globs.push(prefix + body);
+    }
+    globs.push(`${prefix}${body}/**`);
+  }
+
+  return globs;
+}
+
+/**
+ * Load rules from an ignore file, returning an empty list if it doesn't exist
+ */
+export function loadIgnoreFile(directory: string, fileName: string = DEFAULT_IGNORE_FILE): string[] {
+  const ignorePath = path.join(directory, fileName);
+
+  if (!fs.existsSync(ignorePath)) {
+    return [];
+  }
+
+  try {
+    return readRuleLines(fs.readFileSync(ignorePath, 'utf8').split(/\r?\n/));
+  } catch (error) {
+    console.warn(`Failed to read ${ignorePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Static directory prefix of a pattern, used to avoid walking the whole tree
+ */
+function getPatternBase(pattern: string): string {
+  const segments = pattern.replace(/^(\.\/)+/, '').replace(/^\/+/, '').split('/');
+  const base: string[] = [];
+
+  for (const segment of segments.slice(0, -1)) {
+    if (GLOB_MAGIC.test(segment) || segment.includes('\\')) break;
+    base.push(segment);
+  }
+
+  return base.join('/');
+}
+
+/**
+ * Find files under `cwd` matching an ordered include/exclude pattern list,
+ * honouring `.taskmasterignore`
+ *
+ * @returns Absolute file paths, sorted
+ */
+export function findFiles(patterns: string | string[], options: GlobOptions = {}): string[] {
+  const cwd = path.resolve(options.cwd || process.cwd());
+  const patternList = parsePatternList(patterns);
+  const includes = new GlobPatternList(patternList, options);
+
+  if (patternList.length === 0) {
+    return [];
+  }
+
+  const ignoreRules = [
+    ...(options.ignoreFile === false ? [] : loadIgnoreFile(cwd, options.ignoreFile || DEFAULT_IGNORE_FILE)),
+    ...(options.ignore || [])
+  ];
+  const ignores = ignoreRules.length > 0
+    ? new GlobPatternList(ignoreRulesToGlobs(ignoreRules), options, false)
+    : undefined;
+
+  // Start discovery from the static prefix of each include pattern
+  // (a list made only of exclusions has to scan everything)
+  const bases = new Set<string>();
+  const includePatterns = patternList.filter(p => !p.startsWith('!'));
+  if (includePatterns.length === 0) {
+    bases.add('');
+  }
+  for (const pattern of includePatterns) {
+    for (const expanded of expandBraces(pattern)) {
+      bases.add(getPatternBase(expanded));
+    }
+  }
+  const roots = Array.from(bases)
+    .sort((a, b) => a.length - b.length)
+    .filter((base, index, all) => !all.slice(0, index).some(other => other === '' || base === other || base.startsWith(`${other}/`)));
+
+  const results = new Set<string>();
+
+  const walk = (relativeDir: string) => {
+    const absoluteDir = path.join(cwd, relativeDir);
+    let entries: fs.Dirent[];
+
+    try {
+      entries = fs.readdirSync(absoluteDir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (ALWAYS_IGNORED_DIRECTORIES.includes(entry.name) || ignores?.matches(relativePath)) {
+          continue;
+        }
+        walk(relativePath);
+      } else if (entry.isFile()) {
+        if (includes.matches(relativePath) && !ignores?.matches(relativePath)) {
+          results.add(path.join(cwd, relativePath));
+        }
+      }
+    }
+  };
+
+  for (const root of roots) {
+    walk(root);
+  }
+
+  return Array.from(results).sort();
+}
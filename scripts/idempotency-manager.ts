@@ -5,6 +5,7 @@
  * - Processed PRD tracking with content hashing
  * - Generated issue tracking and relationships
  * - Dependency relationship management
+ * - Breakdown runs keyed by parent issue, body and arguments
  * - Transaction-like operations with rollback
  * - Replay safety and consistency
  */
@@ -60,12 +61,34 @@ export interface IssueState {
   bodyHash: string;
 }
 
+/**
+ * State for a breakdown run of a parent issue
+ */
+export interface BreakdownRunState {
+  /** Run key from the parent issue, its body hash and the arguments */
+  runKey: string;
+  /** Parent issue number */
+  parentIssueNumber: number;
+  /** Content hash of the parent body, without generated sections */
+  bodyHash: string;
+  /** Normalized arguments of the run */
+  args: Record<string, string | number | boolean>;
+  /** Sub-issues of the breakdown */
+  subIssueNumbers: number[];
+  /** Processing status */
+  status: 'processing' | 'completed' | 'failed';
+  /** Last processed timestamp */
+  lastProcessed: Date;
+  /** Error information if failed */
+  error?: string;
+}
+
 /**
  * Transaction operation for rollback
  */
 export interface TransactionOperation {
   /** Operation type */
-  type: 'create_issue' | 'update_issue' | 'delete_issue' | 'update_state';
+  type: 'create_issue' | 'update_issue' | 'delete_issue' | 'update_state' | 'update_breakdown';
   /** Target resource identifier */
   target: string;
   /** Previous state for rollback */
@@ -100,6 +123,8 @@ export interface IdempotencyState {
   prds: Record<string, PrdState>;
   /** Generated issues by issue number */
   issues: Record<number, IssueState>;
+  /** Breakdown runs by run key */
+  breakdowns: Record<string, BreakdownRunState>;
   /** Active transactions */
   transactions: Record<string, Transaction>;
   /** State version for migration */
@@ -134,6 +159,8 @@ export class IdempotencyManager {
         
         // Convert date strings back to Date objects
         this.deserializeDates(loadedState);
+        // State saved before breakdown runs were tracked
+        loadedState.breakdowns = loadedState.breakdowns || {};
         
         console.log(`📥 Loaded idempotency state from ${this.statePath}`);
         return loadedState;
@@ -146,6 +173,7 @@ export class IdempotencyManager {
     return {
       prds: {},
       issues: {},
+      breakdowns: {},
       transactions: {},
       version: '1.0.0',
       lastUpdated: new Date()
@@ -350,6 +378,15 @@ export class IdempotencyManager {
           delete this.state.prds[operation.target];
         }
         break;
+
+      case 'update_breakdown':
+        // Restore previous breakdown run state
+        if (operation.previousState) {
+          this.state.breakdowns[operation.target] = operation.previousState;
+        } else {
+          delete this.state.breakdowns[operation.target];
+        }
+        break;
     }
   }
 
@@ -458,6 +495,104 @@ export class IdempotencyManager {
     };
   }
 
+  /**
+   * Calculate the run key of a breakdown
+   *
+   * Runs of the same parent issue with the same body and arguments share a
+   * key, so a re-run can be recognized as one. Arguments are normalized by
+   * sorting their names.
+   */
+  calculateBreakdownRunKey(
+    parentIssueNumber: number,
+    body: string,
+    args: Record<string, string | number | boolean>
+  ): string {
+    const normalizedArgs = Object.keys(args).sort().map(name => `${name}=${args[name]}`).join('&');
+    const hash = crypto.createHash('sha256');
+    hash.update(`issue-${parentIssueNumber}\n`);
+    hash.update(`${this.calculateIssueBodyHash(body.trim())}\n`);
+    hash.update(normalizedArgs);
+    return hash.digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Latest breakdown run of a parent issue, if any
+   */
+  getLatestBreakdownRun(parentIssueNumber: number): BreakdownRunState | undefined {
+    return Object.values(this.state.breakdowns)
+      .filter(run => run.parentIssueNumber === parentIssueNumber)
+      .sort((a, b) => b.lastProcessed.getTime() - a.lastProcessed.getTime())[0];
+  }
+
+  /**
+   * Record breakdown run start
+   */
+  recordBreakdownStart(
+    parentIssueNumber: number,
+    body: string,
+    args: Record<string, string | number | boolean>
+  ): string {
+    if (!this.currentTransaction) {
+      throw new Error('Must be in a transaction to record a breakdown run');
+    }
+
+    const runKey = this.calculateBreakdownRunKey(parentIssueNumber, body, args);
+    const existing = this.state.breakdowns[runKey];
+    const newState: BreakdownRunState = {
+      runKey,
+      parentIssueNumber,
+      bodyHash: this.calculateIssueBodyHash(body.trim()),
+      args: { ...args },
+      subIssueNumbers: existing?.subIssueNumbers || [],
+      status: 'processing',
+      lastProcessed: new Date()
+    };
+
+    this.addTransactionOperation({
+      type: 'update_breakdown',
+      target: runKey,
+      previousState: existing ? { ...existing } : undefined,
+      newState
+    });
+    this.state.breakdowns[runKey] = newState;
+
+    return runKey;
+  }
+
+  /**
+   * Record breakdown run completion or failure
+   */
+  recordBreakdownComplete(runKey: string, subIssueNumbers: number[], error?: string): void {
+    const existing = this.state.breakdowns[runKey];
+    if (!existing) {
+      throw new Error(`Breakdown run state not found for key ${runKey}`);
+    }
+
+    if (!this.currentTransaction) {
+      throw new Error('Must be in a transaction to record breakdown completion');
+    }
+
+    const newState: BreakdownRunState = {
+      ...existing,
+      subIssueNumbers: error ? existing.subIssueNumbers : [...subIssueNumbers],
+      status: error ? 'failed' : 'completed',
+      lastProcessed: new Date()
+    };
+    if (error) {
+      newState.error = error;
+    } else {
+      delete newState.error;
+    }
+
+    this.addTransactionOperation({
+      type: 'update_breakdown',
+      target: runKey,
+      previousState: { ...existing },
+      newState
+    });
+    this.state.breakdowns[runKey] = newState;
+  }
+
   /**
    * Record issue creation
    */
@@ -542,6 +677,102 @@ export class IdempotencyManager {
     this.state.issues[issueNumber] = updated;
   }
 
+  /**
+   * Record reconciliation of an existing issue against a new version of its PRD
+   */
+  recordIssueReconciliation(
+    issueNumber: number,
+    changes: {
+      sourceHash: string;
+      body?: string;
+      labels?: string[];
+      state?: 'open' | 'closed';
+      dependencies?: string[];
+      parentTaskId?: string;
+    }
+  ): void {
+    const existing = this.state.issues[issueNumber];
+    if (!existing) {
+      throw new Error(`Issue state not found for issue #${issueNumber}`);
+    }
+
+    if (!this.currentTransaction) {
+      throw new Error('Must be in a transaction to record issue reconciliation');
+    }
+
+    const updated: IssueState = {
+      ...existing,
+      sourceHash: changes.sourceHash,
+      parentTaskId: 'parentTaskId' in changes ? changes.parentTaskId : existing.parentTaskId,
+      lastUpdated: new Date()
+    };
+
+    if (changes.body) {
+      updated.bodyHash = this.calculateIssueBodyHash(changes.body);
+    }
+    if (changes.labels) {
+      updated.labels = changes.labels;
+    }
+    if (changes.state) {
+      updated.state = changes.state;
+    }
+    if (changes.dependencies) {
+      updated.dependencies = changes.dependencies;
+    }
+
+    this.addTransactionOperation({
+      type: 'update_issue',
+      target: issueNumber.toString(),
+      previousState: { ...existing },
+      newState: updated
+    });
+
+    this.state.issues[issueNumber] = updated;
+
+    if (changes.dependencies) {
+      // Drop this task from dependencies it no longer has before adding the new ones
+      for (const issue of Object.values(this.state.issues)) {
+        if (!changes.dependencies.includes(issue.taskId) && issue.dependents.includes(existing.taskId)) {
+          this.setDependents(issue, issue.dependents.filter(d => d !== existing.taskId));
+        }
+      }
+      this.updateDependents(existing.taskId, changes.dependencies);
+    }
+  }
+
+  /**
+   * Record an issue whose state was rebuilt outside idempotency state, e.g.
+   * from its front-matter, so it can be reconciled like a recorded issue
+   */
+  restoreIssueState(issueState: IssueState): void {
+    if (!this.currentTransaction) {
+      throw new Error('Must be in a transaction to restore issue state');
+    }
+
+    const existing = this.state.issues[issueState.issueNumber];
+    this.addTransactionOperation({
+      type: existing ? 'update_issue' : 'create_issue',
+      target: issueState.issueNumber.toString(),
+      previousState: existing ? { ...existing } : undefined,
+      newState: issueState
+    });
+
+    this.state.issues[issueState.issueNumber] = issueState;
+  }
+
+  /**
+   * Get issues generated from any version of a PRD file
+   */
+  getIssuesForPrdFile(filePath: string): IssueState[] {
+    const hashes = new Set(
+      Object.values(this.state.prds)
+        .filter(prd => prd.filePath === filePath)
+        .map(prd => prd.contentHash)
+    );
+
+    return Object.values(this.state.issues).filter(issue => hashes.has(issue.sourceHash));
+  }
+
   /**
    * Update dependent relationships
    */
@@ -550,11 +781,33 @@ export class IdempotencyManager {
       // Find issue for dependency task
       const depIssue = Object.values(this.state.issues).find(i => i.taskId === depTaskId);
       if (depIssue && !depIssue.dependents.includes(taskId)) {
-        depIssue.dependents.push(taskId);
+        this.setDependents(depIssue, [...depIssue.dependents, taskId]);
       }
     }
   }
 
+  /**
+   * Replace the dependents of an issue, recorded in the current transaction
+   * so a rollback restores them
+   *
+   * The state object is replaced rather than mutated, so snapshots taken by
+   * earlier operations keep their previous dependents.
+   */
+  private setDependents(issue: IssueState, dependents: string[]): void {
+    const updated: IssueState = { ...issue, dependents };
+
+    if (this.currentTransaction) {
+      this.addTransactionOperation({
+        type: 'update_issue',
+        target: issue.issueNumber.toString(),
+        previousState: { ...issue },
+        newState: updated
+      });
+    }
+
+    this.state.issues[issue.issueNumber] = updated;
+  }
+
   /**
    * Check if operation is safe to replay
    */
@@ -632,6 +885,7 @@ export class IdempotencyManager {
     totalPrds: number;
     processedPrds: number;
     totalIssues: number;
+    totalBreakdowns: number;
     activeTransactions: number;
     lastUpdated: Date;
   } {
@@ -639,6 +893,7 @@ export class IdempotencyManager {
       totalPrds: Object.keys(this.state.prds).length,
       processedPrds: Object.values(this.state.prds).filter(p => p.status === 'completed').length,
       totalIssues: Object.keys(this.state.issues).length,
+      totalBreakdowns: Object.keys(this.state.breakdowns).length,
       activeTransactions: Object.values(this.state.transactions).filter(t => t.status === 'active').length,
       lastUpdated: this.state.lastUpdated
     };
@@ -657,6 +912,7 @@ export class IdempotencyManager {
   importState(state: IdempotencyState): void {
     this.state = state;
     this.deserializeDates(this.state);
+    this.state.breakdowns = this.state.breakdowns || {};
     this.saveState();
     console.log(`📥 Imported idempotency state`);
   }
@@ -120,9 +120,18 @@ export {
   type GitHubApiError,
   type RateLimitInfo,
   type ApiIssue,
+  type ApiMilestone,
+  type ApiIssueComment,
+  type CollaboratorPermission,
+  type CommentReaction,
+  type FindExistingIssueOptions,
+  type SubIssueMode,
+  type IssueDependencyMode,
+  type SubIssuePosition,
   type BatchOperationResult,
   type BatchMetrics,
-  type ProcessingCheckpoint
+  type ProcessingCheckpoint,
+  type ConditionalIssueList
 } from './github-api';
 
 // Export artifact management utilities
@@ -154,6 +163,8 @@ export {
   type ParsedDependency,
   type ParsedIssueData,
   type DependencyNode,
+  type DependencyNodeKey,
+  type DependencyGraphOptions,
   type CircularDependency,
   type ResolutionOrder,
   type CriticalPath
@@ -164,10 +175,14 @@ export {
   containsCommand,
   parseCommand,
   validateBreakdownArgs,
+  validateCommandArgs,
   parseBreakdownCommand,
+  BREAKDOWN_VALIDATION_CONFIG,
   type ParsedCommand,
   type CommandArguments,
-  type CommentParseOptions
+  type CommentParseOptions,
+  type ValidationRule as CommandArgumentRule,
+  type ValidationConfig as CommandArgumentConfig
 } from './comment-parser';
 
 // Export sub-issue creation utilities
@@ -175,7 +190,9 @@ export {
   generateSubIssueLabels,
   buildSubIssueTitle,
   buildSubIssueBody,
+  buildSubIssueTaskKey,
   createSubIssueFromTask,
+  refreshSubIssueFromTask,
   updateIssueWithDependencies,
   updateBodyWithRequiredBy,
   addSubIssueRelationship,
@@ -189,23 +206,303 @@ export {
 export {
   ParentIssueStateManager,
   BreakdownStatus,
+  stripBreakdownSections,
+  parseBreakdownChecklist,
+  syncBreakdownChecklist,
+  formatProgressBar,
   type ParentIssueState,
+  type ParentIssueStateOptions,
   type BreakdownMetadata
 } from './parent-issue-state-manager';
 
 // Export markdown formatting utilities
 export {
   formatTaskGraphMarkdown,
+  formatTaskGraphMarkdownParts,
   formatCompactTaskGraphSummary,
+  GITHUB_COMMENT_MAX_LENGTH,
   type Task as MarkdownTask,
   type TaskGraph as MarkdownTaskGraph,
-  type MarkdownFormatterOptions
+  type MarkdownFormatterOptions,
+  type MarkdownBudget
 } from './markdown-formatter';
 
+// Export Mermaid rendering utilities
+export {
+  renderMermaidFlowchart,
+  type MermaidRenderOptions,
+  type MermaidRenderResult
+} from './mermaid-renderer';
+
+// Export task graph renderers, schema and validation
+export {
+  TaskGraphRendererRegistry,
+  createTaskGraphRendererRegistry,
+  renderTaskGraphHtml,
+  renderTaskGraphCsv,
+  writeTaskGraphReports,
+  type TaskGraphRenderer,
+  type TaskGraphRenderOptions,
+  type RenderableTask,
+  type RenderableTaskGraph
+} from './task-graph-renderers';
+export {
+  TASK_GRAPH_SCHEMA,
+  validateAgainstSchema,
+  toJsonPointer,
+  type JsonSchema,
+  type JsonSchemaType,
+  type SchemaViolation
+} from './task-graph-schema';
+export {
+  validateTaskGraphStrict,
+  formatTaskGraphIssue,
+  type TaskGraphIssue,
+  type TaskGraphIssueCode,
+  type TaskGraphIssueSeverity,
+  type TaskGraphValidationResult
+} from './task-graph-validation';
+
 // Export PR comment management utilities
 export {
   PrCommentManager,
   createPrCommentManager,
   postTaskGraphPreview,
-  type PrCommentConfig
-} from './pr-comment-manager';
\ No newline at end of file
+  type PrCommentConfig,
+  type PreviewCommentResult
+} from './pr-comment-manager';
+
+// Export task graph diff utilities
+export {
+  snapshotTaskGraph,
+  snapshotIssueStates,
+  attachIssueNumbers,
+  diffTaskGraphs,
+  countTaskGraphChanges,
+  formatTaskGraphDiff,
+  type TaskGraphDiff,
+  type TaskGraphDiffSource,
+  type TaskSnapshot,
+  type TaskField,
+  type ChangedTask,
+  type DependencyEdge
+} from './task-graph-diff';
+
+// Export glob matching utilities
+export {
+  findFiles,
+  matchGlob,
+  compileGlob,
+  expandBraces,
+  parsePatternList,
+  ignoreRulesToGlobs,
+  loadIgnoreFile,
+  GlobPatternList,
+  DEFAULT_IGNORE_FILE,
+  type GlobOptions
+} from './glob-matcher';
+
+// Export issue reconciliation utilities
+export {
+  planIssueReconciliation,
+  hasIssueChanged,
+  buildObsoleteLabels,
+  OBSOLETE_LABEL,
+  type DesiredIssue,
+  type ReconciledIssue,
+  type ReconciliationPlan,
+  type ObsoleteIssueAction
+} from './issue-reconciliation';
+
+// Export task identity utilities
+export {
+  buildTaskKey,
+  buildTaskKeyLine,
+  buildPrdNamespace,
+  extractTaskKey,
+  normalizeTitle,
+  calculateTitleSimilarity,
+  calculateDescriptionHash,
+  extractIssueDescription,
+  findBestTaskMatch,
+  DEFAULT_TITLE_SIMILARITY_THRESHOLD,
+  type TaskMatchCandidate,
+  type MatchableIssue,
+  type TaskMatch,
+  type TaskMatchOptions
+} from './task-identity';
+
+// Export sub-issue migration utilities
+export {
+  collectBodySubIssueLinks,
+  removeSubtasksSection,
+  migrateSubIssueLinks,
+  type BodySubIssueLink,
+  type SubIssueMigrationOptions,
+  type SubIssueMigrationResult
+} from './sub-issue-migration';
+
+// Export dependency policy utilities
+export {
+  buildDependencyLabels,
+  dependencyLabelsForIssues,
+  dependencyLabelsForParsed,
+  isDependencyLabel,
+  applyDependencyLabels,
+  dependencyLabelsChanged,
+  resolveDependencyLabels,
+  resolveCrossRepositoryDependencies,
+  syncIssueDependencyLinks,
+  updateDependencyEntry,
+  BLOCKED_LABEL,
+  READY_LABEL,
+  BLOCKED_BY_LABEL_PREFIX,
+  type DependencyEntryChange
+} from './dependency-policy';
+
+// Export issue reference utilities
+export {
+  isRepository,
+  parseRepository,
+  sameRepository,
+  parseIssueReference,
+  formatIssueReference,
+  issueReferenceKey,
+  repositoryFromIssue,
+  referenceFromIssue,
+  type IssueReference
+} from './issue-reference';
+
+// Export project sync utilities
+export {
+  ProjectSync,
+  createProjectSync,
+  parseProjectUrl,
+  projectFieldsForTask,
+  projectStatusForLabels,
+  syncIssueToProject,
+  DEFAULT_PROJECT_FIELD_NAMES,
+  PROJECT_STATUS_BLOCKED,
+  PROJECT_STATUS_READY,
+  type ProjectReference,
+  type ProjectField,
+  type ProjectTaskFields,
+  type ProjectSyncOptions
+} from './project-sync';
+
+// Export milestone mapping utilities
+export {
+  MilestoneManager,
+  extractPrdMilestones,
+  planMilestones,
+  milestoneDuration,
+  type MilestoneDefinition,
+  type MilestoneTask,
+  type MilestonePlanOptions,
+  type MilestonePlan
+} from './milestone-mapping';
+
+// Export task complexity utilities
+export {
+  calculateComplexityForTask,
+  complexityLevel,
+  type ComplexityTask
+} from './task-complexity';
+
+// Export command registry utilities
+export {
+  CommandRegistry,
+  hasPermission,
+  formatCommandUsage,
+  PERMISSION_LEVELS,
+  type PositionalArgumentType,
+  type PositionalArgumentRule,
+  type PositionalValue,
+  type CommandInvocation,
+  type CommandContext,
+  type CommandResult,
+  type CommandDefinition,
+  type CommandParseResult,
+  type CommandDispatchResult
+} from './command-registry';
+
+// Export issue command utilities
+export {
+  createIssueCommandRegistry,
+  splitCommand,
+  mergeCommand,
+  estimateCommand,
+  assignCommand,
+  extractWorkItems,
+  partitionItems,
+  buildSplitPartBody,
+  MAX_SPLIT_PARTS,
+  type IssueCommandContext
+} from './issue-commands';
+
+// Export breakdown undo utilities
+export {
+  undoBreakdown,
+  findBreakdownSubIssues,
+  findHumanActivity,
+  unbreakdownCommand,
+  UNBREAKDOWN_VALIDATION_CONFIG,
+  BREAKDOWN_GENERATED_LABEL,
+  type SubIssueDisposal,
+  type UndoBreakdownOptions,
+  type UndoBreakdownResult,
+  type RefusedSubIssue
+} from './breakdown-undo';
+
+// Export command policy utilities
+export {
+  CommandPolicy,
+  createCommandPolicy,
+  commandPolicyFromConfig,
+  parsePolicyList,
+  formatPolicyDenial,
+  TASKMASTER_COMMANDS,
+  POLICY_DENIAL_MARKER,
+  type CommandPolicyConfig,
+  type CommandPolicyRequest,
+  type PolicyDecision,
+  type PolicyRule
+} from './command-policy';
+
+// Export command reply utilities
+export {
+  CommandReply,
+  formatCommandReply,
+  commandReplyMarker,
+  COMMAND_REPLY_MARKER_PREFIX,
+  type CommandReport
+} from './command-reply';
+
+// Export drift report utilities
+export {
+  createDriftReport,
+  countDrift,
+  countFixedDrift,
+  formatDriftReport,
+  type DriftMode,
+  type DriftReport,
+  type LabelDrift,
+  type DanglingReference,
+  type ParentCheckboxDrift,
+  type CycleDrift
+} from './drift-report';
+
+// Export scan cache utilities
+export {
+  SCAN_CACHE_VERSION,
+  SCAN_CACHE_MAX_AGE_MS,
+  isUsableScanCache,
+  isScanCacheExpired,
+  createScanCache,
+  restoreDependencyGraph,
+  applyIssueChanges,
+  selectIssuesToRescan,
+  type ScanCache,
+  type CachedIssue,
+  type ScanCacheChanges
+} from './scan-cache';
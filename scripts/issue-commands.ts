@@ -0,0 +1,289 @@
+/**
+ * Issue Commands
+ *
+ * Slash commands that work on an issue through the GitHub API alone:
+ * - `/split N` splits the issue into N part sub-issues
+ * - `/merge #a #b` folds other issues into the issue and closes them
+ * - `/estimate` recomputes the issue's complexity label
+ * - `/assign @user` assigns users to the issue
+ * - `/unbreakdown` undoes a breakdown (see `breakdown-undo.ts`)
+ *
+ * Commands that need the Taskmaster CLI (like `/replan`) are registered by
+ * the action that runs the CLI.
+ */
+
+import { ApiIssue } from './github-api';
+import { CommandContext, CommandDefinition, CommandRegistry, CommandResult, PositionalValue } from './command-registry';
+import { parseIssueBody } from './issue-parser';
+import { calculateComplexityForTask, complexityLevel } from './task-complexity';
+import { buildTaskKey, buildTaskKeyLine } from './task-identity';
+import { referenceFromIssue, repositoryFromIssue, sameRepository } from './issue-reference';
+import { ProjectSync, syncIssueToProject } from './project-sync';
+import { unbreakdownCommand } from './breakdown-undo';
+
+/**
+ * Context for issue commands
+ */
+export interface IssueCommandContext extends CommandContext {
+  /** Board whose Complexity field `/estimate` keeps in sync */
+  projectSync?: ProjectSync | null;
+}
+
+/**
+ * Largest number of parts `/split` creates
+ */
+export const MAX_SPLIT_PARTS = 10;
+
+const UNIQUE_MARKER = '<!-- created-by-taskmaster-script -->';
+const MERGED_SECTION_HEADING = '## Merged Issues';
+
+/**
+ * Label names of an issue
+ */
+function labelNames(issue: ApiIssue): string[] {
+  return (issue.labels || []).map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean);
+}
+
+/**
+ * Issue numbers from positional `issue` values in the current repository
+ */
+function localIssueNumbers(values: PositionalValue | PositionalValue[] | undefined): number[] {
+  return (Array.isArray(values) ? values : values === undefined ? [] : [values])
+    .filter((value): value is number => typeof value === 'number');
+}
+
+/**
+ * Work items of an issue for splitting: list items of its details (or
+ * description), falling back to paragraphs
+ */
+export function extractWorkItems(body: string): string[] {
+  const parsed = parseIssueBody(body);
+  const text = parsed.details || parsed.description ||
+    body.replace(/^---\n[\s\S]*?\n---\n*/, '').replace(/<!--[\s\S]*?-->/g, '').replace(/^##.*$/gm, '').trim();
+
+  const listItems = text.split('\n')
+    .map(line => line.match(/^\s*(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1].trim());
+  if (listItems.length > 0) {
+    return listItems;
+  }
+
+  return text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+/**
+ * Divide items into contiguous parts of near-equal size
+ */
+export function partitionItems<T>(items: T[], parts: number): T[][] {
+  const result: T[][] = [];
+  let start = 0;
+  for (let part = 0; part < parts; part++) {
+    const size = Math.floor(items.length / parts) + (part < items.length % parts ? 1 : 0);
+    result.push(items.slice(start, start + size));
+    start += size;
+  }
+  return result;
+}
+
+/**
+ * Body of a `/split` part sub-issue
+ */
+export function buildSplitPartBody(parent: { number: number }, items: string[], part: number, parts: number): string {
+  let body = `---\n${buildTaskKeyLine(buildTaskKey(`split-${part}`, `issue-${parent.number}`))}\n---\n\n`;
+  body += `## Description\n\nPart ${part} of ${parts} of #${parent.number}.\n\n`;
+  body += `## Details\n\n${items.map(item => `- ${item}`).join('\n')}\n\n`;
+  body += `## Meta\n- **Parent Task:** #${parent.number}\n\n`;
+  body += UNIQUE_MARKER;
+  return body;
+}
+
+/**
+ * `/split N`: split an issue into N part sub-issues
+ *
+ * Parts already created by an earlier split are reused.
+ */
+export const splitCommand: CommandDefinition<IssueCommandContext> = {
+  name: 'split',
+  description: 'Split the issue into N sub-issues by its work items',
+  permission: 'write',
+  positional: [
+    { name: 'parts', type: 'number', required: true, min: 2, max: MAX_SPLIT_PARTS, description: 'Number of sub-issues' }
+  ],
+  handler: async (invocation, { githubApi, issueNumber, actor, commentId, policy }) => {
+    const parts = invocation.positional.parts as number;
+    if (policy) {
+      const decision = await policy.enforceSubIssueLimit({ command: 'split', issueNumber, actor, commentId }, parts);
+      if (!decision.allowed) {
+        return { success: false, message: `/split denied by policy: ${decision.reason}` };
+      }
+    }
+
+    const issue = await githubApi.getIssue(issueNumber);
+    const items = extractWorkItems(issue.body || '');
+
+    if (items.length < parts) {
+      return {
+        success: false,
+        message: `#${issueNumber} has ${items.length} work item(s), too few to split into ${parts} parts`
+      };
+    }
+
+    const created: number[] = [];
+    const partitions = partitionItems(items, parts);
+    for (let part = 1; part <= parts; part++) {
+      const title = `[Part ${part}/${parts}] ${issue.title}`;
+      const body = buildSplitPartBody(issue, partitions[part - 1], part, parts);
+      const existing = await githubApi.findExistingIssue(title, UNIQUE_MARKER, {
+        taskKey: buildTaskKey(`split-${part}`, `issue-${issueNumber}`)
+      });
+
+      const partIssue = existing || await githubApi.createIssue({
+        title,
+        body,
+        labels: ['taskmaster', 'subtask', 'split-generated'],
+        ...(issue.milestone ? { milestone: issue.milestone.number } : {})
+      });
+      await githubApi.addSubIssue(issueNumber, partIssue.number);
+      created.push(partIssue.number);
+    }
+
+    return {
+      success: true,
+      message: `Split #${issueNumber} into ${created.map(n => `#${n}`).join(', ')}`,
+      issueNumbers: created
+    };
+  }
+};
+
+/**
+ * `/merge #a #b`: merge issues into the issue the command was posted on
+ *
+ * Merged issues are listed in the target's body, keep their dependency
+ * links on the target, get a pointer comment and are closed.
+ */
+export const mergeCommand: CommandDefinition<IssueCommandContext> = {
+  name: 'merge',
+  description: 'Merge the listed issues into this issue and close them',
+  permission: 'write',
+  positional: [
+    { name: 'issues', type: 'issue', required: true, variadic: true, description: 'Issues to merge' }
+  ],
+  validate: invocation => {
+    const values = invocation.positional.issues as PositionalValue[];
+    return values.length === localIssueNumbers(values).length
+      ? []
+      : ['Only issues in this repository can be merged; use #N references'];
+  },
+  handler: async (invocation, { githubApi, issueNumber }) => {
+    const sources = Array.from(new Set(localIssueNumbers(invocation.positional.issues)));
+    if (sources.includes(issueNumber)) {
+      return { success: false, message: `#${issueNumber} cannot be merged into itself` };
+    }
+
+    const repository = githubApi.getRepository();
+    const target = await githubApi.getIssue(issueNumber);
+    const merged: ApiIssue[] = [];
+
+    for (const sourceNumber of sources) {
+      const source = await githubApi.getIssue(sourceNumber);
+
+      // The target inherits what blocked the source and what the source blocked
+      for (const blocker of await githubApi.getBlockedBy(sourceNumber) || []) {
+        if (blocker.number !== issueNumber || !sameRepository(repositoryFromIssue(blocker) || repository, repository)) {
+          await githubApi.addBlockedBy(issueNumber, referenceFromIssue(blocker, repository));
+        }
+      }
+      for (const dependent of await githubApi.getBlocking(sourceNumber) || []) {
+        if (dependent.number !== issueNumber && sameRepository(repositoryFromIssue(dependent) || repository, repository)) {
+          await githubApi.addBlockedBy(dependent.number, issueNumber);
+        }
+      }
+
+      await githubApi.createComment(sourceNumber, `Merged into #${issueNumber}`);
+      await githubApi.updateIssue(sourceNumber, { state: 'closed' });
+      merged.push(source);
+    }
+
+    const entries = merged.map(source => `- #${source.number} ${source.title}`).join('\n');
+    const body = target.body || '';
+    await githubApi.updateIssue(issueNumber, {
+      body: body.includes(MERGED_SECTION_HEADING)
+        ? body.replace(MERGED_SECTION_HEADING, `${MERGED_SECTION_HEADING}\n${entries}`)
+        : `${body.trimEnd()}\n\n${MERGED_SECTION_HEADING}\n${entries}\n`
+    });
+
+    return {
+      success: true,
+      message: `Merged ${merged.map(source => `#${source.number}`).join(', ')} into #${issueNumber}`,
+      issueNumbers: [issueNumber, ...sources]
+    };
+  }
+};
+
+/**
+ * `/estimate`: recompute the complexity of an issue from its body and sub-issues
+ */
+export const estimateCommand: CommandDefinition<IssueCommandContext> = {
+  name: 'estimate',
+  description: 'Recompute the complexity label of this issue',
+  permission: 'triage',
+  handler: async (_invocation, { githubApi, issueNumber, projectSync }) => {
+    const issue = await githubApi.getIssue(issueNumber);
+    const parsed = parseIssueBody(issue.body || '');
+    const subIssues = await githubApi.getSubIssues(issueNumber);
+
+    const score = calculateComplexityForTask({
+      description: parsed.description,
+      details: parsed.details,
+      // Generated issues write `**Priority**:`, breakdown sub-issues `**Priority:**`
+      priority: parsed.metadata.priority || issue.body?.match(/- \*\*Priority:\*\* `([^`]+)`/)?.[1],
+      dependencies: parsed.dependencies,
+      subtasks: subIssues
+    });
+    const level = complexityLevel(score);
+
+    const labels = [...labelNames(issue).filter(label => !label.startsWith('complexity:')), `complexity:${level}`];
+    const body = (issue.body || '').replace(/(- \*\*Complexity:\*\* `)[^`]*(`)/, `$1${score} / 10$2`);
+    await githubApi.updateIssue(issueNumber, { labels, body });
+    await syncIssueToProject(projectSync || null, issue, { complexity: level });
+
+    return {
+      success: true,
+      message: `Estimated #${issueNumber} at complexity ${score}/10 (${level})`,
+      issueNumbers: [issueNumber]
+    };
+  }
+};
+
+/**
+ * `/assign @user`: assign users to the issue
+ */
+export const assignCommand: CommandDefinition<IssueCommandContext> = {
+  name: 'assign',
+  description: 'Assign users to this issue',
+  permission: 'triage',
+  positional: [
+    { name: 'users', type: 'user', required: true, variadic: true, description: 'Users to assign' }
+  ],
+  handler: async (invocation, { githubApi, issueNumber }): Promise<CommandResult> => {
+    const users = invocation.positional.users as string[];
+    await githubApi.addAssignees(issueNumber, users);
+    return {
+      success: true,
+      message: `Assigned ${users.map(user => `@${user}`).join(', ')} to #${issueNumber}`,
+      issueNumbers: [issueNumber]
+    };
+  }
+};
+
+/**
+ * Registry with the issue commands; actions register further commands on it
+ */
+export function createIssueCommandRegistry<TContext extends IssueCommandContext = IssueCommandContext>(): CommandRegistry<TContext> {
+  const registry = new CommandRegistry<TContext>();
+  for (const command of [splitCommand, mergeCommand, estimateCommand, assignCommand, unbreakdownCommand]) {
+    registry.register(command as CommandDefinition<TContext>);
+  }
+  return registry;
+}
@@ -6,6 +6,7 @@
  */
 
 import * as yaml from 'js-yaml';
+import { issueReferenceKey } from './issue-reference';
 
 // Interfaces for parsed data
 export interface ParsedYamlFrontMatter {
@@ -26,6 +27,8 @@ export interface ParsedDependency {
   issueNumber: number;
   completed: boolean;
   title?: string;
+  /** `owner/repo` for cross-repository references (`owner/repo#N`) */
+  repository?: string;
 }
 
 export interface ParsedIssueData {
@@ -37,6 +40,10 @@ export interface ParsedIssueData {
   details?: string;
   testStrategy?: string;
   rawBody: string;
+  /** Issue number, set by callers that parsed an issue fetched from the API */
+  issueNumber?: number;
+  /** `owner/repo` of the issue, set by callers that parsed an issue fetched from the API */
+  repository?: string;
 }
 
 /**
@@ -131,20 +138,22 @@ export function parseDependencies(body: string): ParsedDependency[] {
   const depsContent = depsMatch[1];
   const dependencies: ParsedDependency[] = [];
   
-  // Parse lines like "- [x] #123" or "- [ ] Task #456"
+  // Parse lines like "- [x] #123", "- [ ] Task #456" or "- [ ] owner/repo#789"
   const depLines = depsContent.split('\n');
   
   for (const line of depLines) {
-    const match = line.match(/- \[([x ])\]\s*(?:Task\s*)?#(\d+)(?:\s+(.*))?/);
+    const match = line.match(/- \[([x ])\]\s*(?:Task\s*)?([\w.-]+\/[\w.-]+)?#(\d+)(?:\s+(.*))?/);
     if (match) {
       const completed = match[1] === 'x';
-      const issueNumber = parseInt(match[2], 10);
-      const title = match[3]?.trim();
+      const repository = match[2];
+      const issueNumber = parseInt(match[3], 10);
+      const title = match[4]?.trim();
       
       dependencies.push({
         issueNumber,
         completed,
-        title
+        title,
+        ...(repository ? { repository } : {})
       });
     }
   }
@@ -165,20 +174,22 @@ export function parseRequiredBy(body: string): ParsedDependency[] {
   const reqByContent = reqByMatch[1];
   const requiredBy: ParsedDependency[] = [];
   
-  // Parse lines like "- [ ] #123"
+  // Parse lines like "- [ ] #123" or "- [ ] owner/repo#456"
   const reqByLines = reqByContent.split('\n');
   
   for (const line of reqByLines) {
-    const match = line.match(/- \[([x ])\]\s*#(\d+)(?:\s+(.*))?/);
+    const match = line.match(/- \[([x ])\]\s*([\w.-]+\/[\w.-]+)?#(\d+)(?:\s+(.*))?/);
     if (match) {
       const completed = match[1] === 'x';
-      const issueNumber = parseInt(match[2], 10);
-      const title = match[3]?.trim();
+      const repository = match[2];
+      const issueNumber = parseInt(match[3], 10);
+      const title = match[4]?.trim();
       
       requiredBy.push({
         issueNumber,
         completed,
-        title
+        title,
+        ...(repository ? { repository } : {})
       });
     }
   }
@@ -250,13 +261,66 @@ export function hasYamlFrontMatter(body: string): boolean {
 export class DependencyGraphAnalyzer {
   /**
    * Build a dependency graph from parsed issue data
+   *
+   * Nodes are keyed by issue number when the caller set one, otherwise by
+   * front-matter ID. Without a repository, cross-repository dependencies are
+   * keyed by `owner/repo#N`; with a repository, every node is keyed by its
+   * repository-qualified issue reference so graphs spanning several
+   * repositories stay unambiguous.
    */
-  static buildDependencyGraph(issues: ParsedIssueData[]): Map<number, DependencyNode> {
-    const graph = new Map<number, DependencyNode>();
+  static buildDependencyGraph(
+    issues: ParsedIssueData[],
+    options: DependencyGraphOptions = {}
+  ): Map<DependencyNodeKey, DependencyNode> {
+    return DependencyGraphAnalyzer.patchDependencyGraph(new Map(), issues, [], options);
+  }
+
+  /**
+   * Patch a dependency graph in place with changed and removed issues
+   *
+   * Nodes of changed issues are replaced and nodes of removed issues (e.g.
+   * closed ones) dropped, relinking only their edges, so a cached graph is
+   * kept current without re-parsing unchanged issues. Nodes are keyed like
+   * `buildDependencyGraph`, which must be given the same options.
+   */
+  static patchDependencyGraph(
+    graph: Map<DependencyNodeKey, DependencyNode>,
+    changedIssues: ParsedIssueData[],
+    removedIds: DependencyNodeKey[],
+    options: DependencyGraphOptions = {}
+  ): Map<DependencyNodeKey, DependencyNode> {
+    const nodeKey = (issue: ParsedIssueData): DependencyNodeKey | undefined => {
+      const id = issue.issueNumber ?? issue.yamlFrontMatter.id;
+      if (!id) return undefined;
+      const repository = issue.repository || options.repository;
+      return options.repository && repository ? issueReferenceKey(repository, id) : id;
+    };
+    
+    const dependencyKey = (issue: ParsedIssueData, issueNumber: number, repository?: string): DependencyNodeKey => {
+      const depRepository = repository || issue.repository || options.repository;
+      return (options.repository || repository) && depRepository
+        ? issueReferenceKey(depRepository, issueNumber)
+        : issueNumber;
+    };
+    
+    // Drop stale nodes and their edges
+    const changedIds = new Set(changedIssues.map(nodeKey).filter((id): id is DependencyNodeKey => id !== undefined));
+    for (const staleId of removedIds.concat(Array.from(changedIds))) {
+      const staleNode = graph.get(staleId);
+      if (!staleNode) continue;
+      
+      for (const depId of staleNode.dependencies) {
+        const depNode = graph.get(depId);
+        if (depNode) {
+          depNode.dependents = depNode.dependents.filter(id => id !== staleId);
+        }
+      }
+      graph.delete(staleId);
+    }
     
     // Initialize nodes
-    for (const issue of issues) {
-      const issueId = issue.yamlFrontMatter.id;
+    for (const issue of changedIssues) {
+      const issueId = nodeKey(issue);
       if (issueId) {
         graph.set(issueId, {
           id: issueId,
@@ -269,15 +333,18 @@ export class DependencyGraphAnalyzer {
     }
     
     // Build relationships
-    for (const issue of issues) {
-      const issueId = issue.yamlFrontMatter.id;
+    for (const issue of changedIssues) {
+      const issueId = nodeKey(issue);
       if (!issueId) continue;
       
       const node = graph.get(issueId);
       if (!node) continue;
       
-      // Add dependencies from YAML front-matter
-      for (const depId of issue.yamlFrontMatter.dependencies || []) {
+      // Add dependencies from YAML front-matter; these are task IDs, so they
+      // only apply to nodes keyed by task ID rather than by issue number
+      const frontMatterDependencies = issue.issueNumber === undefined ? issue.yamlFrontMatter.dependencies || [] : [];
+      for (const frontMatterDepId of frontMatterDependencies) {
+        const depId = dependencyKey(issue, frontMatterDepId);
         node.dependencies.push(depId);
         const depNode = graph.get(depId);
         if (depNode) {
@@ -287,9 +354,10 @@ export class DependencyGraphAnalyzer {
       
       // Add dependencies from parsed dependencies section
       for (const dep of issue.dependencies) {
-        if (!node.dependencies.includes(dep.issueNumber)) {
-          node.dependencies.push(dep.issueNumber);
-          const depNode = graph.get(dep.issueNumber);
+        const depId = dependencyKey(issue, dep.issueNumber, dep.repository);
+        if (!node.dependencies.includes(depId)) {
+          node.dependencies.push(depId);
+          const depNode = graph.get(depId);
           if (depNode) {
             depNode.dependents.push(issueId);
           }
@@ -297,18 +365,30 @@ export class DependencyGraphAnalyzer {
       }
     }
     
+    // Relink unchanged dependents of changed nodes
+    for (const [nodeId, node] of Array.from(graph)) {
+      if (changedIds.has(nodeId)) continue;
+      
+      for (const depId of node.dependencies) {
+        const depNode = changedIds.has(depId) ? graph.get(depId) : undefined;
+        if (depNode && !depNode.dependents.includes(nodeId)) {
+          depNode.dependents.push(nodeId);
+        }
+      }
+    }
+    
     return graph;
   }
   
   /**
    * Detect circular dependencies in the graph
    */
-  static detectCircularDependencies(graph: Map<number, DependencyNode>): CircularDependency[] {
-    const visited = new Set<number>();
-    const recursionStack = new Set<number>();
+  static detectCircularDependencies(graph: Map<DependencyNodeKey, DependencyNode>): CircularDependency[] {
+    const visited = new Set<DependencyNodeKey>();
+    const recursionStack = new Set<DependencyNodeKey>();
     const cycles: CircularDependency[] = [];
     
-    function dfs(nodeId: number, path: number[]): boolean {
+    function dfs(nodeId: DependencyNodeKey, path: DependencyNodeKey[]): boolean {
       if (recursionStack.has(nodeId)) {
         // Found a cycle
         const cycleStart = path.indexOf(nodeId);
@@ -317,7 +397,7 @@ export class DependencyGraphAnalyzer {
         
         cycles.push({
           cycle,
-          description: `Circular dependency detected: ${cycle.map(id => `#${id}`).join(' → ')}`
+          description: `Circular dependency detected: ${cycle.map(formatDependencyNodeKey).join(' → ')}`
         });
         return true;
       }
@@ -344,7 +424,7 @@ export class DependencyGraphAnalyzer {
       return false;
     }
     
-    for (const nodeId of graph.keys()) {
+    for (const nodeId of Array.from(graph.keys())) {
       if (!visited.has(nodeId)) {
         dfs(nodeId, []);
       }
@@ -356,13 +436,13 @@ export class DependencyGraphAnalyzer {
   /**
    * Get dependency resolution order using topological sort with priority
    */
-  static getDependencyResolutionOrder(graph: Map<number, DependencyNode>): ResolutionOrder {
-    const inDegree = new Map<number, number>();
-    const queue: number[] = [];
-    const result: number[] = [];
+  static getDependencyResolutionOrder(graph: Map<DependencyNodeKey, DependencyNode>): ResolutionOrder {
+    const inDegree = new Map<DependencyNodeKey, number>();
+    const queue: DependencyNodeKey[] = [];
+    const result: DependencyNodeKey[] = [];
     
     // Calculate in-degrees
-    for (const [nodeId, node] of graph) {
+    for (const [nodeId, node] of Array.from(graph)) {
       inDegree.set(nodeId, node.dependencies.length);
     }
     
@@ -419,10 +499,13 @@ export class DependencyGraphAnalyzer {
   /**
    * Find issues that would be unblocked by resolving specific dependencies
    */
-  static findUnblockableIssues(graph: Map<number, DependencyNode>, resolvedIssueIds: number[]): number[] {
-    const unblockable: number[] = [];
+  static findUnblockableIssues(
+    graph: Map<DependencyNodeKey, DependencyNode>,
+    resolvedIssueIds: DependencyNodeKey[]
+  ): DependencyNodeKey[] {
+    const unblockable: DependencyNodeKey[] = [];
     
-    for (const [nodeId, node] of graph) {
+    for (const [nodeId, node] of Array.from(graph)) {
       // Skip if already resolved
       if (resolvedIssueIds.includes(nodeId)) continue;
       
@@ -440,16 +523,39 @@ export class DependencyGraphAnalyzer {
     
     return unblockable;
   }
-  
+
+  /**
+   * Find issues that depend directly on any of the given issues
+   *
+   * The given issues need not be graph nodes, so dependents of closed,
+   * deleted or transferred issues are found too.
+   */
+  static findDependentIssues(
+    graph: Map<DependencyNodeKey, DependencyNode>,
+    issueIds: DependencyNodeKey[]
+  ): DependencyNodeKey[] {
+    const dependents: DependencyNodeKey[] = [];
+
+    for (const [nodeId, node] of Array.from(graph)) {
+      if (issueIds.includes(nodeId)) continue;
+
+      if (node.dependencies.some(depId => issueIds.includes(depId))) {
+        dependents.push(nodeId);
+      }
+    }
+
+    return dependents;
+  }
+
   /**
    * Calculate critical path through the dependency graph
    */
-  static calculateCriticalPath(graph: Map<number, DependencyNode>): CriticalPath {
-    const distances = new Map<number, number>();
-    const predecessors = new Map<number, number | null>();
+  static calculateCriticalPath(graph: Map<DependencyNodeKey, DependencyNode>): CriticalPath {
+    const distances = new Map<DependencyNodeKey, number>();
+    const predecessors = new Map<DependencyNodeKey, DependencyNodeKey | null>();
     
     // Initialize distances
-    for (const nodeId of graph.keys()) {
+    for (const nodeId of Array.from(graph.keys())) {
       distances.set(nodeId, 0);
       predecessors.set(nodeId, null);
     }
@@ -476,9 +582,9 @@ export class DependencyGraphAnalyzer {
     
     // Find the node with maximum distance (end of critical path)
     let maxDistance = 0;
-    let endNode: number | null = null;
+    let endNode: DependencyNodeKey | null = null;
     
-    for (const [nodeId, distance] of distances) {
+    for (const [nodeId, distance] of Array.from(distances)) {
       if (distance > maxDistance) {
         maxDistance = distance;
         endNode = nodeId;
@@ -486,7 +592,7 @@ export class DependencyGraphAnalyzer {
     }
     
     // Reconstruct critical path
-    const path: number[] = [];
+    const path: DependencyNodeKey[] = [];
     let current = endNode;
     
     while (current !== null) {
@@ -514,22 +620,39 @@ function getPriorityValue(priority?: string): number {
   }
 }
 
+// Helper function to display a node key in messages
+function formatDependencyNodeKey(key: DependencyNodeKey): string {
+  return typeof key === 'number' ? `#${key}` : key;
+}
+
 // Enhanced interfaces for dependency graph analysis
+
+/**
+ * Dependency graph node key: a task/issue number, or a repository-qualified
+ * issue reference (`owner/repo#N`) for graphs spanning repositories
+ */
+export type DependencyNodeKey = number | string;
+
+export interface DependencyGraphOptions {
+  /** Repository (`owner/repo`) of issues that don't carry their own; enables repository-qualified keys */
+  repository?: string;
+}
+
 export interface DependencyNode {
-  id: number;
-  dependencies: number[];
-  dependents: number[];
+  id: DependencyNodeKey;
+  dependencies: DependencyNodeKey[];
+  dependents: DependencyNodeKey[];
   status: string;
   priority: string;
 }
 
 export interface CircularDependency {
-  cycle: number[];
+  cycle: DependencyNodeKey[];
   description: string;
 }
 
 export interface ResolutionOrder {
-  order: number[];
+  order: DependencyNodeKey[];
   hasCycles: boolean;
   cycles: CircularDependency[];
   totalNodes: number;
@@ -537,7 +660,7 @@ export interface ResolutionOrder {
 }
 
 export interface CriticalPath {
-  path: number[];
+  path: DependencyNodeKey[];
   length: number;
   estimatedDuration: number;
 }
@@ -0,0 +1,195 @@
+/**
+ * Issue Reconciliation
+ *
+ * Diffs a freshly generated task graph against the issues recorded in
+ * idempotency state for the same PRD, or rebuilt from the front-matter of
+ * its issues when no state survived from the previous run:
+ * - Tasks without a recorded issue are created
+ * - Tasks with a recorded issue are updated when their body, labels,
+ *   parent or dependencies changed
+ * - Recorded issues whose task disappeared are retired, and revived
+ *   (reopened and relabelled) when their task comes back
+ */
+
+import { IssueState } from './idempotency-manager';
+import { isDependencyLabel } from './dependency-policy';
+import { ApiIssue } from './github-api';
+import { extractTaskKey } from './task-identity';
+import { parseYamlFrontMatter } from './issue-parser';
+
+/**
+ * Label applied to issues whose task no longer exists in the PRD
+ */
+export const OBSOLETE_LABEL = 'taskmaster:obsolete';
+
+/**
+ * What to do with issues whose task disappeared from the task graph
+ */
+export type ObsoleteIssueAction = 'label' | 'close';
+
+/**
+ * Issue the current task graph wants to exist
+ */
+export interface DesiredIssue {
+  /** Task ID ("1" for top-level tasks, "1.2" for subtasks) */
+  taskId: string;
+  /** Parent task ID for subtasks */
+  parentTaskId?: string;
+  /** Task IDs this task depends on */
+  dependencies: string[];
+}
+
+/**
+ * Desired issue matched to an issue recorded from a previous run
+ */
+export interface ReconciledIssue {
+  /** Desired state from the new task graph */
+  desired: DesiredIssue;
+  /** Recorded state from the previous run */
+  recorded: IssueState;
+  /** The task moved to a different parent */
+  parentChanged: boolean;
+  /** The task's dependency set changed */
+  dependenciesChanged: boolean;
+  /** The recorded issue was retired and its task is back */
+  revived: boolean;
+}
+
+/**
+ * Result of diffing the task graph against recorded issue state
+ */
+export interface ReconciliationPlan {
+  /** Tasks that need a new issue */
+  toCreate: DesiredIssue[];
+  /** Tasks that already have an issue */
+  matched: ReconciledIssue[];
+  /** Recorded issues whose task no longer exists */
+  toRetire: IssueState[];
+}
+
+/**
+ * Diff desired issues against recorded issue state
+ *
+ * When several recorded issues claim the same task (e.g. after a lost state
+ * file), the most recently updated one is kept and the others are retired.
+ */
+export function planIssueReconciliation(desired: DesiredIssue[], recorded: IssueState[]): ReconciliationPlan {
+  const plan: ReconciliationPlan = {
+    toCreate: [],
+    matched: [],
+    toRetire: []
+  };
+
+  const recordedByTask = new Map<string, IssueState>();
+  const sortedRecorded = [...recorded].sort((a, b) =>
+    new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime()
+  );
+
+  for (const issue of sortedRecorded) {
+    if (!recordedByTask.has(issue.taskId)) {
+      recordedByTask.set(issue.taskId, issue);
+    } else if (!isRetired(issue)) {
+      plan.toRetire.push(issue);
+    }
+  }
+
+  const desiredTaskIds = new Set<string>();
+
+  for (const issue of desired) {
+    desiredTaskIds.add(issue.taskId);
+    const match = recordedByTask.get(issue.taskId);
+
+    if (!match) {
+      plan.toCreate.push(issue);
+      continue;
+    }
+
+    plan.matched.push({
+      desired: issue,
+      recorded: match,
+      parentChanged: (match.parentTaskId || undefined) !== (issue.parentTaskId || undefined),
+      dependenciesChanged: !sameMembers(match.dependencies, issue.dependencies),
+      revived: isRetired(match)
+    });
+  }
+
+  for (const [taskId, issue] of Array.from(recordedByTask)) {
+    if (!desiredTaskIds.has(taskId) && !isRetired(issue)) {
+      plan.toRetire.push(issue);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Rebuild recorded issue state for a PRD from the front-matter of its issues
+ *
+ * Issues whose task key is scoped to the PRD's namespace belong to it; the
+ * task ID and dependencies are read back from the key and front-matter, and
+ * the body hash is taken from the current body so unchanged issues are not
+ * rewritten.
+ */
+export function issueStatesFromFrontMatter(
+  issues: ApiIssue[],
+  namespace: string,
+  hashBody: (body: string) => string
+): IssueState[] {
+  const prefix = `${namespace}/`;
+  const states: IssueState[] = [];
+
+  for (const issue of issues) {
+    const key = extractTaskKey(issue.body);
+    if (!key || !key.startsWith(prefix)) continue;
+
+    const taskId = key.slice(prefix.length);
+    const separator = taskId.lastIndexOf('.');
+    const parentTaskId = separator > 0 ? taskId.slice(0, separator) : undefined;
+    // Subtask dependencies are written as sibling IDs
+    const dependencies = (parseYamlFrontMatter(issue.body!).dependencies || [])
+      .map(depId => parentTaskId ? `${parentTaskId}.${depId}` : String(depId));
+
+    states.push({
+      issueNumber: issue.number,
+      taskId,
+      parentTaskId,
+      sourceHash: '',
+      dependencies,
+      dependents: [],
+      state: issue.state === 'closed' ? 'closed' : 'open',
+      labels: (issue.labels || []).map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean),
+      lastUpdated: new Date(issue.updated_at),
+      bodyHash: hashBody(issue.body || '')
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Check whether a recorded issue differs from what the task graph now produces
+ */
+export function hasIssueChanged(recorded: IssueState, bodyHash: string, labels: string[]): boolean {
+  return recorded.bodyHash !== bodyHash || !sameMembers(recorded.labels, labels);
+}
+
+/**
+ * Labels for a retired issue: dependency status is dropped since it no longer applies
+ */
+export function buildObsoleteLabels(labels: string[]): string[] {
+  const kept = labels.filter(label => !isDependencyLabel(label));
+  return kept.includes(OBSOLETE_LABEL) ? kept : [...kept, OBSOLETE_LABEL];
+}
+
+/**
+ * Whether a recorded issue has already been retired
+ */
+function isRetired(issue: IssueState): boolean {
+  return issue.labels.includes(OBSOLETE_LABEL);
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every(item => set.has(item));
+}
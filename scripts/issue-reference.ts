@@ -0,0 +1,109 @@
+/**
+ * Issue References
+ *
+ * Parses and formats issue references that may point at another repository:
+ * - `#12` refers to an issue in the current repository
+ * - `owner/repo#12` refers to an issue in any repository
+ * - `https://github.com/owner/repo/issues/12` is accepted as input
+ *
+ * Repository-qualified keys (`owner/repo#12`, lower-cased) identify issues
+ * across repositories, e.g. as dependency graph nodes.
+ */
+
+/**
+ * Issue in a specific repository
+ */
+export interface IssueReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+const REPOSITORY_PATTERN = /^([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+)$/;
+const REFERENCE_PATTERN = /^(?:([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+))?#(\d+)$/;
+const URL_PATTERN = /^https:\/\/github\.com\/([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+)\/issues\/(\d+)\/?$/;
+
+/**
+ * Whether a string is an `owner/repo` repository name
+ */
+export function isRepository(value: string): boolean {
+  return REPOSITORY_PATTERN.test(value.trim());
+}
+
+/**
+ * Split an `owner/repo` repository name
+ */
+export function parseRepository(value: string): { owner: string; repo: string } {
+  const match = value.trim().match(REPOSITORY_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid repository "${value}", expected owner/repo`);
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Whether two `owner/repo` names refer to the same repository
+ */
+export function sameRepository(a: string | undefined, b: string | undefined): boolean {
+  return (a || '').toLowerCase() === (b || '').toLowerCase();
+}
+
+/**
+ * Parse an issue reference, resolving bare `#N` against a default repository
+ *
+ * Returns null when the text is not a reference or a bare `#N` has no
+ * repository to resolve against.
+ */
+export function parseIssueReference(text: string, defaultRepository?: string): IssueReference | null {
+  const value = text.trim();
+  const match = value.match(REFERENCE_PATTERN) || value.match(URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, owner, repo, number] = match;
+  if (owner && repo) {
+    return { owner, repo, number: parseInt(number, 10) };
+  }
+
+  if (!defaultRepository) {
+    return null;
+  }
+
+  return { ...parseRepository(defaultRepository), number: parseInt(number, 10) };
+}
+
+/**
+ * Format an issue reference, using the short `#N` form within the current repository
+ */
+export function formatIssueReference(reference: IssueReference, currentRepository?: string): string {
+  const repository = `${reference.owner}/${reference.repo}`;
+  return currentRepository && sameRepository(repository, currentRepository)
+    ? `#${reference.number}`
+    : `${repository}#${reference.number}`;
+}
+
+/**
+ * Repository-qualified key for an issue, stable across reference spellings
+ */
+export function issueReferenceKey(repository: string, issueNumber: number): string {
+  return `${repository.toLowerCase()}#${issueNumber}`;
+}
+
+/**
+ * Repository of an issue returned by the REST API (`repository_url`)
+ */
+export function repositoryFromIssue(issue: { repository_url?: string | null }): string | undefined {
+  const match = issue.repository_url?.match(/\/repos\/([^/]+)\/([^/]+)$/);
+  return match ? `${match[1]}/${match[2]}` : undefined;
+}
+
+/**
+ * Reference to an issue returned by the REST API, falling back to a default repository
+ */
+export function referenceFromIssue(
+  issue: { number: number; repository_url?: string | null },
+  defaultRepository: string
+): IssueReference {
+  return { ...parseRepository(repositoryFromIssue(issue) || defaultRepository), number: issue.number };
+}
@@ -7,9 +7,11 @@
  * - Complexity scores
  * - Blocked/unblocked status
  * - Collapsible sections for better readability
+ * - Mermaid dependency graph
  */
 
 import { components } from "@octokit/openapi-types";
+import { renderMermaidFlowchart } from './mermaid-renderer';
 
 // GitHub API types
 type ApiIssue = components["schemas"]["issue"];
@@ -66,8 +68,15 @@ export interface MarkdownFormatterOptions {
   useCollapsibleSections?: boolean;
   /** Include summary statistics */
   includeSummary?: boolean;
+  /** Include a Mermaid dependency graph, collapsed to `maxDisplayDepth` */
+  includeDependencyGraph?: boolean;
 }
 
+/**
+ * Maximum length of a GitHub comment or issue body
+ */
+export const GITHUB_COMMENT_MAX_LENGTH = 65536;
+
 /**
  * Default formatting options
  */
@@ -78,7 +87,8 @@ const DEFAULT_OPTIONS: MarkdownFormatterOptions = {
   showComplexity: true,
   showBlockedStatus: true,
   useCollapsibleSections: true,
-  includeSummary: true
+  includeSummary: true,
+  includeDependencyGraph: false
 };
 
 /**
@@ -298,51 +308,174 @@ function formatSummary(taskGraph: TaskGraph): string {
   return summary + '\n';
 }
 
+const PREVIEW_TITLE = '# 🚀 Task Graph Preview';
+
 /**
- * Format full task graph into markdown with collapsible sections
+ * Task graph markdown in pieces that can be split across comments
  */
-export function formatTaskGraphMarkdown(taskGraph: TaskGraph, options: Partial<MarkdownFormatterOptions> = {}): string {
-  const opts: MarkdownFormatterOptions = { ...DEFAULT_OPTIONS, ...options };
-  
-  let markdown = '# 🚀 Task Graph Preview\n\n';
+interface TaskGraphMarkdownSections {
+  /** Summary, dependency graph and task hierarchy heading, below the title */
+  header: string;
+  /** One block per top-level task */
+  tasks: string[];
+  legend: string;
+}
+
+/**
+ * Format the sections of a task graph's markdown
+ *
+ * `notice` is shown above the summary; `graphMaxLength` limits the Mermaid
+ * dependency graph.
+ */
+function formatTaskGraphSections(
+  taskGraph: TaskGraph,
+  opts: MarkdownFormatterOptions,
+  notice?: string,
+  graphMaxLength?: number
+): TaskGraphMarkdownSections {
+  let header = notice ? `> ${notice}\n\n` : '';
   
   // Add summary if requested
   if (opts.includeSummary) {
-    markdown += formatSummary(taskGraph);
+    header += formatSummary(taskGraph);
+  }
+  
+  // Add dependency graph if requested
+  if (opts.includeDependencyGraph && taskGraph.tasks?.length > 0) {
+    const flowchart = renderMermaidFlowchart(taskGraph, { maxDisplayDepth: opts.maxDisplayDepth, maxLength: graphMaxLength });
+    if (flowchart.markdown) {
+      header += `## 🕸️ Dependency Graph\n\n${flowchart.markdown}\n\n`;
+    }
   }
   
   // Add main task hierarchy
-  markdown += '## 📋 Task Hierarchy\n\n';
+  header += '## 📋 Task Hierarchy\n\n';
   
   if (!taskGraph.tasks || taskGraph.tasks.length === 0) {
-    markdown += '*No tasks found in task graph.*\n\n';
-    return markdown;
+    return { header, tasks: ['*No tasks found in task graph.*\n\n'], legend: '' };
   }
   
-  for (const task of taskGraph.tasks) {
-    markdown += formatTask(task, opts);
+  const tasks = taskGraph.tasks.map(task => {
+    let block = formatTask(task, opts);
     
     // Add subtasks in collapsible section if they exist
     if (task.subtasks && task.subtasks.length > 0 && opts.useCollapsibleSections) {
-      markdown += '  <details>\n';
-      markdown += `  <summary>📂 Subtasks (${task.subtasks.length})</summary>\n\n`;
-      markdown += formatSubtasks(task.subtasks, opts, 1);
-      markdown += '  </details>\n';
+      block += '  <details>\n';
+      block += `  <summary>📂 Subtasks (${task.subtasks.length})</summary>\n\n`;
+      block += formatSubtasks(task.subtasks, opts, 1);
+      block += '  </details>\n';
     } else if (task.subtasks && task.subtasks.length > 0) {
-      markdown += formatSubtasks(task.subtasks, opts, 0);
+      block += formatSubtasks(task.subtasks, opts, 0);
     }
     
-    markdown += '\n';
-  }
+    return block + '\n';
+  });
   
   // Add legend
-  markdown += '---\n\n';
-  markdown += '### 🔍 Legend\n\n';
-  markdown += '**Complexity:** 🟢 Low (1-4) | 🟡 Medium (5-7) | 🔴 High (8-10)\n\n';
-  markdown += '**Status:** ✅ Completed | 🟢 Ready | 🚫 Blocked\n\n';
-  markdown += '**Priority:** 🔥 Critical | ⚠️ High | 📝 Medium | 📋 Low\n\n';
+  let legend = '---\n\n';
+  legend += '### 🔍 Legend\n\n';
+  legend += '**Complexity:** 🟢 Low (1-4) | 🟡 Medium (5-7) | 🔴 High (8-10)\n\n';
+  legend += '**Status:** ✅ Completed | 🟢 Ready | 🚫 Blocked\n\n';
+  legend += '**Priority:** 🔥 Critical | ⚠️ High | 📝 Medium | 📋 Low\n\n';
   
-  return markdown;
+  return { header, tasks, legend };
+}
+
+/**
+ * Format full task graph into markdown with collapsible sections
+ */
+export function formatTaskGraphMarkdown(taskGraph: TaskGraph, options: Partial<MarkdownFormatterOptions> = {}): string {
+  const opts: MarkdownFormatterOptions = { ...DEFAULT_OPTIONS, ...options };
+  const sections = formatTaskGraphSections(taskGraph, opts);
+  return `${PREVIEW_TITLE}\n\n${sections.header}${sections.tasks.join('')}${sections.legend}`;
+}
+
+/**
+ * Size budget of a task graph preview
+ */
+export interface MarkdownBudget {
+  /** Maximum length of each part */
+  maxLength: number;
+  /** Length kept free in the first part, e.g. for a diff section */
+  reservedLength?: number;
+}
+
+/** Room kept in every part for its ` (part i/N)` label */
+const PART_LABEL_RESERVE = ' (part 999/999)'.length;
+
+const CONTINUATION_HEADING = '## 📋 Task Hierarchy (continued)\n\n';
+
+/**
+ * Cut a block at a line boundary so it fits `maxLength`
+ */
+function truncateBlock(block: string, maxLength: number): string {
+  if (block.length <= maxLength) return block;
+  const marker = '…\n\n';
+  const cut = block.lastIndexOf('\n', maxLength - marker.length);
+  return `${block.substring(0, Math.max(cut + 1, 0))}${marker}`;
+}
+
+/**
+ * Format a task graph into one or more parts that each fit the budget
+ *
+ * Output is trimmed until it fits a single part: test strategies are
+ * dropped first, then details, then subtask levels one at a time, and a
+ * notice says what was left out. When even the most trimmed output is too
+ * long, its task hierarchy is split across parts titled `(part i/N)`.
+ */
+export function formatTaskGraphMarkdownParts(
+  taskGraph: TaskGraph,
+  options: Partial<MarkdownFormatterOptions>,
+  budget: MarkdownBudget
+): string[] {
+  const base: MarkdownFormatterOptions = { ...DEFAULT_OPTIONS, ...options };
+  const reserved = budget.reservedLength || 0;
+  const titleLength = PREVIEW_TITLE.length + 2;
+  const graphMaxLength = Math.floor(budget.maxLength / 2);
+
+  const trimSteps: Array<{ opts: MarkdownFormatterOptions; notice?: string }> = [{ opts: base }];
+  if (base.includeTestStrategy && base.includeDetails) {
+    trimSteps.push({
+      opts: { ...base, includeTestStrategy: false },
+      notice: '✂️ Test strategies are left out to fit GitHub\'s comment size limit.'
+    });
+  }
+  let trimmed: MarkdownFormatterOptions = { ...base, includeDetails: false, includeTestStrategy: false };
+  if (base.includeDetails) {
+    trimSteps.push({ opts: trimmed, notice: '✂️ Task details are left out to fit GitHub\'s comment size limit.' });
+  }
+  for (let depth = (base.maxDisplayDepth || 3) - 1; depth >= 1; depth--) {
+    trimmed = { ...trimmed, maxDisplayDepth: depth };
+    trimSteps.push({
+      opts: trimmed,
+      notice: `✂️ Task details and subtasks nested deeper than ${depth} level${depth === 1 ? '' : 's'} are left out to fit GitHub's comment size limit.`
+    });
+  }
+
+  let sections: TaskGraphMarkdownSections | undefined;
+  for (const step of trimSteps) {
+    sections = formatTaskGraphSections(taskGraph, step.opts, step.notice, graphMaxLength);
+    const markdown = `${PREVIEW_TITLE}\n\n${sections.header}${sections.tasks.join('')}${sections.legend}`;
+    if (markdown.length + reserved <= budget.maxLength) {
+      return [markdown];
+    }
+  }
+
+  // Pack the task blocks and legend of the most trimmed output into parts
+  const bodies: string[] = [sections!.header];
+  let length = reserved + titleLength + PART_LABEL_RESERVE + sections!.header.length;
+  const blockMaxLength = budget.maxLength - titleLength - PART_LABEL_RESERVE - CONTINUATION_HEADING.length;
+  for (const block of [...sections!.tasks, sections!.legend]) {
+    const fitted = truncateBlock(block, blockMaxLength);
+    if (length + fitted.length > budget.maxLength) {
+      bodies.push(CONTINUATION_HEADING);
+      length = titleLength + PART_LABEL_RESERVE + CONTINUATION_HEADING.length;
+    }
+    bodies[bodies.length - 1] += fitted;
+    length += fitted.length;
+  }
+
+  return bodies.map((body, i) => `${PREVIEW_TITLE} (part ${i + 1}/${bodies.length})\n\n${body}`);
 }
 
 /**
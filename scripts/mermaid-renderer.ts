@@ -0,0 +1,281 @@
+/**
+ * Mermaid Renderer
+ *
+ * Renders a task graph as a Mermaid `flowchart` for PR previews and parent
+ * issue breakdown summaries:
+ * - arrows run from a task to the tasks depending on it
+ * - dotted links join a task to its subtasks
+ * - the critical path, blocked tasks and dependency cycles are highlighted
+ * - subtasks deeper than `maxDisplayDepth` collapse into their ancestor
+ *
+ * Graphs that would not fit a GitHub comment fall back to a truncated view:
+ * top-level tasks only, then the most relevant of them.
+ */
+
+import { DependencyGraphAnalyzer, DependencyNode, DependencyNodeKey } from './issue-parser';
+import { Task, TaskGraph, GITHUB_COMMENT_MAX_LENGTH } from './markdown-formatter';
+
+/**
+ * Options for Mermaid rendering
+ */
+export interface MermaidRenderOptions {
+  /** Levels of the task hierarchy shown; deeper subtasks collapse into their ancestor */
+  maxDisplayDepth?: number;
+  /** Maximum length of the rendered markdown */
+  maxLength?: number;
+  /** Issue numbers by task ID (`"1"`, `"1.2"`), shown in node labels */
+  issueNumbers?: Record<string, number>;
+  /** Flowchart direction */
+  direction?: 'TD' | 'LR';
+}
+
+export interface MermaidRenderResult {
+  /** Mermaid code block with a legend; empty when no task fits */
+  markdown: string;
+  /** Mermaid source of the flowchart, without fences or legend */
+  flowchart: string;
+  /** Tasks drawn as nodes */
+  shownTasks: number;
+  /** Tasks in the graph, subtasks included */
+  totalTasks: number;
+  truncated: boolean;
+}
+
+/**
+ * Task as placed in the flowchart
+ */
+interface FlowTask {
+  taskId: string;
+  task: Task;
+  /** 1 for top-level tasks */
+  depth: number;
+  parentId?: string;
+  /** Task IDs this task depends on */
+  dependencies: string[];
+}
+
+const DEFAULT_RENDER_OPTIONS: Required<Omit<MermaidRenderOptions, 'issueNumbers' | 'maxLength'>> = {
+  maxDisplayDepth: 2,
+  direction: 'TD'
+};
+
+const LABEL_MAX_LENGTH = 40;
+
+const CLASS_DEFINITIONS = [
+  'classDef done fill:#dcffe4,stroke:#28a745',
+  'classDef blocked fill:#ffeef0,stroke:#cb2431',
+  'classDef critical stroke:#d73a49,stroke-width:3px',
+  'classDef cycle fill:#fff5b1,stroke:#b08800,stroke-width:3px'
+];
+
+const LEGEND = '*Arrows point from a task to the tasks depending on it; dotted links lead to subtasks. ' +
+  'Bold red: critical path · red: blocked · green: done · yellow: dependency cycle.*';
+
+/**
+ * Flatten a task graph, with subtask IDs and dependencies prefixed by their parent's
+ */
+function flattenTasks(tasks: Task[], parentId?: string, depth = 1): FlowTask[] {
+  const flowTasks: FlowTask[] = [];
+  for (const task of tasks || []) {
+    const taskId = parentId ? `${parentId}.${task.id}` : String(task.id);
+    flowTasks.push({
+      taskId,
+      task,
+      depth,
+      parentId,
+      dependencies: (task.dependencies || []).map(depId => parentId ? `${parentId}.${depId}` : String(depId))
+    });
+    flowTasks.push(...flattenTasks(task.subtasks || [], taskId, depth + 1));
+  }
+  return flowTasks;
+}
+
+function isDone(task: Task): boolean {
+  return task.status === 'completed' || task.status === 'done';
+}
+
+function nodeId(taskId: string): string {
+  return `t${taskId.replace(/\./g, '_')}`;
+}
+
+/**
+ * Node label, escaped for a quoted Mermaid label
+ */
+function nodeLabel(flowTask: FlowTask, hiddenSubtasks: number, issueNumber?: number): string {
+  const title = flowTask.task.title.length > LABEL_MAX_LENGTH
+    ? `${flowTask.task.title.substring(0, LABEL_MAX_LENGTH - 1)}…`
+    : flowTask.task.title;
+  const escaped = `${flowTask.taskId}: ${title}`
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+  const lines = [escaped];
+  if (issueNumber) lines.push(`#${issueNumber}`);
+  if (hiddenSubtasks > 0) lines.push(`+${hiddenSubtasks} subtask${hiddenSubtasks === 1 ? '' : 's'}`);
+  return lines.join('<br/>');
+}
+
+/**
+ * What the flowchart of the given tasks highlights
+ */
+interface FlowHighlights {
+  /** Dependency graph of the shown tasks */
+  graph: Map<DependencyNodeKey, DependencyNode>;
+  criticalPath: string[];
+  /** Links as `from>to` task ID pairs */
+  criticalEdges: Set<string>;
+  cycleEdges: Set<string>;
+  cycleNodes: Set<string>;
+  blockedNodes: Set<string>;
+}
+
+function analyzeFlowchart(allTasks: FlowTask[], shown: FlowTask[]): FlowHighlights {
+  const shownIds = new Set(shown.map(flowTask => flowTask.taskId));
+  const byId = new Map(allTasks.map(flowTask => [flowTask.taskId, flowTask]));
+
+  const graph = new Map<DependencyNodeKey, DependencyNode>();
+  for (const flowTask of shown) {
+    graph.set(flowTask.taskId, {
+      id: flowTask.taskId,
+      dependencies: flowTask.dependencies.filter(depId => shownIds.has(depId)),
+      dependents: [],
+      status: isDone(flowTask.task) ? 'done' : 'open',
+      priority: flowTask.task.priority || 'medium'
+    });
+  }
+  for (const node of graph.values()) {
+    for (const depId of node.dependencies) {
+      graph.get(depId)!.dependents.push(node.id);
+    }
+  }
+
+  const criticalPath = DependencyGraphAnalyzer.calculateCriticalPath(graph).path.map(String);
+  const criticalEdges = new Set(criticalPath.slice(1).map((taskId, i) => `${criticalPath[i]}>${taskId}`));
+  const cycleEdges = new Set<string>();
+  const cycleNodes = new Set<string>();
+  for (const { cycle } of DependencyGraphAnalyzer.detectCircularDependencies(graph)) {
+    // Each cycle entry depends on the next one
+    for (let i = 0; i < cycle.length - 1; i++) {
+      cycleEdges.add(`${cycle[i + 1]}>${cycle[i]}`);
+      cycleNodes.add(String(cycle[i]));
+    }
+  }
+
+  // Tasks are blocked as flagged, or else while a dependency is not done
+  const blockedNodes = new Set(shown
+    .filter(flowTask => !isDone(flowTask.task) && (flowTask.task.isBlocked ??
+      flowTask.dependencies.some(depId => byId.has(depId) && !isDone(byId.get(depId)!.task))))
+    .map(flowTask => flowTask.taskId));
+
+  return {
+    graph,
+    criticalPath: criticalPath.length > 1 ? criticalPath : [],
+    criticalEdges,
+    cycleEdges,
+    cycleNodes,
+    blockedNodes
+  };
+}
+
+/**
+ * Render the given tasks, with the links among them
+ */
+function renderFlowchart(
+  allTasks: FlowTask[],
+  shown: FlowTask[],
+  options: typeof DEFAULT_RENDER_OPTIONS & MermaidRenderOptions
+): string {
+  const shownIds = new Set(shown.map(flowTask => flowTask.taskId));
+  const { graph, criticalPath, criticalEdges, cycleEdges, cycleNodes, blockedNodes } = analyzeFlowchart(allTasks, shown);
+
+  const hiddenSubtasks = (taskId: string) => allTasks.filter(flowTask =>
+    flowTask.taskId.startsWith(`${taskId}.`) && !shownIds.has(flowTask.taskId)).length;
+
+  const lines = [`flowchart ${options.direction}`];
+  for (const flowTask of shown) {
+    const issueNumber = options.issueNumbers?.[flowTask.taskId];
+    lines.push(`  ${nodeId(flowTask.taskId)}["${nodeLabel(flowTask, hiddenSubtasks(flowTask.taskId), issueNumber)}"]`);
+  }
+
+  // Mermaid styles links by their position
+  const criticalLinks: number[] = [];
+  const cycleLinks: number[] = [];
+  let links = 0;
+  for (const flowTask of shown) {
+    if (flowTask.parentId && shownIds.has(flowTask.parentId)) {
+      lines.push(`  ${nodeId(flowTask.parentId)} -.- ${nodeId(flowTask.taskId)}`);
+      links++;
+    }
+    for (const depId of graph.get(flowTask.taskId)!.dependencies) {
+      const edge = `${depId}>${flowTask.taskId}`;
+      if (cycleEdges.has(edge)) cycleLinks.push(links);
+      else if (criticalEdges.has(edge)) criticalLinks.push(links);
+      lines.push(`  ${nodeId(String(depId))} --> ${nodeId(flowTask.taskId)}`);
+      links++;
+    }
+  }
+
+  lines.push(...CLASS_DEFINITIONS.map(definition => `  ${definition}`));
+  const classes: Array<[string, string[]]> = [
+    ['done', shown.filter(flowTask => isDone(flowTask.task)).map(flowTask => flowTask.taskId)],
+    ['blocked', [...blockedNodes]],
+    ['critical', criticalPath],
+    ['cycle', [...cycleNodes]]
+  ];
+  for (const [className, taskIds] of classes) {
+    if (taskIds.length > 0) lines.push(`  class ${taskIds.map(nodeId).join(',')} ${className}`);
+  }
+  if (criticalLinks.length > 0) lines.push(`  linkStyle ${criticalLinks.join(',')} stroke:#d73a49,stroke-width:3px`);
+  if (cycleLinks.length > 0) lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#b08800,stroke-width:3px`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a task graph as a Mermaid flowchart
+ *
+ * When the flowchart would exceed `maxLength`, subtasks are collapsed into
+ * the top-level tasks, then top-level tasks are dropped, keeping those in
+ * cycles, on the critical path and blocked first, until it fits.
+ */
+export function renderMermaidFlowchart(taskGraph: TaskGraph, options: MermaidRenderOptions = {}): MermaidRenderResult {
+  // The comment limit is read at call time: markdown-formatter imports this module
+  const opts = { ...DEFAULT_RENDER_OPTIONS, maxLength: GITHUB_COMMENT_MAX_LENGTH, ...options };
+  const allTasks = flattenTasks(taskGraph.tasks || []);
+  const result: MermaidRenderResult = { markdown: '', flowchart: '', shownTasks: 0, totalTasks: allTasks.length, truncated: false };
+  if (allTasks.length === 0) return result;
+
+  const render = (shown: FlowTask[], note = ''): boolean => {
+    const flowchart = renderFlowchart(allTasks, shown, opts);
+    const markdown = `\`\`\`mermaid\n${flowchart}\n\`\`\`\n\n${LEGEND}${note ? `\n\n*${note}*` : ''}`;
+    if (markdown.length > opts.maxLength) return false;
+    Object.assign(result, { markdown, flowchart, shownTasks: shown.length, truncated: Boolean(note) });
+    return true;
+  };
+
+  if (render(allTasks.filter(flowTask => flowTask.depth <= opts.maxDisplayDepth))) return result;
+
+  const topLevel = allTasks.filter(flowTask => flowTask.depth === 1);
+  if (opts.maxDisplayDepth > 1 && render(topLevel, 'Dependency graph truncated to fit: subtasks are collapsed.')) {
+    return result;
+  }
+
+  // Keep the top-level tasks in cycles, on the critical path and blocked first
+  const highlights = analyzeFlowchart(allTasks, topLevel);
+  const rank = (flowTask: FlowTask) => {
+    if (highlights.cycleNodes.has(flowTask.taskId)) return 0;
+    if (highlights.criticalPath.includes(flowTask.taskId)) return 1;
+    if (highlights.blockedNodes.has(flowTask.taskId)) return 2;
+    return 3;
+  };
+  const ranked = [...topLevel].sort((a, b) => rank(a) - rank(b));
+
+  for (let count = Math.floor(ranked.length / 2); count > 0; count = Math.floor(count / 2)) {
+    const kept = new Set(ranked.slice(0, count));
+    const note = `Dependency graph truncated to fit: showing ${count} of ${topLevel.length} top-level tasks.`;
+    if (render(topLevel.filter(flowTask => kept.has(flowTask)), note)) return result;
+  }
+
+  result.truncated = true;
+  return result;
+}
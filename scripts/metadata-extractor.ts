@@ -6,7 +6,7 @@
  * for command execution and workflow automation.
  */
 
-import { EnhancedGitHubApi, ApiIssue } from './github-api';
+import { EnhancedGitHubApi, ApiIssue, CollaboratorPermission } from './github-api';
 import { parseIssueBody } from './issue-parser';
 import { Octokit } from '@octokit/rest';
 import { components } from "@octokit/openapi-types";
@@ -144,6 +144,8 @@ export interface UserInfo {
   avatarUrl: string;
   htmlUrl: string;
   siteAdmin: boolean;
+  /** Repository permission, when it was looked up */
+  permission?: CollaboratorPermission;
 }
 
 /**
@@ -380,6 +382,17 @@ export class GitHubMetadataExtractor {
     }
   }
 
+  /**
+   * Extract a user's information together with their repository permission
+   */
+  async extractUserInfo(login: string): Promise<UserInfo> {
+    const user = await this.githubApi.client.users.getByUsername({ username: login });
+    return {
+      ...this.convertToUserInfo(user.data),
+      permission: await this.githubApi.getCollaboratorPermission(login)
+    };
+  }
+
   /**
    * Get issue data from GitHub API
    */
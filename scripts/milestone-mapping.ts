@@ -0,0 +1,316 @@
+/**
+ * Milestone Mapping
+ *
+ * Maps tasks to GitHub milestones declared by the PRD or the task graph:
+ * - PRD sections headed `## Phase ...`, `## Release ...` or `## Milestone ...`
+ * - a `milestones` array in the task graph
+ * - a `milestone` title on individual tasks
+ *
+ * Tasks are assigned by their own `milestone`, then by a milestone's `tasks`
+ * list, then by a milestone's `priorities`; subtasks follow their parent.
+ * Milestones without a due date can have one derived from the critical path
+ * of their tasks (including everything those tasks depend on).
+ */
+
+import { ApiMilestone, EnhancedGitHubApi } from './github-api';
+import { DependencyGraphAnalyzer, DependencyNode } from './issue-parser';
+
+/**
+ * Milestone declared by a PRD or task graph
+ */
+export interface MilestoneDefinition {
+  title: string;
+  description?: string;
+  /** Due date (ISO 8601 date or timestamp) */
+  dueOn?: string;
+  /** IDs of top-level tasks in this milestone */
+  tasks?: number[];
+  /** Task priorities collected by this milestone, e.g. `["critical", "high"]` */
+  priorities?: string[];
+}
+
+/**
+ * Task fields used for milestone mapping
+ */
+export interface MilestoneTask {
+  id: number;
+  priority?: string;
+  milestone?: string;
+  dependencies?: number[];
+  estimate?: number;
+  subtasks?: MilestoneTask[];
+}
+
+/**
+ * Options for planning milestones
+ */
+export interface MilestonePlanOptions {
+  /** Milestones declared by the PRD; task graph declarations with the same title win */
+  declared?: MilestoneDefinition[];
+  /** Days per task (or per estimate point) on the critical path; 0 disables derived due dates */
+  daysPerTask?: number;
+  /** Start of the schedule derived due dates count from (defaults to now) */
+  startDate?: Date;
+}
+
+/**
+ * Milestones to create and the milestone of each task
+ */
+export interface MilestonePlan {
+  /** Milestones by title, with derived due dates filled in */
+  milestones: Map<string, MilestoneDefinition>;
+  /** Milestone title by task ID (`1`, or `1.2` for subtasks) */
+  assignments: Map<string, string>;
+}
+
+const PRD_MILESTONE_HEADING = /^#{2,3}\s+((?:Phase|Release|Milestone)\b.*?)\s*(?:\(due\s+(\d{4}-\d{2}-\d{2})\))?\s*$/i;
+const PRD_MILESTONE_LIST = /^(Tasks|Priorities)\s*:\s*(.+)$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extract milestones from PRD section headings
+ *
+ * ```markdown
+ * ## Phase 1: Foundation (due 2026-12-01)
+ * Priorities: critical, high
+ * Tasks: 1, 2
+ * ```
+ *
+ * The due date, `Priorities:` and `Tasks:` lines are optional.
+ */
+export function extractPrdMilestones(prdContent: string): MilestoneDefinition[] {
+  const milestones: MilestoneDefinition[] = [];
+  let current: MilestoneDefinition | undefined;
+
+  for (const line of prdContent.split('\n')) {
+    const heading = line.match(PRD_MILESTONE_HEADING);
+    if (heading) {
+      current = { title: heading[1].trim() };
+      if (heading[2]) {
+        current.dueOn = heading[2];
+      }
+      milestones.push(current);
+      continue;
+    }
+
+    if (/^#{1,3}\s/.test(line)) {
+      current = undefined;
+      continue;
+    }
+
+    const list = current && line.trim().match(PRD_MILESTONE_LIST);
+    if (current && list) {
+      const values = list[2].split(',').map(v => v.trim()).filter(Boolean);
+      if (list[1].toLowerCase() === 'tasks') {
+        current.tasks = values.map(v => parseInt(v.replace(/^#/, ''), 10)).filter(n => !isNaN(n));
+      } else {
+        current.priorities = values.map(v => v.toLowerCase());
+      }
+    }
+  }
+
+  return milestones;
+}
+
+/**
+ * Merge milestone declarations by title (case-insensitive), later ones winning
+ */
+function mergeMilestones(...sources: Array<MilestoneDefinition[] | undefined>): Map<string, MilestoneDefinition> {
+  const byKey = new Map<string, MilestoneDefinition>();
+  for (const source of sources) {
+    for (const milestone of source || []) {
+      const key = milestone.title.toLowerCase();
+      byKey.set(key, { ...byKey.get(key), ...milestone });
+    }
+  }
+  return byKey;
+}
+
+/**
+ * Plan the milestones of a task graph
+ */
+export function planMilestones(
+  taskGraph: { tasks: MilestoneTask[]; milestones?: MilestoneDefinition[] },
+  options: MilestonePlanOptions = {}
+): MilestonePlan {
+  const byKey = mergeMilestones(options.declared, taskGraph.milestones);
+  const assignments = new Map<string, string>();
+
+  /**
+   * Declared milestone for a title, declaring it on first use
+   */
+  const resolve = (title: string): string => {
+    const key = title.trim().toLowerCase();
+    if (!byKey.has(key)) {
+      byKey.set(key, { title: title.trim() });
+    }
+    return byKey.get(key)!.title;
+  };
+
+  const declared = Array.from(byKey.values());
+  for (const task of taskGraph.tasks) {
+    const priority = task.priority?.toLowerCase();
+    const title = task.milestone
+      ? resolve(task.milestone)
+      : (declared.find(m => m.tasks?.includes(task.id)) ||
+         declared.find(m => priority && m.priorities?.includes(priority)))?.title;
+
+    if (title) {
+      assignments.set(String(task.id), title);
+    }
+
+    for (const sub of task.subtasks || []) {
+      const subTitle = sub.milestone ? resolve(sub.milestone) : title;
+      if (subTitle) {
+        assignments.set(`${task.id}.${sub.id}`, subTitle);
+      }
+    }
+  }
+
+  const milestones = new Map<string, MilestoneDefinition>();
+  for (const milestone of byKey.values()) {
+    milestones.set(milestone.title, milestone);
+  }
+
+  if (options.daysPerTask && options.daysPerTask > 0) {
+    const startDate = options.startDate || new Date();
+    for (const milestone of milestones.values()) {
+      if (milestone.dueOn) continue;
+      const days = milestoneDuration(taskGraph.tasks, assignments, milestone.title, options.daysPerTask);
+      if (days > 0) {
+        milestone.dueOn = formatDueDate(new Date(startDate.getTime() + days * DAY_MS));
+      }
+    }
+  }
+
+  return { milestones, assignments };
+}
+
+/**
+ * Days needed to finish a milestone: the length of the critical path through
+ * its tasks and their transitive dependencies, weighted by task estimates
+ *
+ * Returns 0 when no task is assigned to the milestone.
+ */
+export function milestoneDuration(
+  tasks: MilestoneTask[],
+  assignments: Map<string, string>,
+  title: string,
+  daysPerTask: number
+): number {
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+
+  // A top-level task belongs to the milestone when it or any of its subtasks does
+  const included = new Set<number>();
+  const pending = tasks
+    .filter(task => assignments.get(String(task.id)) === title ||
+      (task.subtasks || []).some(sub => assignments.get(`${task.id}.${sub.id}`) === title))
+    .map(task => task.id);
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (included.has(id) || !taskById.has(id)) continue;
+    included.add(id);
+    pending.push(...(taskById.get(id)!.dependencies || []));
+  }
+
+  if (included.size === 0) {
+    return 0;
+  }
+
+  const graph = new Map<number, DependencyNode>();
+  for (const id of included) {
+    const task = taskById.get(id)!;
+    graph.set(id, {
+      id,
+      dependencies: (task.dependencies || []).filter(dep => included.has(dep)),
+      dependents: [],
+      status: 'pending',
+      priority: task.priority || 'medium'
+    });
+  }
+  for (const node of graph.values()) {
+    for (const dep of node.dependencies) {
+      graph.get(dep as number)!.dependents.push(node.id);
+    }
+  }
+
+  const weight = (id: number): number => taskById.get(id)?.estimate ?? 1;
+  const criticalPath = DependencyGraphAnalyzer.calculateCriticalPath(graph);
+  const pathWeight = criticalPath.path.reduce((sum: number, id) => sum + weight(id as number), 0);
+
+  // A graph without dependencies has an empty critical path; its longest task still counts
+  const longestTask = Math.max(...Array.from(included).map(weight));
+
+  return Math.ceil(Math.max(pathWeight, longestTask) * daysPerTask);
+}
+
+/**
+ * Format a date as the midnight UTC timestamp GitHub stores milestone due dates as
+ */
+function formatDueDate(date: Date): string {
+  return `${date.toISOString().slice(0, 10)}T00:00:00Z`;
+}
+
+/**
+ * Normalize a due date for comparison (`YYYY-MM-DD`), or null when unset
+ */
+function dueDateKey(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Creates or reuses milestones by title, per repository
+ */
+export class MilestoneManager {
+  private milestonesByRepository: Map<string, Promise<ApiMilestone[]>> = new Map();
+
+  /**
+   * Number of the milestone with the definition's title, creating it when missing
+   *
+   * Existing milestones are reused; their due date and description are
+   * updated when the definition sets different ones.
+   */
+  async ensureMilestone(githubApi: EnhancedGitHubApi, definition: MilestoneDefinition): Promise<number> {
+    const milestones = await this.getMilestones(githubApi);
+    const existing = milestones.find(m => m.title.toLowerCase() === definition.title.toLowerCase());
+    const dueOn = definition.dueOn ? new Date(definition.dueOn).toISOString() : undefined;
+
+    if (!existing) {
+      const created = await githubApi.createMilestone({
+        title: definition.title,
+        description: definition.description,
+        due_on: dueOn
+      });
+      milestones.push(created);
+      return created.number;
+    }
+
+    const dueOnChanged = dueOn !== undefined && dueDateKey(dueOn) !== dueDateKey(existing.due_on);
+    const descriptionChanged = definition.description !== undefined && definition.description !== (existing.description || '');
+    if (dueOnChanged || descriptionChanged) {
+      const updated = await githubApi.updateMilestone(existing.number, {
+        ...(dueOnChanged ? { due_on: dueOn } : {}),
+        ...(descriptionChanged ? { description: definition.description } : {})
+      });
+      milestones.splice(milestones.indexOf(existing), 1, updated);
+    }
+
+    return existing.number;
+  }
+
+  /**
+   * Milestones of a client's repository, listed once per run
+   */
+  private getMilestones(githubApi: EnhancedGitHubApi): Promise<ApiMilestone[]> {
+    const key = githubApi.getRepository().toLowerCase();
+    if (!this.milestonesByRepository.has(key)) {
+      this.milestonesByRepository.set(key, githubApi.listMilestones());
+    }
+    return this.milestonesByRepository.get(key)!;
+  }
+}
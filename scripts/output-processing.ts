@@ -31,6 +31,8 @@ export interface OutputProcessingOptions {
   convertFormat?: boolean;
   /** Whether to allow empty output */
   allowEmpty?: boolean;
+  /** Whether the output must be a valid task graph */
+  taskGraph?: boolean;
 }
 
 /**
@@ -91,7 +93,8 @@ export function processCliOutput(
       autoDetect: targetFormat === 'auto',
       sanitize: shouldSanitize,
       maxSize: maxSize,
-      allowEmpty: allowEmpty
+      allowEmpty: allowEmpty,
+      taskGraph: options.taskGraph
     });
 
     // If validation failed, return early
@@ -11,6 +11,8 @@
  * - Task graph schema validation and data extraction
  */
 
+import { validateTaskGraphStrict, type TaskGraphIssue } from './task-graph-validation';
+
 /**
  * Supported output formats
  */
@@ -29,6 +31,12 @@ export interface Task {
   dependencies?: number[];
   status?: string;
   subtasks?: Task[];
+  /** Target repository (`owner/repo`); subtasks inherit their parent's */
+  repository?: string;
+  /** Effort estimate, copied to the project board's Estimate field */
+  estimate?: number;
+  /** Title of the milestone the task's issue is assigned to */
+  milestone?: string;
   // Added by processing logic
   requiredBy?: Task[];
 }
@@ -39,6 +47,14 @@ export interface Task {
 export interface TaskGraph {
   /** Array of root tasks */
   tasks: Task[];
+  /** Milestones (phases or releases) tasks are assigned to */
+  milestones?: Array<{
+    title: string;
+    description?: string;
+    dueOn?: string;
+    tasks?: number[];
+    priorities?: string[];
+  }>;
   /** Metadata about the task generation */
   metadata: {
     version?: string;
@@ -89,6 +105,10 @@ export interface OutputValidationResult {
   errors: string[];
   /** Sanitized output (if applicable) */
   sanitized?: string;
+  /** Task graph errors and warnings (when validating a task graph) */
+  issues?: TaskGraphIssue[];
+  /** Task graph warnings, formatted like errors */
+  warnings?: string[];
 }
 
 /**
@@ -105,6 +125,8 @@ export interface OutputValidationOptions {
   maxSize?: number;
   /** Whether to allow empty output */
   allowEmpty?: boolean;
+  /** Whether the output must be a valid task graph (schema and dependencies) */
+  taskGraph?: boolean;
 }
 
 /**
@@ -192,80 +214,15 @@ export function parseJsonOutput(output: string): { data?: any; errors: string[]
 
 /**
  * Validate task graph schema
+ *
+ * Checks the data against `TASK_GRAPH_SCHEMA` and the dependency rules of
+ * `validateTaskGraphStrict`; errors are prefixed with the JSON pointer of the
+ * offending value and end with their code, e.g.
+ * `/tasks/0/subtasks/1/title: must not be empty [invalid-value]`.
  */
 export function validateTaskGraphSchema(data: any): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  if (!data || typeof data !== 'object') {
-    errors.push('Task graph must be a valid object');
-    return { valid: false, errors };
-  }
-
-  // Check for required top-level properties
-  if (!Array.isArray(data.tasks)) {
-    errors.push('Task graph must have a "tasks" array');
-  }
-
-  if (!data.metadata || typeof data.metadata !== 'object') {
-    errors.push('Task graph must have a "metadata" object');
-  }
-
-  // Validate tasks array
-  if (Array.isArray(data.tasks)) {
-    data.tasks.forEach((task: any, index: number) => {
-      const taskErrors = validateTaskSchema(task, `tasks[${index}]`);
-      errors.push(...taskErrors);
-    });
-  }
-
-  return { valid: errors.length === 0, errors };
-}
-
-/**
- * Validate individual task schema
- */
-function validateTaskSchema(task: any, path: string): string[] {
-  const errors: string[] = [];
-
-  if (!task || typeof task !== 'object') {
-    errors.push(`${path}: Task must be an object`);
-    return errors;
-  }
-
-  // Required fields
-  if (typeof task.id !== 'number') {
-    errors.push(`${path}: Task must have a numeric "id"`);
-  }
-
-  if (!task.title || typeof task.title !== 'string') {
-    errors.push(`${path}: Task must have a string "title"`);
-  }
-
-  if (!task.description || typeof task.description !== 'string') {
-    errors.push(`${path}: Task must have a string "description"`);
-  }
-
-  // Optional fields validation
-  if (task.dependencies && !Array.isArray(task.dependencies)) {
-    errors.push(`${path}: dependencies must be an array`);
-  } else if (Array.isArray(task.dependencies)) {
-    task.dependencies.forEach((dep: any, i: number) => {
-      if (typeof dep !== 'number') {
-        errors.push(`${path}: dependencies[${i}] must be a number`);
-      }
-    });
-  }
-
-  if (task.subtasks && !Array.isArray(task.subtasks)) {
-    errors.push(`${path}: subtasks must be an array`);
-  } else if (Array.isArray(task.subtasks)) {
-    task.subtasks.forEach((subtask: any, i: number) => {
-      const subtaskErrors = validateTaskSchema(subtask, `${path}.subtasks[${i}]`);
-      errors.push(...subtaskErrors);
-    });
-  }
-
-  return errors;
+  const { valid, errors } = validateTaskGraphStrict(data);
+  return { valid, errors };
 }
 
 /**
@@ -662,10 +619,28 @@ export function validateOutput(
   if (parseResult.errors.length > 0) {
     result.valid = false;
     result.errors.push(...parseResult.errors);
-  } else {
-    result.data = parseResult.data;
+    return result;
+  }
+
+  // Reject task graphs with errors before anything is built from them
+  if (options.taskGraph) {
+    if (targetFormat !== 'json') {
+      result.valid = false;
+      result.errors.push(`Task graph must be JSON, not ${targetFormat}`);
+      return result;
+    }
+
+    const taskGraphResult = validateTaskGraphStrict(parseResult.data);
+    result.issues = taskGraphResult.issues;
+    result.warnings = taskGraphResult.warnings;
+    if (!taskGraphResult.valid) {
+      result.valid = false;
+      result.errors.push(...taskGraphResult.errors);
+      return result;
+    }
   }
 
+  result.data = parseResult.data;
   return result;
 }
 
@@ -26,6 +26,8 @@ export interface ParentIssueState {
   lastUpdated: Date;
   /** Breakdown execution metadata */
   breakdownMetadata?: BreakdownMetadata;
+  /** Reason the last breakdown failed, if any */
+  failureReason?: string;
 }
 
 export interface BreakdownMetadata {
@@ -37,6 +39,16 @@ export interface BreakdownMetadata {
   complexityThreshold?: number;
   /** Breakdown command arguments */
   commandArgs?: Record<string, any>;
+  /** Level in a recursive breakdown; 1 for the issue the command was posted on */
+  level?: number;
+}
+
+export interface ParentIssueStateOptions {
+  /**
+   * Close parents once all their sub-issues are closed and reopen them
+   * when one is reopened
+   */
+  autoCloseParents?: boolean;
 }
 
 export enum BreakdownStatus {
@@ -52,14 +64,111 @@ export enum BreakdownStatus {
   BREAKDOWN_FAILED = 'breakdown-failed'
 }
 
+/**
+ * Remove a `## <heading>` section, up to the next level-two heading
+ */
+function removeBodySection(body: string, heading: string): string {
+  const start = body.indexOf(`## ${heading}`);
+  if (start === -1) {
+    return body;
+  }
+
+  const next = body.indexOf('\n## ', start + heading.length + 3);
+  const before = body.slice(0, start).trimEnd();
+  const after = next === -1 ? '' : body.slice(next + 1);
+  return before && after ? `${before}\n\n${after}` : (before || after);
+}
+
+/**
+ * Replace a `## <heading>` section, up to the next level-two heading
+ */
+function replaceBodySection(body: string, heading: string, section: string): string {
+  const start = body.indexOf(`## ${heading}`);
+  if (start === -1) {
+    return body;
+  }
+
+  const next = body.indexOf('\n## ', start + heading.length + 3);
+  return next === -1
+    ? `${body.slice(0, start)}${section}`
+    : `${body.slice(0, start)}${section}\n${body.slice(next)}`;
+}
+
+/**
+ * Text progress bar, e.g. `▓▓▓▓▓░░░░░` for half done
+ */
+export function formatProgressBar(completed: number, total: number, width = 10): string {
+  const filled = total > 0 ? Math.round((completed / total) * width) : 0;
+  return `\`${'▓'.repeat(filled)}${'░'.repeat(width - filled)}\``;
+}
+
+/**
+ * Parent issue body without the `## Breakdown Status` and
+ * `## Breakdown Summary` sections written by breakdowns
+ */
+export function stripBreakdownSections(body: string): string {
+  return removeBodySection(removeBodySection(body, 'Breakdown Status'), 'Breakdown Summary');
+}
+
+/**
+ * Apply `update` to each sub-issue checklist entry (`- [x] #12 Title`) of a
+ * `## Breakdown Summary` section, returning the updated body
+ */
+function mapBreakdownChecklist(
+  body: string,
+  update: (line: string, issueNumber: number, checked: boolean) => string
+): string {
+  let inSummary = false;
+  return body.split('\n').map(line => {
+    if (/^## /.test(line)) {
+      inSummary = /^## Breakdown Summary\s*$/.test(line);
+      return line;
+    }
+
+    const match = inSummary && line.match(/^\s*- \[([x ])\]\s*#(\d+)/);
+    return match ? update(line, parseInt(match[2], 10), match[1] === 'x') : line;
+  }).join('\n');
+}
+
+/**
+ * Sub-issue checklist entries of a `## Breakdown Summary` section
+ */
+export function parseBreakdownChecklist(body: string): Array<{ issueNumber: number; checked: boolean }> {
+  const entries: Array<{ issueNumber: number; checked: boolean }> = [];
+  mapBreakdownChecklist(body, (line, issueNumber, checked) => {
+    entries.push({ issueNumber, checked });
+    return line;
+  });
+  return entries;
+}
+
+/**
+ * Tick or untick `## Breakdown Summary` checklist entries to match their sub-issues
+ *
+ * `closedSubIssues` maps sub-issue numbers to whether they are closed;
+ * entries for sub-issues missing from it are left alone.
+ */
+export function syncBreakdownChecklist(body: string, closedSubIssues: Map<number, boolean>): string {
+  return mapBreakdownChecklist(body, (line, issueNumber, checked) => {
+    const closed = closedSubIssues.get(issueNumber);
+    return closed === undefined || closed === checked ? line : line.replace(/\[[x ]\]/, closed ? '[x]' : '[ ]');
+  });
+}
+
 export class ParentIssueStateManager {
   private githubApi: EnhancedGitHubApi;
   private idempotencyManager?: IdempotencyManager;
+  private options: ParentIssueStateOptions;
   private stateCache: Map<number, ParentIssueState> = new Map();
 
-  constructor(githubApi: EnhancedGitHubApi, idempotencyManager?: IdempotencyManager) {
+  constructor(
+    githubApi: EnhancedGitHubApi,
+    idempotencyManager?: IdempotencyManager,
+    options: ParentIssueStateOptions = {}
+  ) {
     this.githubApi = githubApi;
     this.idempotencyManager = idempotencyManager;
+    this.options = options;
   }
 
   /**
@@ -136,6 +245,40 @@ export class ParentIssueStateManager {
     }
   }
 
+  /**
+   * Mark breakdown as failed and surface the reason on the parent issue
+   */
+  async failBreakdown(
+    parentIssueNumber: number,
+    reason: string
+  ): Promise<void> {
+    const state: ParentIssueState = this.stateCache.get(parentIssueNumber) || {
+      issueNumber: parentIssueNumber,
+      breakdownStatus: BreakdownStatus.BREAKDOWN_FAILED,
+      subIssueNumbers: [],
+      completedSubIssues: 0,
+      totalSubIssues: 0,
+      lastUpdated: new Date()
+    };
+
+    state.breakdownStatus = BreakdownStatus.BREAKDOWN_FAILED;
+    state.failureReason = reason;
+    state.lastUpdated = new Date();
+
+    this.stateCache.set(parentIssueNumber, state);
+
+    await this.updateIssueLabels(parentIssueNumber, state);
+    await this.updateIssueBody(parentIssueNumber, state);
+
+    if (this.idempotencyManager) {
+      this.idempotencyManager.recordIssueUpdate(
+        parentIssueNumber,
+        undefined,
+        this.generateLabelsForState(state)
+      );
+    }
+  }
+
   /**
    * Update parent issue state when sub-issue states change
    */
@@ -153,6 +296,11 @@ export class ParentIssueStateManager {
 
   /**
    * Refresh parent issue state by checking current sub-issue states
+   *
+   * The `## Breakdown Summary` checkboxes and the `## Breakdown Status`
+   * progress follow the sub-issues. With `autoCloseParents`, a parent is
+   * closed with a summary comment when its last sub-issue closes and
+   * reopened when one of them reopens; grandparents are refreshed in turn.
    */
   async refreshParentState(parentIssueNumber: number): Promise<void> {
     let state = this.stateCache.get(parentIssueNumber);
@@ -165,7 +313,8 @@ export class ParentIssueStateManager {
     }
 
     const prevCompletedCount = state.completedSubIssues;
-    const currentCompletedCount = await this.countCompletedSubIssues(state.subIssueNumbers);
+    const subIssues = await this.loadSubIssues(state.subIssueNumbers);
+    const currentCompletedCount = [...subIssues.values()].filter(subIssue => subIssue.state === 'closed').length;
     
     state.completedSubIssues = currentCompletedCount;
     state.lastUpdated = new Date();
@@ -193,6 +342,16 @@ export class ParentIssueStateManager {
         );
       }
     }
+
+    await this.syncProgress(parentIssueNumber, state, subIssues);
+
+    if (this.options.autoCloseParents && prevStatus !== state.breakdownStatus) {
+      if (state.breakdownStatus === BreakdownStatus.ALL_SUBTASKS_COMPLETED) {
+        await this.setParentIssueState(parentIssueNumber, 'closed', subIssues);
+      } else if (prevStatus === BreakdownStatus.ALL_SUBTASKS_COMPLETED) {
+        await this.setParentIssueState(parentIssueNumber, 'open', subIssues);
+      }
+    }
   }
 
   /**
@@ -248,6 +407,60 @@ export class ParentIssueStateManager {
     };
   }
 
+  /**
+   * Reset a parent issue to not broken down after its breakdown was undone
+   *
+   * Breakdown labels are removed and the `## Breakdown Status` and
+   * `## Breakdown Summary` sections are stripped from the body.
+   */
+  async resetBreakdown(parentIssueNumber: number): Promise<void> {
+    const state: ParentIssueState = {
+      issueNumber: parentIssueNumber,
+      breakdownStatus: BreakdownStatus.NOT_BROKEN_DOWN,
+      subIssueNumbers: [],
+      completedSubIssues: 0,
+      totalSubIssues: 0,
+      lastUpdated: new Date()
+    };
+
+    this.stateCache.set(parentIssueNumber, state);
+
+    await this.updateIssueLabels(parentIssueNumber, state);
+
+    try {
+      const issue = await this.githubApi.getIssue(parentIssueNumber);
+      const body = issue.body || '';
+      const strippedBody = stripBreakdownSections(body);
+      if (strippedBody !== body) {
+        await this.githubApi.updateIssue(parentIssueNumber, { body: strippedBody });
+      }
+    } catch (error) {
+      console.warn(`Could not update body for parent issue #${parentIssueNumber}: ${error}`);
+    }
+
+    if (this.idempotencyManager) {
+      this.idempotencyManager.recordIssueUpdate(parentIssueNumber, undefined, []);
+    }
+  }
+
+  /**
+   * State of a parent issue, loaded from its labels and body when not cached
+   *
+   * Returns null for issues that were never broken down.
+   */
+  async loadState(parentIssueNumber: number): Promise<ParentIssueState | null> {
+    const cached = this.stateCache.get(parentIssueNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const loaded = await this.loadStateFromIssue(parentIssueNumber);
+    if (loaded) {
+      this.stateCache.set(parentIssueNumber, loaded);
+    }
+    return loaded;
+  }
+
   /**
    * Get current state for a parent issue
    */
@@ -269,28 +482,97 @@ export class ParentIssueStateManager {
   // Private helper methods
 
   private async countCompletedSubIssues(subIssueNumbers: number[]): Promise<number> {
-    let completedCount = 0;
+    const subIssues = await this.loadSubIssues(subIssueNumbers);
+    return [...subIssues.values()].filter(subIssue => subIssue.state === 'closed').length;
+  }
+
+  private async loadSubIssues(subIssueNumbers: number[]): Promise<Map<number, ApiIssue>> {
+    const subIssues = new Map<number, ApiIssue>();
     
     for (const subIssueNumber of subIssueNumbers) {
       try {
-        const subIssue = await this.githubApi.getIssue(subIssueNumber);
-        if (subIssue.state === 'closed') {
-          completedCount++;
-        }
+        subIssues.set(subIssueNumber, await this.githubApi.getIssue(subIssueNumber));
       } catch (error) {
         // If sub-issue can't be accessed, don't count it
         console.warn(`Could not access sub-issue #${subIssueNumber}: ${error}`);
       }
     }
     
-    return completedCount;
+    return subIssues;
   }
 
   private async findParentIssues(subIssueNumber: number): Promise<ApiIssue[]> {
-    // This is a simplified implementation
-    // In a full implementation, you would search for issues that have this sub-issue
-    // or use the sub-issues API to find parent relationships
-    return [];
+    try {
+      const parentIssue = await this.githubApi.getParentIssue(subIssueNumber);
+      return parentIssue ? [parentIssue] : [];
+    } catch (error) {
+      console.warn(`Could not find parent of issue #${subIssueNumber}: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Tick `## Breakdown Summary` checkboxes of closed sub-issues and refresh
+   * the `## Breakdown Status` progress, writing the body only when it changed
+   */
+  private async syncProgress(
+    parentIssueNumber: number,
+    state: ParentIssueState,
+    subIssues: Map<number, ApiIssue>
+  ): Promise<void> {
+    try {
+      const issue = await this.githubApi.getIssue(parentIssueNumber);
+      const currentBody = issue.body || '';
+      const closedSubIssues = new Map([...subIssues].map(([number, subIssue]) => [number, subIssue.state === 'closed']));
+      const body = replaceBodySection(
+        syncBreakdownChecklist(currentBody, closedSubIssues),
+        'Breakdown Status',
+        this.generateStatusSection(state)
+      );
+      
+      // The timestamp alone is no reason to write the body
+      const withoutTimestamp = (text: string) => text.replace(/\*\*Last Updated:\*\* \S+/, '');
+      if (withoutTimestamp(body) !== withoutTimestamp(currentBody)) {
+        await this.githubApi.updateIssue(parentIssueNumber, { body });
+      }
+    } catch (error) {
+      console.warn(`Could not update progress for parent issue #${parentIssueNumber}: ${error}`);
+    }
+  }
+
+  /**
+   * Close a parent whose sub-issues are all closed, or reopen it, explaining
+   * why in a comment, then refresh its own parent
+   */
+  private async setParentIssueState(
+    parentIssueNumber: number,
+    newState: 'open' | 'closed',
+    subIssues: Map<number, ApiIssue>
+  ): Promise<void> {
+    try {
+      const issue = await this.githubApi.getIssue(parentIssueNumber);
+      if (issue.state === newState) return;
+      
+      const list = [...subIssues.values()]
+        .map(subIssue => `- [${subIssue.state === 'closed' ? 'x' : ' '}] #${subIssue.number} ${subIssue.title}`)
+        .join('\n');
+      const comment = newState === 'closed'
+        ? `## ✅ All Subtasks Completed\n\nAll ${subIssues.size} sub-issues are closed, so this issue was closed automatically:\n\n${list}`
+        : `## 🔄 Subtasks Reopened\n\nThis issue was reopened automatically because not all of its sub-issues are closed any more:\n\n${list}`;
+      
+      await this.githubApi.createComment(parentIssueNumber, comment);
+      await this.githubApi.updateIssue(parentIssueNumber, {
+        state: newState,
+        state_reason: newState === 'closed' ? 'completed' : 'reopened'
+      });
+      console.log(`${newState === 'closed' ? 'Closed' : 'Reopened'} parent issue #${parentIssueNumber}`);
+      
+      // Events caused by the workflow token don't trigger workflows, so
+      // grandparents are refreshed here
+      await this.updateFromSubIssueChange(parentIssueNumber, newState);
+    } catch (error) {
+      console.warn(`Could not ${newState === 'closed' ? 'close' : 'reopen'} parent issue #${parentIssueNumber}: ${error}`);
+    }
   }
 
   private async loadStateFromIssue(parentIssueNumber: number): Promise<ParentIssueState | null> {
@@ -397,10 +679,7 @@ export class ParentIssueStateManager {
       
       // Add or update status section
       if (body.includes('## Breakdown Status')) {
-        body = body.replace(
-          /## Breakdown Status[\s\S]*?(?=\n##|\n\*|$)/,
-          statusSection
-        );
+        body = replaceBodySection(body, 'Breakdown Status', statusSection);
       } else {
         // Insert before breakdown summary if it exists, otherwise append
         if (body.includes('## Breakdown Summary')) {
@@ -480,7 +759,9 @@ export class ParentIssueStateManager {
 ${statusEmoji} **${statusText}**
 
 **Progress:** ${state.completedSubIssues}/${state.totalSubIssues} subtasks completed (${completionPercentage}%)  
-**Last Updated:** ${state.lastUpdated.toISOString()}`;
+${formatProgressBar(state.completedSubIssues, state.totalSubIssues)}  
+**Last Updated:** ${state.lastUpdated.toISOString()}${state.breakdownStatus === BreakdownStatus.BREAKDOWN_FAILED && state.failureReason ? `  
+**Error:** ${state.failureReason}` : ''}`;
   }
 
   private isBreakdownLabel(label: string): boolean {
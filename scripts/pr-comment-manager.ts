@@ -8,7 +8,13 @@
 import * as core from '@actions/core';
 import { Octokit } from '@octokit/rest';
 import { components } from "@octokit/openapi-types";
-import { formatTaskGraphMarkdown, formatCompactTaskGraphSummary, TaskGraph, MarkdownFormatterOptions } from './markdown-formatter';
+import {
+  formatTaskGraphMarkdownParts,
+  formatCompactTaskGraphSummary,
+  TaskGraph,
+  MarkdownFormatterOptions,
+  GITHUB_COMMENT_MAX_LENGTH
+} from './markdown-formatter';
 
 // GitHub API types
 type ApiComment = components["schemas"]["issue-comment"];
@@ -27,13 +33,54 @@ export interface PrCommentConfig {
   prNumber: number;
   /** Debug logging */
   debug?: boolean;
+  /** Distinguishes previews when several are kept on one PR (e.g. one per PRD) */
+  previewKey?: string;
+}
+
+/**
+ * Outcome of posting a preview, which may span several comments
+ */
+export interface PreviewCommentResult {
+  /** First comment of the preview */
+  commentId: number;
+  /** Whether the first comment was created rather than updated */
+  isNew: boolean;
+  /** Every comment of the preview, in part order */
+  commentIds: number[];
 }
 
 /**
  * Unique identifier to mark our preview comments
  */
 const PREVIEW_COMMENT_MARKER = '<!-- taskmaster-preview-comment -->';
-const PREVIEW_COMMENT_FOOTER = `\n\n---\n*🤖 This preview was automatically generated by Taskmaster. It will be updated when the task graph changes.*\n${PREVIEW_COMMENT_MARKER}`;
+const PREVIEW_COMMENT_FOOTER = `\n\n---\n*🤖 This preview was automatically generated by Taskmaster. It will be updated when the task graph changes.*\n`;
+
+/**
+ * Tags the part number of a preview split across several comments
+ */
+function previewPartTag(part: number): string {
+  return `<!-- taskmaster-preview-part:${part} -->`;
+}
+
+/**
+ * Part number of a preview comment; comments without a tag are part 1
+ */
+function previewPartOf(body: string): number {
+  const match = body.match(/<!-- taskmaster-preview-part:(\d+) -->/);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+const COMPACT_DETAILS_OPEN = '<details>\n<summary>📋 Click to see full task breakdown</summary>\n\n';
+const COMPACT_DETAILS_CLOSE = '\n</details>';
+
+/**
+ * Preview content with a diff section below its title, when there is one
+ */
+function withDiffSection(content: string, diffSection?: string): string {
+  if (!diffSection) return content;
+  const titleEnd = content.startsWith('# ') ? content.indexOf('\n') + 1 : 0;
+  return `${content.slice(0, titleEnd)}${titleEnd > 0 ? '\n' : ''}${diffSection}\n\n${content.slice(titleEnd).replace(/^\n+/, '')}`;
+}
 
 /**
  * Pull Request Comment Manager
@@ -41,9 +88,13 @@ const PREVIEW_COMMENT_FOOTER = `\n\n---\n*🤖 This preview was automatically ge
 export class PrCommentManager {
   private octokit: Octokit;
   private config: PrCommentConfig;
+  private marker: string;
 
   constructor(config: PrCommentConfig) {
     this.config = config;
+    this.marker = config.previewKey
+      ? `<!-- taskmaster-preview-comment:${config.previewKey} -->`
+      : PREVIEW_COMMENT_MARKER;
     this.octokit = new Octokit({
       auth: config.token,
       log: config.debug ? {
@@ -56,44 +107,98 @@ export class PrCommentManager {
   }
 
   /**
-   * Find existing preview comment on the PR
+   * List every comment on the PR, following pagination
    */
-  private async findExistingPreviewComment(): Promise<ApiComment | null> {
-    try {
-      const { data: comments } = await this.octokit.rest.issues.listComments({
+  private async listAllComments(): Promise<ApiComment[]> {
+    const comments: ApiComment[] = [];
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.rest.issues.listComments({
         owner: this.config.owner,
         repo: this.config.repo,
         issue_number: this.config.prNumber,
-        per_page: 100 // Get more comments to ensure we find our marker
+        per_page: 100,
+        page
       });
+      comments.push(...data);
+      if (data.length < 100) break;
+    }
+    return comments;
+  }
 
-      // Find comment with our marker
-      const existingComment = comments.find(comment => 
-        comment.body && comment.body.includes(PREVIEW_COMMENT_MARKER)
-      );
+  /**
+   * Find the existing preview comments on the PR, in part order
+   */
+  private async findExistingPreviewComments(): Promise<ApiComment[]> {
+    try {
+      const comments = await this.listAllComments();
 
-      if (existingComment) {
-        core.info(`Found existing preview comment #${existingComment.id}`);
-        return existingComment;
+      // Find comments with our marker
+      const existingComments = comments
+        .filter(comment => comment.body && comment.body.includes(this.marker))
+        .sort((a, b) => previewPartOf(a.body!) - previewPartOf(b.body!) || a.id - b.id);
+
+      if (existingComments.length > 0) {
+        core.info(`Found existing preview comment(s) ${existingComments.map(comment => `#${comment.id}`).join(', ')}`);
       }
 
-      return null;
+      return existingComments;
     } catch (error) {
       core.warning(`Failed to fetch PR comments: ${error instanceof Error ? error.message : String(error)}`);
-      return null;
+      return [];
+    }
+  }
+
+  /**
+   * Room left for content in each preview comment
+   */
+  private commentBudget(): number {
+    return GITHUB_COMMENT_MAX_LENGTH - PREVIEW_COMMENT_FOOTER.length - previewPartTag(999).length - this.marker.length;
+  }
+
+  /**
+   * Post the parts of a preview, reusing the existing preview comments in
+   * part order and deleting those no longer needed
+   */
+  private async postPreviewParts(parts: string[]): Promise<PreviewCommentResult> {
+    const existingComments = await this.findExistingPreviewComments();
+    const commentIds: number[] = [];
+    let isNew = false;
+
+    for (let i = 0; i < parts.length; i++) {
+      const existingComment = existingComments[i];
+      if (existingComment) {
+        // Update existing comment
+        const updatedComment = await this.updatePreviewComment(existingComment.id, parts[i], i + 1);
+        commentIds.push(updatedComment.id);
+      } else {
+        // Create new comment
+        const newComment = await this.createPreviewComment(parts[i], i + 1);
+        commentIds.push(newComment.id);
+        isNew = isNew || i === 0;
+      }
     }
+
+    // Prune parts left over from a longer preview
+    for (const staleComment of existingComments.slice(parts.length)) {
+      await this.deletePreviewComment(staleComment.id);
+    }
+
+    if (parts.length > 1) {
+      core.info(`Preview split across ${parts.length} comments`);
+    }
+    return { commentId: commentIds[0], isNew, commentIds };
   }
 
   /**
    * Create a new preview comment
    */
-  private async createPreviewComment(body: string): Promise<ApiComment> {
+  private async createPreviewComment(body: string, part = 1): Promise<ApiComment> {
     try {
       const { data: comment } = await this.octokit.rest.issues.createComment({
         owner: this.config.owner,
         repo: this.config.repo,
         issue_number: this.config.prNumber,
-        body: body + PREVIEW_COMMENT_FOOTER
+        body: body + PREVIEW_COMMENT_FOOTER + previewPartTag(part) + this.marker
       });
 
       core.info(`Created new preview comment #${comment.id} on PR #${this.config.prNumber}`);
@@ -108,13 +213,13 @@ export class PrCommentManager {
   /**
    * Update existing preview comment
    */
-  private async updatePreviewComment(commentId: number, body: string): Promise<ApiComment> {
+  private async updatePreviewComment(commentId: number, body: string, part = 1): Promise<ApiComment> {
     try {
       const { data: comment } = await this.octokit.rest.issues.updateComment({
         owner: this.config.owner,
         repo: this.config.repo,
         comment_id: commentId,
-        body: body + PREVIEW_COMMENT_FOOTER
+        body: body + PREVIEW_COMMENT_FOOTER + previewPartTag(part) + this.marker
       });
 
       core.info(`Updated existing preview comment #${commentId} on PR #${this.config.prNumber}`);
@@ -145,29 +250,27 @@ export class PrCommentManager {
 
   /**
    * Post or update task graph preview comment on PR
+   *
+   * `diffSection`, e.g. from `formatTaskGraphDiff`, is shown below the title.
+   * Previews too long for one comment are trimmed and then split across
+   * several comments, see `formatTaskGraphMarkdownParts`.
    */
   async postTaskGraphPreview(
     taskGraph: TaskGraph, 
-    options: Partial<MarkdownFormatterOptions> = {}
-  ): Promise<{ commentId: number; isNew: boolean }> {
+    options: Partial<MarkdownFormatterOptions> = {},
+    diffSection?: string
+  ): Promise<PreviewCommentResult> {
     core.info(`Posting task graph preview to PR #${this.config.prNumber}`);
 
     try {
       // Generate markdown content
-      const markdownContent = formatTaskGraphMarkdown(taskGraph, options);
-      
-      // Check if we have an existing comment to replace
-      const existingComment = await this.findExistingPreviewComment();
-      
-      if (existingComment) {
-        // Update existing comment
-        const updatedComment = await this.updatePreviewComment(existingComment.id, markdownContent);
-        return { commentId: updatedComment.id, isNew: false };
-      } else {
-        // Create new comment
-        const newComment = await this.createPreviewComment(markdownContent);
-        return { commentId: newComment.id, isNew: true };
-      }
+      const parts = formatTaskGraphMarkdownParts(taskGraph, options, {
+        maxLength: this.commentBudget(),
+        reservedLength: diffSection ? diffSection.length + 2 : 0
+      });
+      parts[0] = withDiffSection(parts[0], diffSection);
+
+      return await this.postPreviewParts(parts);
     } catch (error) {
       const errorMessage = `Failed to post task graph preview: ${error instanceof Error ? error.message : String(error)}`;
       core.setFailed(errorMessage);
@@ -177,28 +280,29 @@ export class PrCommentManager {
 
   /**
    * Post a compact summary comment (for smaller PRs or as fallback)
+   *
+   * `options` apply to the full task breakdown, which always uses
+   * collapsible sections and is split across comments like previews.
    */
-  async postCompactSummary(taskGraph: TaskGraph): Promise<{ commentId: number; isNew: boolean }> {
+  async postCompactSummary(
+    taskGraph: TaskGraph,
+    diffSection?: string,
+    options: Partial<MarkdownFormatterOptions> = {}
+  ): Promise<PreviewCommentResult> {
     core.info(`Posting compact task graph summary to PR #${this.config.prNumber}`);
 
     try {
       const summary = formatCompactTaskGraphSummary(taskGraph);
-      const content = `## 🚀 Task Graph Preview\n\n${summary}\n\n` +
-                     `<details>\n<summary>📋 Click to see full task breakdown</summary>\n\n` +
-                     `${formatTaskGraphMarkdown(taskGraph, { useCollapsibleSections: true })}\n</details>`;
+      const head = `## 🚀 Task Graph Preview\n\n${summary}\n\n` +
+                   (diffSection ? `${diffSection}\n\n` : '');
+      const breakdownParts = formatTaskGraphMarkdownParts(taskGraph, { ...options, useCollapsibleSections: true }, {
+        maxLength: this.commentBudget() - COMPACT_DETAILS_OPEN.length - COMPACT_DETAILS_CLOSE.length,
+        reservedLength: head.length
+      });
+      const parts = breakdownParts.map((part, i) =>
+        `${i === 0 ? head : ''}${COMPACT_DETAILS_OPEN}${part}${COMPACT_DETAILS_CLOSE}`);
 
-      // Check if we have an existing comment to replace
-      const existingComment = await this.findExistingPreviewComment();
-      
-      if (existingComment) {
-        // Update existing comment
-        const updatedComment = await this.updatePreviewComment(existingComment.id, content);
-        return { commentId: updatedComment.id, isNew: false };
-      } else {
-        // Create new comment
-        const newComment = await this.createPreviewComment(content);
-        return { commentId: newComment.id, isNew: true };
-      }
+      return await this.postPreviewParts(parts);
     } catch (error) {
       const errorMessage = `Failed to post compact summary: ${error instanceof Error ? error.message : String(error)}`;
       core.setFailed(errorMessage);
@@ -213,16 +317,11 @@ export class PrCommentManager {
     core.info(`Removing preview comments from PR #${this.config.prNumber}`);
 
     try {
-      const { data: comments } = await this.octokit.rest.issues.listComments({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        issue_number: this.config.prNumber,
-        per_page: 100
-      });
+      const comments = await this.listAllComments();
 
       // Find all comments with our marker
       const previewComments = comments.filter(comment => 
-        comment.body && comment.body.includes(PREVIEW_COMMENT_MARKER)
+        comment.body && comment.body.includes(this.marker)
       );
 
       // Delete all preview comments
@@ -313,8 +412,9 @@ export function createPrCommentManager(config: PrCommentConfig): PrCommentManage
 export async function postTaskGraphPreview(
   taskGraph: TaskGraph,
   config: PrCommentConfig,
-  options: Partial<MarkdownFormatterOptions> = {}
-): Promise<{ commentId: number; isNew: boolean }> {
+  options: Partial<MarkdownFormatterOptions> = {},
+  diffSection?: string
+): Promise<PreviewCommentResult> {
   const manager = createPrCommentManager(config);
   
   // Check if PR has PRD changes
@@ -335,8 +435,11 @@ export async function postTaskGraphPreview(
 
   // Use compact format for very large task graphs
   if (taskCount > 15) {
-    return await manager.postCompactSummary(taskGraph);
+    return await manager.postCompactSummary(taskGraph, diffSection, {
+      includeDependencyGraph: autoOptions.includeDependencyGraph,
+      maxDisplayDepth: autoOptions.maxDisplayDepth
+    });
   } else {
-    return await manager.postTaskGraphPreview(taskGraph, autoOptions);
+    return await manager.postTaskGraphPreview(taskGraph, autoOptions, diffSection);
   }
 }
\ No newline at end of file
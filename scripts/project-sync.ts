@@ -0,0 +1,370 @@
+/**
+ * Project Sync
+ *
+ * Places generated issues on a GitHub Projects (v2) board and fills its
+ * custom fields from the task:
+ * - Priority, Complexity and Status single-select (or text) fields
+ * - Parent text field with the parent issue reference
+ * - Estimate number field
+ *
+ * Projects v2 is only exposed through GraphQL, so all calls go through
+ * `EnhancedGitHubApi.graphql`. The token needs the `project` scope;
+ * the default `GITHUB_TOKEN` cannot access Projects v2 boards.
+ */
+
+import { EnhancedGitHubApi, OperationPriority } from './github-api';
+import { BLOCKED_LABEL, READY_LABEL } from './dependency-policy';
+
+/**
+ * Project owner and number, as found in a project URL
+ */
+export interface ProjectReference {
+  ownerType: 'organization' | 'user';
+  owner: string;
+  number: number;
+}
+
+/**
+ * Project field as returned by the Projects v2 API
+ */
+export interface ProjectField {
+  id: string;
+  name: string;
+  dataType: string;
+  /** Options of single-select fields */
+  options?: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Field values derived from a task
+ */
+export interface ProjectTaskFields {
+  priority?: string;
+  complexity?: string;
+  status?: string;
+  /** Parent issue reference, e.g. `#12` */
+  parent?: string;
+  estimate?: number;
+}
+
+/**
+ * Options for project synchronization
+ */
+export interface ProjectSyncOptions {
+  /** Project field name per task field (defaults: Priority, Complexity, Status, Parent, Estimate) */
+  fieldNames?: Partial<Record<keyof ProjectTaskFields, string>>;
+}
+
+/**
+ * Default project field names per task field
+ */
+export const DEFAULT_PROJECT_FIELD_NAMES: Record<keyof ProjectTaskFields, string> = {
+  priority: 'Priority',
+  complexity: 'Complexity',
+  status: 'Status',
+  parent: 'Parent',
+  estimate: 'Estimate'
+};
+
+/**
+ * Status option for issues with open dependencies
+ */
+export const PROJECT_STATUS_BLOCKED = 'Blocked';
+
+/**
+ * Status option for issues whose dependencies are all closed
+ */
+export const PROJECT_STATUS_READY = 'Ready';
+
+const PROJECT_URL_PATTERN = /^https:\/\/github\.com\/(orgs|users)\/([^/]+)\/projects\/(\d+)\/?$/;
+
+const PROJECT_FIELDS_FRAGMENT = `
+  id
+  title
+  fields(first: 50) {
+    nodes {
+      ... on ProjectV2FieldCommon { id name dataType }
+      ... on ProjectV2SingleSelectField { options { id name } }
+    }
+  }
+`;
+
+const ADD_ITEM_MUTATION = `
+  mutation($projectId: ID!, $contentId: ID!) {
+    addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+      item { id }
+    }
+  }
+`;
+
+const FIND_ITEMS_QUERY = `
+  query($contentId: ID!) {
+    node(id: $contentId) {
+      ... on Issue {
+        projectItems(first: 50) {
+          nodes { id project { id } }
+        }
+      }
+    }
+  }
+`;
+
+const UPDATE_FIELD_MUTATION = `
+  mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+    updateProjectV2ItemFieldValue(input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }) {
+      projectV2Item { id }
+    }
+  }
+`;
+
+/**
+ * Parse a Projects v2 URL (`https://github.com/orgs/<org>/projects/<n>` or
+ * `https://github.com/users/<user>/projects/<n>`)
+ */
+export function parseProjectUrl(url: string): ProjectReference {
+  const match = url.trim().match(PROJECT_URL_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid project URL "${url}", expected https://github.com/orgs/<org>/projects/<number>`);
+  }
+
+  return {
+    ownerType: match[1] === 'orgs' ? 'organization' : 'user',
+    owner: match[2],
+    number: parseInt(match[3], 10)
+  };
+}
+
+/**
+ * Project status for an issue's dependency labels, if it has any
+ */
+export function projectStatusForLabels(labels: string[]): string | undefined {
+  if (labels.includes(BLOCKED_LABEL)) {
+    return PROJECT_STATUS_BLOCKED;
+  }
+  if (labels.includes(READY_LABEL)) {
+    return PROJECT_STATUS_READY;
+  }
+  return undefined;
+}
+
+/**
+ * Project field values for a task
+ *
+ * Status follows the dependency state (`Blocked`/`Ready`) when the issue has
+ * dependency labels, otherwise the task's own status.
+ */
+export function projectFieldsForTask(
+  task: { priority?: string; status?: string; estimate?: number },
+  context: { labels?: string[]; complexity?: string; parent?: string } = {}
+): ProjectTaskFields {
+  return {
+    priority: task.priority,
+    complexity: context.complexity,
+    status: projectStatusForLabels(context.labels || []) || task.status,
+    parent: context.parent,
+    estimate: task.estimate
+  };
+}
+
+/**
+ * Normalize option names so `in-progress` matches `In Progress`
+ */
+function normalizeOptionName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Keeps issues and their field values in sync with one Projects v2 board
+ */
+export class ProjectSync {
+  private githubApi: EnhancedGitHubApi;
+  private project: ProjectReference;
+  private fieldNames: Record<keyof ProjectTaskFields, string>;
+  private projectId?: string;
+  private fields: Map<string, ProjectField> = new Map();
+
+  constructor(githubApi: EnhancedGitHubApi, project: ProjectReference, options: ProjectSyncOptions = {}) {
+    this.githubApi = githubApi;
+    this.project = project;
+    this.fieldNames = { ...DEFAULT_PROJECT_FIELD_NAMES, ...options.fieldNames };
+  }
+
+  /**
+   * Load the project ID and fields; later calls reuse the first result
+   */
+  async load(): Promise<string> {
+    if (this.projectId) {
+      return this.projectId;
+    }
+
+    const { ownerType, owner, number } = this.project;
+    const response = await this.githubApi.graphql<any>(
+      `query($owner: String!, $number: Int!) { ${ownerType}(login: $owner) { projectV2(number: $number) { ${PROJECT_FIELDS_FRAGMENT} } } }`,
+      { owner, number },
+      'project-load',
+      OperationPriority.HIGH
+    );
+
+    const project = response?.[ownerType]?.projectV2;
+    if (!project) {
+      throw new Error(`Project ${owner}/${number} not found or not accessible`);
+    }
+
+    for (const field of project.fields?.nodes || []) {
+      if (field?.id && field.name) {
+        this.fields.set(field.name.toLowerCase(), field);
+      }
+    }
+
+    this.projectId = project.id as string;
+    return this.projectId;
+  }
+
+  /**
+   * Add an issue to the project, returning its project item ID
+   *
+   * Adding an issue that is already on the board returns its existing item.
+   */
+  async addIssue(issue: { node_id: string }): Promise<string> {
+    const projectId = await this.load();
+    const response = await this.githubApi.graphql<any>(
+      ADD_ITEM_MUTATION,
+      { projectId, contentId: issue.node_id },
+      'project-add-item',
+      OperationPriority.HIGH
+    );
+    return response.addProjectV2ItemById.item.id;
+  }
+
+  /**
+   * Project item ID of an issue, or null when it is not on the board
+   */
+  async findItem(issue: { node_id: string }): Promise<string | null> {
+    const projectId = await this.load();
+    const response = await this.githubApi.graphql<any>(FIND_ITEMS_QUERY, { contentId: issue.node_id }, 'project-find-item');
+    const item = (response?.node?.projectItems?.nodes || []).find((node: any) => node?.project?.id === projectId);
+    return item ? item.id : null;
+  }
+
+  /**
+   * Set the given field values on a project item
+   *
+   * Fields missing from the project and values without a matching option
+   * are skipped.
+   *
+   * @returns names of the task fields that were set
+   */
+  async updateFields(itemId: string, values: ProjectTaskFields): Promise<Array<keyof ProjectTaskFields>> {
+    const projectId = await this.load();
+    const updated: Array<keyof ProjectTaskFields> = [];
+
+    for (const key of Object.keys(values) as Array<keyof ProjectTaskFields>) {
+      const value = values[key];
+      if (value === undefined || value === '') continue;
+
+      const field = this.fields.get(this.fieldNames[key].toLowerCase());
+      if (!field) continue;
+
+      const fieldValue = this.buildFieldValue(field, value);
+      if (!fieldValue) {
+        console.warn(`Project field "${field.name}" has no option matching "${value}"`);
+        continue;
+      }
+
+      await this.githubApi.graphql(
+        UPDATE_FIELD_MUTATION,
+        { projectId, itemId, fieldId: field.id, value: fieldValue },
+        'project-update-field'
+      );
+      updated.push(key);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Add an issue to the project and fill its fields
+   *
+   * @returns the project item ID
+   */
+  async syncIssue(issue: { node_id: string }, values: ProjectTaskFields): Promise<string> {
+    const itemId = await this.addIssue(issue);
+    await this.updateFields(itemId, values);
+    return itemId;
+  }
+
+  /**
+   * Update the Status field of an issue already on the board
+   *
+   * @returns false when the issue is not on the board
+   */
+  async syncStatus(issue: { node_id: string }, status: string): Promise<boolean> {
+    const itemId = await this.findItem(issue);
+    if (!itemId) {
+      return false;
+    }
+
+    await this.updateFields(itemId, { status });
+    return true;
+  }
+
+  /**
+   * GraphQL field value for a task value, or null when it doesn't fit the field
+   */
+  private buildFieldValue(field: ProjectField, value: string | number): Record<string, unknown> | null {
+    switch (field.dataType) {
+      case 'SINGLE_SELECT': {
+        const option = field.options?.find(o => normalizeOptionName(o.name) === normalizeOptionName(String(value)));
+        return option ? { singleSelectOptionId: option.id } : null;
+      }
+      case 'NUMBER': {
+        const number = typeof value === 'number' ? value : parseFloat(value);
+        return isNaN(number) ? null : { number };
+      }
+      case 'TEXT':
+        return { text: String(value) };
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Create a project sync for a project URL, or null when no project is configured
+ */
+export function createProjectSync(
+  githubApi: EnhancedGitHubApi,
+  projectUrl: string | undefined,
+  options: ProjectSyncOptions = {}
+): ProjectSync | null {
+  if (!projectUrl) {
+    return null;
+  }
+  return new ProjectSync(githubApi, parseProjectUrl(projectUrl), options);
+}
+
+/**
+ * Place an issue on the project board with the given field values
+ *
+ * Failures are logged rather than thrown so a misconfigured board never
+ * blocks issue creation.
+ *
+ * @returns whether the issue was synced
+ */
+export async function syncIssueToProject(
+  projectSync: ProjectSync | null,
+  issue: { number: number; node_id: string },
+  values: ProjectTaskFields
+): Promise<boolean> {
+  if (!projectSync) {
+    return false;
+  }
+
+  try {
+    await projectSync.syncIssue(issue, values);
+    return true;
+  } catch (error) {
+    console.warn(`Failed to sync #${issue.number} to the project: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
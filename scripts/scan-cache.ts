@@ -0,0 +1,228 @@
+/**
+ * Scan Cache
+ *
+ * State carried from one full watcher scan to the next, so a scan only
+ * lists and re-parses issues that changed since the previous one:
+ * - a cursor; issues updated at or after it are listed again
+ * - the ETag of that listing, so an unchanged repository costs a single
+ *   304 Not Modified request
+ * - the open issues of the last scan with their parsed bodies
+ * - the dependency graph built from them, patched with every scan's changes
+ *
+ * Deleted issues and issues that lose the `taskmaster` label never show up
+ * in listings of changed issues, so the cache is rebuilt from a complete
+ * listing once it is older than a day.
+ */
+
+import { ApiIssue } from './github-api';
+import {
+  DependencyGraphAnalyzer,
+  DependencyNode,
+  DependencyNodeKey,
+  ParsedIssueData
+} from './issue-parser';
+import { issueReferenceKey, parseIssueReference, repositoryFromIssue, sameRepository } from './issue-reference';
+import { parseBreakdownChecklist } from './parent-issue-state-manager';
+
+/**
+ * Version of the cache layout; caches of other versions are rebuilt
+ */
+export const SCAN_CACHE_VERSION = 2;
+
+/**
+ * Age after which a scan cache is rebuilt from a complete listing
+ */
+export const SCAN_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Open issue as seen by the last scan
+ */
+export interface CachedIssue {
+  issue: ApiIssue;
+  /** Parsed body; absent for issues without a body */
+  parsed?: ParsedIssueData;
+}
+
+export interface ScanCache {
+  version: number;
+  repository: string;
+  /** ISO 8601 timestamp of the complete listing the cache was built from */
+  builtAt: string;
+  /** ISO 8601 timestamp of the most recent issue update seen */
+  cursor: string;
+  /** ETag of the last listing of issues updated since the cursor */
+  etag?: string;
+  /** Open issues keyed by issue number */
+  issues: Record<string, CachedIssue>;
+  /** Dependency graph nodes of the open issues */
+  graph: DependencyNode[];
+}
+
+/**
+ * Outcome of applying a listing of changed issues to a scan cache
+ */
+export interface ScanCacheChanges {
+  /** Open issues that are new or were updated since the last scan */
+  changed: ApiIssue[];
+  /** Graph keys of issues that left the graph, e.g. because they were closed */
+  removed: DependencyNodeKey[];
+}
+
+/**
+ * Whether a value is a scan cache of the current version for a repository
+ */
+export function isUsableScanCache(value: any, repository: string): value is ScanCache {
+  return Boolean(value) &&
+    value.version === SCAN_CACHE_VERSION &&
+    sameRepository(value.repository, repository) &&
+    typeof value.builtAt === 'string' &&
+    typeof value.cursor === 'string' &&
+    typeof value.issues === 'object' &&
+    Array.isArray(value.graph);
+}
+
+/**
+ * Whether a scan cache is due to be rebuilt from a complete listing
+ */
+export function isScanCacheExpired(cache: ScanCache, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(cache.builtAt).getTime() >= SCAN_CACHE_MAX_AGE_MS;
+}
+
+/**
+ * Latest `updated_at` of a set of issues and a fallback timestamp
+ */
+function latestUpdate(issues: ApiIssue[], fallback: string): string {
+  return issues.reduce((latest, issue) => issue.updated_at > latest ? issue.updated_at : latest, fallback);
+}
+
+/**
+ * Scan cache from a complete listing of open issues
+ *
+ * `parse` returns null for issues whose body can't be parsed; they stay
+ * in the cache but out of the graph, like in a non-incremental scan.
+ */
+export function createScanCache(
+  repository: string,
+  openIssues: ApiIssue[],
+  parse: (issue: ApiIssue) => ParsedIssueData | null,
+  scanStartedAt: Date
+): ScanCache {
+  const issues: Record<string, CachedIssue> = {};
+  const parsedIssues: ParsedIssueData[] = [];
+  for (const issue of openIssues) {
+    const parsed = issue.body ? parse(issue) : null;
+    issues[issue.number] = parsed ? { issue, parsed } : { issue };
+    if (parsed) parsedIssues.push(parsed);
+  }
+
+  const graph = DependencyGraphAnalyzer.buildDependencyGraph(parsedIssues, { repository });
+  return {
+    version: SCAN_CACHE_VERSION,
+    repository,
+    builtAt: scanStartedAt.toISOString(),
+    cursor: openIssues.length > 0 ? latestUpdate(openIssues, '') : scanStartedAt.toISOString(),
+    issues,
+    graph: [...graph.values()]
+  };
+}
+
+/**
+ * Dependency graph of a scan cache
+ */
+export function restoreDependencyGraph(cache: ScanCache): Map<DependencyNodeKey, DependencyNode> {
+  return new Map(cache.graph.map(node => [node.id, node]));
+}
+
+/**
+ * Apply issues updated since the cache's cursor, patching its issues and graph
+ *
+ * Open issues are re-parsed only when their `updated_at` moved, since the
+ * listing always repeats the issue updated last. Closed issues leave the
+ * cache. The cursor advances to the latest update listed, so the same
+ * listing is repeated, and answered 304 Not Modified, until something
+ * changes.
+ */
+export function applyIssueChanges(
+  cache: ScanCache,
+  listedIssues: ApiIssue[],
+  parse: (issue: ApiIssue) => ParsedIssueData | null,
+  etag?: string
+): ScanCacheChanges {
+  const changes: ScanCacheChanges = { changed: [], removed: [] };
+  const changedParsed: ParsedIssueData[] = [];
+  const keyOf = (issue: ApiIssue) => issueReferenceKey(repositoryFromIssue(issue) || cache.repository, issue.number);
+
+  for (const issue of listedIssues) {
+    if (issue.pull_request) continue;
+    const cached = cache.issues[issue.number];
+
+    if (issue.state !== 'open') {
+      if (cached) {
+        delete cache.issues[issue.number];
+        changes.removed.push(keyOf(issue));
+      }
+      continue;
+    }
+
+    if (cached && cached.issue.updated_at === issue.updated_at) continue;
+
+    const parsed = issue.body ? parse(issue) : null;
+    cache.issues[issue.number] = parsed ? { issue, parsed } : { issue };
+    changes.changed.push(issue);
+    if (parsed) {
+      changedParsed.push(parsed);
+    } else if (cached) {
+      changes.removed.push(keyOf(issue));
+    }
+  }
+
+  const graph = DependencyGraphAnalyzer.patchDependencyGraph(
+    restoreDependencyGraph(cache),
+    changedParsed,
+    changes.removed,
+    { repository: cache.repository }
+  );
+  cache.graph = [...graph.values()];
+
+  // The ETag only matches the next listing when the cursor stays put
+  const cursor = latestUpdate(listedIssues, cache.cursor);
+  cache.etag = cursor === cache.cursor ? etag : undefined;
+  cache.cursor = cursor;
+
+  return changes;
+}
+
+/**
+ * Open issues whose dependency state may have moved with a set of changes
+ *
+ * Besides the changed issues themselves these are the dependents of changed
+ * and removed issues, the parents listing them in a `## Breakdown Summary`,
+ * and issues depending on other repositories, whose changes are never listed.
+ */
+export function selectIssuesToRescan(cache: ScanCache, changes: ScanCacheChanges): ApiIssue[] {
+  const changedKeys = changes.changed.map(issue => issueReferenceKey(repositoryFromIssue(issue) || cache.repository, issue.number));
+  const touchedKeys = [...changedKeys, ...changes.removed];
+  const touchedNumbers = new Set(touchedKeys
+    .map(key => parseIssueReference(String(key)))
+    .filter(reference => reference && sameRepository(`${reference.owner}/${reference.repo}`, cache.repository))
+    .map(reference => reference!.number));
+
+  const graph = restoreDependencyGraph(cache);
+  const rescanKeys = new Set<DependencyNodeKey>([
+    ...changedKeys,
+    ...DependencyGraphAnalyzer.findDependentIssues(graph, touchedKeys)
+  ]);
+  for (const node of graph.values()) {
+    const external = node.dependencies.some(depId => {
+      const reference = parseIssueReference(String(depId));
+      return reference && !sameRepository(`${reference.owner}/${reference.repo}`, cache.repository);
+    });
+    if (external) rescanKeys.add(node.id);
+  }
+
+  return Object.values(cache.issues)
+    .map(cached => cached.issue)
+    .filter(issue =>
+      rescanKeys.has(issueReferenceKey(repositoryFromIssue(issue) || cache.repository, issue.number)) ||
+      parseBreakdownChecklist(issue.body || '').some(entry => touchedNumbers.has(entry.issueNumber)));
+}
@@ -6,6 +6,9 @@
  */
 
 import { EnhancedGitHubApi, ApiIssue } from './github-api';
+import { buildTaskKey, buildTaskKeyLine } from './task-identity';
+import { dependencyLabelsForIssues } from './dependency-policy';
+import { OBSOLETE_LABEL } from './issue-reconciliation';
 
 // Task interfaces (shared types)
 export interface Task {
@@ -131,6 +134,9 @@ export function buildSubIssueBody(
 ): string {
   let body = '';
   
+  // Stable task key so the sub-issue survives retitling
+  body += `---\n${buildTaskKeyLine(buildSubIssueTaskKey(task, parentIssue, parentTask))}\n---\n\n`;
+  
   // Add description
   if (task.description) {
     body += `## Details\n${task.description}\n\n`;
@@ -178,8 +184,19 @@ export function buildSubIssueBody(
   return body;
 }
 
+/**
+ * Stable task key for a breakdown sub-issue, scoped to its parent issue
+ */
+export function buildSubIssueTaskKey(task: Task, parentIssue?: Issue, parentTask?: Task): string {
+  const taskId = parentTask ? `${parentTask.id}.${task.id}` : task.id;
+  return buildTaskKey(taskId, parentIssue ? `issue-${parentIssue.number}` : undefined);
+}
+
 /**
  * Create a sub-issue from task breakdown results
+ *
+ * New sub-issues are assigned to their parent issue's milestone. Sub-issues
+ * retired by a replan are never reused.
  */
 export async function createSubIssueFromTask(
   githubApi: EnhancedGitHubApi,
@@ -192,8 +209,12 @@ export async function createSubIssueFromTask(
   const body = buildSubIssueBody(task, parentIssue, parentTask, complexityScore);
   const labels = generateSubIssueLabels(task, parentTask, complexityScore, true);
 
-  // Check if issue already exists
-  const existingIssue = await githubApi.findExistingIssue(title, UNIQUE_MARKER);
+  // Check if issue already exists, preferring its stable task key over the title
+  const existingIssue = await githubApi.findExistingIssue(title, UNIQUE_MARKER, {
+    taskKey: buildSubIssueTaskKey(task, parentIssue, parentTask),
+    description: task.description,
+    excludeLabels: [OBSOLETE_LABEL]
+  });
   if (existingIssue) {
     console.log(`Sub-issue already exists: ${title} (#${existingIssue.number})`);
     return {
@@ -207,6 +228,7 @@ export async function createSubIssueFromTask(
     title,
     body,
     labels,
+    ...(parentIssue.milestone ? { milestone: parentIssue.milestone.number } : {})
   });
 
   console.log(`Created breakdown sub-issue: ${title} (#${createdIssue.number})`);
@@ -217,6 +239,45 @@ export async function createSubIssueFromTask(
   };
 }
 
+/**
+ * Refresh a sub-issue of an earlier breakdown from its regenerated task
+ *
+ * The title is updated right away; the body is returned as `expectedBody`
+ * so it can be written together with its dependency links. Breakdown status
+ * and summary sections of sub-issues that were broken down themselves are
+ * kept.
+ */
+export async function refreshSubIssueFromTask(
+  githubApi: EnhancedGitHubApi,
+  existingIssue: ApiIssue,
+  task: Task,
+  parentIssue: Issue,
+  parentTask?: Task,
+  complexityScore?: number
+): Promise<Issue> {
+  const title = buildSubIssueTitle(task, parentTask, parentIssue.number);
+  let body = buildSubIssueBody(task, parentIssue, parentTask, complexityScore);
+
+  const existingBody = existingIssue.body || '';
+  const breakdownSections = ['## Breakdown Status', '## Breakdown Summary']
+    .map(heading => existingBody.indexOf(heading))
+    .filter(index => index !== -1);
+  if (breakdownSections.length > 0) {
+    body += `\n\n${existingBody.slice(Math.min(...breakdownSections)).trimEnd()}`;
+  }
+
+  if (existingIssue.title !== title) {
+    await githubApi.updateIssue(existingIssue.number, { title });
+    console.log(`Retitled breakdown sub-issue #${existingIssue.number}: ${title}`);
+  }
+
+  return {
+    ...existingIssue,
+    title,
+    expectedBody: body
+  };
+}
+
 /**
  * Update issue body with dependency links
  */
@@ -266,19 +327,5 @@ export async function addSubIssueRelationship(
  * Update dependency labels based on issue states
  */
 export function updateDependencyLabels(task: Task, dependencyIssues: Issue[] | undefined): string[] {
-  const additionalLabels: string[] = [];
-  if (!dependencyIssues || dependencyIssues.length === 0) {
-    return additionalLabels;
-  }
-
-  const openDependencies = dependencyIssues.filter(issue => issue.state === 'open');
-  if (openDependencies.length > 0) {
-    additionalLabels.push('blocked');
-    additionalLabels.push(`blocked-by:${openDependencies.length}`);
-  } else {
-    // All dependencies are closed, task is ready
-    additionalLabels.push('ready');
-  }
-
-  return additionalLabels;
+  return dependencyLabelsForIssues(dependencyIssues);
 }
\ No newline at end of file
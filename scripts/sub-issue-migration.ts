@@ -0,0 +1,238 @@
+/**
+ * Sub-Issue Migration
+ *
+ * Converts hierarchies recorded in issue bodies (a parent's `## Subtasks`
+ * section, a child's `Parent Task: #N` meta line or `parent:` front-matter)
+ * into native GitHub sub-issue links.
+ *
+ * Usage:
+ * ```bash
+ * GITHUB_TOKEN=... GITHUB_REPOSITORY=owner/repo npx ts-node scripts/sub-issue-migration.ts
+ * ```
+ */
+
+import { EnhancedGitHubApi, ApiIssue, createGitHubApiClient } from './github-api';
+import { parseYamlFrontMatter } from './issue-parser';
+
+/**
+ * Parent/child pair found in issue bodies
+ */
+export interface BodySubIssueLink {
+  parentIssueNumber: number;
+  subIssueNumber: number;
+}
+
+/**
+ * Options for migrating body links to native sub-issues
+ */
+export interface SubIssueMigrationOptions {
+  /** Only migrate issues carrying this label (default: taskmaster) */
+  label?: string;
+  /** Report what would be linked without changing anything */
+  dryRun?: boolean;
+  /** Remove the `## Subtasks` section from parent bodies once linked natively */
+  removeBodyLinks?: boolean;
+}
+
+/**
+ * Result of a sub-issue migration
+ */
+export interface SubIssueMigrationResult {
+  /** Links found in issue bodies */
+  linksFound: number;
+  /** Native links created */
+  linksCreated: number;
+  /** Links that already existed natively */
+  linksExisting: number;
+  /** Parent bodies whose `## Subtasks` section was removed */
+  bodiesCleaned: number;
+  /** Errors encountered, one per failed link or issue */
+  errors: string[];
+}
+
+const SUBTASKS_SECTION_REGEX = /##\s*(?:Subtasks?|Sub-issues?)\s*\n((?:\s*-\s*\[[\sx]\]\s*#\d+.*\n?)*)/i;
+const PARENT_REFERENCE_REGEX = /-\s*(?:\*\*)?Parent Task:(?:\*\*)?\s*#(\d+)/i;
+
+/**
+ * Collect parent/child links recorded in issue bodies
+ *
+ * Links are taken from both sides so a hierarchy survives a human editing
+ * either the parent's list or the child's meta section. Only links between
+ * issues in the given set are returned.
+ */
+export function collectBodySubIssueLinks(issues: Array<Pick<ApiIssue, 'number' | 'body'>>): BodySubIssueLink[] {
+  const known = new Set(issues.map(issue => issue.number));
+  const links = new Map<string, BodySubIssueLink>();
+
+  const addLink = (parentIssueNumber: number, subIssueNumber: number) => {
+    if (parentIssueNumber === subIssueNumber || !known.has(parentIssueNumber) || !known.has(subIssueNumber)) {
+      return;
+    }
+    links.set(`${parentIssueNumber}:${subIssueNumber}`, { parentIssueNumber, subIssueNumber });
+  };
+
+  for (const issue of issues) {
+    const body = issue.body || '';
+
+    const section = body.match(SUBTASKS_SECTION_REGEX);
+    if (section) {
+      for (const ref of section[1].matchAll(/#(\d+)/g)) {
+        addLink(issue.number, parseInt(ref[1], 10));
+      }
+    }
+
+    const parentRef = body.match(PARENT_REFERENCE_REGEX);
+    if (parentRef) {
+      addLink(parseInt(parentRef[1], 10), issue.number);
+    }
+
+    const frontMatterParent = parseYamlFrontMatter(body).parent;
+    if (typeof frontMatterParent === 'number') {
+      addLink(frontMatterParent, issue.number);
+    }
+  }
+
+  return Array.from(links.values()).sort((a, b) =>
+    a.parentIssueNumber - b.parentIssueNumber || a.subIssueNumber - b.subIssueNumber
+  );
+}
+
+/**
+ * Remove the `## Subtasks` section from a parent issue body
+ */
+export function removeSubtasksSection(body: string): string {
+  return body.replace(SUBTASKS_SECTION_REGEX, '').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Link every body-recorded hierarchy natively
+ *
+ * The client must be configured with `subIssueMode: 'native'`, otherwise
+ * links would be written back into issue bodies.
+ */
+export async function migrateSubIssueLinks(
+  githubApi: EnhancedGitHubApi,
+  options: SubIssueMigrationOptions = {}
+): Promise<SubIssueMigrationResult> {
+  const result: SubIssueMigrationResult = {
+    linksFound: 0,
+    linksCreated: 0,
+    linksExisting: 0,
+    bodiesCleaned: 0,
+    errors: []
+  };
+
+  const issues: ApiIssue[] = [];
+  for (let page = 1; ; page++) {
+    const batch = await githubApi.listIssues({ state: 'all', labels: options.label || 'taskmaster', per_page: 100, page });
+    issues.push(...batch.filter(issue => !issue.pull_request));
+    if (batch.length < 100) break;
+  }
+
+  const links = collectBodySubIssueLinks(issues);
+  result.linksFound = links.length;
+  console.log(`🔍 Found ${links.length} body-linked sub-issue relationship(s) across ${issues.length} issue(s)`);
+
+  const linksByParent = new Map<number, number[]>();
+  for (const link of links) {
+    linksByParent.set(link.parentIssueNumber, [...(linksByParent.get(link.parentIssueNumber) || []), link.subIssueNumber]);
+  }
+
+  for (const [parentIssueNumber, subIssueNumbers] of linksByParent) {
+    let parentFailed = false;
+
+    try {
+      const existing = new Set((await githubApi.getSubIssues(parentIssueNumber)).map(issue => issue.number));
+
+      for (const subIssueNumber of subIssueNumbers) {
+        if (existing.has(subIssueNumber)) {
+          result.linksExisting++;
+          continue;
+        }
+
+        if (options.dryRun) {
+          console.log(`🔍 Would link #${subIssueNumber} as sub-issue of #${parentIssueNumber}`);
+          result.linksCreated++;
+          continue;
+        }
+
+        try {
+          await githubApi.addSubIssue(parentIssueNumber, subIssueNumber);
+          console.log(`🔗 Linked #${subIssueNumber} as sub-issue of #${parentIssueNumber}`);
+          result.linksCreated++;
+        } catch (error) {
+          parentFailed = true;
+          result.errors.push(`#${parentIssueNumber} -> #${subIssueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } catch (error) {
+      result.errors.push(`#${parentIssueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    if (!options.removeBodyLinks || options.dryRun || parentFailed) {
+      continue;
+    }
+
+    const parent = issues.find(issue => issue.number === parentIssueNumber);
+    const cleanedBody = removeSubtasksSection(parent?.body || '');
+    if (parent && cleanedBody !== parent.body) {
+      try {
+        await githubApi.updateIssue(parentIssueNumber, { body: cleanedBody });
+        result.bodiesCleaned++;
+      } catch (error) {
+        result.errors.push(`#${parentIssueNumber}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * CLI entry point when run directly
+ */
+if (require.main === module) {
+  const githubToken = process.env.GITHUB_TOKEN || '';
+  const repository = process.env.GITHUB_REPOSITORY || '';
+  const [owner, repo] = repository.split('/');
+
+  if (!githubToken || !owner || !repo) {
+    console.error('❌ Missing required parameters:');
+    console.error('   GITHUB_TOKEN environment variable');
+    console.error('   GITHUB_REPOSITORY environment variable');
+    process.exit(1);
+  }
+
+  const githubApi = createGitHubApiClient({
+    token: githubToken,
+    owner,
+    repo,
+    subIssueMode: 'native'
+  });
+
+  migrateSubIssueLinks(githubApi, {
+    label: process.env.MIGRATION_LABEL || undefined,
+    dryRun: process.env.DRY_RUN === 'true',
+    removeBodyLinks: process.env.REMOVE_BODY_LINKS === 'true'
+  })
+    .then(result => {
+      console.log('\n📊 Migration Summary:');
+      console.log(`   - Links found: ${result.linksFound}`);
+      console.log(`   - Links created: ${result.linksCreated}`);
+      console.log(`   - Already linked: ${result.linksExisting}`);
+      console.log(`   - Bodies cleaned: ${result.bodiesCleaned}`);
+      console.log(`   - Errors: ${result.errors.length}`);
+
+      if (result.errors.length > 0) {
+        console.log('\n❌ Errors encountered:');
+        result.errors.forEach(error => console.log(`   - ${error}`));
+      }
+
+      process.exit(result.errors.length === 0 ? 0 : 1);
+    })
+    .catch(error => {
+      console.error(`💥 Fatal error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    });
+}
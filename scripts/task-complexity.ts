@@ -0,0 +1,70 @@
+/**
+ * Task Complexity
+ *
+ * Scores how complex a single task is (1-10) from its description, details,
+ * dependencies, subtasks and priority, and maps scores to the
+ * `complexity:<level>` labels and project field values.
+ */
+
+/**
+ * Task fields the complexity score is based on
+ */
+export interface ComplexityTask {
+  description?: string;
+  details?: string;
+  priority?: string;
+  dependencies?: unknown[];
+  subtasks?: unknown[];
+}
+
+/**
+ * Calculate complexity score for a task based on various factors
+ */
+export function calculateComplexityForTask(task: ComplexityTask): number {
+  let complexity = 1; // Base complexity
+  
+  // Add complexity based on description length
+  if (task.description) {
+    complexity += Math.min(task.description.length / 100, 3);
+  }
+  
+  // Add complexity based on details length
+  if (task.details) {
+    complexity += Math.min(task.details.length / 200, 3);
+  }
+  
+  // Add complexity based on number of dependencies
+  if (task.dependencies) {
+    complexity += task.dependencies.length * 0.5;
+  }
+  
+  // Add complexity based on number of subtasks
+  if (task.subtasks) {
+    complexity += task.subtasks.length * 0.3;
+  }
+  
+  // Priority affects complexity
+  switch (task.priority?.toLowerCase()) {
+    case 'critical':
+      complexity += 2;
+      break;
+    case 'high':
+      complexity += 1;
+      break;
+    case 'low':
+      complexity -= 0.5;
+      break;
+  }
+  
+  return Math.min(Math.max(Math.round(complexity), 1), 10);
+}
+
+/**
+ * Complexity level for a complexity score, as used in labels and project fields
+ */
+export function complexityLevel(complexityScore: number): 'high' | 'medium' | 'low' {
+  if (complexityScore >= 8) {
+    return 'high';
+  }
+  return complexityScore >= 5 ? 'medium' : 'low';
+}
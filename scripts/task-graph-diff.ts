@@ -0,0 +1,261 @@
+/**
+ * Task Graph Diff
+ *
+ * Plan-style diff of a pull request's task graph against what is already
+ * synced to issues, for the PR preview comment:
+ * - tasks added, whose issues would be created
+ * - tasks removed, whose issues would be retired
+ * - tasks whose title, body, dependencies or priority changed
+ * - dependency edges added or removed between existing tasks
+ *
+ * The base is the task graph artifact of the PR's base branch when one is
+ * found, otherwise the issues recorded in idempotency state, which only
+ * tell presence and dependencies apart.
+ */
+
+import { IssueState } from './idempotency-manager';
+import { OBSOLETE_LABEL, ObsoleteIssueAction } from './issue-reconciliation';
+import { TaskGraph } from './markdown-formatter';
+
+/**
+ * Where the base of a diff came from
+ */
+export type TaskGraphDiffSource = 'artifact' | 'idempotency-state';
+
+/**
+ * Fields of a task compared between base and head
+ */
+export type TaskField = 'title' | 'body' | 'dependencies' | 'priority';
+
+/**
+ * A task reduced to what its issue is built from
+ *
+ * Task IDs follow the reconciliation scheme: `"1"` for top-level tasks and
+ * `"1.2"` for subtasks. Fields a source does not know are left out and
+ * never reported as changed.
+ */
+export interface TaskSnapshot {
+  taskId: string;
+  title?: string;
+  /** Description, details and test strategy */
+  body?: string;
+  priority?: string;
+  /** Task IDs this task depends on */
+  dependencies: string[];
+  /** Issue synced for the task, when known */
+  issueNumber?: number;
+}
+
+/**
+ * Task present in base and head whose issue would be updated
+ */
+export interface ChangedTask {
+  before: TaskSnapshot;
+  after: TaskSnapshot;
+  fields: TaskField[];
+}
+
+/**
+ * Dependency edge: `taskId` depends on `dependsOn`
+ */
+export interface DependencyEdge {
+  taskId: string;
+  dependsOn: string;
+}
+
+export interface TaskGraphDiff {
+  source: TaskGraphDiffSource;
+  added: TaskSnapshot[];
+  removed: TaskSnapshot[];
+  changed: ChangedTask[];
+  edgesAdded: DependencyEdge[];
+  edgesRemoved: DependencyEdge[];
+}
+
+/**
+ * Snapshots of every task and subtask of a task graph
+ */
+export function snapshotTaskGraph(taskGraph: TaskGraph): TaskSnapshot[] {
+  const body = (task: { description?: string; details?: string; testStrategy?: string }) =>
+    [task.description, task.details, task.testStrategy].map(text => (text || '').trim()).join('\n\n');
+
+  const snapshots: TaskSnapshot[] = [];
+  for (const task of taskGraph.tasks || []) {
+    snapshots.push({
+      taskId: String(task.id),
+      title: task.title,
+      body: body(task),
+      priority: task.priority,
+      dependencies: (task.dependencies || []).map(String)
+    });
+    for (const sub of task.subtasks || []) {
+      snapshots.push({
+        taskId: `${task.id}.${sub.id}`,
+        title: sub.title,
+        body: body(sub),
+        priority: sub.priority,
+        dependencies: (sub.dependencies || []).map(depId => `${task.id}.${depId}`)
+      });
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Snapshots of the issues recorded for a PRD, skipping retired ones
+ *
+ * When several issues claim a task, the most recently updated one wins,
+ * like in reconciliation.
+ */
+export function snapshotIssueStates(issues: IssueState[]): TaskSnapshot[] {
+  const byTask = new Map<string, IssueState>();
+  const sorted = [...issues].sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime());
+  for (const issue of sorted) {
+    if (!issue.labels.includes(OBSOLETE_LABEL) && !byTask.has(issue.taskId)) {
+      byTask.set(issue.taskId, issue);
+    }
+  }
+
+  return [...byTask.values()].map(issue => ({
+    taskId: issue.taskId,
+    dependencies: [...issue.dependencies],
+    issueNumber: issue.issueNumber
+  }));
+}
+
+/**
+ * Copy issue numbers from recorded issues onto snapshots of the same tasks
+ */
+export function attachIssueNumbers(snapshots: TaskSnapshot[], issues: IssueState[]): TaskSnapshot[] {
+  const numbers = new Map(snapshotIssueStates(issues).map(snapshot => [snapshot.taskId, snapshot.issueNumber]));
+  return snapshots.map(snapshot => numbers.has(snapshot.taskId)
+    ? { ...snapshot, issueNumber: numbers.get(snapshot.taskId) }
+    : snapshot);
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return a.length === b.length && b.every(item => set.has(item));
+}
+
+/**
+ * Diff the head task graph against a base
+ */
+export function diffTaskGraphs(
+  base: TaskSnapshot[],
+  head: TaskSnapshot[],
+  source: TaskGraphDiffSource
+): TaskGraphDiff {
+  const baseById = new Map(base.map(snapshot => [snapshot.taskId, snapshot]));
+  const headById = new Map(head.map(snapshot => [snapshot.taskId, snapshot]));
+  const diff: TaskGraphDiff = { source, added: [], removed: [], changed: [], edgesAdded: [], edgesRemoved: [] };
+
+  const differs = (a: string | undefined, b: string | undefined) => a !== undefined && b !== undefined && a !== b;
+
+  for (const after of head) {
+    const before = baseById.get(after.taskId);
+    if (!before) {
+      diff.added.push(after);
+      continue;
+    }
+
+    const fields: TaskField[] = [];
+    if (differs(before.title, after.title)) fields.push('title');
+    if (differs(before.body, after.body)) fields.push('body');
+    if (!sameMembers(before.dependencies, after.dependencies)) fields.push('dependencies');
+    if (differs(before.priority, after.priority)) fields.push('priority');
+    if (fields.length > 0) {
+      diff.changed.push({ before, after: { ...after, issueNumber: before.issueNumber }, fields });
+    }
+
+    diff.edgesAdded.push(...after.dependencies
+      .filter(dependsOn => !before.dependencies.includes(dependsOn))
+      .map(dependsOn => ({ taskId: after.taskId, dependsOn })));
+    diff.edgesRemoved.push(...before.dependencies
+      .filter(dependsOn => !after.dependencies.includes(dependsOn))
+      .map(dependsOn => ({ taskId: after.taskId, dependsOn })));
+  }
+
+  diff.removed = base.filter(snapshot => !headById.has(snapshot.taskId));
+  return diff;
+}
+
+/**
+ * Number of issues a diff would create, retire or update
+ */
+export function countTaskGraphChanges(diff: TaskGraphDiff): number {
+  return diff.added.length + diff.removed.length + diff.changed.length;
+}
+
+/**
+ * Collapsible markdown section of a diff for the preview comment
+ *
+ * Without `reconcileIssues`, issues of removed tasks are left as they are.
+ */
+export function formatTaskGraphDiff(
+  diff: TaskGraphDiff,
+  options: { reconcileIssues?: boolean; obsoleteIssueAction?: ObsoleteIssueAction } = {}
+): string {
+  const issue = (snapshot: TaskSnapshot) => snapshot.issueNumber ? `#${snapshot.issueNumber}` : '—';
+  const task = (snapshot: TaskSnapshot) => snapshot.title ? `${snapshot.taskId} ${snapshot.title}` : snapshot.taskId;
+  const retire = options.reconcileIssues === false
+    ? 'left as they are, since reconciliation is off'
+    : options.obsoleteIssueAction === 'close' ? 'closed' : `labeled \`${OBSOLETE_LABEL}\``;
+
+  const summary = countTaskGraphChanges(diff) === 0
+    ? 'no issue changes'
+    : `${diff.added.length} to create, ${diff.changed.length} to update, ${diff.removed.length} to retire`;
+  const sections: string[] = [];
+
+  if (countTaskGraphChanges(diff) === 0) {
+    sections.push('✅ The synced issues already match this task graph.');
+  }
+
+  if (diff.added.length > 0) {
+    sections.push([
+      `#### ➕ Tasks added (${diff.added.length})`,
+      'Issues would be created for:',
+      '',
+      ...diff.added.map(snapshot => `- ${task(snapshot)}`)
+    ].join('\n'));
+  }
+
+  if (diff.removed.length > 0) {
+    sections.push([
+      `#### ➖ Tasks removed (${diff.removed.length})`,
+      `Their issues would be ${retire}:`,
+      '',
+      ...diff.removed.map(snapshot => `- ${issue(snapshot)} ${task(snapshot)}`)
+    ].join('\n'));
+  }
+
+  if (diff.changed.length > 0) {
+    const detail = (change: ChangedTask) => change.fields.map(field => {
+      if (field === 'title') return `title: ~~${change.before.title}~~ → ${change.after.title}`;
+      if (field === 'priority') return `priority: ${change.before.priority} → ${change.after.priority}`;
+      if (field === 'dependencies') return `dependencies: ${change.before.dependencies.join(', ') || 'none'} → ${change.after.dependencies.join(', ') || 'none'}`;
+      return 'body';
+    }).join('; ');
+
+    sections.push([
+      `#### ✏️ Tasks changed (${diff.changed.length})`,
+      '| Issue | Task | Changes |',
+      '| --- | --- | --- |',
+      ...diff.changed.map(change => `| ${issue(change.before)} | ${task(change.after)} | ${detail(change)} |`)
+    ].join('\n'));
+  }
+
+  if (diff.edgesAdded.length > 0 || diff.edgesRemoved.length > 0) {
+    sections.push([
+      `#### 🔗 Dependency edges (+${diff.edgesAdded.length} / -${diff.edgesRemoved.length})`,
+      ...diff.edgesAdded.map(edge => `- ➕ ${edge.taskId} depends on ${edge.dependsOn}`),
+      ...diff.edgesRemoved.map(edge => `- ➖ ${edge.taskId} no longer depends on ${edge.dependsOn}`)
+    ].join('\n'));
+  }
+
+  if (diff.source === 'idempotency-state') {
+    sections.push('*No task graph artifact was found on the base branch, so this diff is against the recorded issues: title, body and priority changes are not shown.*');
+  }
+
+  return `<details>\n<summary>🔀 Changes versus the synced issues: ${summary}</summary>\n\n${sections.join('\n\n')}\n</details>`;
+}
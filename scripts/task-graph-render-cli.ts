@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Task Graph Render CLI
+ *
+ * Renders a task graph JSON file in the formats of the task graph renderer
+ * registry: markdown, html, csv and json-schema.
+ *
+ * Usage:
+ *   npm run render:task-graph -- task-graph.json --format html --output report.html
+ *   npm run render:task-graph -- task-graph.json --format csv > tasks.csv
+ *   npm run render:task-graph -- task-graph.json --format html,csv,json-schema --out-dir reports
+ *   npm run render:task-graph -- --format json-schema > task-graph.schema.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateTaskGraphSchema } from './output-validation';
+import { createTaskGraphRendererRegistry, writeTaskGraphReports, RenderableTaskGraph } from './task-graph-renderers';
+
+/**
+ * Options of the render CLI
+ */
+export interface RenderCliOptions {
+  /** Task graph JSON file */
+  input?: string;
+  formats: string[];
+  /** File to write a single format to */
+  output?: string;
+  /** Directory to write each format to */
+  outDir?: string;
+  title?: string;
+  help?: boolean;
+}
+
+/**
+ * Parse CLI arguments; `--key value` and `--key=value` are both accepted
+ */
+export function parseCliArgs(args: string[]): RenderCliOptions {
+  const options: RenderCliOptions = { formats: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--')) {
+      const [key, inlineValue] = arg.substring(2).split(/=(.*)/s);
+      const value = inlineValue ?? args[++i];
+      switch (key) {
+        case 'format':
+          options.formats.push(...(value || '').split(',').map(format => format.trim()).filter(Boolean));
+          break;
+        case 'output':
+          options.output = value;
+          break;
+        case 'out-dir':
+          options.outDir = value;
+          break;
+        case 'title':
+          options.title = value;
+          break;
+        default:
+          throw new Error(`Unknown option --${key}`);
+      }
+    } else {
+      options.input = arg;
+    }
+  }
+
+  return options;
+}
+
+function printHelp(formats: string[]): void {
+  console.log(`
+Taskmaster Task Graph Render CLI
+
+Usage:
+  render:task-graph [task-graph.json] --format <formats> [options]
+
+Options:
+  --help, -h             Show this help message
+  --format <formats>     Comma-separated formats: ${formats.join(', ')}
+  --output <path>        File to write a single format to (default: stdout)
+  --out-dir <dir>        Directory to write each format to, named after the input
+  --title <title>        Title of the HTML report
+
+The task graph is validated against the JSON Schema and dependency rules
+before rendering;
+json-schema alone needs no input file.
+`);
+}
+
+/**
+ * Render a task graph file as the CLI options ask
+ *
+ * Returns the written file paths, or the rendered output when it goes to stdout.
+ */
+export function runRenderCli(options: RenderCliOptions): { files: string[]; stdout?: string } {
+  const registry = createTaskGraphRendererRegistry();
+  if (options.formats.length === 0) {
+    throw new Error('At least one --format is required');
+  }
+  const unknown = options.formats.filter(format => !registry.get(format));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown format(s) ${unknown.join(', ')}; expected: ${registry.formats().join(', ')}`);
+  }
+  if (!options.outDir && options.formats.length > 1) {
+    throw new Error('Several formats need --out-dir');
+  }
+
+  let taskGraph: RenderableTaskGraph = { tasks: [] };
+  if (options.input) {
+    const data = JSON.parse(fs.readFileSync(options.input, 'utf8'));
+    const validation = validateTaskGraphSchema(data);
+    if (!validation.valid) {
+      throw new Error(`${options.input} is not a valid task graph:\n  - ${validation.errors.join('\n  - ')}`);
+    }
+    taskGraph = data;
+  } else if (options.formats.some(format => format !== 'json-schema')) {
+    throw new Error('A task graph file is required');
+  }
+
+  const renderOptions = { title: options.title };
+  if (options.outDir) {
+    fs.mkdirSync(options.outDir, { recursive: true });
+    const baseName = options.input ? path.basename(options.input) : 'task-graph.json';
+    const written = writeTaskGraphReports(taskGraph, path.join(options.outDir, baseName), options.formats, renderOptions, registry);
+    return { files: Object.values(written) };
+  }
+
+  const rendered = registry.render(options.formats[0], taskGraph, renderOptions);
+  if (options.output) {
+    fs.writeFileSync(options.output, rendered, 'utf8');
+    return { files: [options.output] };
+  }
+  return { files: [], stdout: rendered };
+}
+
+/**
+ * CLI entry point when run directly
+ */
+if (require.main === module) {
+  try {
+    const options = parseCliArgs(process.argv.slice(2));
+    if (options.help) {
+      printHelp(createTaskGraphRendererRegistry().formats());
+      process.exit(0);
+    }
+
+    const result = runRenderCli(options);
+    if (result.stdout !== undefined) {
+      process.stdout.write(result.stdout);
+    } else {
+      result.files.forEach(file => console.error(`✅ Wrote ${file}`));
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Task Graph Renderers
+ *
+ * Registry of the formats a task graph can be rendered in, for the generate
+ * action's reports and the `render:task-graph` CLI:
+ * - `markdown`: the PR preview, with its dependency graph
+ * - `html`: a standalone report with a sortable task table and the
+ *   dependency graph drawn by Mermaid
+ * - `csv`: one row per task and subtask, for spreadsheet planning
+ * - `json-schema`: the published schema task graphs are validated against
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTaskGraphMarkdown, Task as MarkdownTask } from './markdown-formatter';
+import { renderMermaidFlowchart } from './mermaid-renderer';
+import { calculateComplexityForTask } from './task-complexity';
+import { TASK_GRAPH_SCHEMA } from './task-graph-schema';
+
+/**
+ * Task as rendered: the preview task fields plus Taskmaster's planning fields
+ */
+export interface RenderableTask extends MarkdownTask {
+  subtasks?: RenderableTask[];
+  repository?: string;
+  estimate?: number;
+  milestone?: string;
+}
+
+/**
+ * Task graph as rendered; Taskmaster output and preview task graphs both fit
+ */
+export interface RenderableTaskGraph {
+  tasks: RenderableTask[];
+  metadata?: { [key: string]: any };
+}
+
+/**
+ * Options for rendering a task graph
+ */
+export interface TaskGraphRenderOptions {
+  /** Report title */
+  title?: string;
+  /** Issue numbers by task ID (`"1"`, `"1.2"`) */
+  issueNumbers?: Record<string, number>;
+  /** Levels of the task hierarchy drawn in dependency graphs */
+  maxDisplayDepth?: number;
+}
+
+/**
+ * A registered output format
+ */
+export interface TaskGraphRenderer {
+  /** Format name, e.g. `html` */
+  format: string;
+  description: string;
+  /** Suffix of rendered files, e.g. `.html` */
+  extension: string;
+  render: (taskGraph: RenderableTaskGraph, options: TaskGraphRenderOptions) => string;
+}
+
+/**
+ * Task with its place in the hierarchy
+ */
+interface TaskRow {
+  /** `"1"` for top-level tasks, `"1.2"` for subtasks */
+  taskId: string;
+  parentId?: string;
+  /** 1 for top-level tasks */
+  depth: number;
+  task: RenderableTask;
+  /** Task IDs this task depends on */
+  dependencies: string[];
+  complexity: number;
+}
+
+const DEFAULT_REPORT_TITLE = 'Task Graph Report';
+
+/**
+ * Largest diagram Mermaid renders with its default `maxTextSize`
+ */
+const MERMAID_MAX_TEXT_SIZE = 50000;
+
+const PRIORITY_RANK: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function taskRows(tasks: RenderableTask[], parentId?: string, depth = 1): TaskRow[] {
+  const rows: TaskRow[] = [];
+  for (const task of tasks || []) {
+    const taskId = parentId ? `${parentId}.${task.id}` : String(task.id);
+    rows.push({
+      taskId,
+      parentId,
+      depth,
+      task,
+      dependencies: (task.dependencies || []).map(depId => parentId ? `${parentId}.${depId}` : String(depId)),
+      complexity: task.complexityScore ?? calculateComplexityForTask(task)
+    });
+    rows.push(...taskRows(task.subtasks || [], taskId, depth + 1));
+  }
+  return rows;
+}
+
+/**
+ * Registry of task graph output formats
+ */
+export class TaskGraphRendererRegistry {
+  private renderers: Map<string, TaskGraphRenderer> = new Map();
+
+  /**
+   * Register a format; names are case-insensitive and must be unique
+   */
+  register(renderer: TaskGraphRenderer): this {
+    const format = renderer.format.toLowerCase();
+    if (this.renderers.has(format)) {
+      throw new Error(`Task graph format ${format} is already registered`);
+    }
+    this.renderers.set(format, renderer);
+    return this;
+  }
+
+  /**
+   * Registered renderer by format name
+   */
+  get(format: string): TaskGraphRenderer | undefined {
+    return this.renderers.get(format.toLowerCase());
+  }
+
+  /**
+   * Names of all registered formats
+   */
+  formats(): string[] {
+    return Array.from(this.renderers.keys());
+  }
+
+  /**
+   * All registered renderers
+   */
+  list(): TaskGraphRenderer[] {
+    return Array.from(this.renderers.values());
+  }
+
+  /**
+   * Render a task graph in a registered format
+   */
+  render(format: string, taskGraph: RenderableTaskGraph, options: TaskGraphRenderOptions = {}): string {
+    const renderer = this.get(format);
+    if (!renderer) {
+      throw new Error(`Unknown task graph format "${format}"; expected one of: ${this.formats().join(', ')}`);
+    }
+    return renderer.render(taskGraph, options);
+  }
+}
+
+/**
+ * Quote a CSV cell when needed (RFC 4180)
+ *
+ * Text starting with `=`, `+`, `-` or `@` is prefixed with `'` so
+ * spreadsheets do not evaluate it as a formula.
+ */
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a task graph as CSV, one row per task and subtask
+ */
+export function renderTaskGraphCsv(taskGraph: RenderableTaskGraph, options: TaskGraphRenderOptions = {}): string {
+  const header = ['id', 'parent', 'depth', 'title', 'description', 'priority', 'status', 'dependencies',
+    'complexity', 'estimate', 'repository', 'milestone', 'issue'];
+  const lines = [header.join(',')];
+  for (const row of taskRows(taskGraph.tasks)) {
+    lines.push([
+      row.taskId,
+      row.parentId,
+      row.depth,
+      row.task.title,
+      row.task.description,
+      row.task.priority,
+      row.task.status,
+      row.dependencies.join(';'),
+      row.complexity,
+      row.task.estimate,
+      row.task.repository,
+      row.task.milestone,
+      options.issueNumbers?.[row.taskId]
+    ].map(csvCell).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Sort key of a dotted task ID, so that 2 sorts before 10 and 1.2 after 1
+ */
+function taskIdSortKey(taskId: string): string {
+  return taskId.split('.').map(part => part.padStart(6, '0')).join('.');
+}
+
+const HTML_STYLE = `
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #24292f; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; cursor: pointer; user-select: none; white-space: nowrap; }
+    th[aria-sort="ascending"]::after { content: " ▲"; }
+    th[aria-sort="descending"]::after { content: " ▼"; }
+    td.description { color: #57606a; }
+    tr.blocked td:first-child { border-left: 4px solid #cb2431; }
+    tr.done td:first-child { border-left: 4px solid #28a745; }
+    .legend, .note { color: #57606a; font-size: 0.85rem; }`;
+
+// Sorts the table by the clicked column, using each cell's data-sort value
+const HTML_SORT_SCRIPT = `
+    document.querySelectorAll('#tasks th').forEach(function (th, column) {
+      th.addEventListener('click', function () {
+        var ascending = th.getAttribute('aria-sort') !== 'ascending';
+        document.querySelectorAll('#tasks th').forEach(function (other) { other.removeAttribute('aria-sort'); });
+        th.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+        var numeric = th.dataset.type === 'number';
+        var body = document.querySelector('#tasks tbody');
+        var rows = Array.prototype.slice.call(body.rows);
+        rows.sort(function (a, b) {
+          var x = a.cells[column].dataset.sort, y = b.cells[column].dataset.sort;
+          var order = numeric ? (parseFloat(x) || 0) - (parseFloat(y) || 0) : x.localeCompare(y);
+          return ascending ? order : -order;
+        });
+        rows.forEach(function (row) { body.appendChild(row); });
+      });
+    });`;
+
+/**
+ * Render a task graph as a standalone HTML report
+ *
+ * The task table sorts by any column without network access; the
+ * dependency graph is drawn by Mermaid, loaded from jsDelivr.
+ */
+export function renderTaskGraphHtml(taskGraph: RenderableTaskGraph, options: TaskGraphRenderOptions = {}): string {
+  const title = options.title || DEFAULT_REPORT_TITLE;
+  const rows = taskRows(taskGraph.tasks);
+  const isDone = (task: RenderableTask) => task.status === 'done' || task.status === 'completed';
+
+  const cell = (content: string, sort: string | number, className?: string) =>
+    `<td${className ? ` class="${className}"` : ''} data-sort="${escapeHtml(String(sort))}">${content}</td>`;
+  const tableRows = rows.map(row => {
+    const issueNumber = options.issueNumbers?.[row.taskId];
+    const className = isDone(row.task) ? 'done' : row.task.isBlocked ? 'blocked' : '';
+    return `        <tr${className ? ` class="${className}"` : ''}>` + [
+      cell(escapeHtml(row.taskId), taskIdSortKey(row.taskId)),
+      cell(escapeHtml(row.task.title), row.task.title),
+      cell(escapeHtml(row.task.description || ''), row.task.description || '', 'description'),
+      cell(escapeHtml(row.task.priority || ''), PRIORITY_RANK[(row.task.priority || '').toLowerCase()] ?? 4),
+      cell(escapeHtml(row.task.status || ''), row.task.status || ''),
+      cell(escapeHtml(row.dependencies.join(', ')), row.dependencies.map(taskIdSortKey).join(',')),
+      cell(String(row.complexity), row.complexity),
+      cell(row.task.estimate === undefined ? '' : String(row.task.estimate), row.task.estimate ?? ''),
+      cell(escapeHtml(row.task.milestone || ''), row.task.milestone || ''),
+      cell(issueNumber ? `#${issueNumber}` : '', issueNumber ?? '')
+    ].join('') + '</tr>';
+  });
+  const columns: Array<[string, 'number' | 'text']> = [
+    ['ID', 'text'], ['Title', 'text'], ['Description', 'text'], ['Priority', 'number'], ['Status', 'text'],
+    ['Dependencies', 'text'], ['Complexity', 'number'], ['Estimate', 'number'], ['Milestone', 'text'], ['Issue', 'number']
+  ];
+
+  const graph = renderMermaidFlowchart(taskGraph, {
+    maxLength: MERMAID_MAX_TEXT_SIZE,
+    issueNumbers: options.issueNumbers,
+    ...(options.maxDisplayDepth !== undefined ? { maxDisplayDepth: options.maxDisplayDepth } : {})
+  });
+  const graphSection = graph.flowchart
+    ? [
+      `  <pre class="mermaid">\n${escapeHtml(graph.flowchart)}\n  </pre>`,
+      '  <p class="legend">Arrows point from a task to the tasks depending on it; dotted links lead to subtasks. ' +
+        'Bold red: critical path · red: blocked · green: done · yellow: dependency cycle.</p>',
+      graph.shownTasks < graph.totalTasks
+        ? `  <p class="note">Showing ${graph.shownTasks} of ${graph.totalTasks} tasks; see the table for all of them.</p>`
+        : ''
+    ].filter(Boolean).join('\n')
+    : '  <p class="note">The dependency graph is too large to draw; see the table.</p>';
+
+  const generatedAt = taskGraph.metadata?.generatedAt || taskGraph.metadata?.generationTimestamp;
+  const topLevel = rows.filter(row => row.depth === 1).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLE}
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${rows.length} tasks (${topLevel} top-level, ${rows.length - topLevel} subtasks)${generatedAt ? `, generated ${escapeHtml(String(generatedAt))}` : ''}.</p>
+  <h2>Tasks</h2>
+  <table id="tasks">
+    <thead>
+      <tr>${columns.map(([name, type]) => `<th data-type="${type}">${name}</th>`).join('')}</tr>
+    </thead>
+    <tbody>
+${tableRows.join('\n')}
+    </tbody>
+  </table>
+  <h2>Dependency Graph</h2>
+${graphSection}
+  <script>${HTML_SORT_SCRIPT}
+  </script>
+  <script type="module">
+    import mermaid from 'https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs';
+    mermaid.initialize({ startOnLoad: true });
+  </script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Registry with the built-in formats; callers may register further ones on it
+ */
+export function createTaskGraphRendererRegistry(): TaskGraphRendererRegistry {
+  return new TaskGraphRendererRegistry()
+    .register({
+      format: 'markdown',
+      description: 'Markdown preview with its dependency graph',
+      extension: '.md',
+      render: (taskGraph, options) => formatTaskGraphMarkdown(taskGraph, {
+        includeDependencyGraph: true,
+        ...(options.maxDisplayDepth !== undefined ? { maxDisplayDepth: options.maxDisplayDepth } : {})
+      })
+    })
+    .register({
+      format: 'html',
+      description: 'Standalone HTML report with a sortable task table and dependency graph',
+      extension: '.html',
+      render: renderTaskGraphHtml
+    })
+    .register({
+      format: 'csv',
+      description: 'CSV with one row per task and subtask',
+      extension: '.csv',
+      render: renderTaskGraphCsv
+    })
+    .register({
+      format: 'json-schema',
+      description: 'JSON Schema task graphs are validated against',
+      extension: '.schema.json',
+      render: () => `${JSON.stringify(TASK_GRAPH_SCHEMA, null, 2)}\n`
+    });
+}
+
+/**
+ * Render a task graph in several formats next to its JSON file
+ *
+ * `task-graph.json` yields `task-graph.html`, `task-graph.csv` and so on.
+ * Returns the written file paths by format.
+ */
+export function writeTaskGraphReports(
+  taskGraph: RenderableTaskGraph,
+  taskGraphPath: string,
+  formats: string[],
+  options: TaskGraphRenderOptions = {},
+  registry: TaskGraphRendererRegistry = createTaskGraphRendererRegistry()
+): Record<string, string> {
+  const basePath = path.join(path.dirname(taskGraphPath), path.basename(taskGraphPath, '.json'));
+  const written: Record<string, string> = {};
+  for (const format of formats) {
+    const renderer = registry.get(format);
+    if (!renderer) {
+      throw new Error(`Unknown task graph format "${format}"; expected one of: ${registry.formats().join(', ')}`);
+    }
+    const reportPath = `${basePath}${renderer.extension}`;
+    fs.writeFileSync(reportPath, renderer.render(taskGraph, options), 'utf8');
+    written[renderer.format] = reportPath;
+  }
+  return written;
+}
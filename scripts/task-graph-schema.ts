@@ -0,0 +1,270 @@
+/**
+ * Task Graph Schema
+ *
+ * Published JSON Schema (draft 2020-12) of the task graph the Taskmaster CLI
+ * writes, and the small validator `validateTaskGraphSchema` runs it with.
+ *
+ * The validator covers the keywords the schema uses: `$ref` to `$defs`,
+ * `type`, `required`, `properties`, `items`, `enum`, `anyOf`, `pattern`,
+ * `format` (`date`, `date-time`), `minLength` and `minimum`. The
+ * `errorMessage` keyword, as in ajv-errors, replaces the messages of a
+ * failing schema with a single one.
+ */
+
+/**
+ * JSON types as named by JSON Schema
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Subset of JSON Schema understood by `validateAgainstSchema`
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  pattern?: string;
+  format?: 'date' | 'date-time';
+  minLength?: number;
+  minimum?: number;
+  /** Message reported instead of this schema's own violations */
+  errorMessage?: string;
+}
+
+/**
+ * A value not matching its schema
+ */
+export interface SchemaViolation {
+  /** Property names and array indexes leading to the value */
+  path: Array<string | number>;
+  /** Schema keyword that failed */
+  keyword: string;
+  /** Missing property, for `required` */
+  property?: string;
+  message: string;
+}
+
+/**
+ * JSON Schema of a task graph
+ */
+export const TASK_GRAPH_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'task-graph.schema.json',
+  title: 'Taskmaster task graph',
+  description: 'Tasks generated from a PRD by the Taskmaster CLI, with their subtasks, dependencies and milestones',
+  type: 'object',
+  required: ['tasks', 'metadata'],
+  properties: {
+    tasks: {
+      description: 'Top-level tasks',
+      type: 'array',
+      items: { $ref: '#/$defs/task' }
+    },
+    milestones: {
+      description: 'Milestones (phases or releases) tasks are assigned to',
+      type: 'array',
+      items: { $ref: '#/$defs/milestone' }
+    },
+    metadata: {
+      description: 'Metadata about the task generation',
+      type: 'object',
+      properties: {
+        version: { type: 'string' },
+        generatedAt: { type: 'string' },
+        source: { type: 'string' },
+        complexity: { type: 'number' },
+        totalTasks: { type: 'integer', minimum: 0 }
+      }
+    }
+  },
+  $defs: {
+    task: {
+      type: 'object',
+      required: ['id', 'title', 'description'],
+      properties: {
+        id: { description: 'Task ID, unique among its siblings', type: 'number' },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        details: { type: 'string' },
+        testStrategy: { type: 'string' },
+        priority: { type: 'string' },
+        status: { type: 'string' },
+        dependencies: {
+          description: 'IDs of sibling tasks this task depends on',
+          type: 'array',
+          items: { type: 'number' }
+        },
+        subtasks: { type: 'array', items: { $ref: '#/$defs/task' } },
+        repository: {
+          description: 'Target repository; subtasks inherit their parent\'s',
+          type: 'string',
+          pattern: '^\\s*[A-Za-z0-9_.-]+/[A-Za-z0-9_.-]+\\s*$',
+          errorMessage: 'must be an "owner/repo" string'
+        },
+        estimate: { description: 'Effort estimate, copied to the project board\'s Estimate field', type: 'number' },
+        milestone: {
+          description: 'Title of the milestone the task\'s issue is assigned to',
+          type: 'string',
+          pattern: '\\S',
+          errorMessage: 'must be a non-empty string'
+        }
+      }
+    },
+    milestone: {
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        dueOn: {
+          anyOf: [{ type: 'string', format: 'date' }, { type: 'string', format: 'date-time' }],
+          errorMessage: 'must be an ISO 8601 date'
+        },
+        tasks: { description: 'IDs of top-level tasks in the milestone', type: 'array', items: { type: 'number' } },
+        priorities: { description: 'Task priorities in the milestone', type: 'array', items: { type: 'string' } }
+      }
+    }
+  }
+};
+
+const FORMATS: Record<NonNullable<JsonSchema['format']>, { test: (value: string) => boolean; message: string }> = {
+  date: {
+    test: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+    message: 'must be a date (YYYY-MM-DD)'
+  },
+  'date-time': {
+    test: value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !isNaN(Date.parse(value)),
+    message: 'must be an ISO 8601 date-time'
+  }
+};
+
+function jsonType(value: unknown): JsonSchemaType | undefined {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonSchemaType;
+  return undefined;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Schema a local `$ref` (`#/$defs/task`) points to
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const target = ref.startsWith('#/')
+    ? ref.slice(2).split('/')
+      .map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<any>((node, key) => node?.[key], root)
+    : undefined;
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Cannot resolve schema reference ${ref}`);
+  }
+  return target;
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: Array<string | number>,
+  violations: SchemaViolation[]
+): void {
+  const own: SchemaViolation[] = [];
+  const fail = (keyword: string, message: string, property?: string) =>
+    own.push({ path, keyword, message, ...(property !== undefined ? { property } : {}) });
+
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref, root), root, path, own);
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail('type', `must be ${types.map(type => type === 'integer' || type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`).join(' or ')}`);
+  } else {
+    if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+      fail('enum', `must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+    }
+
+    if (schema.anyOf) {
+      const attempts = schema.anyOf.map(branch => {
+        const branchViolations: SchemaViolation[] = [];
+        validateNode(value, branch, root, path, branchViolations);
+        return branchViolations;
+      });
+      if (attempts.every(attempt => attempt.length > 0)) {
+        fail('anyOf', attempts.map(attempt => attempt[0].message).join(', or '));
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        fail('minLength', schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        fail('pattern', `must match ${schema.pattern}`);
+      }
+      if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+        fail('format', FORMATS[schema.format].message);
+      }
+    }
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `must be at least ${schema.minimum}`);
+    }
+
+    if (jsonType(value) === 'object') {
+      const object = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (object[key] === undefined) {
+          fail('required', `must have a "${key}" property`, key);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (object[key] !== undefined) {
+          validateNode(object[key], propertySchema, root, [...path, key], own);
+        }
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, root, [...path, index], own));
+    }
+  }
+
+  if (schema.errorMessage && own.length > 0) {
+    violations.push({ path, keyword: own[0].keyword, message: schema.errorMessage });
+  } else {
+    violations.push(...own);
+  }
+}
+
+/**
+ * Check a value against a JSON Schema
+ *
+ * `$ref`s resolve against `root`, the schema itself by default.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateNode(value, schema, root, [], violations);
+  return violations;
+}
+
+/**
+ * JSON pointer (RFC 6901) of a violation path: `/tasks/0/subtasks/1/title`
+ */
+export function toJsonPointer(path: Array<string | number>): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
@@ -0,0 +1,226 @@
+/**
+ * Task Graph Validation
+ *
+ * Strict validation of Taskmaster task graphs before any issue is created:
+ * the JSON Schema in `task-graph-schema.ts` first, then the dependency rules
+ * a schema cannot express. Every issue found carries the JSON pointer
+ * (RFC 6901) of the offending value, a code and a severity; errors reject
+ * the task graph, warnings are only reported.
+ *
+ * Dependencies are sibling-relative, as when issues are created: a subtask's
+ * `dependencies` name other subtasks of the same parent, so subtask 2 of
+ * task 1 is known as `1.2` in messages.
+ */
+
+import { TASK_GRAPH_SCHEMA, validateAgainstSchema, toJsonPointer, type SchemaViolation } from './task-graph-schema';
+import { DependencyGraphAnalyzer, type DependencyNode, type DependencyNodeKey } from './issue-parser';
+import type { Task, TaskGraph } from './output-validation';
+
+/**
+ * Severity of a task graph issue; only errors make a task graph invalid
+ */
+export type TaskGraphIssueSeverity = 'error' | 'warning';
+
+/**
+ * Kind of task graph issue
+ */
+export type TaskGraphIssueCode =
+  // Schema violations
+  | 'invalid-type'
+  | 'missing-property'
+  | 'invalid-value'
+  | 'invalid-format'
+  // Dependency errors
+  | 'duplicate-id'
+  | 'unknown-dependency'
+  | 'self-dependency'
+  | 'ancestor-dependency'
+  | 'dependency-cycle'
+  // Warnings
+  | 'duplicate-dependency'
+  | 'unknown-milestone-task';
+
+/**
+ * A problem found in a task graph
+ */
+export interface TaskGraphIssue {
+  /** JSON pointer of the offending value; `''` for the task graph itself */
+  pointer: string;
+  code: TaskGraphIssueCode;
+  severity: TaskGraphIssueSeverity;
+  message: string;
+}
+
+/**
+ * Result of validating a task graph
+ */
+export interface TaskGraphValidationResult {
+  /** Whether the task graph has no errors */
+  valid: boolean;
+  /** Errors and warnings in document order, schema violations first */
+  issues: TaskGraphIssue[];
+  /** Errors formatted by `formatTaskGraphIssue` */
+  errors: string[];
+  /** Warnings formatted by `formatTaskGraphIssue` */
+  warnings: string[];
+}
+
+const SCHEMA_ISSUE_CODES: Record<string, TaskGraphIssueCode> = {
+  type: 'invalid-type',
+  required: 'missing-property',
+  enum: 'invalid-value',
+  minLength: 'invalid-value',
+  minimum: 'invalid-value',
+  pattern: 'invalid-format',
+  format: 'invalid-format',
+  anyOf: 'invalid-format'
+};
+
+function schemaIssue(violation: SchemaViolation): TaskGraphIssue {
+  // Point at the missing property rather than the object lacking it
+  if (violation.keyword === 'required' && violation.property !== undefined) {
+    return {
+      pointer: toJsonPointer([...violation.path, violation.property]),
+      code: 'missing-property',
+      severity: 'error',
+      message: 'is required'
+    };
+  }
+  return {
+    pointer: toJsonPointer(violation.path),
+    code: SCHEMA_ISSUE_CODES[violation.keyword] || 'invalid-value',
+    severity: 'error',
+    message: violation.message
+  };
+}
+
+/**
+ * Check the tasks of one sibling group, then their subtasks
+ *
+ * `ancestors` are the tasks containing the group, outermost first; a
+ * dependency no sibling satisfies falls back to the top-level task IDs.
+ */
+function checkTasks(
+  tasks: Task[],
+  pointer: string,
+  ancestors: Array<{ task: Task; key: string }>,
+  graph: Map<DependencyNodeKey, DependencyNode>,
+  edgePointers: Map<string, string>,
+  issues: TaskGraphIssue[],
+  topLevelIds: Set<number>
+): void {
+  const parentKey = ancestors.length > 0 ? ancestors[ancestors.length - 1].key : undefined;
+  const keyOf = (id: number) => parentKey ? `${parentKey}.${id}` : String(id);
+  const firstIndex = new Map<number, number>();
+
+  tasks.forEach((task, index) => {
+    if (firstIndex.has(task.id)) {
+      issues.push({
+        pointer: `${pointer}/${index}/id`,
+        code: 'duplicate-id',
+        severity: 'error',
+        message: `task ID ${keyOf(task.id)} is already used by ${pointer}/${firstIndex.get(task.id)}`
+      });
+    } else {
+      firstIndex.set(task.id, index);
+    }
+  });
+
+  tasks.forEach((task, index) => {
+    const taskPointer = `${pointer}/${index}`;
+    const key = keyOf(task.id);
+    // Duplicated tasks are reported once, and take no part in the graph
+    const inGraph = firstIndex.get(task.id) === index;
+    const dependencies: DependencyNodeKey[] = [];
+    const seen = new Set<number>();
+
+    (task.dependencies || []).forEach((depId, depIndex) => {
+      const depPointer = `${taskPointer}/dependencies/${depIndex}`;
+      const ancestor = ancestors.find(candidate => candidate.task.id === depId);
+
+      if (seen.has(depId)) {
+        issues.push({ pointer: depPointer, code: 'duplicate-dependency', severity: 'warning', message: `task ${key} already depends on ${keyOf(depId)}` });
+      } else if (depId === task.id) {
+        issues.push({ pointer: depPointer, code: 'self-dependency', severity: 'error', message: `task ${key} depends on itself` });
+      } else if (firstIndex.has(depId)) {
+        dependencies.push(keyOf(depId));
+        edgePointers.set(`${key}>${keyOf(depId)}`, depPointer);
+      } else if (ancestor) {
+        issues.push({
+          pointer: depPointer,
+          code: 'ancestor-dependency',
+          severity: 'error',
+          message: `subtask ${key} depends on its ancestor ${ancestor.key}`
+        });
+      } else if (topLevelIds.has(depId)) {
+        // Issue creation links a subtask to the top-level task when no sibling has the ID
+        dependencies.push(String(depId));
+        edgePointers.set(`${key}>${depId}`, depPointer);
+      } else {
+        issues.push({ pointer: depPointer, code: 'unknown-dependency', severity: 'error', message: `task ${keyOf(depId)} does not exist` });
+      }
+      seen.add(depId);
+    });
+
+    if (inGraph) {
+      graph.set(key, { id: key, dependencies, dependents: [], status: task.status || 'pending', priority: task.priority || 'medium' });
+    }
+
+    if (task.subtasks && task.subtasks.length > 0) {
+      checkTasks(task.subtasks, `${taskPointer}/subtasks`, [...ancestors, { task, key }], graph, edgePointers, issues, topLevelIds);
+    }
+  });
+}
+
+/**
+ * Validate a task graph against its schema and dependency rules
+ *
+ * Dependency rules are only checked once the schema is satisfied, as they
+ * rely on the shape it guarantees.
+ */
+export function validateTaskGraphStrict(data: unknown): TaskGraphValidationResult {
+  const issues = validateAgainstSchema(data, TASK_GRAPH_SCHEMA).map(schemaIssue);
+
+  if (issues.length === 0) {
+    const taskGraph = data as TaskGraph;
+    const graph = new Map<DependencyNodeKey, DependencyNode>();
+    const edgePointers = new Map<string, string>();
+    checkTasks(taskGraph.tasks, '/tasks', [], graph, edgePointers, issues, new Set(taskGraph.tasks.map(task => task.id)));
+
+    for (const { cycle } of DependencyGraphAnalyzer.detectCircularDependencies(graph)) {
+      // Each cycle entry depends on the next one; report the dependency closing the cycle
+      const closing = `${cycle[cycle.length - 2]}>${cycle[cycle.length - 1]}`;
+      issues.push({
+        pointer: edgePointers.get(closing) || '/tasks',
+        code: 'dependency-cycle',
+        severity: 'error',
+        message: `dependency cycle ${cycle.join(' → ')}`
+      });
+    }
+
+    const taskIds = new Set(taskGraph.tasks.map(task => task.id));
+    (taskGraph.milestones || []).forEach((milestone, milestoneIndex) => {
+      (milestone.tasks || []).forEach((taskId, taskIndex) => {
+        if (!taskIds.has(taskId)) {
+          issues.push({
+            pointer: `/milestones/${milestoneIndex}/tasks/${taskIndex}`,
+            code: 'unknown-milestone-task',
+            severity: 'warning',
+            message: `task ${taskId} does not exist`
+          });
+        }
+      });
+    });
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').map(formatTaskGraphIssue);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(formatTaskGraphIssue);
+  return { valid: errors.length === 0, issues, errors, warnings };
+}
+
+/**
+ * Issue as written in logs: `/tasks/0/dependencies/1: task 7 does not exist [unknown-dependency]`
+ */
+export function formatTaskGraphIssue(issue: TaskGraphIssue): string {
+  return `${issue.pointer || '(root)'}: ${issue.message} [${issue.code}]`;
+}
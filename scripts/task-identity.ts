@@ -0,0 +1,212 @@
+/**
+ * Task Identity
+ *
+ * Gives every generated issue a stable task key so it can be found again
+ * after its task is retitled in the PRD:
+ * - The key is written to the issue body's YAML front-matter (`key: ...`)
+ * - Lookups resolve by key first and only then fall back to the title
+ * - Issues created before keys existed are matched once by title
+ *   similarity or description hash, after which they carry a key
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { parseYamlFrontMatter, parseContentSections } from './issue-parser';
+
+/**
+ * Minimum title similarity for a fuzzy match when descriptions differ
+ */
+export const DEFAULT_TITLE_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Task as seen by the fuzzy matcher
+ */
+export interface TaskMatchCandidate {
+  /** Task title, with or without the generated `[id]` prefix */
+  title: string;
+  /** Task description */
+  description?: string;
+}
+
+/**
+ * Minimal issue shape needed for matching
+ */
+export interface MatchableIssue {
+  title: string;
+  body?: string | null;
+}
+
+/**
+ * Result of fuzzy matching a task against existing issues
+ */
+export interface TaskMatch<T extends MatchableIssue> {
+  /** Best matching issue */
+  issue: T;
+  /** Similarity score between 0 and 1 */
+  score: number;
+  /** What the match was based on */
+  reason: 'description' | 'title';
+}
+
+/**
+ * Fuzzy matching options
+ */
+export interface TaskMatchOptions {
+  /** Minimum title similarity to accept a title-only match */
+  titleThreshold?: number;
+}
+
+/**
+ * Build the stable key for a task
+ *
+ * The key is the task graph ID ("1" or "1.2"), qualified by a scope such as
+ * the PRD namespace or the parent issue when tasks from several sources share
+ * a repository.
+ *
+ * Keys follow the task graph's positional IDs: a key survives retitling and
+ * rewording, but when tasks are inserted and Taskmaster renumbers the graph,
+ * a key moves to whichever task now carries that ID and its issue is
+ * rewritten for that task. Append new tasks instead of inserting them to
+ * keep existing issues attached to their original tasks.
+ */
+export function buildTaskKey(taskId: string | number, scope?: string): string {
+  return scope ? `${scope}/${taskId}` : String(taskId);
+}
+
+/**
+ * Derive the namespace of a PRD's issues from its path relative to the
+ * repository root (e.g. docs/billing.prd.md -> docs-billing)
+ *
+ * Every PRD is namespaced, and only by its own path, so adding or removing
+ * another PRD never changes the titles or task keys of existing issues.
+ * Issues created before namespaces were always applied are retitled once
+ * (`[1] ...` becomes `[docs-billing:1] ...`) when their PRD is next processed.
+ */
+export function buildPrdNamespace(prdFile: string, root: string = process.cwd()): string {
+  return path.relative(root, path.resolve(root, prdFile))
+    .toLowerCase()
+    .replace(/(\.prd)?\.md$/i, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'prd';
+}
+
+/**
+ * YAML front-matter line for a task key
+ *
+ * The key is always quoted so IDs like "1.10" are not read back as numbers.
+ */
+export function buildTaskKeyLine(key: string): string {
+  return `key: ${JSON.stringify(key)}`;
+}
+
+/**
+ * Read the task key from an issue body's YAML front-matter
+ */
+export function extractTaskKey(body: string | null | undefined): string | undefined {
+  if (!body) return undefined;
+
+  const key = parseYamlFrontMatter(body).key;
+  if (key === undefined || key === null || key === '') {
+    return undefined;
+  }
+  return String(key);
+}
+
+/**
+ * Normalize a title for comparison: drops generated `[..]` prefixes
+ * (priority, namespace, task ID), case, punctuation and extra whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .replace(/^(\s*\[[^\]]*\]\s*)+/, '')
+    .toLowerCase()
+    // Whitespace, punctuation and symbol ranges; Unicode property escapes need an ES2018 target
+    .replace(/[\s!-\/:-@\[-`{-~\u00a0-\u00bf\u00d7\u00f7\u2000-\u2bff\u3000-\u303f\ud800-\udfff\ufe00-\ufe0f\uff01-\uff0f]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Similarity of two titles between 0 (unrelated) and 1 (identical after normalization)
+ */
+export function calculateTitleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+
+  if (left === right) return 1;
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+
+  return 1 - levenshteinDistance(left, right) / longest;
+}
+
+/**
+ * Hash a task description, ignoring case and whitespace differences
+ */
+export function calculateDescriptionHash(description: string): string {
+  const normalized = description.toLowerCase().replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+}
+
+/**
+ * Extract the task description from a generated issue body
+ */
+export function extractIssueDescription(body: string | null | undefined): string | undefined {
+  if (!body) return undefined;
+
+  const sections = parseContentSections(body);
+  const description = sections.description || sections.details;
+  return description ? description.trim() : undefined;
+}
+
+/**
+ * Find the issue most likely to belong to a task that has no key yet
+ *
+ * An identical description hash wins outright; otherwise the most similar
+ * title above the threshold is used. Issues that already carry a task key
+ * belong to another task and are never matched.
+ */
+export function findBestTaskMatch<T extends MatchableIssue>(
+  task: TaskMatchCandidate,
+  issues: T[],
+  options: TaskMatchOptions = {}
+): TaskMatch<T> | null {
+  const threshold = options.titleThreshold ?? DEFAULT_TITLE_SIMILARITY_THRESHOLD;
+  const descriptionHash = task.description ? calculateDescriptionHash(task.description) : undefined;
+
+  let best: TaskMatch<T> | null = null;
+
+  for (const issue of issues) {
+    if (extractTaskKey(issue.body)) continue;
+
+    const score = calculateTitleSimilarity(task.title, issue.title);
+    const issueDescription = extractIssueDescription(issue.body);
+
+    if (descriptionHash && issueDescription && calculateDescriptionHash(issueDescription) === descriptionHash) {
+      if (!best || best.reason !== 'description' || score > best.score) {
+        best = { issue, score, reason: 'description' };
+      }
+      continue;
+    }
+
+    if (score >= threshold && (!best || (best.reason === 'title' && score > best.score))) {
+      best = { issue, score, reason: 'title' };
+    }
+  }
+
+  return best;
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared assertion helpers for the standalone ts-node test scripts
+ *
+ * `check` logs one result line per assertion and counts failures;
+ * `finishChecks` prints the suite summary and exits non-zero on failure.
+ */
+
+let failures = 0;
+
+export function check(description: string, condition: boolean, details?: string) {
+  if (condition) {
+    console.log(`  ✅ ${description}`);
+  } else {
+    console.log(`  ❌ ${description}${details ? `: ${details}` : ''}`);
+    failures++;
+  }
+}
+
+export function finishChecks(suite: string) {
+  if (failures === 0) {
+    console.log(`✅ All ${suite} tests passed!`);
+  } else {
+    console.log(`❌ ${failures} ${suite} test(s) failed`);
+    process.exit(1);
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import { parseIssueBody, type ParsedDependency } from '../scripts/issue-parser';
+import { dependencyLabelsForParsed as updateDependencyLabels } from '../scripts/dependency-policy';
 
 /**
  * Mock issue interface for testing
@@ -16,29 +17,6 @@ interface MockIssue {
   labels?: Array<{ name: string }>;
 }
 
-/**
- * Helper to update issue labels based on dependency status (from watcher action)
- */
-function updateDependencyLabels(dependencies: ParsedDependency[]): string[] {
-  const additionalLabels: string[] = [];
-  
-  if (dependencies.length === 0) {
-    return additionalLabels;
-  }
-  
-  const openDependencies = dependencies.filter(dep => !dep.completed);
-  
-  if (openDependencies.length > 0) {
-    additionalLabels.push('blocked');
-    additionalLabels.push(`blocked-by:${openDependencies.length}`);
-  } else {
-    // All dependencies are closed, task is ready
-    additionalLabels.push('ready');
-  }
-  
-  return additionalLabels;
-}
-
 /**
  * Find issues that can be unblocked by closing a specific issue
  */
@@ -0,0 +1,205 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test that re-running a breakdown is recognized instead of duplicating sub-issues
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createGitHubApiClient } from '../scripts/github-api';
+import { IdempotencyManager } from '../scripts/idempotency-manager';
+import { stripBreakdownSections } from '../scripts/parent-issue-state-manager';
+import { DEFAULT_CONFIG } from '../scripts/config-management';
+import { OBSOLETE_LABEL } from '../scripts/issue-reconciliation';
+import {
+  breakdownIssue,
+  breakdownRunMarker,
+  describeBreakdownDecision,
+  extractBreakdownRunKey,
+  retireSubIssues,
+  BreakdownDecision
+} from '../actions/taskmaster-breakdown/src/breakdown';
+import { check, finishChecks } from './check-harness';
+
+const DESCRIPTION = `## Description
+
+Build checkout`;
+
+function breakdownSections(runKey: string): string {
+  return `
+
+## Breakdown Status
+✅ **Completed**
+
+**Progress:** 0/2 subtasks completed (0%)
+
+## Breakdown Summary
+Generated 2 sub-issues from breakdown command:
+- [ ] #11 Cart
+- [ ] #12 Payment
+
+${breakdownRunMarker(runKey)}
+*Breakdown executed on 2026-10-01T00:00:00.000Z with max-depth=2, complexity-threshold=40*
+`;
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake repository
+ *
+ * Issue #1 was broken down into #11 and #12; #13 lives in another repository.
+ */
+function createMockRepository(parentBody: string) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const issues = new Map<number, any>();
+  const subIssues = new Map<number, number[]>([[1, [11, 12, 13]]]);
+  const updates: number[] = [];
+
+  const addIssue = (number: number, fields: any) => issues.set(number, {
+    number, id: 1000 + number, node_id: `I_${number}`, state: 'open', title: `Issue ${number}`, body: '', labels: [],
+    repository_url: 'https://api.github.com/repos/acme/web', ...fields
+  });
+  addIssue(1, { body: parentBody, labels: [{ name: 'breakdown-completed' }] });
+  addIssue(11, { body: '---\nkey: "issue-1/1"\n---\n\nCart', labels: [{ name: 'breakdown-generated' }, { name: 'blocked' }] });
+  addIssue(12, { body: '---\nkey: "issue-1/2"\n---\n\nPayment', labels: [{ name: 'breakdown-generated' }] });
+  addIssue(13, { body: '---\nkey: "issue-1/3"\n---\n\nAPI', repository_url: 'https://api.github.com/repos/acme/api' });
+
+  (client as any).octokit = {
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: issues.get(issue_number) }),
+      update: async ({ issue_number, labels, ...params }: any) => {
+        updates.push(issue_number);
+        Object.assign(issues.get(issue_number), params, labels ? { labels: labels.map((name: string) => ({ name })) } : {});
+        return { data: issues.get(issue_number) };
+      }
+    },
+    request: async (route: string, params: any) => {
+      const [method] = route.split(' ');
+      const list = subIssues.get(params.issue_number) || [];
+      if (method === 'GET') {
+        return { data: list.map(n => issues.get(n)) };
+      }
+      subIssues.set(params.issue_number, list.filter(n => n !== params.sub_issue_id - 1000));
+      return { data: {} };
+    }
+  };
+
+  return { client, issues, subIssues, updates };
+}
+
+function createManager(): { manager: IdempotencyManager; statePath: string } {
+  const statePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'breakdown-idempotency-')), 'idempotency-state.json');
+  return { manager: new IdempotencyManager(statePath), statePath };
+}
+
+function testRunKeys() {
+  console.log('🧪 Testing breakdown run keys...');
+
+  const { manager } = createManager();
+  const key = manager.calculateBreakdownRunKey(1, DESCRIPTION, { maxDepth: 2, complexityThreshold: 40 });
+
+  check('runs with the same body and arguments share a key',
+    key === manager.calculateBreakdownRunKey(1, DESCRIPTION, { complexityThreshold: 40, maxDepth: 2 }));
+  check('sections written by the breakdown do not change the key',
+    key === manager.calculateBreakdownRunKey(1, stripBreakdownSections(DESCRIPTION + breakdownSections('0123456789abcdef')), { maxDepth: 2, complexityThreshold: 40 }));
+  check('edited bodies change the key', key !== manager.calculateBreakdownRunKey(1, `${DESCRIPTION}, with coupons`, { maxDepth: 2, complexityThreshold: 40 }));
+  check('other arguments change the key', key !== manager.calculateBreakdownRunKey(1, DESCRIPTION, { maxDepth: 3, complexityThreshold: 40 }));
+  check('other issues change the key', key !== manager.calculateBreakdownRunKey(2, DESCRIPTION, { maxDepth: 2, complexityThreshold: 40 }));
+  check('the key is read back from the summary marker', extractBreakdownRunKey(DESCRIPTION + breakdownSections(key)) === key);
+  check('bodies without a marker have no key', extractBreakdownRunKey(DESCRIPTION) === undefined);
+
+  console.log('');
+}
+
+function testRunRecords() {
+  console.log('🧪 Testing breakdown run records...');
+
+  const { manager, statePath } = createManager();
+  const args = { maxDepth: 2, complexityThreshold: 40 };
+
+  manager.beginTransaction();
+  const runKey = manager.recordBreakdownStart(1, DESCRIPTION, args);
+  manager.recordBreakdownComplete(runKey, [11, 12]);
+  manager.commitTransaction();
+
+  const reloaded = new IdempotencyManager(statePath).getLatestBreakdownRun(1);
+  check('completed runs are saved', reloaded?.runKey === runKey && reloaded.status === 'completed' &&
+    JSON.stringify(reloaded.subIssueNumbers) === '[11,12]' && reloaded.lastProcessed instanceof Date, JSON.stringify(reloaded));
+
+  manager.beginTransaction();
+  const failedKey = manager.recordBreakdownStart(1, `${DESCRIPTION}, with coupons`, args);
+  manager.recordBreakdownComplete(failedKey, [], 'CLI crashed');
+  manager.rollbackTransaction();
+  check('rolled back runs are forgotten', manager.getLatestBreakdownRun(1)?.runKey === runKey);
+
+  let outsideTransaction = false;
+  try {
+    manager.recordBreakdownStart(1, DESCRIPTION, args);
+  } catch {
+    outsideTransaction = true;
+  }
+  check('runs are only recorded in a transaction', outsideTransaction);
+
+  fs.writeFileSync(statePath, JSON.stringify({ prds: {}, issues: {}, transactions: {}, version: '1.0.0', lastUpdated: new Date() }));
+  check('state saved before runs were tracked still loads', new IdempotencyManager(statePath).getStateSummary().totalBreakdowns === 0);
+
+  console.log('');
+}
+
+function testDescriptions() {
+  console.log('🧪 Testing decision reports...');
+
+  const decision = (fields: Partial<BreakdownDecision>): BreakdownDecision =>
+    ({ mode: 'create', runKey: 'abc', created: [], updated: [], unchanged: [], retired: [], ...fields });
+
+  check('no-ops explain how to break down again',
+    describeBreakdownDecision(1, decision({ mode: 'noop', unchanged: [11, 12] })).includes('its 2 sub-issues were left as they are') &&
+    describeBreakdownDecision(1, decision({ mode: 'noop' })).includes('`--replace`'));
+  check('updates list every change', describeBreakdownDecision(1, decision({ mode: 'update', created: [14], updated: [11], unchanged: [12], retired: [13] })) ===
+    'Updated the breakdown of #1: 1 sub-issues created, 1 updated, 1 unchanged and 1 retired.');
+  check('replacements count retired and created sub-issues',
+    describeBreakdownDecision(1, decision({ mode: 'replace', created: [14, 15], retired: [11, 12] })).includes('retired 2 sub-issues and created 2'));
+
+  console.log('');
+}
+
+async function testRerun() {
+  console.log('🧪 Testing re-runs...');
+
+  const { manager } = createManager();
+  const runKey = manager.calculateBreakdownRunKey(1, DESCRIPTION, { maxDepth: 2, complexityThreshold: 40 });
+  const repo = createMockRepository(DESCRIPTION + breakdownSections(runKey));
+
+  const result = await breakdownIssue(repo.client, 1, DEFAULT_CONFIG, {
+    maxDepth: 2,
+    complexityThreshold: 40,
+    commandArgs: {},
+    idempotencyManager: manager
+  });
+  check('unchanged re-runs do nothing', result.decision.mode === 'noop' && result.createdSubIssues.length === 0 && repo.updates.length === 0,
+    JSON.stringify(result.decision));
+  check('no-ops report the existing sub-issues', JSON.stringify(result.decision.unchanged) === '[11,12]' &&
+    result.decision.previousRunKey === runKey, JSON.stringify(result.decision));
+
+  const retired = await retireSubIssues(repo.client, 1);
+  check('replaced sub-issues are closed and labeled obsolete', JSON.stringify(retired) === '[11,12]' &&
+    repo.issues.get(11).state === 'closed' && repo.issues.get(11).labels.some((label: any) => label.name === OBSOLETE_LABEL) &&
+    !repo.issues.get(11).labels.some((label: any) => label.name === 'blocked'), JSON.stringify(repo.issues.get(11)));
+  check('sub-issues in other repositories are only unlinked', repo.subIssues.get(1)!.length === 0 && repo.issues.get(13).state === 'open');
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running breakdown idempotency tests...\n');
+
+  testRunKeys();
+  testRunRecords();
+  testDescriptions();
+  await testRerun();
+
+  finishChecks('breakdown idempotency');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,174 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test undoing a breakdown with /unbreakdown
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import { findHumanActivity, undoBreakdown } from '../scripts/breakdown-undo';
+import { createIssueCommandRegistry } from '../scripts/issue-commands';
+import { CommandContext } from '../scripts/command-registry';
+import { check, finishChecks } from './check-harness';
+
+const PARENT_BODY = `## Description
+
+Build checkout
+
+## Breakdown Status
+🚧 **In Progress**
+
+**Progress:** 0/2 subtasks completed (0%)
+**Last Updated:** 2026-10-01T00:00:00.000Z
+
+## Breakdown Summary
+Generated 2 sub-issues from breakdown command:
+- [ ] #11 Cart
+- [ ] #12 Payment
+
+*Breakdown executed on 2026-10-01T00:00:00.000Z with max-depth=2, complexity-threshold=40*
+`;
+
+/**
+ * Client whose octokit is replaced by an in-memory fake repository
+ *
+ * `activity` maps issue numbers to the GraphQL activity of that issue.
+ */
+function createMockRepository(permission: string, activity: Record<number, any> = {}) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const issues = new Map<number, any>();
+  const subIssues = new Map<number, number[]>([[1, [11, 12, 13]]]);
+  const calls: string[] = [];
+
+  const addIssue = (number: number, fields: any) => issues.set(number, {
+    number, id: 1000 + number, node_id: `I_${number}`, state: 'open', title: `Issue ${number}`, body: '', labels: [], ...fields
+  });
+  addIssue(1, { body: PARENT_BODY, labels: [{ name: 'taskmaster' }, { name: 'breakdown-completed' }, { name: 'has-subtasks' }] });
+  addIssue(11, { labels: [{ name: 'breakdown-generated' }, { name: 'blocked' }] });
+  addIssue(12, { labels: [{ name: 'breakdown-generated' }] });
+  addIssue(13, { labels: [] });
+
+  (client as any).octokit = {
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: issues.get(issue_number) }),
+      update: async ({ issue_number, labels, ...params }: any) => {
+        Object.assign(issues.get(issue_number), params, labels ? { labels: labels.map((name: string) => ({ name })) } : {});
+        return { data: issues.get(issue_number) };
+      },
+      lock: async ({ issue_number }: any) => {
+        calls.push(`lock:${issue_number}`);
+        return { data: {} };
+      }
+    },
+    repos: {
+      getCollaboratorPermissionLevel: async () => ({ data: { permission, role_name: permission } })
+    },
+    graphql: async (query: string, variables: any) => {
+      if (query.includes('deleteIssue')) {
+        calls.push(`delete:${variables.issueId}`);
+        return { deleteIssue: {} };
+      }
+      return {
+        viewer: { login: 'taskmaster-bot' },
+        repository: { issue: { editor: null, comments: { nodes: [] }, timelineItems: { nodes: [] }, ...activity[variables.number] } }
+      };
+    },
+    request: async (route: string, params: any) => {
+      const [method] = route.split(' ');
+      const list = subIssues.get(params.issue_number) || [];
+      if (method === 'GET') {
+        return { data: list.map(n => issues.get(n)) };
+      }
+      subIssues.set(params.issue_number, list.filter(n => n !== params.sub_issue_id - 1000));
+      return { data: {} };
+    }
+  };
+
+  const context: CommandContext = { githubApi: client, issueNumber: 1, actor: 'octocat' };
+  return { client, context, issues, subIssues, calls };
+}
+
+async function testHumanActivity() {
+  console.log('🧪 Testing human activity detection...');
+
+  const { client } = createMockRepository('write', {
+    11: { editor: { login: 'octocat', __typename: 'User' } },
+    12: { comments: { nodes: [{ author: { login: 'github-actions[bot]', __typename: 'Bot' } }, { author: { login: 'hubot', __typename: 'User' } }] } },
+    13: { editor: { login: 'taskmaster-bot', __typename: 'User' }, timelineItems: { nodes: [{ actor: { login: 'dependabot', __typename: 'Bot' } }] } }
+  });
+
+  check('human edits count as activity', await findHumanActivity(client, 11) === 'edited by @octocat');
+  check('human comments count as activity', await findHumanActivity(client, 12) === 'commented on by @hubot');
+  check('bots and the token user are automation', await findHumanActivity(client, 13) === null);
+
+  console.log('');
+}
+
+async function testUndoBreakdown() {
+  console.log('🧪 Testing breakdown undo...');
+
+  const repo = createMockRepository('write');
+  const result = await undoBreakdown(repo.client, 1);
+  check('sub-issues recorded by the breakdown are undone', result.undone && JSON.stringify(result.subIssueNumbers) === JSON.stringify([11, 12]),
+    JSON.stringify(result));
+  check('sub-issues are detached from the parent', JSON.stringify(repo.subIssues.get(1)) === JSON.stringify([13]));
+  check('sub-issues are closed as obsolete', repo.issues.get(11).state === 'closed' &&
+    JSON.stringify(repo.issues.get(11).labels.map((l: any) => l.name)) === JSON.stringify(['breakdown-generated', 'taskmaster:obsolete']));
+  check('other sub-issues are left alone', repo.issues.get(13).state === 'open');
+
+  const parent = repo.issues.get(1);
+  check('summary and status sections are stripped', parent.body.trim() === '## Description\n\nBuild checkout', JSON.stringify(parent.body));
+  check('breakdown labels are removed', JSON.stringify(parent.labels.map((l: any) => l.name)) === JSON.stringify(['taskmaster']));
+
+  const edited = createMockRepository('write', { 12: { editor: { login: 'octocat', __typename: 'User' } } });
+  const refused = await undoBreakdown(edited.client, 1);
+  check('edited sub-issues are refused', !refused.undone && refused.refused[0]?.number === 12);
+  check('nothing changes when refused', edited.issues.get(11).state === 'open' && edited.subIssues.get(1)?.length === 3);
+  check('force undoes anyway', (await undoBreakdown(edited.client, 1, { force: true })).undone);
+
+  const locked = createMockRepository('write');
+  await undoBreakdown(locked.client, 1, { lock: true });
+  check('closed sub-issues can be locked', JSON.stringify(locked.calls) === JSON.stringify(['lock:11', 'lock:12']));
+
+  const deleted = createMockRepository('admin');
+  await undoBreakdown(deleted.client, 1, { disposal: 'delete' });
+  check('sub-issues can be deleted', JSON.stringify(deleted.calls) === JSON.stringify(['delete:I_11', 'delete:I_12']));
+
+  console.log('');
+}
+
+async function testUnbreakdownCommand() {
+  console.log('🧪 Testing /unbreakdown command...');
+
+  const registry = createIssueCommandRegistry();
+  const repo = createMockRepository('write', { 11: { comments: { nodes: [{ author: { login: 'hubot', __typename: 'User' } }] } } });
+
+  const refused = await registry.dispatch('/unbreakdown', repo.context);
+  check('refusals are reported with --force hint', refused.status === 'failed' && refused.message.includes('#11 (commented on by @hubot)') &&
+    refused.message.includes('--force'), refused.message);
+
+  const forced = await registry.dispatch('/unbreakdown --force', repo.context);
+  check('--force undoes the breakdown', forced.status === 'succeeded' && forced.result?.issueNumbers?.length === 2, forced.message);
+
+  check('transfer needs a target repository', (await registry.dispatch('/unbreakdown --mode transfer', repo.context)).status === 'invalid');
+  check('lock only applies to closing', (await registry.dispatch('/unbreakdown --mode delete --lock', repo.context)).status === 'invalid');
+  check('unknown modes are invalid', (await registry.dispatch('/unbreakdown --mode archive', repo.context)).status === 'invalid');
+
+  const writer = createMockRepository('write');
+  const deleteResult = await registry.dispatch('/unbreakdown --mode delete', writer.context);
+  check('deleting needs admin permission', deleteResult.status === 'failed' && writer.calls.length === 0, deleteResult.message);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running breakdown undo tests...\n');
+
+  await testHumanActivity();
+  await testUndoBreakdown();
+  await testUnbreakdownCommand();
+
+  finishChecks('breakdown undo');
+}
+
+// Run tests
+runAllTests();
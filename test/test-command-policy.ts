@@ -0,0 +1,199 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the command policy consulted before comment commands run
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import {
+  CommandPolicy,
+  CommandPolicyConfig,
+  commandPolicyFromConfig,
+  parsePolicyList,
+  POLICY_DENIAL_MARKER,
+  TASKMASTER_COMMANDS
+} from '../scripts/command-policy';
+import { createIssueCommandRegistry } from '../scripts/issue-commands';
+import { DEFAULT_CONFIG } from '../scripts/config-management';
+import { check, finishChecks } from './check-harness';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+function policyConfig(overrides: Partial<CommandPolicyConfig> = {}): CommandPolicyConfig {
+  return {
+    minimumPermission: 'triage',
+    allowedTeams: [],
+    deniedTeams: [],
+    allowedLabels: [],
+    deniedLabels: [],
+    userCooldownMinutes: 0,
+    issueCooldownMinutes: 0,
+    maxSubIssues: 25,
+    commands: TASKMASTER_COMMANDS,
+    ...overrides
+  };
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake repository
+ *
+ * Issue #1 is labeled `taskmaster`; issue #2 has an earlier `/estimate` by
+ * hubot. `teams` maps `org/team` to its members.
+ */
+function createMockRepository(permissions: Record<string, string>, teams: Record<string, string[]> = {}) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const replies: Array<{ issue: number; body: string }> = [];
+  const issues = new Map<number, any>([
+    [1, { number: 1, title: 'Checkout', body: '## Details\n\n- Cart\n- Payment\n- Receipt', labels: [{ name: 'taskmaster' }], state: 'open' }],
+    [2, { number: 2, title: 'Search', body: '', labels: [{ name: 'do-not-breakdown' }], state: 'open' }]
+  ]);
+  const comments = new Map<number, any[]>([
+    [1, [
+      { id: 100, body: 'Looks good', user: { login: 'hubot' }, created_at: minutesAgo(2) },
+      { id: 101, body: '/split 2', user: { login: 'octocat' }, created_at: minutesAgo(0) }
+    ]],
+    [2, [{ id: 200, body: '/estimate', user: { login: 'hubot' }, created_at: minutesAgo(3) }]]
+  ]);
+
+  (client as any).octokit = {
+    users: {
+      getByUsername: async ({ username }: any) => ({ data: { login: username, id: 7, type: 'User' } })
+    },
+    repos: {
+      getCollaboratorPermissionLevel: async ({ username }: any) => {
+        const permission = permissions[username] || 'none';
+        return { data: { permission, role_name: permission } };
+      }
+    },
+    teams: {
+      getMembershipForUserInOrg: async ({ org, team_slug, username }: any) => {
+        if (!(teams[`${org}/${team_slug}`] || []).includes(username)) {
+          throw Object.assign(new Error('Not Found'), { status: 404 });
+        }
+        return { data: { state: 'active' } };
+      }
+    },
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: issues.get(issue_number) }),
+      listComments: async ({ issue_number }: any) => ({ data: comments.get(issue_number) || [] }),
+      createComment: async ({ issue_number, body }: any) => {
+        replies.push({ issue: issue_number, body });
+        return { data: { id: 900 + replies.length, html_url: '' } };
+      }
+    },
+    search: {
+      issuesAndPullRequests: async ({ q }: any) => {
+        const login = q.match(/commenter:(\S+)/)[1];
+        const commented = Array.from(comments.entries())
+          .filter(([, list]) => list.some(comment => comment.user.login === login))
+          .map(([number]) => ({ number }));
+        return { data: { items: commented } };
+      }
+    }
+  };
+
+  return { client, replies, issues };
+}
+
+function testConfiguration() {
+  console.log('🧪 Testing policy configuration...');
+
+  check('lists split into allowed and denied entries',
+    JSON.stringify(parsePolicyList('acme/core, !acme/guests,, docs')) === JSON.stringify({ allowed: ['acme/core', 'docs'], denied: ['acme/guests'] }));
+
+  const config = commandPolicyFromConfig({ ...DEFAULT_CONFIG, commandTeams: '!acme/guests', commandLabels: 'taskmaster', commandIssueCooldown: 5 });
+  check('policy is read from the configuration', config.minimumPermission === 'triage' && config.deniedTeams[0] === 'acme/guests' &&
+    config.allowedLabels[0] === 'taskmaster' && config.issueCooldownMinutes === 5 && config.maxSubIssues === 25, JSON.stringify(config));
+
+  console.log('');
+}
+
+async function testRules() {
+  console.log('🧪 Testing policy rules...');
+
+  const repo = createMockRepository({ octocat: 'write', hubot: 'triage', drive: 'read' }, { 'acme/core': ['octocat'], 'acme/guests': ['hubot'] });
+  const request = { command: 'split', issueNumber: 1, commentId: 101 };
+
+  const permissive = new CommandPolicy(repo.client, policyConfig());
+  check('collaborators are allowed', (await permissive.evaluate({ ...request, actor: 'octocat' })).allowed);
+
+  const readOnly = await permissive.evaluate({ ...request, actor: 'drive' });
+  check('drive-by commenters are denied', !readOnly.allowed && readOnly.rule === 'permission' && readOnly.reason!.includes('you have read'),
+    JSON.stringify(readOnly));
+
+  const teams = new CommandPolicy(repo.client, policyConfig({ allowedTeams: ['acme/core'], deniedTeams: ['acme/guests'] }));
+  check('allowed team members are allowed', (await teams.evaluate({ ...request, actor: 'octocat' })).allowed);
+  check('denied team members are denied', (await teams.evaluate({ ...request, actor: 'hubot' })).reason === 'members of acme/guests may not run commands');
+  const strangers = new CommandPolicy(repo.client, policyConfig({ allowedTeams: ['core'] }));
+  check('team slugs default to the repository owner', (await strangers.evaluate({ ...request, actor: 'octocat' })).allowed);
+  check('commenters outside allowed teams are denied', (await strangers.evaluate({ ...request, actor: 'hubot' })).rule === 'team');
+
+  const labels = new CommandPolicy(repo.client, policyConfig({ allowedLabels: ['Taskmaster'], deniedLabels: ['do-not-breakdown'] }));
+  check('issues with an allowed label are allowed', (await labels.evaluate({ ...request, actor: 'octocat' })).allowed);
+  const refusedIssue = await labels.evaluate({ ...request, issueNumber: 2, actor: 'octocat' });
+  check('issues with a denied label are refused', refusedIssue.rule === 'label' && refusedIssue.reason!.includes('do-not-breakdown'));
+
+  console.log('');
+}
+
+async function testCooldowns() {
+  console.log('🧪 Testing cooldowns...');
+
+  const repo = createMockRepository({ octocat: 'write', hubot: 'write' });
+
+  const issueCooldown = new CommandPolicy(repo.client, policyConfig({ issueCooldownMinutes: 5 }));
+  check('the triggering comment does not count', (await issueCooldown.evaluate({ command: 'split', issueNumber: 1, actor: 'octocat', commentId: 101 })).allowed);
+  const busy = await issueCooldown.evaluate({ command: 'estimate', issueNumber: 2, actor: 'octocat', commentId: 201 });
+  check('earlier commands on the issue start a cooldown', busy.rule === 'issue-cooldown' &&
+    Math.abs(busy.retryAfter!.getTime() - (Date.now() + 2 * 60 * 1000)) < 5000, JSON.stringify(busy));
+  const shortCooldown = new CommandPolicy(repo.client, policyConfig({ issueCooldownMinutes: 1 }));
+  check('commands before the cooldown do not count', (await shortCooldown.evaluate({ command: 'estimate', issueNumber: 2, actor: 'octocat' })).allowed);
+
+  const userCooldown = new CommandPolicy(repo.client, policyConfig({ userCooldownMinutes: 10 }));
+  check('commands by the commenter elsewhere start a cooldown',
+    (await userCooldown.evaluate({ command: 'split', issueNumber: 1, actor: 'hubot', commentId: 102 })).rule === 'user-cooldown');
+  check('other commenters are not held back', (await userCooldown.evaluate({ command: 'split', issueNumber: 1, actor: 'octocat', commentId: 101 })).allowed);
+
+  console.log('');
+}
+
+async function testEnforcement() {
+  console.log('🧪 Testing enforcement...');
+
+  const repo = createMockRepository({ octocat: 'write', drive: 'read' });
+  const policy = new CommandPolicy(repo.client, policyConfig({ maxSubIssues: 2 }));
+
+  const denied = await policy.enforce({ command: 'breakdown', issueNumber: 1, actor: 'drive' });
+  check('denials are answered with a reply', !denied.allowed && repo.replies.length === 1 &&
+    repo.replies[0].body.startsWith(POLICY_DENIAL_MARKER) && repo.replies[0].body.includes('@drive `/breakdown` was not run'),
+    JSON.stringify(repo.replies));
+  check('sub-issue counts within the limit are allowed', policy.checkSubIssueLimit(2).allowed);
+  check('sub-issue counts over the limit are denied', policy.checkSubIssueLimit(3).rule === 'sub-issue-limit');
+
+  const registry = createIssueCommandRegistry();
+  const context = { githubApi: repo.client, issueNumber: 1, actor: 'octocat', commentId: 101, policy };
+  const limited = await registry.dispatch('/split 3', context);
+  check('commands creating too many sub-issues fail', limited.status === 'failed' && limited.message.includes('limit of 2'), limited.message);
+  check('the limit is explained in a reply', repo.replies.length === 2 && repo.replies[1].body.includes('3 sub-issues'));
+
+  const strict = new CommandPolicy(repo.client, policyConfig({ minimumPermission: 'maintain' }));
+  const dispatched = await registry.dispatch('/split 2', { ...context, policy: strict });
+  check('the registry consults the policy', dispatched.status === 'denied' && dispatched.message.includes('maintain permission'),
+    dispatched.message);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running command policy tests...\n');
+
+  testConfiguration();
+  await testRules();
+  await testCooldowns();
+  await testEnforcement();
+
+  finishChecks('command policy');
+}
+
+// Run tests
+runAllTests();
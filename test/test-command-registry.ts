@@ -0,0 +1,228 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the slash command registry and the issue commands
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import { CommandRegistry, hasPermission, formatCommandUsage, CommandDefinition } from '../scripts/command-registry';
+import { parseCommand, validateCommandArgs } from '../scripts/comment-parser';
+import {
+  createIssueCommandRegistry,
+  extractWorkItems,
+  partitionItems,
+  IssueCommandContext
+} from '../scripts/issue-commands';
+import { calculateComplexityForTask, complexityLevel } from '../scripts/task-complexity';
+import { check, finishChecks } from './check-harness';
+
+const echoCommand: CommandDefinition = {
+  name: 'echo',
+  description: 'Echo the arguments',
+  permission: 'read',
+  positional: [
+    { name: 'count', type: 'number', required: true, min: 1, max: 3 },
+    { name: 'issues', type: 'issue', variadic: true }
+  ],
+  args: { loud: { type: 'boolean' } },
+  handler: async invocation => ({ success: true, message: JSON.stringify(invocation.positional) })
+};
+
+function testParsing() {
+  console.log('🧪 Testing command parsing and validation...');
+
+  check('commands match whole words only', parseCommand('/echoes 1', { supportedCommands: ['echo'] }) === null);
+  check('positional tokens are collected when allowed',
+    JSON.stringify(parseCommand('/echo 2 #4', { supportedCommands: ['echo'], allowPositional: true })?.positional) === JSON.stringify(['2', '#4']));
+  check('commands without arguments reject flags',
+    validateCommandArgs({ depth: 2 }, {}).errors.some(e => e.includes('takes no arguments')));
+
+  const registry = new CommandRegistry().register(echoCommand);
+  const parsed = registry.parse('Please run\n/echo 2 #4 acme/api#7 --loud')!;
+  check('valid commands parse', parsed.isValid, parsed.errors.join(', '));
+  check('numbers and issues are typed', parsed.invocation.positional.count === 2 &&
+    JSON.stringify(parsed.invocation.positional.issues) === JSON.stringify([4, { owner: 'acme', repo: 'api', number: 7 }]),
+    JSON.stringify(parsed.invocation.positional));
+  check('flags are validated', parsed.invocation.args.loud === true);
+
+  check('missing required arguments are invalid', registry.parse('/echo')!.errors.some(e => e.includes("'count'")));
+  check('out-of-range numbers are invalid', !registry.parse('/echo 5')!.isValid);
+  check('malformed issues are invalid', !registry.parse('/echo 1 nope')!.isValid);
+  check('unregistered commands are not found', registry.parse('/other 1') === null);
+
+  let threw = false;
+  try {
+    registry.register(echoCommand);
+  } catch {
+    threw = true;
+  }
+  check('duplicate commands are rejected', threw);
+  check('usage lists arguments', formatCommandUsage(echoCommand) === '/echo <count> [issues...] [--loud]', formatCommandUsage(echoCommand));
+
+  check('higher permissions satisfy lower ones', hasPermission('admin', 'write') && hasPermission('triage', 'triage'));
+  check('lower permissions do not satisfy higher ones', !hasPermission('read', 'triage'));
+
+  console.log('');
+}
+
+function testHelpers() {
+  console.log('🧪 Testing split and complexity helpers...');
+
+  const body = '## Description\n\nCheckout\n\n## Details\n\n- Cart\n- [ ] Payment\n1. Receipt\n\n<!-- created-by-taskmaster-script -->';
+  check('list items of details are work items', JSON.stringify(extractWorkItems(body)) === JSON.stringify(['Cart', 'Payment', 'Receipt']),
+    JSON.stringify(extractWorkItems(body)));
+  check('paragraphs are work items without lists', extractWorkItems('First part\n\nSecond part').length === 2);
+  check('items are partitioned evenly', JSON.stringify(partitionItems([1, 2, 3, 4, 5], 2)) === JSON.stringify([[1, 2, 3], [4, 5]]));
+
+  check('complexity is scored from task fields', calculateComplexityForTask({ description: 'x'.repeat(300), priority: 'critical' }) === 6);
+  check('complexity levels match labels', complexityLevel(8) === 'high' && complexityLevel(5) === 'medium' && complexityLevel(4) === 'low');
+
+  console.log('');
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake repository
+ */
+function createMockRepository(permission: string) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const issues = new Map<number, any>();
+  const subIssues = new Map<number, number[]>();
+  const blockedBy = new Map<number, number[]>([[2, [9]], [5, [2]]]);
+  const comments: Array<{ issue: number; body: string }> = [];
+
+  const addIssue = (number: number, fields: any) => issues.set(number, {
+    number, id: 1000 + number, state: 'open', labels: [], title: `Issue ${number}`, body: '', ...fields
+  });
+  addIssue(1, {
+    title: 'Checkout',
+    body: '## Description\n\nBuild checkout\n\n## Details\n\n- Cart\n- Payment\n- Receipt\n\n## Meta\n- **Priority:** `high`\n- **Complexity:** `1 / 10`',
+    labels: [{ name: 'taskmaster' }, { name: 'complexity:low' }]
+  });
+  addIssue(2, {});
+  addIssue(5, {});
+  addIssue(9, {});
+
+  (client as any).octokit = {
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: issues.get(issue_number) }),
+      listForRepo: async ({ labels, page = 1 }: any) => ({
+        data: page > 1 ? [] : Array.from(issues.values()).filter(issue => issue.labels.some((label: any) => label.name === labels))
+      }),
+      create: async (params: any) => {
+        const number = Math.max(...issues.keys()) + 1;
+        addIssue(number, { title: params.title, body: params.body, labels: params.labels.map((name: string) => ({ name })) });
+        return { data: issues.get(number) };
+      },
+      update: async ({ issue_number, labels, ...params }: any) => {
+        Object.assign(issues.get(issue_number), params, labels ? { labels: labels.map((name: string) => ({ name })) } : {});
+        return { data: issues.get(issue_number) };
+      },
+      createComment: async ({ issue_number, body }: any) => {
+        comments.push({ issue: issue_number, body });
+        return { data: { id: comments.length, html_url: '' } };
+      },
+      addAssignees: async ({ issue_number, assignees }: any) => {
+        issues.get(issue_number).assignees = assignees.map((login: string) => ({ login }));
+        return { data: issues.get(issue_number) };
+      }
+    },
+    repos: {
+      getCollaboratorPermissionLevel: async () => ({ data: { permission, role_name: permission } })
+    },
+    search: {
+      issuesAndPullRequests: async () => ({ data: { items: [] } })
+    },
+    request: async (route: string, params: any) => {
+      const [method, path] = route.split(' ');
+      const number = params.issue_number;
+      const byId = (id: number) => id - 1000;
+      if (path.endsWith('/sub_issues')) {
+        const list = subIssues.get(number) || [];
+        subIssues.set(number, list);
+        if (method === 'POST') list.push(byId(params.sub_issue_id));
+        return { data: method === 'GET' ? list.map(n => issues.get(n)) : {} };
+      }
+      if (path.endsWith('/dependencies/blocked_by')) {
+        const list = blockedBy.get(number) || [];
+        blockedBy.set(number, list);
+        if (method === 'POST') list.push(byId(params.issue_id));
+        return { data: method === 'GET' ? list.map(n => issues.get(n)) : {} };
+      }
+      if (path.endsWith('/dependencies/blocking')) {
+        const blocking = Array.from(blockedBy.entries()).filter(([, list]) => list.includes(number)).map(([n]) => issues.get(n));
+        return { data: blocking };
+      }
+      throw new Error(`Unexpected request: ${route}`);
+    }
+  };
+
+  const context: IssueCommandContext = { githubApi: client, issueNumber: 1, actor: 'octocat' };
+  return { context, issues, subIssues, blockedBy, comments };
+}
+
+async function testIssueCommands() {
+  console.log('🧪 Testing issue commands...');
+
+  const registry = createIssueCommandRegistry();
+  check('issue commands are registered', JSON.stringify(registry.names()) === JSON.stringify(['split', 'merge', 'estimate', 'assign', 'unbreakdown']));
+
+  const split = createMockRepository('write');
+  const splitResult = await registry.dispatch('/split 2', split.context);
+  const parts = splitResult.result?.issueNumbers || [];
+  check('split creates part sub-issues', splitResult.status === 'succeeded' && parts.length === 2 &&
+    JSON.stringify(split.subIssues.get(1)) === JSON.stringify(parts), JSON.stringify(splitResult));
+  check('parts carry their share of work items', split.issues.get(parts[0]).title === '[Part 1/2] Checkout' &&
+    split.issues.get(parts[0]).body.includes('- Payment') && split.issues.get(parts[1]).body.includes('- Receipt'));
+  check('splitting into more parts than items fails', (await registry.dispatch('/split 4', split.context)).status === 'failed');
+
+  const merge = createMockRepository('maintain');
+  const mergeResult = await registry.dispatch('/merge #2 #5', merge.context);
+  check('merge succeeds', mergeResult.status === 'succeeded', mergeResult.message);
+  check('merged issues are closed with a pointer comment', merge.issues.get(2).state === 'closed' &&
+    merge.comments.some(c => c.issue === 5 && c.body === 'Merged into #1'));
+  check('merged issues are listed on the target', merge.issues.get(1).body.includes('## Merged Issues\n- #2 Issue 2\n- #5 Issue 5'),
+    merge.issues.get(1).body);
+  check('blockers of merged issues block the target', merge.blockedBy.get(1)?.includes(9) === true, JSON.stringify(merge.blockedBy.get(1)));
+  check('dependents of merged issues depend on the target', merge.blockedBy.get(5)?.includes(1) === true);
+  check('cross-repository merges are invalid', (await registry.dispatch('/merge acme/api#3', merge.context)).status === 'invalid');
+  check('issues cannot merge into themselves', (await registry.dispatch('/merge #1', merge.context)).status === 'failed');
+
+  const estimate = createMockRepository('triage');
+  const estimateResult = await registry.dispatch('/estimate', estimate.context);
+  const labels = estimate.issues.get(1).labels.map((l: any) => l.name);
+  check('estimate replaces the complexity label', estimateResult.status === 'succeeded' &&
+    labels.includes('taskmaster') && labels.filter((l: string) => l.startsWith('complexity:')).length === 1, JSON.stringify(labels));
+  check('estimate updates the complexity in the body', estimate.issues.get(1).body.includes('- **Complexity:** `2 / 10`'),
+    estimate.issues.get(1).body);
+  check('estimate takes no arguments', (await registry.dispatch('/estimate --depth 2', estimate.context)).status === 'invalid');
+
+  const assign = createMockRepository('triage');
+  const assignResult = await registry.dispatch('/assign @octocat hubot', assign.context);
+  check('assign adds assignees', assignResult.status === 'succeeded' &&
+    JSON.stringify(assign.issues.get(1).assignees) === JSON.stringify([{ login: 'octocat' }, { login: 'hubot' }]));
+
+  const reader = createMockRepository('read');
+  const forbidden = await registry.dispatch('/assign @octocat', reader.context);
+  check('commenters without permission are refused', forbidden.status === 'forbidden' && !reader.issues.get(1).assignees,
+    forbidden.message);
+  check('write commands need write permission', (await registry.dispatch('/split 2', createMockRepository('triage').context)).status === 'forbidden');
+
+  const failing = new CommandRegistry().register({ ...echoCommand, handler: async () => { throw new Error('boom'); } });
+  const failed = await failing.dispatch('/echo 1', reader.context);
+  check('handler errors are reported as failures', failed.status === 'failed' && failed.errors[0] === 'boom');
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running command registry tests...\n');
+
+  testParsing();
+  testHelpers();
+  await testIssueCommands();
+
+  finishChecks('command registry');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,109 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test command acknowledgement reactions and replies
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import { CommandReply, commandReplyMarker, formatCommandReply } from '../scripts/command-reply';
+import { check, finishChecks } from './check-harness';
+
+/**
+ * Client whose octokit records reactions and keeps comments in memory
+ */
+function createMockRepository(options: { failReactions?: boolean } = {}) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const comments: Array<{ id: number; body: string }> = [{ id: 50, body: '/breakdown --depth 2' }];
+  const reactions: string[] = [];
+
+  (client as any).octokit = {
+    issues: {
+      listComments: async () => ({ data: comments }),
+      createComment: async ({ body }: any) => {
+        const comment = { id: 100 + comments.length, body };
+        comments.push(comment);
+        return { data: { ...comment, html_url: '' } };
+      },
+      updateComment: async ({ comment_id, body }: any) => {
+        const comment = comments.find(c => c.id === comment_id)!;
+        comment.body = body;
+        return { data: { ...comment, html_url: '' } };
+      }
+    },
+    reactions: {
+      createForIssueComment: async ({ comment_id, content }: any) => {
+        if (options.failReactions) {
+          throw Object.assign(new Error('Forbidden'), { status: 403 });
+        }
+        reactions.push(`${comment_id}:${content}`);
+        return { data: {} };
+      }
+    }
+  };
+
+  return { client, comments, reactions };
+}
+
+function testFormatting() {
+  console.log('🧪 Testing reply formatting...');
+
+  const body = formatCommandReply({
+    command: 'breakdown',
+    status: 'succeeded',
+    message: 'Broke #1 down into 2 sub-issues.',
+    args: { maxDepth: 2, complexityThreshold: 40, force: undefined },
+    issues: [{ number: 11, title: 'Cart' }, { number: 12 }]
+  });
+  check('heading shows the outcome', body.startsWith('### ✅ `/breakdown` succeeded'));
+  check('effective arguments are listed', body.includes('| `maxDepth` | `2` |') && body.includes('| `complexityThreshold` | `40` |') &&
+    !body.includes('force'), body);
+  check('issues are listed', body.includes('**Issues (2):**\n- #11 Cart\n- #12'), body);
+
+  const invalid = formatCommandReply({ command: 'breakdown', status: 'invalid', errors: ["Unknown argument 'deep'"] });
+  check('validation errors are listed', invalid.startsWith('### ⚠️') && invalid.includes("**Errors:**\n- Unknown argument 'deep'"), invalid);
+  check('empty sections are left out', !invalid.includes('**Arguments:**') && !invalid.includes('**Issues'));
+
+  console.log('');
+}
+
+async function testReply() {
+  console.log('🧪 Testing reactions and replies...');
+
+  const repo = createMockRepository();
+  const reply = new CommandReply(repo.client, 1, 50);
+
+  await reply.acknowledge();
+  const firstId = await reply.complete({ command: 'breakdown', status: 'failed', errors: ['CLI crashed'] });
+  check('processing and failure are reacted to', JSON.stringify(repo.reactions) === JSON.stringify(['50:eyes', '50:confused']),
+    JSON.stringify(repo.reactions));
+  check('a marked reply is posted', repo.comments.length === 2 && repo.comments[1].body.includes('CLI crashed') &&
+    repo.comments[1].body.endsWith(commandReplyMarker(50)));
+
+  const secondId = await reply.complete({ command: 'breakdown', status: 'succeeded', issues: [{ number: 11 }] });
+  check('success is reacted to', repo.reactions[2] === '50:rocket');
+  check('re-runs edit the same reply', firstId === secondId && repo.comments.length === 2 &&
+    repo.comments[1].body.includes('- #11') && !repo.comments[1].body.includes('CLI crashed'));
+
+  const other = new CommandReply(repo.client, 1, 60);
+  await other.post({ command: 'breakdown', status: 'succeeded' });
+  check('replies to other comments are separate', repo.comments.length === 3);
+
+  const forbidden = createMockRepository({ failReactions: true });
+  const unreactive = new CommandReply(forbidden.client, 1, 50);
+  await unreactive.acknowledge();
+  check('failed reactions do not stop the reply', await unreactive.complete({ command: 'breakdown', status: 'succeeded' }) !== null);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running command reply tests...\n');
+
+  testFormatting();
+  await testReply();
+
+  finishChecks('command reply');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,220 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test cross-repository issue references, dependency graphs and links
+ */
+
+import {
+  parseIssueReference,
+  formatIssueReference,
+  issueReferenceKey,
+  repositoryFromIssue,
+  parseRepository
+} from '../scripts/issue-reference';
+import { parseIssueBody, DependencyGraphAnalyzer, ParsedIssueData } from '../scripts/issue-parser';
+import { createGitHubApiClient, GitHubApiConfig } from '../scripts/github-api';
+import { resolveDependencyLabels } from '../scripts/dependency-policy';
+import { validateTaskGraphSchema } from '../scripts/output-validation';
+import { check, finishChecks } from './check-harness';
+
+function testIssueReferences() {
+  console.log('🧪 Testing issue references...');
+
+  check('bare reference resolves against the default repository',
+    JSON.stringify(parseIssueReference('#12', 'acme/web')) === JSON.stringify({ owner: 'acme', repo: 'web', number: 12 }));
+  check('qualified reference keeps its repository',
+    JSON.stringify(parseIssueReference('acme/api#3', 'acme/web')) === JSON.stringify({ owner: 'acme', repo: 'api', number: 3 }));
+  check('issue URLs are accepted',
+    parseIssueReference('https://github.com/acme/api/issues/7')?.number === 7);
+  check('bare reference without a repository is unresolved', parseIssueReference('#12') === null);
+  check('non-references are rejected', parseIssueReference('issue 12', 'acme/web') === null);
+
+  check('same-repository references are short', formatIssueReference({ owner: 'Acme', repo: 'Web', number: 4 }, 'acme/web') === '#4');
+  check('other-repository references are qualified', formatIssueReference({ owner: 'acme', repo: 'api', number: 4 }, 'acme/web') === 'acme/api#4');
+  check('keys ignore repository case', issueReferenceKey('Acme/API', 4) === issueReferenceKey('acme/api', 4));
+  check('repository is read from API issues',
+    repositoryFromIssue({ repository_url: 'https://api.github.com/repos/acme/api' }) === 'acme/api');
+
+  let threw = false;
+  try {
+    parseRepository('not-a-repo');
+  } catch {
+    threw = true;
+  }
+  check('invalid repository names are rejected', threw);
+
+  console.log('');
+}
+
+function parsedIssue(repository: string, issueNumber: number, dependencies: string[]): ParsedIssueData {
+  const body = `## Dependencies\n\n${dependencies.map(dep => `- [ ] ${dep}`).join('\n')}\n\n`;
+  return { ...parseIssueBody(dependencies.length > 0 ? body : ''), issueNumber, repository };
+}
+
+function testDependencyGraph() {
+  console.log('🧪 Testing repository-qualified dependency graphs...');
+
+  const deps = parseIssueBody('## Dependencies\n\n- [ ] #1\n- [x] acme/api#2 Build API\n\n').dependencies;
+  check('local dependencies have no repository', deps[0].issueNumber === 1 && deps[0].repository === undefined);
+  check('cross-repository dependencies keep their repository',
+    deps[1].issueNumber === 2 && deps[1].repository === 'acme/api' && deps[1].completed && deps[1].title === 'Build API');
+
+  const issues = [
+    parsedIssue('acme/web', 1, []),
+    parsedIssue('acme/web', 2, ['#1', 'acme/api#1']),
+    parsedIssue('acme/api', 1, [])
+  ];
+  const graph = DependencyGraphAnalyzer.buildDependencyGraph(issues, { repository: 'acme/web' });
+
+  check('same issue number in two repositories gives two nodes', graph.has('acme/web#1') && graph.has('acme/api#1'));
+  check('dependencies are repository-qualified',
+    JSON.stringify(graph.get('acme/web#2')?.dependencies) === JSON.stringify(['acme/web#1', 'acme/api#1']));
+  check('cross-repository dependents are linked', graph.get('acme/api#1')?.dependents.includes('acme/web#2') === true);
+
+  const unblocked = DependencyGraphAnalyzer.findUnblockableIssues(graph, ['acme/web#1']);
+  check('local blocker alone does not unblock', unblocked.length === 0, JSON.stringify(unblocked));
+  const allUnblocked = DependencyGraphAnalyzer.findUnblockableIssues(graph, ['acme/web#1', 'acme/api#1']);
+  check('closing both blockers unblocks', JSON.stringify(allUnblocked) === JSON.stringify(['acme/web#2']));
+
+  const cyclic = DependencyGraphAnalyzer.buildDependencyGraph([
+    parsedIssue('acme/web', 1, ['acme/api#1']),
+    parsedIssue('acme/api', 1, ['acme/web#1'])
+  ], { repository: 'acme/web' });
+  const cycles = DependencyGraphAnalyzer.detectCircularDependencies(cyclic);
+  check('cycles across repositories are described by reference',
+    cycles.length === 1 && cycles[0].description.includes('acme/web#1 → acme/api#1'), cycles[0]?.description);
+
+  const legacy = DependencyGraphAnalyzer.buildDependencyGraph([
+    { ...parseIssueBody('---\nid: 2\n---\n\n## Dependencies\n\n- [ ] #1\n- [ ] acme/api#1\n\n') }
+  ]);
+  check('graphs without a repository keep numeric keys for local issues',
+    JSON.stringify(legacy.get(2)?.dependencies) === JSON.stringify([1, 'acme/api#1']));
+
+  console.log('');
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake spanning two repositories
+ */
+function createMockClient(config: Partial<GitHubApiConfig> = {}) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web', ...config });
+  const issueId = (repo: string, number: number) => (repo === 'api' ? 2000 : 1000) + number;
+  const states: Record<string, string> = { 'web#1': 'open', 'web#2': 'open', 'api#1': 'closed', 'api#5': 'open' };
+  const blockedBy: Array<{ repo: string; number: number }> = [];
+  const subIssues: number[] = [];
+
+  const toIssue = (repo: string, number: number) => ({
+    number,
+    id: issueId(repo, number),
+    state: states[`${repo}#${number}`],
+    repository_url: `https://api.github.com/repos/acme/${repo}`
+  });
+  const fromId = (id: number) => id >= 2000 ? { repo: 'api', number: id - 2000 } : { repo: 'web', number: id - 1000 };
+
+  (client as any).octokit = {
+    request: async (route: string, params: any) => {
+      if (route.startsWith('GET') && route.includes('blocked_by')) {
+        return { data: blockedBy.map(ref => toIssue(ref.repo, ref.number)) };
+      }
+      if (route.startsWith('POST') && route.includes('blocked_by')) {
+        blockedBy.push(fromId(params.issue_id));
+        return { data: {} };
+      }
+      if (route.startsWith('DELETE') && route.includes('blocked_by')) {
+        const removed = fromId(params.issue_id);
+        blockedBy.splice(blockedBy.findIndex(ref => ref.repo === removed.repo && ref.number === removed.number), 1);
+        return { data: {} };
+      }
+      if (route.startsWith('POST') && route.includes('sub_issues')) {
+        subIssues.push(params.sub_issue_id);
+        return { data: {} };
+      }
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    },
+    issues: {
+      get: async ({ repo, issue_number }: any) => ({ data: toIssue(repo, issue_number) })
+    }
+  };
+
+  return { client, blockedBy, subIssues };
+}
+
+async function testCrossRepositoryLinks() {
+  console.log('🧪 Testing cross-repository links...');
+
+  const { client, blockedBy, subIssues } = createMockClient();
+  const api = client.forRepository('acme/api');
+  check('clients for other repositories are reused', api === client.forRepository('ACME/API') && api.getRepository() === 'acme/api');
+  check('own repository returns the same client', client.forRepository('acme/web') === client && client.forRepository() === client);
+
+  const linked = await client.setBlockedBy(2, [1, { owner: 'acme', repo: 'api', number: 1 }]);
+  check('blockers in other repositories are linked by issue id',
+    linked && JSON.stringify(blockedBy) === JSON.stringify([{ repo: 'web', number: 1 }, { repo: 'api', number: 1 }]), JSON.stringify(blockedBy));
+
+  const relinked = await client.setBlockedBy(2, [1, { owner: 'acme', repo: 'api', number: 1 }]);
+  check('existing cross-repository blockers are not linked twice', relinked && blockedBy.length === 2);
+
+  await client.addSubIssue(1, { owner: 'acme', repo: 'api', number: 5 });
+  check('cross-repository sub-issues are linked natively', JSON.stringify(subIssues) === JSON.stringify([2005]));
+
+  const bodyOnly = createMockClient({ subIssueMode: 'body' }).client;
+  let threw = false;
+  try {
+    await bodyOnly.addSubIssue(1, { owner: 'acme', repo: 'api', number: 5 });
+  } catch {
+    threw = true;
+  }
+  check('cross-repository sub-issues are refused without the native API', threw);
+
+  const labelsOnly = createMockClient({ issueDependencyMode: 'labels' }).client;
+  const body = '## Dependencies\n\n- [ ] acme/api#1\n- [ ] acme/api#5\n\n';
+  const labels = await resolveDependencyLabels(labelsOnly, { number: 2, body } as any);
+  check('cross-repository blockers are resolved live',
+    JSON.stringify(labels) === JSON.stringify(['blocked', 'blocked-by:1']), JSON.stringify(labels));
+
+  // Managed issues are qualified, so a client of another repository does not read them as its own
+  const managed = createMockClient();
+  const managedApi = managed.client.forRepository('acme/api');
+  await managedApi.setBlockedBy(5, [{ owner: 'acme', repo: 'web', number: 1 }, 1]);
+  await managedApi.setBlockedBy(5, [], { managedIssueNumbers: [{ owner: 'acme', repo: 'web', number: 1 }] });
+  check('managed blockers in the workflow repository are unlinked, others are kept',
+    JSON.stringify(managed.blockedBy) === JSON.stringify([{ repo: 'api', number: 1 }]), JSON.stringify(managed.blockedBy));
+
+  let destroyed = 0;
+  const apiClient = managed.client.forRepository('acme/api');
+  const destroy = apiClient.destroy.bind(apiClient);
+  apiClient.destroy = () => {
+    destroyed++;
+    destroy();
+  };
+  managed.client.destroy();
+  check('clients of other repositories are destroyed with their origin', destroyed === 1 && managed.client.forRepository('acme/api') !== apiClient);
+
+  console.log('');
+}
+
+function testTaskGraphRepository() {
+  console.log('🧪 Testing task graph repositories...');
+
+  const task = { id: 1, title: 'API', description: 'Build the API' };
+  check('tasks may name a target repository',
+    validateTaskGraphSchema({ tasks: [{ ...task, repository: 'acme/api' }], metadata: {} }).valid);
+  check('invalid target repositories are rejected',
+    !validateTaskGraphSchema({ tasks: [{ ...task, repository: 'api' }], metadata: {} }).valid);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running cross-repository tests...\n');
+
+  testIssueReferences();
+  testDependencyGraph();
+  await testCrossRepositoryLinks();
+  testTaskGraphRepository();
+
+  finishChecks('cross-repository');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,125 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the dependency policy and native "blocked by" dependency links
+ */
+
+import { createGitHubApiClient, GitHubApiConfig } from '../scripts/github-api';
+import {
+  buildDependencyLabels,
+  dependencyLabelsForIssues,
+  dependencyLabelsForParsed,
+  isDependencyLabel,
+  applyDependencyLabels,
+  dependencyLabelsChanged,
+  resolveDependencyLabels
+} from '../scripts/dependency-policy';
+import { check, finishChecks } from './check-harness';
+
+function testLabelPolicy() {
+  console.log('🧪 Testing dependency label policy...');
+
+  check('no dependencies means no labels', buildDependencyLabels(0, 0).length === 0);
+  check('open dependencies block', JSON.stringify(buildDependencyLabels(2, 3)) === JSON.stringify(['blocked', 'blocked-by:2']));
+  check('closed dependencies are ready', JSON.stringify(buildDependencyLabels(0, 3)) === JSON.stringify(['ready']));
+
+  check('issue states are counted', JSON.stringify(dependencyLabelsForIssues([{ state: 'open' }, { state: 'closed' }])) ===
+    JSON.stringify(['blocked', 'blocked-by:1']));
+  check('missing dependency issues give no labels', dependencyLabelsForIssues(undefined).length === 0);
+  check('parsed dependencies are counted', JSON.stringify(dependencyLabelsForParsed([
+    { issueNumber: 1, completed: true },
+    { issueNumber: 2, completed: true }
+  ])) === JSON.stringify(['ready']));
+
+  check('dependency labels are recognized', ['blocked', 'ready', 'blocked-by:3'].every(isDependencyLabel));
+  check('other labels are not dependency labels', !['taskmaster', 'blocked-externally', 'priority:high'].some(isDependencyLabel));
+
+  const applied = applyDependencyLabels(['taskmaster', 'blocked', 'blocked-by:2', 'priority:high'], ['ready']);
+  check('applying replaces only dependency labels', JSON.stringify(applied) === JSON.stringify(['taskmaster', 'priority:high', 'ready']), JSON.stringify(applied));
+
+  check('unchanged labels are detected', !dependencyLabelsChanged(['taskmaster', 'blocked-by:1', 'blocked'], ['blocked', 'blocked-by:1']));
+  check('blocked count change is detected', dependencyLabelsChanged(['blocked', 'blocked-by:2'], ['blocked', 'blocked-by:1']));
+
+  console.log('');
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake of the dependencies API
+ */
+function createMockClient(config: Partial<GitHubApiConfig>, nativeAvailable: boolean) {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'o', repo: 'r', ...config });
+  const blockedBy = new Map<number, Set<number>>([[10, new Set([1, 99])]]);
+  const states: Record<number, string> = { 1: 'closed', 2: 'open', 3: 'open', 10: 'open', 99: 'open' };
+  const calls: string[] = [];
+
+  (client as any).octokit = {
+    request: async (route: string, params: any) => {
+      calls.push(route.split(' ')[0]);
+      if (!nativeAvailable) {
+        throw Object.assign(new Error('Not Found'), { status: 404 });
+      }
+      const links = blockedBy.get(params.issue_number) || new Set<number>();
+      blockedBy.set(params.issue_number, links);
+      if (route.startsWith('GET')) {
+        return { data: Array.from(links).map(n => ({ number: n, id: 1000 + n, state: states[n] })) };
+      }
+      if (route.startsWith('POST')) {
+        links.add(params.issue_id - 1000);
+      } else if (route.startsWith('DELETE')) {
+        links.delete(params.issue_id - 1000);
+      }
+      return { data: {} };
+    },
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: { number: issue_number, id: 1000 + issue_number, state: states[issue_number] } })
+    }
+  };
+
+  return { client, blockedBy, calls };
+}
+
+async function testNativeDependencies() {
+  console.log('🧪 Testing native dependency links...');
+
+  const native = createMockClient({}, true);
+  const linked = await native.client.setBlockedBy(10, [2, 3], { managedIssueNumbers: [1, 2, 3] });
+  const links = Array.from(native.blockedBy.get(10)!).sort((a, b) => a - b).join(',');
+  check('missing blockers are added and stale managed ones removed', linked && links === '2,3,99', links);
+
+  const labels = await resolveDependencyLabels(native.client, { number: 10, body: '' } as any);
+  check('labels are projected from native blockers', JSON.stringify(labels) === JSON.stringify(['blocked', 'blocked-by:3']), JSON.stringify(labels));
+
+  const unavailable = createMockClient({}, false);
+  const fallbackLinked = await unavailable.client.setBlockedBy(10, [2]);
+  const body = '## Dependencies\n\n- [x] #1\n- [ ] #2\n\n';
+  const fallbackLabels = await resolveDependencyLabels(unavailable.client, { number: 10, body } as any);
+  check('unavailable API reports no native links', !fallbackLinked);
+  check('labels fall back to the body checklist', JSON.stringify(fallbackLabels) === JSON.stringify(['blocked', 'blocked-by:1']), JSON.stringify(fallbackLabels));
+  check('unavailable API is only probed once', unavailable.calls.length === 1, String(unavailable.calls.length));
+
+  const labelsOnly = createMockClient({ issueDependencyMode: 'labels' }, true);
+  check('labels mode never calls the dependencies API', (await labelsOnly.client.getBlockedBy(10)) === null && labelsOnly.calls.length === 0);
+
+  const strict = createMockClient({ issueDependencyMode: 'native' }, false);
+  let threw = false;
+  try {
+    await strict.client.getBlockedBy(10);
+  } catch {
+    threw = true;
+  }
+  check('native mode reports an unavailable API', threw);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running dependency policy tests...\n');
+
+  testLabelPolicy();
+  await testNativeDependencies();
+
+  finishChecks('dependency policy');
+}
+
+// Run tests
+runAllTests();
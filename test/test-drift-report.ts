@@ -0,0 +1,97 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the watcher drift report and breakdown checklist sync
+ */
+
+import { validateConfig, DEFAULT_CONFIG } from '../scripts/config-management';
+import {
+  createDriftReport,
+  countDrift,
+  countFixedDrift,
+  formatDriftReport,
+  parseBreakdownChecklist,
+  syncBreakdownChecklist
+} from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+const PARENT_BODY = `## Description
+Checkout, see #40
+
+## Breakdown Summary
+Generated 3 sub-issues from breakdown command:
+- [ ] #11 Cart
+- [x] #12 Payment
+- [ ] #13 Receipts
+
+*Breakdown executed on 2026-10-01T00:00:00.000Z with max-depth=2, complexity-threshold=40*
+`;
+
+function testBreakdownChecklist() {
+  console.log('🧪 Testing breakdown checklists...');
+
+  const entries = parseBreakdownChecklist(PARENT_BODY);
+  check('summary entries are parsed', JSON.stringify(entries) ===
+    JSON.stringify([{ issueNumber: 11, checked: false }, { issueNumber: 12, checked: true }, { issueNumber: 13, checked: false }]),
+    JSON.stringify(entries));
+  check('references outside the summary are ignored', !entries.some(entry => entry.issueNumber === 40));
+
+  const synced = syncBreakdownChecklist(PARENT_BODY, new Map([[11, true], [12, false]]));
+  check('checkboxes follow their sub-issues', synced.includes('- [x] #11 Cart') && synced.includes('- [ ] #12 Payment'), synced);
+  check('unknown sub-issues are left alone', synced.includes('- [ ] #13 Receipts'));
+  check('in-sync bodies are unchanged', syncBreakdownChecklist(PARENT_BODY, new Map([[11, false], [12, true]])) === PARENT_BODY);
+
+  console.log('');
+}
+
+function testReport() {
+  console.log('🧪 Testing drift reports...');
+
+  const clean = createDriftReport('acme/web', 'fix');
+  check('clean scans say so', countDrift(clean) === 0 && formatDriftReport(clean).includes('No drift found'));
+
+  const report = createDriftReport('acme/web', 'report-only');
+  report.issuesScanned = 12;
+  report.labels.push({ issueNumber: 3, currentLabels: ['ready'], expectedLabels: ['blocked', 'blocked-by:1'], fixed: false });
+  report.danglingReferences.push({ issueNumber: 4, reference: 'acme/web#9', reason: 'transferred', newReference: 'acme/api#2', fixed: false });
+  report.parentCheckboxes.push({ parentIssueNumber: 1, subIssueNumber: 11, checked: false, subIssueState: 'closed', fixed: false });
+  report.cycles.push({ cycle: ['acme/web#5', 'acme/web#6'], description: 'Circular dependency detected: #5 → #6' });
+
+  const summary = formatDriftReport(report);
+  check('every kind of drift is counted', countDrift(report) === 4 && countFixedDrift(report) === 0);
+  check('report-only summaries say nothing changed', summary.includes('Found 4 drift findings; nothing was changed.'), summary);
+  check('label drift shows both label sets', summary.includes('| #3 | `ready` | `blocked` `blocked-by:1` | ⚠️ open |'), summary);
+  check('transferred dependencies show their new location', summary.includes('| #4 | acme/web#9 | transferred to acme/api#2 |'), summary);
+  check('checkbox drift and cycles are listed', summary.includes('| #1 | #11 | unchecked | closed |') &&
+    summary.includes('- Circular dependency detected: #5 → #6'), summary);
+  check('the report serializes to JSON', JSON.parse(JSON.stringify(report)).labels[0].issueNumber === 3);
+
+  report.mode = 'fix';
+  report.labels[0].fixed = true;
+  check('fix summaries count fixes', formatDriftReport(report).includes('Found 4 drift findings, fixed 1.'));
+
+  console.log('');
+}
+
+function testConfig() {
+  console.log('🧪 Testing the drift mode setting...');
+
+  check('drift is fixed by default', DEFAULT_CONFIG.driftMode === 'fix');
+  check('report-only is accepted', validateConfig({ driftMode: 'report-only' }, { skipRequired: true }).valid);
+  check('other modes are rejected', !validateConfig({ driftMode: 'ignore' as any }, { skipRequired: true }).valid);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running drift report tests...\n');
+
+  testBreakdownChecklist();
+  testReport();
+  testConfig();
+
+  finishChecks('drift report');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,279 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the glob matching and PRD discovery functionality
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  matchGlob,
+  expandBraces,
+  parsePatternList,
+  ignoreRulesToGlobs,
+  GlobPatternList,
+  findFiles
+} from '../scripts/glob-matcher';
+
+function testMatchGlob() {
+  console.log('🧪 Testing single pattern matching...');
+
+  const testCases = [
+    // Patterns documented in docs/trigger-configuration.md
+    { pattern: 'docs/**.prd.md', file: 'docs/initial-release.prd.md', expected: true, description: 'docs/**.prd.md matches top-level PRD' },
+    { pattern: 'docs/**.prd.md', file: 'docs/billing/payments.prd.md', expected: true, description: 'docs/**.prd.md recurses into subdirectories' },
+    { pattern: 'docs/**.prd.md', file: 'docs/a/b/c/deep.prd.md', expected: true, description: 'docs/**.prd.md recurses several levels' },
+    { pattern: 'docs/**.prd.md', file: 'docs/readme.md', expected: false, description: 'docs/**.prd.md ignores non-PRD markdown' },
+    { pattern: 'docs/**.prd.md', file: 'other/x.prd.md', expected: false, description: 'docs/**.prd.md stays under docs/' },
+    { pattern: 'docs/**/*.prd.md', file: 'docs/api/auth.prd.md', expected: true, description: 'docs/**/*.prd.md matches nested PRD' },
+    { pattern: 'docs/**/*.prd.md', file: 'docs/auth.prd.md', expected: true, description: 'docs/**/*.prd.md matches zero directories' },
+    { pattern: 'requirements/**.prd.md', file: 'requirements/q3/roadmap.prd.md', expected: true, description: 'requirements/**.prd.md matches nested PRD' },
+    { pattern: 'requirements/**.prd.md', file: 'docs/roadmap.prd.md', expected: false, description: 'requirements/**.prd.md ignores other roots' },
+
+    // Single-segment wildcards
+    { pattern: 'docs/*.prd.md', file: 'docs/a.prd.md', expected: true, description: '* matches within a segment' },
+    { pattern: 'docs/*.prd.md', file: 'docs/sub/a.prd.md', expected: false, description: '* does not cross directories' },
+    { pattern: 'docs/?.prd.md', file: 'docs/a.prd.md', expected: true, description: '? matches one character' },
+    { pattern: 'docs/?.prd.md', file: 'docs/ab.prd.md', expected: false, description: '? matches exactly one character' },
+    { pattern: '**/*.prd.md', file: 'x.prd.md', expected: true, description: 'leading **/ matches root files' },
+    { pattern: 'docs/**', file: 'docs/a/b.md', expected: true, description: 'trailing ** matches everything below' },
+
+    // Brace sets
+    { pattern: 'docs/{api,ui}/*.prd.md', file: 'docs/api/a.prd.md', expected: true, description: 'brace set first alternative' },
+    { pattern: 'docs/{api,ui}/*.prd.md', file: 'docs/ui/a.prd.md', expected: true, description: 'brace set second alternative' },
+    { pattern: 'docs/{api,ui}/*.prd.md', file: 'docs/cli/a.prd.md', expected: false, description: 'brace set rejects other values' },
+    { pattern: 'docs/{api,ui/{web,mobile}}/*.md', file: 'docs/ui/mobile/a.md', expected: true, description: 'nested brace sets' },
+    { pattern: '*.{prd.md,spec.md}', file: 'a.spec.md', expected: true, description: 'brace set of extensions' },
+    { pattern: 'docs/{api}/*.md', file: 'docs/{api}/a.md', expected: true, description: 'brace without comma is literal' },
+
+    // Character classes
+    { pattern: 'docs/v[0-9].prd.md', file: 'docs/v2.prd.md', expected: true, description: 'character range' },
+    { pattern: 'docs/v[0-9].prd.md', file: 'docs/vx.prd.md', expected: false, description: 'character range rejects others' },
+    { pattern: 'docs/[!_]*.prd.md', file: 'docs/_draft.prd.md', expected: false, description: 'negated class with !' },
+    { pattern: 'docs/[^_]*.prd.md', file: 'docs/live.prd.md', expected: true, description: 'negated class with ^' },
+
+    // Escaping and normalization
+    { pattern: 'docs/a\\*.md', file: 'docs/a*.md', expected: true, description: 'escaped wildcard is literal' },
+    { pattern: 'docs/a\\*.md', file: 'docs/ab.md', expected: false, description: 'escaped wildcard does not expand' },
+    { pattern: './docs/*.prd.md', file: 'docs/a.prd.md', expected: true, description: 'leading ./ is ignored' },
+    { pattern: 'docs/a.prd.md', file: 'docs/aXprd.md', expected: false, description: 'dots are literal' },
+
+    // Case
+    { pattern: 'docs/**.prd.md', file: 'docs/Feature.PRD.md', expected: true, description: 'matching ignores case by default' },
+    { pattern: 'Docs/*.prd.md', file: 'docs/a.prd.md', expected: true, description: 'pattern case is ignored too' }
+  ];
+
+  let passed = 0;
+  for (const testCase of testCases) {
+    const result = matchGlob(testCase.file, testCase.pattern);
+    if (result === testCase.expected) {
+      console.log(`  ✅ ${testCase.description}`);
+      passed++;
+    } else {
+      console.log(`  ❌ ${testCase.description}: ${testCase.pattern} vs ${testCase.file} expected ${testCase.expected}, got ${result}`);
+    }
+  }
+
+  console.log(`Pattern matching: ${passed}/${testCases.length} tests passed\n`);
+  return passed === testCases.length;
+}
+
+function testPatternLists() {
+  console.log('🧪 Testing include/exclude pattern lists...');
+
+  const testCases = [
+    { patterns: ['docs/**.prd.md', '!docs/drafts/**'], file: 'docs/a.prd.md', expected: true, description: 'include without matching exclusion' },
+    { patterns: ['docs/**.prd.md', '!docs/drafts/**'], file: 'docs/drafts/a.prd.md', expected: false, description: 'exclusion after include' },
+    { patterns: ['docs/**.prd.md', '!docs/drafts/**', 'docs/drafts/keep.prd.md'], file: 'docs/drafts/keep.prd.md', expected: true, description: 'later include overrides exclusion' },
+    { patterns: ['!**/*.draft.prd.md'], file: 'docs/a.prd.md', expected: true, description: 'exclusion-only list includes the rest' },
+    { patterns: ['!**/*.draft.prd.md'], file: 'docs/a.draft.prd.md', expected: false, description: 'exclusion-only list excludes matches' },
+    { patterns: [], file: 'docs/a.prd.md', expected: false, description: 'empty list matches nothing' }
+  ];
+
+  let passed = 0;
+  for (const testCase of testCases) {
+    const result = new GlobPatternList(testCase.patterns).matches(testCase.file);
+    if (result === testCase.expected) {
+      console.log(`  ✅ ${testCase.description}`);
+      passed++;
+    } else {
+      console.log(`  ❌ ${testCase.description}: expected ${testCase.expected}, got ${result}`);
+    }
+  }
+
+  const parseCases = [
+    { input: 'docs/**.prd.md', expected: ['docs/**.prd.md'], description: 'single pattern' },
+    { input: 'docs/*.prd.md, specs/*.prd.md', expected: ['docs/*.prd.md', 'specs/*.prd.md'], description: 'comma-separated list' },
+    { input: 'docs/{a,b}.prd.md\n!docs/b.prd.md', expected: ['docs/{a,b}.prd.md', '!docs/b.prd.md'], description: 'newline list keeps brace commas' },
+    { input: '# comment\n\ndocs/*.prd.md', expected: ['docs/*.prd.md'], description: 'comments and blanks dropped' }
+  ];
+
+  for (const testCase of parseCases) {
+    const result = parsePatternList(testCase.input);
+    if (JSON.stringify(result) === JSON.stringify(testCase.expected)) {
+      console.log(`  ✅ ${testCase.description}`);
+      passed++;
+    } else {
+      console.log(`  ❌ ${testCase.description}: expected ${JSON.stringify(testCase.expected)}, got ${JSON.stringify(result)}`);
+    }
+  }
+
+  const braceResult = expandBraces('docs/{a,b}/{x,y}.md');
+  if (JSON.stringify(braceResult) === JSON.stringify(['docs/a/x.md', 'docs/a/y.md', 'docs/b/x.md', 'docs/b/y.md'])) {
+    console.log('  ✅ brace expansion produces cartesian product');
+    passed++;
+  } else {
+    console.log(`  ❌ brace expansion produces cartesian product: got ${JSON.stringify(braceResult)}`);
+  }
+
+  const total = testCases.length + parseCases.length + 1;
+  console.log(`Pattern lists: ${passed}/${total} tests passed\n`);
+  return passed === total;
+}
+
+function testIgnoreRules() {
+  console.log('🧪 Testing .taskmasterignore rule conversion...');
+
+  const testCases = [
+    { rules: ['drafts'], file: 'docs/drafts/a.prd.md', expected: true, description: 'unanchored name matches directory at any depth' },
+    { rules: ['drafts'], file: 'drafts', expected: true, description: 'unanchored name matches itself' },
+    { rules: ['/drafts'], file: 'docs/drafts/a.prd.md', expected: false, description: 'anchored rule only matches at root' },
+    { rules: ['/drafts'], file: 'drafts/a.prd.md', expected: true, description: 'anchored rule matches at root' },
+    { rules: ['archive/'], file: 'docs/archive/old.prd.md', expected: true, description: 'directory rule matches contents' },
+    { rules: ['*.wip.prd.md'], file: 'docs/x.wip.prd.md', expected: true, description: 'file pattern at any depth' },
+    { rules: ['drafts', '!drafts/keep.prd.md'], file: 'drafts/keep.prd.md', expected: false, description: 'negated rule re-includes file' },
+    { rules: ['# comment', ''], file: 'docs/a.prd.md', expected: false, description: 'comments and blank lines ignored' }
+  ];
+
+  let passed = 0;
+  for (const testCase of testCases) {
+    const result = new GlobPatternList(ignoreRulesToGlobs(testCase.rules), {}, false).matches(testCase.file);
+    if (result === testCase.expected) {
+      console.log(`  ✅ ${testCase.description}`);
+      passed++;
+    } else {
+      console.log(`  ❌ ${testCase.description}: expected ${testCase.expected}, got ${result}`);
+    }
+  }
+
+  console.log(`Ignore rules: ${passed}/${testCases.length} tests passed\n`);
+  return passed === testCases.length;
+}
+
+function testFindFiles() {
+  console.log('🧪 Testing file discovery...');
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glob-matcher-test-'));
+  const files = [
+    'docs/initial-release.prd.md',
+    'docs/readme.md',
+    'docs/billing/payments.prd.md',
+    'docs/billing/drafts/refunds.prd.md',
+    'docs/api/v2/auth.prd.md',
+    'docs/node_modules/pkg/ignored.prd.md',
+    'requirements/roadmap.prd.md',
+    'root.prd.md'
+  ];
+
+  try {
+    for (const file of files) {
+      const fullPath = path.join(tempDir, file);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, '# PRD\n');
+    }
+
+    const relative = (result: string[]) => result.map(file => path.relative(tempDir, file).replace(/\\/g, '/'));
+
+    const testCases: Array<{ patterns: string | string[]; expected: string[]; description: string; setup?: () => void }> = [
+      {
+        patterns: 'docs/**.prd.md',
+        expected: ['docs/api/v2/auth.prd.md', 'docs/billing/drafts/refunds.prd.md', 'docs/billing/payments.prd.md', 'docs/initial-release.prd.md'],
+        description: 'default glob recurses and skips node_modules'
+      },
+      {
+        patterns: 'docs/*.prd.md',
+        expected: ['docs/initial-release.prd.md'],
+        description: 'single-level glob'
+      },
+      {
+        patterns: ['docs/**.prd.md', '!**/drafts/**'],
+        expected: ['docs/api/v2/auth.prd.md', 'docs/billing/payments.prd.md', 'docs/initial-release.prd.md'],
+        description: 'negated pattern excludes drafts'
+      },
+      {
+        patterns: '{docs/billing,requirements}/*.prd.md',
+        expected: ['docs/billing/payments.prd.md', 'requirements/roadmap.prd.md'],
+        description: 'brace set across roots'
+      },
+      {
+        patterns: 'root.prd.md',
+        expected: ['root.prd.md'],
+        description: 'literal path'
+      },
+      {
+        patterns: 'missing/**.prd.md',
+        expected: [],
+        description: 'missing base directory'
+      },
+      {
+        patterns: 'docs/**.prd.md',
+        expected: ['docs/billing/payments.prd.md', 'docs/initial-release.prd.md'],
+        description: '.taskmasterignore excludes matching files and directories',
+        setup: () => fs.writeFileSync(path.join(tempDir, '.taskmasterignore'), '# drafts are not ready\ndrafts/\n/docs/api\n')
+      }
+    ];
+
+    let passed = 0;
+    for (const testCase of testCases) {
+      testCase.setup?.();
+      const result = relative(findFiles(testCase.patterns, { cwd: tempDir }));
+      if (JSON.stringify(result) === JSON.stringify(testCase.expected)) {
+        console.log(`  ✅ ${testCase.description}`);
+        passed++;
+      } else {
+        console.log(`  ❌ ${testCase.description}: expected ${JSON.stringify(testCase.expected)}, got ${JSON.stringify(result)}`);
+      }
+    }
+
+    const withoutIgnoreFile = relative(findFiles('docs/**.prd.md', { cwd: tempDir, ignoreFile: false }));
+    if (withoutIgnoreFile.length === 4) {
+      console.log('  ✅ ignore file can be disabled');
+      passed++;
+    } else {
+      console.log(`  ❌ ignore file can be disabled: got ${JSON.stringify(withoutIgnoreFile)}`);
+    }
+
+    const total = testCases.length + 1;
+    console.log(`File discovery: ${passed}/${total} tests passed\n`);
+    return passed === total;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+function runAllTests() {
+  console.log('🚀 Running glob matcher tests...\n');
+
+  const results = [
+    testMatchGlob(),
+    testPatternLists(),
+    testIgnoreRules(),
+    testFindFiles()
+  ];
+
+  const totalPassed = results.filter(r => r).length;
+  const total = results.length;
+
+  console.log(`\n🎉 Overall: ${totalPassed}/${total} test suites passed`);
+
+  if (totalPassed === total) {
+    console.log('\n✅ All glob matcher tests passed!');
+  } else {
+    console.log('\n❌ Some tests failed');
+    process.exit(1);
+  }
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,253 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test issue reconciliation planning and the idempotency state it records
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdempotencyManager, IssueState } from '../scripts/idempotency-manager';
+import {
+  planIssueReconciliation,
+  hasIssueChanged,
+  buildObsoleteLabels,
+  issueStatesFromFrontMatter,
+  OBSOLETE_LABEL,
+  type DesiredIssue
+} from '../scripts/issue-reconciliation';
+import { check, finishChecks } from './check-harness';
+
+function recordedIssue(issueNumber: number, taskId: string, overrides: Partial<IssueState> = {}): IssueState {
+  return {
+    issueNumber,
+    taskId,
+    sourceHash: 'old-hash',
+    dependencies: [],
+    dependents: [],
+    state: 'open',
+    labels: ['taskmaster'],
+    lastUpdated: new Date('2024-01-01T00:00:00Z'),
+    bodyHash: 'body-hash',
+    ...overrides
+  };
+}
+
+function testPlanning() {
+  console.log('🧪 Testing reconciliation planning...');
+
+  const desired: DesiredIssue[] = [
+    { taskId: '1', dependencies: [] },
+    { taskId: '2', dependencies: ['1'] },
+    { taskId: '2.1', parentTaskId: '2', dependencies: [] },
+    { taskId: '4', dependencies: [] }
+  ];
+
+  const recorded = [
+    recordedIssue(101, '1'),
+    recordedIssue(102, '2'),
+    recordedIssue(103, '2.1', { parentTaskId: '1' }),
+    recordedIssue(104, '3'),
+    recordedIssue(105, '5', { labels: ['taskmaster', OBSOLETE_LABEL] })
+  ];
+
+  const plan = planIssueReconciliation(desired, recorded);
+
+  check('new task is planned for creation', plan.toCreate.map(d => d.taskId).join(',') === '4');
+  check('existing tasks are matched', plan.matched.map(m => m.recorded.issueNumber).join(',') === '101,102,103');
+  check('removed task is retired', plan.toRetire.map(i => i.issueNumber).join(',') === '104');
+  check('already retired issue is not retired again', !plan.toRetire.some(i => i.issueNumber === 105));
+
+  const task2 = plan.matched.find(m => m.desired.taskId === '2')!;
+  check('dependency change is detected', task2.dependenciesChanged && !task2.parentChanged);
+
+  const task21 = plan.matched.find(m => m.desired.taskId === '2.1')!;
+  check('parent change is detected', task21.parentChanged);
+
+  const task1 = plan.matched.find(m => m.desired.taskId === '1')!;
+  check('unchanged task has no structural changes', !task1.parentChanged && !task1.dependenciesChanged);
+
+  const duplicates = planIssueReconciliation(
+    [{ taskId: '1', dependencies: [] }],
+    [
+      recordedIssue(201, '1', { lastUpdated: new Date('2024-01-01T00:00:00Z') }),
+      recordedIssue(202, '1', { lastUpdated: new Date('2024-02-01T00:00:00Z') })
+    ]
+  );
+  check('most recent duplicate is kept', duplicates.matched[0]?.recorded.issueNumber === 202);
+  check('older duplicate is retired', duplicates.toRetire.map(i => i.issueNumber).join(',') === '201');
+
+  check('live issues are not revived', plan.matched.every(m => !m.revived));
+
+  // Task 3 is removed, its issue retired and closed, then the task is added back
+  const removed = planIssueReconciliation([{ taskId: '1', dependencies: [] }], [recordedIssue(301, '1'), recordedIssue(302, '3')]);
+  check('removed task is retired first', removed.toRetire.map(i => i.issueNumber).join(',') === '302');
+  const readded = planIssueReconciliation(
+    [{ taskId: '1', dependencies: [] }, { taskId: '3', dependencies: [] }],
+    [recordedIssue(301, '1'), recordedIssue(302, '3', { state: 'closed', labels: buildObsoleteLabels(['taskmaster']) })]
+  );
+  const revived = readded.matched.find(m => m.desired.taskId === '3');
+  check('re-added task reuses its retired issue', revived?.recorded.issueNumber === 302 && readded.toCreate.length === 0);
+  check('re-added task is marked for revival', revived?.revived === true);
+
+  const fresh = planIssueReconciliation(desired, []);
+  check('no recorded issues means everything is created', fresh.toCreate.length === desired.length && fresh.toRetire.length === 0);
+
+  console.log('');
+}
+
+function testChangeDetection() {
+  console.log('🧪 Testing change detection and obsolete labels...');
+
+  const recorded = recordedIssue(1, '1', { labels: ['taskmaster', 'ready'] });
+  check('identical body and labels are unchanged', !hasIssueChanged(recorded, 'body-hash', ['ready', 'taskmaster']));
+  check('body hash change is detected', hasIssueChanged(recorded, 'other-hash', ['taskmaster', 'ready']));
+  check('label change is detected', hasIssueChanged(recorded, 'body-hash', ['taskmaster', 'blocked']));
+
+  const labels = buildObsoleteLabels(['taskmaster', 'priority:high', 'blocked', 'blocked-by:2']);
+  check('obsolete labels drop dependency status', JSON.stringify(labels) === JSON.stringify(['taskmaster', 'priority:high', OBSOLETE_LABEL]), JSON.stringify(labels));
+  check('obsolete label is not duplicated', buildObsoleteLabels(labels).filter(l => l === OBSOLETE_LABEL).length === 1);
+
+  console.log('');
+}
+
+function testStateRecording(stateFile: string) {
+  console.log('🧪 Testing reconciliation state recording...');
+
+  const prdPath = 'docs/reconcile.prd.md';
+  const manager = new IdempotencyManager(stateFile);
+
+  // First version of the PRD creates two issues
+  manager.beginTransaction();
+  const v1Hash = manager.recordPrdProcessingStart('# v1', prdPath);
+  manager.recordIssueCreation(301, '1', v1Hash, 'body 1', ['taskmaster']);
+  manager.recordIssueCreation(302, '2', v1Hash, 'body 2', ['taskmaster'], ['1']);
+  manager.recordPrdProcessingComplete(v1Hash, [301, 302]);
+  manager.commitTransaction();
+
+  const previous = manager.getIssuesForPrdFile(prdPath);
+  check('issues are found by PRD file', previous.map(i => i.issueNumber).sort().join(',') === '301,302');
+  check('other PRD files are excluded', manager.getIssuesForPrdFile('docs/other.prd.md').length === 0);
+
+  // Second version reconciles issue 302 and retires issue 301
+  manager.beginTransaction();
+  const v2Hash = manager.recordPrdProcessingStart('# v2', prdPath);
+  manager.recordIssueReconciliation(302, {
+    sourceHash: v2Hash,
+    body: 'body 2 updated',
+    labels: ['taskmaster', 'ready'],
+    dependencies: []
+  });
+  manager.recordIssueReconciliation(301, {
+    sourceHash: v2Hash,
+    labels: ['taskmaster', OBSOLETE_LABEL],
+    state: 'closed'
+  });
+  manager.recordPrdProcessingComplete(v2Hash, [302]);
+  manager.commitTransaction();
+
+  const state = manager.exportState();
+  check('reconciled issue moves to new source hash', state.issues[302].sourceHash === v2Hash);
+  check('reconciled body hash is updated', state.issues[302].bodyHash === manager.calculateIssueBodyHash('body 2 updated'));
+  check('dropped dependency removes dependent link', !state.issues[301].dependents.includes('2'));
+  check('retired issue is closed and labelled', state.issues[301].state === 'closed' && state.issues[301].labels.includes(OBSOLETE_LABEL));
+  check('issues stay associated with the PRD file', manager.getIssuesForPrdFile(prdPath).length === 2);
+
+  // A failed reconciliation rolls back cleanly
+  manager.beginTransaction();
+  const v3Hash = manager.recordPrdProcessingStart('# v3', prdPath);
+  manager.recordIssueReconciliation(302, { sourceHash: v3Hash, labels: ['taskmaster', 'blocked'] });
+  manager.recordIssueCreation(303, '3', v3Hash, 'body 3', ['taskmaster']);
+  manager.rollbackTransaction();
+
+  const rolledBack = manager.exportState();
+  check('rollback restores reconciled issue', rolledBack.issues[302].sourceHash === v2Hash &&
+    JSON.stringify(rolledBack.issues[302].labels) === JSON.stringify(['taskmaster', 'ready']));
+  check('rollback removes created issue', !rolledBack.issues[303]);
+  check('rollback removes PRD version', !rolledBack.prds[v3Hash]);
+
+  // Dependents changed on other issues are rolled back too
+  manager.beginTransaction();
+  const v4Hash = manager.recordPrdProcessingStart('# v4', prdPath);
+  manager.recordIssueReconciliation(302, { sourceHash: v4Hash, dependencies: ['1'] });
+  check('new dependency adds dependent link', manager.exportState().issues[301].dependents.includes('2'));
+  manager.rollbackTransaction();
+  check('rollback restores dependents of other issues', !manager.exportState().issues[301].dependents.includes('2'));
+
+  // Task 1 comes back and its retired issue is reopened
+  manager.beginTransaction();
+  const v5Hash = manager.recordPrdProcessingStart('# v5', prdPath);
+  manager.recordIssueReconciliation(301, { sourceHash: v5Hash, body: 'body 1', labels: ['taskmaster'], state: 'open' });
+  manager.recordPrdProcessingComplete(v5Hash, [301, 302]);
+  manager.commitTransaction();
+
+  const revivedState = manager.exportState().issues[301];
+  check('revived issue is recorded open and live', revivedState.state === 'open' && !revivedState.labels.includes(OBSOLETE_LABEL));
+  check('revived issue is no longer revived on the next run', planIssueReconciliation(
+    [{ taskId: '1', dependencies: [] }, { taskId: '2', dependencies: [] }],
+    manager.getIssuesForPrdFile(prdPath)
+  ).matched.every(m => !m.revived));
+
+  let threw = false;
+  try {
+    manager.recordIssueReconciliation(302, { sourceHash: v2Hash });
+  } catch {
+    threw = true;
+  }
+  check('reconciliation outside a transaction is rejected', threw);
+
+  console.log('');
+}
+
+function testFrontMatterState() {
+  console.log('🧪 Testing issue state rebuilt from front-matter...');
+
+  const issue = (number: number, frontMatter: string, state = 'open') => ({
+    number,
+    state,
+    body: `---\n${frontMatter}\n---\n\n## Description\n\nTask ${number}`,
+    labels: [{ name: 'taskmaster' }, 'prd:docs-billing'],
+    updated_at: '2024-02-01T00:00:00Z'
+  }) as any;
+
+  const states = issueStatesFromFrontMatter([
+    issue(401, 'id: 1\nkey: "docs-billing/1"'),
+    issue(402, 'id: 2\nkey: "docs-billing/1.2"\ndependencies: [1]', 'closed'),
+    issue(403, 'id: 1\nkey: "docs-other/1"'),
+    issue(404, 'id: 1\nkey: "issue-42/1"'),
+    issue(405, 'id: 3')
+  ], 'docs-billing', body => `hash:${body.length}`);
+
+  check('only issues keyed to the namespace are rebuilt', states.map(s => s.issueNumber).join(',') === '401,402');
+  check('task ID comes from the key', states[0].taskId === '1' && states[1].taskId === '1.2');
+  check('subtasks get their parent task', states[1].parentTaskId === '1' && states[0].parentTaskId === undefined);
+  check('subtask dependencies are qualified by the parent', JSON.stringify(states[1].dependencies) === JSON.stringify(['1.1']));
+  check('state and labels are taken from the issue', states[1].state === 'closed' &&
+    JSON.stringify(states[0].labels) === JSON.stringify(['taskmaster', 'prd:docs-billing']));
+  check('body hash is taken from the current body', states[0].bodyHash.startsWith('hash:'));
+
+  const plan = planIssueReconciliation([{ taskId: '1', dependencies: [] }], states);
+  check('rebuilt state reconciles like recorded state', plan.matched.length === 1 && plan.toRetire[0]?.issueNumber === 402);
+
+  console.log('');
+}
+
+function runAllTests() {
+  console.log('🚀 Running issue reconciliation tests...\n');
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconciliation-test-'));
+
+  try {
+    testPlanning();
+    testChangeDetection();
+    testFrontMatterState();
+    testStateRecording(path.join(tempDir, 'state.json'));
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  finishChecks('issue reconciliation');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,133 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test Mermaid dependency graph rendering
+ */
+
+import {
+  renderMermaidFlowchart,
+  formatTaskGraphMarkdown,
+  MarkdownTask,
+  MarkdownTaskGraph
+} from '../scripts/index';
+import { renderBreakdownGraph } from '../actions/taskmaster-breakdown/src/breakdown';
+import { check, finishChecks } from './check-harness';
+
+const taskGraph: MarkdownTaskGraph = {
+  tasks: [
+    { id: 1, title: 'Setup', status: 'done', dependencies: [] },
+    {
+      id: 2, title: 'Build "API"', dependencies: [1],
+      subtasks: [
+        { id: 1, title: 'Routes', dependencies: [] },
+        {
+          id: 2, title: 'Handlers', dependencies: [1],
+          subtasks: [{ id: 1, title: 'Auth handler', dependencies: [] }]
+        }
+      ]
+    },
+    { id: 3, title: 'Deploy', dependencies: [2] },
+    { id: 4, title: 'Docs', dependencies: [] }
+  ]
+};
+
+function testFlowchart() {
+  console.log('🧪 Testing flowcharts...');
+
+  const { markdown, shownTasks, totalTasks, truncated } = renderMermaidFlowchart(taskGraph);
+
+  check('a mermaid flowchart is rendered', markdown.startsWith('```mermaid\nflowchart TD\n'));
+  check('subtasks beyond the display depth collapse into their ancestor', shownTasks === 6 && totalTasks === 7 &&
+    !markdown.includes('t2_2_1') && markdown.includes('t2_2["2.2: Handlers<br/>+1 subtask"]'), markdown);
+  check('not truncated', !truncated);
+  check('labels are escaped', markdown.includes('2: Build #quot;API#quot;'));
+  check('dependencies point to their dependents', markdown.includes('  t1 --> t2\n') && markdown.includes('  t2_1 --> t2_2\n'));
+  check('subtasks hang from their parent', markdown.includes('  t2 -.- t2_1\n'));
+  check('the critical path is highlighted', markdown.includes('class t1,t2,t3 critical') &&
+    markdown.includes('linkStyle 0,4 stroke:#d73a49'), markdown);
+  check('done and blocked tasks are highlighted', markdown.includes('class t1 done') &&
+    markdown.includes('class t2_2,t3 blocked'), markdown);
+  check('a legend follows', markdown.includes('Arrows point from a task'));
+
+  const labeled = renderMermaidFlowchart(taskGraph, { maxDisplayDepth: 1, issueNumbers: { '2': 42 } });
+  check('issue numbers are labeled', labeled.markdown.includes('t2["2: Build #quot;API#quot;<br/>#42<br/>+3 subtasks"]'));
+
+  check('empty graphs render nothing', renderMermaidFlowchart({ tasks: [] }).markdown === '');
+
+  console.log('');
+}
+
+function testCycles() {
+  console.log('🧪 Testing dependency cycles...');
+
+  const { markdown } = renderMermaidFlowchart({
+    tasks: [
+      { id: 1, title: 'A', dependencies: [3] },
+      { id: 2, title: 'B', dependencies: [1] },
+      { id: 3, title: 'C', dependencies: [2] }
+    ]
+  });
+
+  check('cycle nodes are highlighted', /class (t\d,?){3} cycle/.test(markdown), markdown);
+  check('cycle links are highlighted', markdown.includes('linkStyle 0,1,2 stroke:#b08800'), markdown);
+
+  console.log('');
+}
+
+function testTruncation() {
+  console.log('🧪 Testing truncated graphs...');
+
+  const tasks: MarkdownTask[] = Array.from({ length: 60 }, (_, i) => ({
+    id: i + 1,
+    title: `Task number ${i + 1} with a fairly long title`,
+    dependencies: i > 0 && i < 5 ? [i] : [],
+    subtasks: Array.from({ length: 5 }, (_, j) => ({ id: j + 1, title: `Subtask ${j + 1}`, dependencies: [] }))
+  }));
+  const full = renderMermaidFlowchart({ tasks });
+
+  const collapsed = renderMermaidFlowchart({ tasks }, { maxLength: full.markdown.length - 1 });
+  check('subtasks collapse first', collapsed.truncated && collapsed.shownTasks === 60 &&
+    collapsed.markdown.length < full.markdown.length, `${collapsed.shownTasks} tasks`);
+  check('truncation is noted', collapsed.markdown.includes('truncated to fit: subtasks are collapsed'));
+
+  const limited = renderMermaidFlowchart({ tasks }, { maxLength: 3000 });
+  check('the result fits', limited.markdown.length <= 3000 && limited.shownTasks > 0 && limited.shownTasks < 60,
+    `${limited.markdown.length} characters`);
+  check('dropped tasks are noted', limited.markdown.includes(`showing ${limited.shownTasks} of 60 top-level tasks`));
+  check('critical path tasks are kept', ['t1[', 't2[', 't3[', 't4[', 't5['].every(id => limited.markdown.includes(id)));
+
+  const none = renderMermaidFlowchart({ tasks }, { maxLength: 10 });
+  check('nothing is rendered when no task fits', none.markdown === '' && none.truncated);
+
+  console.log('');
+}
+
+function testEmbedding() {
+  console.log('🧪 Testing embedded graphs...');
+
+  const preview = formatTaskGraphMarkdown(taskGraph, { includeDependencyGraph: true });
+  check('previews include the graph before the hierarchy', preview.indexOf('## 🕸️ Dependency Graph') > 0 &&
+    preview.indexOf('```mermaid') < preview.indexOf('## 📋 Task Hierarchy'));
+  check('previews omit it by default', !formatTaskGraphMarkdown(taskGraph).includes('```mermaid'));
+
+  const breakdownGraph = renderBreakdownGraph(taskGraph as any, { '1': { number: 11 } as any, '2': { number: 12 } as any }, 5000);
+  check('breakdown summaries label sub-issues', breakdownGraph.startsWith('\n### Dependency Graph\n```mermaid') &&
+    breakdownGraph.includes('#12<br/>+3 subtasks'), breakdownGraph);
+  check('breakdown summaries skip graphs that do not fit', renderBreakdownGraph(taskGraph as any, {}, 100) === '');
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running Mermaid renderer tests...\n');
+
+  testFlowchart();
+  testCycles();
+  testTruncation();
+  testEmbedding();
+
+  finishChecks('Mermaid renderer');
+}
+
+// Run tests
+runAllTests();
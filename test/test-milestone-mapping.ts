@@ -0,0 +1,190 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test milestone mapping from PRD sections, task graphs and task priorities
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import {
+  extractPrdMilestones,
+  planMilestones,
+  milestoneDuration,
+  MilestoneManager,
+  MilestoneTask
+} from '../scripts/milestone-mapping';
+import { validateTaskGraphSchema } from '../scripts/output-validation';
+import { validateConfig } from '../scripts/config-management';
+import { check, finishChecks } from './check-harness';
+
+const PRD = `# Checkout
+
+## Overview
+
+Rebuild the checkout.
+
+## Phase 1: Foundation (due 2026-12-01)
+Tasks: 1, #2
+
+Set up the basics.
+
+## Release 2.0
+Priorities: Critical, high
+
+## Requirements
+
+Tasks: 9
+`;
+
+function testPrdMilestones() {
+  console.log('🧪 Testing PRD milestone extraction...');
+
+  const milestones = extractPrdMilestones(PRD);
+  check('phase and release sections are milestones',
+    JSON.stringify(milestones.map(m => m.title)) === JSON.stringify(['Phase 1: Foundation', 'Release 2.0']), JSON.stringify(milestones));
+  check('due dates are read from headings', milestones[0].dueOn === '2026-12-01' && milestones[1].dueOn === undefined);
+  check('task lists are parsed', JSON.stringify(milestones[0].tasks) === JSON.stringify([1, 2]));
+  check('priorities are lower-cased', JSON.stringify(milestones[1].priorities) === JSON.stringify(['critical', 'high']));
+  check('lists under other sections are ignored', !milestones.some(m => m.tasks?.includes(9)));
+  check('PRDs without milestone sections declare none', extractPrdMilestones('# PRD\n\n## Goals\n').length === 0);
+
+  console.log('');
+}
+
+const TASKS: MilestoneTask[] = [
+  { id: 1, priority: 'medium', estimate: 2 },
+  { id: 2, priority: 'high', dependencies: [1] },
+  { id: 3, priority: 'high', dependencies: [2], subtasks: [{ id: 1 }, { id: 2, milestone: 'Later' }] },
+  { id: 4, priority: 'low', milestone: 'release 2.0' },
+  { id: 5, priority: 'low' }
+];
+
+function testMilestonePlan() {
+  console.log('🧪 Testing milestone assignment...');
+
+  const plan = planMilestones({ tasks: TASKS }, { declared: extractPrdMilestones(PRD) });
+  check('tasks listed by a milestone are assigned to it', plan.assignments.get('1') === 'Phase 1: Foundation' && plan.assignments.get('2') === 'Phase 1: Foundation');
+  check('tasks are assigned by priority', plan.assignments.get('3') === 'Release 2.0');
+  check('task milestones match declared titles case-insensitively', plan.assignments.get('4') === 'Release 2.0');
+  check('unmatched tasks have no milestone', !plan.assignments.has('5'));
+  check('subtasks follow their parent', plan.assignments.get('3.1') === 'Release 2.0');
+  check('subtask milestones are declared on first use', plan.assignments.get('3.2') === 'Later' && plan.milestones.has('Later'));
+  check('no due dates are derived by default', plan.milestones.get('Release 2.0')?.dueOn === undefined);
+
+  const overridden = planMilestones({
+    tasks: TASKS,
+    milestones: [{ title: 'phase 1: foundation', dueOn: '2027-01-15', tasks: [1] }]
+  }, { declared: extractPrdMilestones(PRD) });
+  check('task graph milestones override PRD declarations',
+    overridden.milestones.get('phase 1: foundation')?.dueOn === '2027-01-15' && overridden.assignments.get('2') === 'Release 2.0');
+
+  console.log('');
+}
+
+function testDueDates() {
+  console.log('🧪 Testing due dates from the critical path...');
+
+  const byTitle = new Map([['1', 'A'], ['2', 'B'], ['3', 'B']]);
+  check('critical path includes dependencies and estimates', milestoneDuration(TASKS, byTitle, 'B', 1) === 4,
+    String(milestoneDuration(TASKS, byTitle, 'B', 1)));
+  check('single tasks count their own estimate', milestoneDuration(TASKS, byTitle, 'A', 3) === 6);
+  check('empty milestones take no time', milestoneDuration(TASKS, byTitle, 'C', 1) === 0);
+
+  const plan = planMilestones({ tasks: TASKS }, {
+    declared: extractPrdMilestones(PRD),
+    daysPerTask: 2,
+    startDate: new Date('2026-10-01T12:00:00Z')
+  });
+  check('declared due dates are kept', plan.milestones.get('Phase 1: Foundation')?.dueOn === '2026-12-01');
+  check('missing due dates are derived', plan.milestones.get('Release 2.0')?.dueOn === '2026-10-09T00:00:00Z',
+    plan.milestones.get('Release 2.0')?.dueOn);
+
+  console.log('');
+}
+
+/**
+ * Client whose octokit milestone endpoints are replaced by an in-memory fake
+ */
+function createMockClient() {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const milestones: any[] = [{ number: 1, title: 'Release 2.0', description: null, due_on: '2026-10-11T07:00:00Z' }];
+  const calls: string[] = [];
+
+  (client as any).octokit = {
+    issues: {
+      listMilestones: async () => {
+        calls.push('list');
+        return { data: milestones };
+      },
+      createMilestone: async (params: any) => {
+        calls.push('create');
+        const milestone = { number: milestones.length + 1, ...params };
+        milestones.push(milestone);
+        return { data: milestone };
+      },
+      updateMilestone: async (params: any) => {
+        calls.push(`update:${params.milestone_number}`);
+        const milestone = milestones.find(m => m.number === params.milestone_number);
+        Object.assign(milestone, params);
+        return { data: milestone };
+      }
+    }
+  };
+
+  return { client, milestones, calls };
+}
+
+async function testMilestoneManager() {
+  console.log('🧪 Testing milestone creation and reuse...');
+
+  const { client, milestones, calls } = createMockClient();
+  const manager = new MilestoneManager();
+
+  const reused = await manager.ensureMilestone(client, { title: 'release 2.0', dueOn: '2026-10-11T00:00:00Z' });
+  check('existing milestones are reused by title', reused === 1 && !calls.includes('create'));
+  check('unchanged due dates are not rewritten', !calls.some(c => c.startsWith('update')));
+
+  const created = await manager.ensureMilestone(client, { title: 'Phase 1', dueOn: '2026-12-01' });
+  check('missing milestones are created with their due date',
+    created === 2 && milestones[1].due_on === '2026-12-01T00:00:00.000Z', JSON.stringify(milestones[1]));
+
+  await manager.ensureMilestone(client, { title: 'Release 2.0', dueOn: '2026-11-01' });
+  check('changed due dates are updated', calls.includes('update:1') && milestones[0].due_on === '2026-11-01T00:00:00.000Z');
+
+  await manager.ensureMilestone(client, { title: 'Phase 1' });
+  check('milestones are listed once per repository', calls.filter(c => c === 'list').length === 1);
+
+  console.log('');
+}
+
+function testValidation() {
+  console.log('🧪 Testing milestone validation...');
+
+  const task = { id: 1, title: 'API', description: 'Build the API' };
+  check('task graphs may declare milestones',
+    validateTaskGraphSchema({ tasks: [{ ...task, milestone: 'MVP' }], milestones: [{ title: 'MVP', dueOn: '2026-12-01', tasks: [1] }], metadata: {} }).valid);
+  check('invalid due dates are rejected',
+    !validateTaskGraphSchema({ tasks: [task], milestones: [{ title: 'MVP', dueOn: 'soon' }], metadata: {} }).valid);
+  check('empty task milestones are rejected',
+    !validateTaskGraphSchema({ tasks: [{ ...task, milestone: ' ' }], metadata: {} }).valid);
+
+  check('milestone days per task accepts 0', validateConfig({ milestoneDaysPerTask: 0 }, { skipRequired: true }).valid);
+  check('negative milestone days per task is clamped to 0',
+    validateConfig({ milestoneDaysPerTask: -1 }, { skipRequired: true }).sanitized.milestoneDaysPerTask === 0);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running milestone mapping tests...\n');
+
+  testPrdMilestones();
+  testMilestonePlan();
+  testDueDates();
+  await testMilestoneManager();
+  testValidation();
+
+  finishChecks('milestone mapping');
+}
+
+// Run tests
+runAllTests();
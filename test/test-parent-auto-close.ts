@@ -0,0 +1,149 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test automatic closing and reopening of parent issues with their sub-issues
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import { ParentIssueStateManager, formatProgressBar, parseBreakdownChecklist } from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+function parentBody(subIssues: Array<[number, boolean]>): string {
+  return `## Details\nParent\n\n## Breakdown Status\n⏳ **In Progress**\n\n**Progress:** 0/${subIssues.length} subtasks completed (0%)  \n**Last Updated:** 2026-01-01T00:00:00.000Z\n\n## Breakdown Summary\n${subIssues.map(([number, checked]) => `- [${checked ? 'x' : ' '}] #${number} Task ${number}`).join('\n')}\n`;
+}
+
+function createMockApi() {
+  const issues = new Map<number, any>([
+    [50, { number: 50, title: 'Epic', state: 'open', labels: [{ name: 'breakdown-completed' }], body: parentBody([[100, false], [51, true]]) }],
+    [51, { number: 51, title: 'Task 51', state: 'closed', labels: [], body: '' }],
+    [100, { number: 100, title: 'Feature', state: 'open', labels: [{ name: 'breakdown-completed' }], body: parentBody([[101, false], [102, true]]) }],
+    [101, { number: 101, title: 'Task 101', state: 'open', labels: [], body: '' }],
+    [102, { number: 102, title: 'Task 102', state: 'closed', labels: [], body: '' }]
+  ]);
+  const parents = new Map([[100, 50], [51, 50], [101, 100], [102, 100]]);
+  const comments: Array<{ issueNumber: number; body: string }> = [];
+  const stateReasons: string[] = [];
+
+  const api = {
+    async getIssue(issueNumber: number) {
+      return { ...issues.get(issueNumber) };
+    },
+    async updateIssue(issueNumber: number, params: any) {
+      const issue = issues.get(issueNumber);
+      if (params.body !== undefined) issue.body = params.body;
+      if (params.state) issue.state = params.state;
+      if (params.state_reason) stateReasons.push(`${issueNumber}:${params.state_reason}`);
+      if (params.labels) issue.labels = params.labels.map((name: string) => ({ name }));
+      return issue;
+    },
+    async createComment(issueNumber: number, body: string) {
+      comments.push({ issueNumber, body });
+      return { id: comments.length, html_url: '' };
+    },
+    async getParentIssue(issueNumber: number) {
+      const parent = parents.get(issueNumber);
+      return parent ? { ...issues.get(parent) } : null;
+    }
+  };
+
+  return { api, issues, comments, stateReasons };
+}
+
+async function testAutoClose() {
+  console.log('🧪 Testing parents closing and reopening with their sub-issues...');
+
+  const { api, issues, comments, stateReasons } = createMockApi();
+  const stateManager = new ParentIssueStateManager(api as any, undefined, { autoCloseParents: true });
+
+  issues.get(101).state = 'closed';
+  await stateManager.updateFromSubIssueChange(101, 'closed');
+
+  const parent = issues.get(100);
+  check('parent is closed with its last sub-issue', parent.state === 'closed' && stateReasons.includes('100:completed'));
+  check('a summary comment lists the sub-issues', comments.some(c => c.issueNumber === 100 && c.body.includes('All 2 sub-issues are closed') &&
+    c.body.includes('- [x] #101 Task 101')));
+  check('checkboxes follow the sub-issues', parseBreakdownChecklist(parent.body).every(entry => entry.checked));
+  check('progress bar is full', parent.body.includes('**Progress:** 2/2 subtasks completed (100%)') &&
+    parent.body.includes(formatProgressBar(2, 2)) && !parent.body.includes('0/2 subtasks'), parent.body);
+  check('grandparent is closed in turn', issues.get(50).state === 'closed');
+
+  issues.get(101).state = 'open';
+  await stateManager.updateFromSubIssueChange(101, 'open');
+
+  check('parent is reopened with a sub-issue', issues.get(100).state === 'open' && stateReasons.includes('100:reopened'));
+  check('reopening is explained', comments.some(c => c.issueNumber === 100 && c.body.includes('reopened automatically')));
+  check('checkbox of the reopened sub-issue is cleared', parseBreakdownChecklist(issues.get(100).body)
+    .find(entry => entry.issueNumber === 101)?.checked === false);
+  check('grandparent is reopened in turn', issues.get(50).state === 'open');
+
+  console.log('');
+}
+
+async function testOptIn() {
+  console.log('🧪 Testing parents without auto-close...');
+
+  const { api, issues, comments } = createMockApi();
+  const stateManager = new ParentIssueStateManager(api as any);
+
+  issues.get(101).state = 'closed';
+  await stateManager.updateFromSubIssueChange(101, 'closed');
+
+  check('parent stays open', issues.get(100).state === 'open' && comments.length === 0);
+  check('progress is still synced', issues.get(100).body.includes('2/2 subtasks completed'));
+  check('checkboxes are still synced', parseBreakdownChecklist(issues.get(100).body).every(entry => entry.checked));
+  check('labels are still synced', issues.get(100).labels.some((label: any) => label.name === 'all-subtasks-completed'),
+    JSON.stringify(issues.get(100).labels));
+
+  issues.get(101).state = 'open';
+  await stateManager.updateFromSubIssueChange(101, 'open');
+
+  check('reopening a sub-issue updates the parent without reopening anything', issues.get(100).state === 'open' &&
+    comments.length === 0 && issues.get(100).body.includes('1/2 subtasks completed') &&
+    parseBreakdownChecklist(issues.get(100).body).find(entry => entry.issueNumber === 101)?.checked === false);
+
+  console.log('');
+}
+
+async function testProgressBar() {
+  console.log('🧪 Testing progress bars...');
+
+  check('empty bar', formatProgressBar(0, 4) === '`░░░░░░░░░░`');
+  check('half-full bar', formatProgressBar(2, 4) === '`▓▓▓▓▓░░░░░`');
+  check('bars of parents without sub-issues are empty', formatProgressBar(0, 0, 4) === '`░░░░`');
+
+  console.log('');
+}
+
+async function testParentLookup() {
+  console.log('🧪 Testing parent lookup from sub-issue bodies...');
+
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web', subIssueMode: 'body' });
+  (client as any).octokit = {
+    issues: {
+      get: async ({ issue_number }: any) => ({
+        data: issue_number === 12
+          ? { number: 12, body: '## Details\nSub\n\n## Meta\n- **Parent Task:** #7\n' }
+          : { number: issue_number, body: '## Details\nNo parent\n' }
+      })
+    }
+  };
+
+  check('parent is read from the Parent Task line', (await client.getParentIssue(12))?.number === 7);
+  check('issues without one have no parent', (await client.getParentIssue(7)) === null);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running parent auto-close tests...\n');
+
+  await testAutoClose();
+  await testOptIn();
+  await testProgressBar();
+  await testParentLookup();
+
+  finishChecks('parent auto-close');
+}
+
+// Run tests
+runAllTests();
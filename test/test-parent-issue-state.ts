@@ -8,6 +8,7 @@
  * - Dynamic status updates based on sub-issue completion
  * - State consistency validation
  * - Label management and tracking
+ * - Breakdown failure reporting
  */
 
 import { ParentIssueStateManager, BreakdownStatus, type BreakdownMetadata } from '../scripts/parent-issue-state-manager';
@@ -96,6 +97,7 @@ class ParentStateTestSuite {
     await this.testDynamicStateUpdates();
     await this.testStateConsistencyValidation();
     await this.testLabelManagement();
+    await this.testBreakdownFailure();
 
     this.printResults();
   }
@@ -284,6 +286,36 @@ class ParentStateTestSuite {
     }
   }
 
+  private async testBreakdownFailure(): Promise<void> {
+    console.log('\n6️⃣ Testing breakdown failure reporting...');
+    
+    try {
+      await this.stateManager.failBreakdown(100, 'Task graph was not generated by CLI');
+      
+      const state = this.stateManager.getState(100);
+      const parentIssue = await this.mockApi.getIssue(100);
+      const labelNames = parentIssue.labels?.map((l: any) => l.name) || [];
+      
+      const passed = state?.breakdownStatus === BreakdownStatus.BREAKDOWN_FAILED &&
+                    labelNames.includes('breakdown-failed') &&
+                    !labelNames.includes('breakdown-completed') &&
+                    parentIssue.body.includes('Task graph was not generated by CLI');
+      
+      this.results.push({
+        name: 'Breakdown Failure',
+        passed,
+        details: passed ? 'Failure status, label and reason recorded' : `Labels found: ${labelNames.join(', ')}`
+      });
+      
+    } catch (error) {
+      this.results.push({
+        name: 'Breakdown Failure',
+        passed: false,
+        details: `Error: ${error}`
+      });
+    }
+  }
+
   private printResults(): void {
     console.log('\n🎉 Test Results Summary:');
     console.log('='.repeat(50));
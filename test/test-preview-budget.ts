@@ -0,0 +1,169 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test comment size budgeting and multi-part task graph previews
+ */
+
+import {
+  PrCommentManager,
+  formatTaskGraphMarkdown,
+  formatTaskGraphMarkdownParts,
+  GITHUB_COMMENT_MAX_LENGTH,
+  MarkdownTask,
+  MarkdownTaskGraph
+} from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+function buildTaskGraph(taskCount: number, detailLength: number, testStrategyLength = detailLength): MarkdownTaskGraph {
+  const task = (id: number, depth: number): MarkdownTask => ({
+    id,
+    title: `Task ${id} at depth ${depth}`,
+    description: `Description of task ${id}`,
+    details: 'd'.repeat(detailLength),
+    testStrategy: 't'.repeat(testStrategyLength),
+    priority: 'medium',
+    dependencies: id > 1 && depth === 0 ? [id - 1] : [],
+    subtasks: depth < 2 ? [task(1, depth + 1), task(2, depth + 1)] : undefined
+  });
+  return { tasks: Array.from({ length: taskCount }, (_, i) => task(i + 1, 0)) };
+}
+
+function testTrimming() {
+  console.log('🧪 Testing trimmed previews...');
+
+  const small = buildTaskGraph(3, 50);
+  const parts = formatTaskGraphMarkdownParts(small, {}, { maxLength: GITHUB_COMMENT_MAX_LENGTH });
+  check('small previews are left as they are', parts.length === 1 && parts[0] === formatTaskGraphMarkdown(small));
+
+  const graph = buildTaskGraph(10, 200, 2000);
+  const full = formatTaskGraphMarkdown(graph);
+  const withoutTests = formatTaskGraphMarkdownParts(graph, {}, { maxLength: full.length - 1 });
+  check('test strategies are dropped first', withoutTests.length === 1 &&
+    !withoutTests[0].includes('**Test Strategy:**') && withoutTests[0].includes('**Details:**'));
+  check('a notice says what was left out', withoutTests[0].includes('> ✂️ Test strategies are left out'));
+
+  const detailed = buildTaskGraph(10, 2000, 0);
+  const withoutDetails = formatTaskGraphMarkdownParts(detailed, {}, {
+    maxLength: formatTaskGraphMarkdown(detailed, { includeDetails: false }).length + 200
+  });
+  check('details are dropped next', withoutDetails.length === 1 && !withoutDetails[0].includes('**Details:**') &&
+    withoutDetails[0].includes('Task 2 at depth 2'), `${withoutDetails.length} parts`);
+
+  const plain = buildTaskGraph(20, 0, 0);
+  const collapsed = formatTaskGraphMarkdownParts(plain, { includeSummary: false }, {
+    maxLength: formatTaskGraphMarkdown(plain, { includeSummary: false, maxDisplayDepth: 2 }).length + 200
+  });
+  check('deep levels are collapsed last', collapsed.length === 1 && !collapsed[0].includes('at depth 2') &&
+    collapsed[0].includes('nested deeper than'), `${collapsed.length} parts, ${collapsed[0].length} characters`);
+
+  const reserved = formatTaskGraphMarkdownParts(small, {}, { maxLength: formatTaskGraphMarkdown(small).length, reservedLength: 100 });
+  check('reserved room counts against the first part', reserved[0] !== formatTaskGraphMarkdown(small));
+
+  console.log('');
+}
+
+function testSplitting() {
+  console.log('🧪 Testing previews split across parts...');
+
+  const graph = buildTaskGraph(400, 500);
+  const maxLength = 20000;
+  const parts = formatTaskGraphMarkdownParts(graph, { includeDependencyGraph: true }, { maxLength, reservedLength: 1000 });
+
+  check('huge previews are split', parts.length > 1, `${parts.length} parts`);
+  check('every part fits', parts.every((part, i) => part.length + (i === 0 ? 1000 : 0) <= maxLength),
+    parts.map(part => part.length).join(', '));
+  check('parts are labeled', parts.every((part, i) => part.startsWith(`# 🚀 Task Graph Preview (part ${i + 1}/${parts.length})`)));
+  check('continuations say so', parts.slice(1).every(part => part.includes('## 📋 Task Hierarchy (continued)')));
+  check('the summary and graph lead the first part', parts[0].includes('## 📊 Task Graph Summary') && parts[0].includes('```mermaid'));
+  check('the legend closes the last part', parts[parts.length - 1].includes('### 🔍 Legend') &&
+    !parts.slice(0, -1).some(part => part.includes('### 🔍 Legend')));
+  check('every task is kept', graph.tasks.every(task => parts.some(part => part.includes(`**Task ${task.id}**: Task ${task.id} at depth 0`))));
+
+  console.log('');
+}
+
+function createCommentStore() {
+  const comments = new Map<number, { id: number; body: string }>();
+  let nextId = 1;
+  const octokit = {
+    rest: {
+      issues: {
+        listComments: async ({ per_page = 30, page = 1 }: any) => ({
+          data: [...comments.values()].slice((page - 1) * per_page, page * per_page).map(comment => ({ ...comment }))
+        }),
+        createComment: async ({ body }: any) => {
+          const comment = { id: nextId++, body };
+          comments.set(comment.id, comment);
+          return { data: { ...comment } };
+        },
+        updateComment: async ({ comment_id, body }: any) => {
+          comments.get(comment_id)!.body = body;
+          return { data: { id: comment_id, body } };
+        },
+        deleteComment: async ({ comment_id }: any) => {
+          comments.delete(comment_id);
+          return {};
+        }
+      },
+      pulls: {
+        listFiles: async () => ({ data: [{ filename: 'docs/app.prd.md' }] })
+      }
+    }
+  };
+  return { comments, octokit };
+}
+
+async function testCommentSets() {
+  console.log('🧪 Testing preview comment sets...');
+
+  const { comments, octokit } = createCommentStore();
+  const manager = new PrCommentManager({ token: 'mock-token', owner: 'acme', repo: 'web', prNumber: 7 });
+  (manager as any).octokit = octokit;
+
+  // Push the previews past the first page of comments
+  for (let i = 0; i < 150; i++) {
+    await octokit.rest.issues.createComment({ body: `Review comment ${i}` });
+  }
+  const reviewComments = comments.size;
+
+  const huge = buildTaskGraph(1500, 300);
+  const first = await manager.postTaskGraphPreview(huge, { includeDetails: false }, '<details>\n<summary>🔀 Changes</summary>\n\nnone\n</details>');
+  const bodies = first.commentIds.map(id => comments.get(id)!.body);
+  check('huge previews are posted as several comments', first.isNew && first.commentIds.length > 1 &&
+    comments.size === reviewComments + first.commentIds.length, `${comments.size} comments`);
+  check('every comment fits', bodies.every(body => body.length <= GITHUB_COMMENT_MAX_LENGTH), bodies.map(body => body.length).join(', '));
+  check('parts are marker-tagged', bodies.every((body, i) => body.includes(`<!-- taskmaster-preview-part:${i + 1} -->`) &&
+    body.endsWith('<!-- taskmaster-preview-comment -->')));
+  check('the diff leads the first part', bodies[0].indexOf('🔀 Changes') < bodies[0].indexOf('## 📊'));
+
+  const again = await manager.postTaskGraphPreview(huge, { includeDetails: false });
+  check('the set is updated in place, beyond the first page', !again.isNew && again.commentIds.join(',') === first.commentIds.join(','));
+
+  const small = await manager.postTaskGraphPreview(buildTaskGraph(3, 50));
+  check('leftover parts are pruned', comments.size === reviewComments + 1 && small.commentIds.join(',') === String(first.commentIds[0]));
+  check('the remaining comment is the whole preview', !comments.get(first.commentIds[0])!.body.includes('(part '));
+
+  const compact = await manager.postCompactSummary(huge, undefined, { includeDetails: false });
+  const compactBodies = compact.commentIds.map(id => comments.get(id)!.body);
+  check('compact summaries are split too', compact.commentIds.length > 1 &&
+    compactBodies.every(body => body.length <= GITHUB_COMMENT_MAX_LENGTH && body.includes('<details>') && body.includes('</details>')));
+  check('the compact summary leads the first part', compactBodies[0].startsWith('## 🚀 Task Graph Preview\n\n**Task Graph:**') &&
+    !compactBodies[1].includes('**Task Graph:**'));
+
+  check('all parts are removed together', await manager.removePreviewComments() === compact.commentIds.length && comments.size === reviewComments);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running preview budget tests...\n');
+
+  testTrimming();
+  testSplitting();
+  await testCommentSets();
+
+  finishChecks('preview budget');
+}
+
+// Run tests
+runAllTests();
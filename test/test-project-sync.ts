@@ -0,0 +1,152 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test Projects (v2) synchronization of generated issues
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import {
+  parseProjectUrl,
+  projectStatusForLabels,
+  projectFieldsForTask,
+  createProjectSync,
+  syncIssueToProject
+} from '../scripts/project-sync';
+import { validateConfig } from '../scripts/config-management';
+import { check, finishChecks } from './check-harness';
+
+function testProjectHelpers() {
+  console.log('🧪 Testing project helpers...');
+
+  check('organization project URLs are parsed',
+    JSON.stringify(parseProjectUrl('https://github.com/orgs/acme/projects/3')) ===
+    JSON.stringify({ ownerType: 'organization', owner: 'acme', number: 3 }));
+  check('user project URLs are parsed', parseProjectUrl('https://github.com/users/octocat/projects/1/').ownerType === 'user');
+
+  let threw = false;
+  try {
+    parseProjectUrl('https://github.com/acme/web/projects/3');
+  } catch {
+    threw = true;
+  }
+  check('classic repository project URLs are rejected', threw);
+
+  check('blocked issues map to Blocked', projectStatusForLabels(['taskmaster', 'blocked', 'blocked-by:1']) === 'Blocked');
+  check('ready issues map to Ready', projectStatusForLabels(['ready']) === 'Ready');
+  check('issues without dependencies have no dependency status', projectStatusForLabels(['taskmaster']) === undefined);
+
+  const fields = projectFieldsForTask({ priority: 'high', status: 'pending', estimate: 3 }, { labels: ['blocked'], complexity: 'low', parent: '#4' });
+  check('task fields are mapped', fields.priority === 'high' && fields.complexity === 'low' && fields.parent === '#4' && fields.estimate === 3);
+  check('dependency state wins over task status', fields.status === 'Blocked');
+  check('task status is used without dependency labels', projectFieldsForTask({ status: 'in-progress' }).status === 'in-progress');
+
+  check('empty project URL is valid config', validateConfig({ projectUrl: '' }, { skipRequired: true }).valid);
+  check('invalid project URL is rejected by config', !validateConfig({ projectUrl: 'not a url' }, { skipRequired: true }).valid);
+
+  console.log('');
+}
+
+/**
+ * Client whose octokit.graphql is replaced by an in-memory fake project
+ */
+function createMockProject() {
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const items = new Map<string, string>([['I_existing', 'ITEM_existing']]);
+  const values: Array<{ itemId: string; fieldId: string; value: any }> = [];
+  const queries: string[] = [];
+
+  (client as any).octokit = {
+    graphql: async (query: string, variables: any) => {
+      if (query.includes('projectV2(number')) {
+        queries.push('load');
+        return {
+          organization: {
+            projectV2: {
+              id: 'PROJECT',
+              title: 'Roadmap',
+              fields: {
+                nodes: [
+                  { id: 'F_status', name: 'Status', dataType: 'SINGLE_SELECT', options: [
+                    { id: 'O_todo', name: 'Todo' }, { id: 'O_progress', name: 'In Progress' },
+                    { id: 'O_blocked', name: 'Blocked' }, { id: 'O_ready', name: 'Ready' }
+                  ] },
+                  { id: 'F_priority', name: 'Priority', dataType: 'SINGLE_SELECT', options: [{ id: 'O_high', name: 'High' }] },
+                  { id: 'F_parent', name: 'Parent', dataType: 'TEXT' },
+                  { id: 'F_estimate', name: 'Estimate', dataType: 'NUMBER' },
+                  { id: 'F_title', name: 'Title', dataType: 'TITLE' }
+                ]
+              }
+            }
+          }
+        };
+      }
+      if (query.includes('addProjectV2ItemById')) {
+        queries.push('add');
+        const itemId = items.get(variables.contentId) || `ITEM_${variables.contentId}`;
+        items.set(variables.contentId, itemId);
+        return { addProjectV2ItemById: { item: { id: itemId } } };
+      }
+      if (query.includes('projectItems')) {
+        queries.push('find');
+        const itemId = items.get(variables.contentId);
+        return { node: { projectItems: { nodes: itemId ? [{ id: itemId, project: { id: 'PROJECT' } }] : [] } } };
+      }
+      if (query.includes('updateProjectV2ItemFieldValue')) {
+        queries.push('update');
+        values.push({ itemId: variables.itemId, fieldId: variables.fieldId, value: variables.value });
+        return { updateProjectV2ItemFieldValue: { projectV2Item: { id: variables.itemId } } };
+      }
+      throw new Error(`Unexpected query: ${query}`);
+    }
+  };
+
+  return { client, values, queries };
+}
+
+async function testProjectSync() {
+  console.log('🧪 Testing project synchronization...');
+
+  check('no project URL disables sync', createProjectSync(createMockProject().client, '') === null);
+
+  const { client, values, queries } = createMockProject();
+  const projectSync = createProjectSync(client, 'https://github.com/orgs/acme/projects/3')!;
+
+  const synced = await syncIssueToProject(projectSync, { number: 7, node_id: 'I_new' }, {
+    priority: 'high',
+    complexity: 'medium',
+    status: 'in-progress',
+    parent: '#4',
+    estimate: 5
+  });
+  const byField = Object.fromEntries(values.map(v => [v.fieldId, v.value]));
+  check('issue is added to the project', synced && values.every(v => v.itemId === 'ITEM_I_new'));
+  check('single-select options are matched by name', byField.F_priority?.singleSelectOptionId === 'O_high' &&
+    byField.F_status?.singleSelectOptionId === 'O_progress', JSON.stringify(byField));
+  check('text and number fields are set', byField.F_parent?.text === '#4' && byField.F_estimate?.number === 5);
+  check('fields missing from the project are skipped', values.length === 4, String(values.length));
+
+  values.length = 0;
+  check('status is synced for issues on the board', await projectSync.syncStatus({ node_id: 'I_existing' }, 'Blocked') &&
+    values.length === 1 && values[0].value.singleSelectOptionId === 'O_blocked');
+  check('issues not on the board are left alone', !(await projectSync.syncStatus({ node_id: 'I_other' }, 'Ready')));
+  check('project is loaded once', queries.filter(q => q === 'load').length === 1);
+
+  const broken = createMockProject();
+  (broken.client as any).octokit.graphql = async () => { throw new Error('Resource not accessible by integration'); };
+  const brokenSync = createProjectSync(broken.client, 'https://github.com/orgs/acme/projects/3');
+  check('sync failures are reported, not thrown', !(await syncIssueToProject(brokenSync, { number: 1, node_id: 'I_1' }, {})));
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running project sync tests...\n');
+
+  testProjectHelpers();
+  await testProjectSync();
+
+  finishChecks('project sync');
+}
+
+// Run tests
+runAllTests();
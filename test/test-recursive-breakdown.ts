@@ -0,0 +1,132 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test recursive breakdown of sub-issues above the complexity threshold
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import { refreshSubIssueFromTask, SubIssueTask, CommandPolicy, commandPolicyFromConfig } from '../scripts/index';
+import { DEFAULT_CONFIG } from '../scripts/config-management';
+import {
+  exceedsComplexityThreshold,
+  flattenBreakdownResults,
+  enforceSubIssueBudget,
+  BreakdownResult,
+  BreakdownOptions,
+  SubIssueBudget
+} from '../actions/taskmaster-breakdown/src/breakdown';
+import { check, finishChecks } from './check-harness';
+
+function testThreshold() {
+  console.log('🧪 Testing the complexity threshold...');
+
+  const simple: SubIssueTask = { id: 1, title: 'Copy', description: 'Fix a typo' };
+  const complex: SubIssueTask = { id: 2, title: 'Payments', description: 'x'.repeat(300), details: 'y'.repeat(400), priority: 'high' };
+
+  check('simple tasks stay as they are', !exceedsComplexityThreshold(simple, 40));
+  check('complex tasks are broken down', exceedsComplexityThreshold(complex, 40));
+  check('scores are compared on the threshold scale', !exceedsComplexityThreshold(complex, 90) && exceedsComplexityThreshold(simple, 1));
+
+  console.log('');
+}
+
+function testFlattening() {
+  console.log('🧪 Testing nested results...');
+
+  const result = (number: number, childBreakdowns: BreakdownResult[] = []): BreakdownResult => ({
+    parentIssue: { number } as any,
+    taskGraph: { tasks: [] },
+    createdSubIssues: [{ number: number * 10 } as any],
+    decision: { mode: 'create', runKey: String(number), created: [], updated: [], unchanged: [], retired: [] },
+    childBreakdowns
+  });
+
+  const tree = result(1, [result(2, [result(4)]), result(3)]);
+  check('results are listed depth first', flattenBreakdownResults(tree).map(r => r.parentIssue.number).join(',') === '1,2,4,3');
+  check('sub-issues of every level are collected',
+    flattenBreakdownResults(tree).flatMap(r => r.createdSubIssues).length === 4);
+
+  console.log('');
+}
+
+async function testRefresh() {
+  console.log('🧪 Testing refreshed sub-issues that were broken down...');
+
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const titles: string[] = [];
+  (client as any).octokit = {
+    issues: {
+      update: async ({ title }: any) => {
+        titles.push(title);
+        return { data: {} };
+      }
+    }
+  };
+
+  const existing = {
+    number: 11, id: 1011, node_id: 'I_11', state: 'open', title: '[#1.1] Payments', labels: [],
+    body: '---\nkey: "issue-1/1"\n---\n\n## Details\nOld\n\n## Breakdown Status\n✅ **Completed**\n\n## Breakdown Summary\n- [ ] #21 Card\n'
+  };
+  const task: SubIssueTask = { id: 1, title: 'Payments', description: 'Take card payments' };
+  const refreshed = await refreshSubIssueFromTask(client, existing as any, task, { number: 1 } as any);
+
+  check('the body follows the task', refreshed.expectedBody.includes('## Details\nTake card payments') && !refreshed.expectedBody.includes('Old'));
+  check('breakdown sections of the sub-issue are kept', refreshed.expectedBody.endsWith('## Breakdown Status\n✅ **Completed**\n\n## Breakdown Summary\n- [ ] #21 Card'),
+    refreshed.expectedBody);
+  check('unchanged titles are not written', titles.length === 0);
+
+  console.log('');
+}
+
+async function testSubIssueBudget() {
+  console.log('🧪 Testing the sub-issue budget of a recursive breakdown...');
+
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const replies: string[] = [];
+  (client as any).octokit = {
+    issues: {
+      createComment: async ({ body }: any) => {
+        replies.push(body);
+        return { data: { id: replies.length, html_url: '' } };
+      }
+    }
+  };
+
+  const policy = new CommandPolicy(client, { ...commandPolicyFromConfig(DEFAULT_CONFIG), maxSubIssues: 10 });
+  const subIssueBudget: SubIssueBudget = { used: 0 };
+  const options = (level: number): BreakdownOptions => ({
+    maxDepth: 3,
+    complexityThreshold: 40,
+    commandArgs: {},
+    level,
+    policy,
+    policyRequest: { command: 'breakdown', issueNumber: 1, actor: 'octocat' },
+    subIssueBudget
+  });
+
+  check('the first level takes from the budget', (await enforceSubIssueBudget(options(1), 6)).allowed && subIssueBudget.used === 6);
+  check('deeper levels share it', (await enforceSubIssueBudget(options(2), 4)).allowed && subIssueBudget.used === 10);
+
+  const denied = await enforceSubIssueBudget(options(2), 3);
+  check('deeper levels are denied once it is used up', !denied.allowed && denied.rule === 'sub-issue-limit' && subIssueBudget.used === 10);
+  check('deeper denials do not reply', replies.length === 0);
+
+  subIssueBudget.used = 0;
+  check('the first level replies to its denial', !(await enforceSubIssueBudget(options(1), 11)).allowed && replies.length === 1);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running recursive breakdown tests...\n');
+
+  testThreshold();
+  testFlattening();
+  await testRefresh();
+  await testSubIssueBudget();
+
+  finishChecks('recursive breakdown');
+}
+
+// Run tests
+runAllTests();
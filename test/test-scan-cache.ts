@@ -0,0 +1,163 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test incremental full scans: scan cache, graph patching and conditional listings
+ */
+
+import { createGitHubApiClient } from '../scripts/github-api';
+import {
+  parseIssueBody,
+  DependencyGraphAnalyzer,
+  createScanCache,
+  isScanCacheExpired,
+  applyIssueChanges,
+  restoreDependencyGraph,
+  selectIssuesToRescan,
+  isUsableScanCache,
+  ApiIssue,
+  ParsedIssueData
+} from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+function issue(number: number, dependencies: number[], updatedAt: string, state = 'open', extraBody = ''): ApiIssue {
+  const checklist = dependencies.map(dep => `- [ ] #${dep}`).join('\n');
+  return {
+    number,
+    id: 1000 + number,
+    node_id: `I_${number}`,
+    title: `Task ${number}`,
+    state,
+    labels: [{ name: 'taskmaster' }],
+    updated_at: updatedAt,
+    body: `## Details\nTask ${number}\n${dependencies.length > 0 ? `\n## Dependencies\n\n${checklist}\n` : ''}${extraBody}`
+  } as any;
+}
+
+function parse(apiIssue: ApiIssue): ParsedIssueData | null {
+  const parsed = parseIssueBody(apiIssue.body || '');
+  parsed.issueNumber = apiIssue.number;
+  parsed.repository = 'acme/web';
+  return parsed;
+}
+
+function graphShape(graph: Map<any, any>): string {
+  return [...graph.values()]
+    .map(node => `${node.id}<-[${[...node.dependencies].sort().join(',')}]->[${[...node.dependents].sort().join(',')}]`)
+    .sort()
+    .join(' ');
+}
+
+function testGraphPatching() {
+  console.log('🧪 Testing patched dependency graphs...');
+
+  const options = { repository: 'acme/web' };
+  const before = [issue(1, [], 't1'), issue(2, [1], 't1'), issue(3, [2], 't1'), issue(4, [1, 3], 't1')];
+  const graph = DependencyGraphAnalyzer.buildDependencyGraph(before.map(i => parse(i)!), options);
+
+  // #3 no longer depends on #2 but on #1, #2 is closed and #5 is new
+  const changed = [issue(3, [1], 't2'), issue(5, [3], 't2')];
+  DependencyGraphAnalyzer.patchDependencyGraph(graph, changed.map(i => parse(i)!), ['acme/web#2'], options);
+
+  const after = [issue(1, [], 't1'), issue(3, [1], 't2'), issue(4, [1, 3], 't1'), issue(5, [3], 't2')];
+  const rebuilt = DependencyGraphAnalyzer.buildDependencyGraph(after.map(i => parse(i)!), options);
+
+  check('patched graph matches a rebuild', graphShape(graph) === graphShape(rebuilt),
+    `${graphShape(graph)} vs ${graphShape(rebuilt)}`);
+
+  console.log('');
+}
+
+function testIssueChanges() {
+  console.log('🧪 Testing changes applied to a scan cache...');
+
+  const cache = createScanCache('acme/web', [
+    issue(1, [], '2026-01-01T00:00:00Z'),
+    issue(2, [1], '2026-01-02T00:00:00Z'),
+    issue(3, [2], '2026-01-03T00:00:00Z'),
+    issue(6, [], '2026-01-01T00:00:00Z', 'open', '\n## Breakdown Summary\n- [ ] #1 Task 1\n')
+  ], parse, new Date('2026-01-05T00:00:00Z'));
+
+  check('cache is usable for its repository', isUsableScanCache(JSON.parse(JSON.stringify(cache)), 'Acme/Web'));
+  check('cache of another repository is not', !isUsableScanCache(cache, 'acme/api'));
+  check('cursor starts at the latest update', cache.cursor === '2026-01-03T00:00:00Z', cache.cursor);
+  check('cache is fresh within a day', !isScanCacheExpired(cache, new Date('2026-01-05T23:00:00Z')));
+  check('cache expires after a day', isScanCacheExpired(cache, new Date('2026-01-06T00:00:00Z')));
+  check('cache of an older version is not usable', !isUsableScanCache({ ...cache, version: 1 }, 'acme/web'));
+
+  const parsedNumbers: number[] = [];
+  const counting = (apiIssue: ApiIssue) => {
+    parsedNumbers.push(apiIssue.number);
+    return parse(apiIssue);
+  };
+
+  const changes = applyIssueChanges(cache, [
+    issue(3, [2], '2026-01-03T00:00:00Z'),
+    issue(1, [], '2026-01-04T00:00:00Z', 'closed'),
+    issue(4, [3], '2026-01-04T12:00:00Z')
+  ], counting, '"etag-1"');
+
+  check('unchanged issues are not re-parsed', parsedNumbers.join(',') === '4', parsedNumbers.join(','));
+  check('new issues are changed', changes.changed.map(i => i.number).join(',') === '4');
+  check('closed issues are removed', changes.removed.join(',') === 'acme/web#1' && !cache.issues[1]);
+  check('graph is patched', restoreDependencyGraph(cache).get('acme/web#3')!.dependents.join(',') === 'acme/web#4' &&
+    !restoreDependencyGraph(cache).has('acme/web#1'));
+  check('cursor advances to the latest update', cache.cursor === '2026-01-04T12:00:00Z', cache.cursor);
+  check('ETag is dropped when the cursor moves', cache.etag === undefined);
+
+  const rescanned = selectIssuesToRescan(cache, changes).map(i => i.number).sort().join(',');
+  check('changed issues, dependents and breakdown parents are re-checked', rescanned === '2,4,6', rescanned);
+
+  applyIssueChanges(cache, [issue(4, [3], '2026-01-04T12:00:00Z')], counting, '"etag-2"');
+  check('ETag is kept when the cursor stays put', cache.etag === '"etag-2"');
+
+  console.log('');
+}
+
+async function testConditionalListing() {
+  console.log('🧪 Testing conditional issue listings...');
+
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  const requests: any[] = [];
+  let modified = true;
+  (client as any).octokit = {
+    issues: {
+      listForRepo: async (params: any) => {
+        requests.push(params);
+        if (!modified) {
+          throw Object.assign(new Error('Not Modified'), { status: 304 });
+        }
+        const count = params.page === 1 ? 100 : 3;
+        return {
+          data: Array.from({ length: count }, (_, i) => issue((params.page - 1) * 100 + i + 1, [], 't1')),
+          headers: { etag: `"page-${params.page}"` }
+        };
+      }
+    }
+  };
+
+  const listing = await client.listIssuesConditional({ state: 'all', since: '2026-01-01T00:00:00Z' });
+  check('all pages are listed', listing.issues.length === 103 && requests.length === 2, `${listing.issues.length} issues`);
+  check('the ETag of the first page is returned', listing.etag === '"page-1"' && !listing.notModified);
+  check('the cursor is sent', requests[0].since === '2026-01-01T00:00:00Z');
+
+  modified = false;
+  requests.length = 0;
+  const unchanged = await client.listIssuesConditional({ state: 'all' }, '"page-1"');
+  check('the ETag is sent as If-None-Match', requests[0].headers?.['if-none-match'] === '"page-1"');
+  check('304 answers are not modified', unchanged.notModified && unchanged.issues.length === 0 && unchanged.etag === '"page-1"');
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running scan cache tests...\n');
+
+  testGraphPatching();
+  testIssueChanges();
+  await testConditionalListing();
+
+  finishChecks('scan cache');
+}
+
+// Run tests
+runAllTests();
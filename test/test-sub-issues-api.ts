@@ -4,7 +4,8 @@
  * Test the sub-issues API integration functionality
  */
 
-import { createGitHubApiClient } from '../scripts/github-api';
+import { createGitHubApiClient, GitHubApiConfig } from '../scripts/github-api';
+import { collectBodySubIssueLinks, removeSubtasksSection } from '../scripts/sub-issue-migration';
 
 // Mock environment for testing
 const mockConfig = {
@@ -194,11 +195,174 @@ Sub-issue without meta`;
   }
 }
 
+function testMoveSubIssueInBody() {
+  console.log('\n🧪 Testing reprioritize sub-issue in body...');
+  
+  const client = createGitHubApiClient(mockConfig);
+  const moveMethod = (client as any).moveSubIssueInBody.bind(client);
+  
+  const body = `## Subtasks
+   - [ ] #100
+   - [ ] #200
+   - [x] #300
+
+## Meta
+Some metadata`;
+
+  const after = moveMethod(body, 300, { afterIssueNumber: 100 });
+  if (after.indexOf('#300') < after.indexOf('#200') && after.indexOf('#100') < after.indexOf('#300') && after.includes('## Meta')) {
+    console.log('✅ Successfully moved sub-issue after another');
+  } else {
+    console.log('Result:', after);
+    throw new Error('Move after failed');
+  }
+
+  const before = moveMethod(body, 200, { beforeIssueNumber: 100 });
+  if (before.indexOf('#200') < before.indexOf('#100')) {
+    console.log('✅ Successfully moved sub-issue before another');
+  } else {
+    console.log('Result:', before);
+    throw new Error('Move before failed');
+  }
+
+  if (moveMethod(body, 999, { afterIssueNumber: 100 }) === body) {
+    console.log('✅ Unknown sub-issue leaves body unchanged');
+  } else {
+    throw new Error('Unknown sub-issue changed body');
+  }
+}
+
+/**
+ * Client whose octokit is replaced by an in-memory fake
+ */
+function createMockClient(config: Partial<GitHubApiConfig>, nativeAvailable: boolean) {
+  const client = createGitHubApiClient({ ...mockConfig, debug: false, ...config });
+  const bodies: Record<number, string> = { 1: '## Description\nParent', 2: '## Description\nChild' };
+  const requests: string[] = [];
+
+  (client as any).octokit = {
+    request: async (route: string, params: any) => {
+      requests.push(route);
+      if (!nativeAvailable) {
+        throw Object.assign(new Error('Not Found'), { status: 404 });
+      }
+      if (route.startsWith('GET')) {
+        return { data: [{ number: 2, id: 1002 }] };
+      }
+      return { data: { params } };
+    },
+    issues: {
+      get: async ({ issue_number }: any) => ({ data: { number: issue_number, id: 1000 + issue_number, state: 'open', body: bodies[issue_number] } }),
+      update: async ({ issue_number, body }: any) => {
+        bodies[issue_number] = body;
+        return { data: { number: issue_number, body } };
+      }
+    }
+  };
+
+  return { client, bodies, requests };
+}
+
+async function testNativeSubIssues() {
+  console.log('\n🧪 Testing native sub-issues API...');
+
+  const native = createMockClient({}, true);
+  await native.client.addSubIssue(1, 2);
+  await native.client.removeSubIssue(1, 2);
+  await native.client.reprioritizeSubIssue(1, 2, { afterIssueNumber: 3 });
+  const listed = await native.client.getSubIssues(1);
+
+  const expectedRoutes = [
+    'POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
+    'DELETE /repos/{owner}/{repo}/issues/{issue_number}/sub_issue',
+    'PATCH /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/priority',
+    'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues'
+  ];
+  if (JSON.stringify(native.requests) === JSON.stringify(expectedRoutes) && listed.map(i => i.number).join(',') === '2') {
+    console.log('✅ Add, remove, reprioritize and list use the sub-issues endpoints');
+  } else {
+    console.log('Requests:', native.requests);
+    throw new Error('Native endpoints not used');
+  }
+  if (!native.bodies[1].includes('## Subtasks')) {
+    console.log('✅ Native links leave issue bodies untouched');
+  } else {
+    throw new Error('Native link edited body');
+  }
+
+  const fallback = createMockClient({}, false);
+  await fallback.client.addSubIssue(1, 2);
+  await fallback.client.addSubIssue(1, 2);
+  if (fallback.bodies[1].includes('- [ ] #2') && fallback.bodies[1].match(/#2/g)!.length === 1 &&
+      fallback.bodies[2].includes('**Parent Task:** #1')) {
+    console.log('✅ Unavailable API falls back to body links without duplicates');
+  } else {
+    console.log('Bodies:', fallback.bodies);
+    throw new Error('Body fallback failed');
+  }
+  if (fallback.requests.length === 1) {
+    console.log('✅ Fallback is remembered after the first failure');
+  } else {
+    throw new Error(`Expected one native attempt, got ${fallback.requests.length}`);
+  }
+
+  const strict = createMockClient({ subIssueMode: 'native' }, false);
+  let threw = false;
+  try {
+    await strict.client.addSubIssue(1, 2);
+  } catch {
+    threw = true;
+  }
+  if (threw && !strict.bodies[1].includes('## Subtasks')) {
+    console.log('✅ Native mode reports errors instead of falling back');
+  } else {
+    throw new Error('Native mode fell back to body links');
+  }
+
+  const bodyMode = createMockClient({ subIssueMode: 'body' }, true);
+  await bodyMode.client.addSubIssue(1, 2);
+  if (bodyMode.requests.length === 0 && bodyMode.bodies[1].includes('#2')) {
+    console.log('✅ Body mode never calls the sub-issues API');
+  } else {
+    throw new Error('Body mode called the sub-issues API');
+  }
+}
+
+function testMigrationLinks() {
+  console.log('\n🧪 Testing body link collection for migration...');
+
+  const links = collectBodySubIssueLinks([
+    { number: 10, body: '## Subtasks\n   - [ ] #11\n   - [x] #12\n\n## Meta\n' },
+    { number: 11, body: '## Meta\n- **Parent Task:** #10\n' },
+    { number: 12, body: '---\nid: 2\nparent: 10\n---\n\nBody' },
+    { number: 13, body: '## Meta\n- Parent Task: #10\n' },
+    { number: 14, body: '## Meta\n- **Parent Task:** #999\n' }
+  ]);
+
+  const pairs = links.map(l => `${l.parentIssueNumber}>${l.subIssueNumber}`).join(',');
+  if (pairs === '10>11,10>12,10>13') {
+    console.log('✅ Links are collected from parent sections, meta lines and front-matter');
+  } else {
+    throw new Error(`Unexpected links: ${pairs}`);
+  }
+
+  const cleaned = removeSubtasksSection('## Description\nParent\n\n## Subtasks\n   - [ ] #11\n\n## Meta\nmeta');
+  if (!cleaned.includes('## Subtasks') && !cleaned.includes('#11') && cleaned.includes('## Meta')) {
+    console.log('✅ Subtasks section is removed after migration');
+  } else {
+    console.log('Result:', cleaned);
+    throw new Error('Subtasks section not removed');
+  }
+}
+
 async function runTests() {
   try {
     testParseSubIssuesFromBody();
     testAddSubIssueToBody();
     testAddParentReferenceToBody();
+    testMoveSubIssueInBody();
+    await testNativeSubIssues();
+    testMigrationLinks();
     
     console.log('\n🎉 All sub-issues API tests passed!');
     console.log('\nImplemented functionality:');
@@ -206,6 +370,8 @@ async function runTests() {
     console.log('✅ Add sub-issue references to parent issue bodies');
     console.log('✅ Add parent references to sub-issue bodies');
     console.log('✅ Remove sub-issue and parent references');
+    console.log('✅ Use native sub-issues endpoints with body fallback');
+    console.log('✅ Collect body links for native migration');
     console.log('✅ Integrate with existing GitHub API rate limiting and error handling');
     
   } catch (error) {
@@ -0,0 +1,192 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the PR preview diff of a task graph against the synced issues
+ */
+
+import {
+  PrCommentManager,
+  snapshotTaskGraph,
+  snapshotIssueStates,
+  attachIssueNumbers,
+  diffTaskGraphs,
+  countTaskGraphChanges,
+  formatTaskGraphDiff,
+  MarkdownTaskGraph
+} from '../scripts/index';
+import { IssueState } from '../scripts/idempotency-manager';
+import { check, finishChecks } from './check-harness';
+
+const baseGraph: MarkdownTaskGraph = {
+  tasks: [
+    { id: 1, title: 'Setup', description: 'Create the repository', priority: 'high', dependencies: [] },
+    {
+      id: 2, title: 'Build API', description: 'Endpoints', priority: 'medium', dependencies: [1],
+      subtasks: [
+        { id: 1, title: 'Routes', description: 'Routing', dependencies: [] },
+        { id: 2, title: 'Handlers', description: 'Handlers', dependencies: [1] }
+      ]
+    },
+    { id: 3, title: 'Docs', description: 'Write docs', priority: 'low', dependencies: [2] }
+  ]
+};
+
+const headGraph: MarkdownTaskGraph = {
+  tasks: [
+    { id: 1, title: 'Setup repository', description: 'Create the repository', priority: 'high', dependencies: [] },
+    {
+      id: 2, title: 'Build API', description: 'Endpoints and auth', priority: 'critical', dependencies: [],
+      subtasks: [
+        { id: 1, title: 'Routes', description: 'Routing', dependencies: [] },
+        { id: 2, title: 'Handlers', description: 'Handlers', dependencies: [1] }
+      ]
+    },
+    { id: 4, title: 'Deploy', description: 'Ship it', priority: 'medium', dependencies: [2] }
+  ]
+};
+
+function issueState(issueNumber: number, taskId: string, dependencies: string[], labels: string[] = [], lastUpdated = '2026-01-01T00:00:00Z'): IssueState {
+  return {
+    issueNumber,
+    taskId,
+    sourceHash: 'hash',
+    dependencies,
+    dependents: [],
+    state: 'open',
+    labels,
+    lastUpdated: new Date(lastUpdated),
+    bodyHash: 'body'
+  } as IssueState;
+}
+
+const recordedIssues = [
+  issueState(11, '1', []),
+  issueState(12, '2', ['1']),
+  issueState(13, '2.1', []),
+  issueState(14, '2.2', ['2.1']),
+  issueState(15, '3', ['2']),
+  issueState(9, '3', ['2'], [], '2025-12-01T00:00:00Z'),
+  issueState(8, '5', [], ['taskmaster:obsolete'])
+];
+
+function testSnapshots() {
+  console.log('🧪 Testing task graph snapshots...');
+
+  const snapshots = snapshotTaskGraph(baseGraph);
+  check('tasks and subtasks are snapshotted', snapshots.map(s => s.taskId).join(',') === '1,2,2.1,2.2,3');
+  check('subtask dependencies are prefixed with their parent', snapshots.find(s => s.taskId === '2.2')!.dependencies.join(',') === '2.1');
+
+  const recorded = snapshotIssueStates(recordedIssues);
+  check('retired issues are skipped', !recorded.some(s => s.taskId === '5'));
+  check('the latest issue of a task wins', recorded.find(s => s.taskId === '3')!.issueNumber === 15);
+  check('issue numbers are attached', attachIssueNumbers(snapshots, recordedIssues).find(s => s.taskId === '2.1')!.issueNumber === 13);
+
+  console.log('');
+}
+
+function testArtifactDiff() {
+  console.log('🧪 Testing diffs against the base branch task graph...');
+
+  const base = attachIssueNumbers(snapshotTaskGraph(baseGraph), recordedIssues);
+  const diff = diffTaskGraphs(base, snapshotTaskGraph(headGraph), 'artifact');
+
+  check('added tasks are listed', diff.added.map(s => s.taskId).join(',') === '4');
+  check('removed tasks keep their issue', diff.removed.length === 1 && diff.removed[0].issueNumber === 15);
+  check('title changes are detected', diff.changed.find(c => c.after.taskId === '1')?.fields.join(',') === 'title');
+  check('body, dependency and priority changes are detected',
+    diff.changed.find(c => c.after.taskId === '2')?.fields.join(',') === 'body,dependencies,priority');
+  check('unchanged subtasks are not listed', !diff.changed.some(c => c.after.taskId.startsWith('2.')));
+  check('removed edges are listed', diff.edgesRemoved.length === 1 &&
+    diff.edgesRemoved[0].taskId === '2' && diff.edgesRemoved[0].dependsOn === '1');
+  check('edges of added tasks are not listed', diff.edgesAdded.length === 0);
+  check('changes are counted', countTaskGraphChanges(diff) === 4);
+
+  console.log('');
+}
+
+function testIdempotencyStateDiff() {
+  console.log('🧪 Testing diffs against recorded issues...');
+
+  const diff = diffTaskGraphs(snapshotIssueStates(recordedIssues), snapshotTaskGraph(headGraph), 'idempotency-state');
+
+  check('only dependency changes are detected', diff.changed.length === 1 &&
+    diff.changed[0].after.taskId === '2' && diff.changed[0].fields.join(',') === 'dependencies');
+  check('changed tasks carry their issue', diff.changed[0].after.issueNumber === 12);
+
+  const markdown = formatTaskGraphDiff(diff);
+  check('the base is explained', markdown.includes('against the recorded issues'));
+
+  console.log('');
+}
+
+function testFormatting() {
+  console.log('🧪 Testing diff sections...');
+
+  const base = attachIssueNumbers(snapshotTaskGraph(baseGraph), recordedIssues);
+  const diff = diffTaskGraphs(base, snapshotTaskGraph(headGraph), 'artifact');
+
+  const labeled = formatTaskGraphDiff(diff);
+  check('the section is collapsible', labeled.startsWith('<details>') && labeled.trimEnd().endsWith('</details>'));
+  check('the summary counts the changes', labeled.includes('1 to create, 2 to update, 1 to retire'));
+  check('removed tasks are labeled by default', labeled.includes('labeled `taskmaster:obsolete`') && labeled.includes('- #15 3 Docs'));
+  check('changed tasks are tabulated', labeled.includes('| #11 | 1 Setup repository | title: ~~Setup~~ → Setup repository |'));
+  check('edges are listed', labeled.includes('- ➖ 2 no longer depends on 1'));
+
+  check('removed tasks are closed with obsoleteIssueAction close',
+    formatTaskGraphDiff(diff, { obsoleteIssueAction: 'close' }).includes('Their issues would be closed'));
+  check('removed tasks are left alone without reconciliation',
+    formatTaskGraphDiff(diff, { reconcileIssues: false }).includes('left as they are'));
+
+  const unchanged = formatTaskGraphDiff(diffTaskGraphs(base, snapshotTaskGraph(baseGraph), 'artifact'));
+  check('unchanged graphs say so', unchanged.includes('no issue changes') && unchanged.includes('already match'));
+
+  console.log('');
+}
+
+async function testPreviewComment() {
+  console.log('🧪 Testing diff sections in preview comments...');
+
+  const manager = new PrCommentManager({ token: 'mock-token', owner: 'acme', repo: 'web', prNumber: 7 });
+  let posted = '';
+  (manager as any).octokit = {
+    rest: {
+      issues: {
+        listComments: async () => ({ data: [] }),
+        createComment: async ({ body }: any) => {
+          posted = body;
+          return { data: { id: 1, body, html_url: '' } };
+        }
+      }
+    }
+  };
+
+  const diffSection = formatTaskGraphDiff(diffTaskGraphs([], snapshotTaskGraph(headGraph), 'artifact'));
+
+  await manager.postTaskGraphPreview(headGraph, {}, diffSection);
+  check('the diff follows the title of full previews', posted.indexOf('# 🚀 Task Graph Preview') < posted.indexOf('<summary>🔀') &&
+    posted.indexOf('<summary>🔀') < posted.indexOf('## 📊'), posted.slice(0, 200));
+
+  await manager.postCompactSummary(headGraph, diffSection);
+  check('the diff follows the compact summary', posted.indexOf('<summary>🔀') > 0 &&
+    posted.indexOf('<summary>🔀') < posted.indexOf('Click to see full task breakdown'));
+
+  await manager.postTaskGraphPreview(headGraph);
+  check('previews without a diff are unchanged', !posted.includes('🔀'));
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running task graph diff tests...\n');
+
+  testSnapshots();
+  testArtifactDiff();
+  testIdempotencyStateDiff();
+  testFormatting();
+  await testPreviewComment();
+
+  finishChecks('task graph diff');
+}
+
+// Run tests
+runAllTests();
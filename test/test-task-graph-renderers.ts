@@ -0,0 +1,198 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test task graph renderers, the task graph JSON Schema and the render CLI
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createTaskGraphRendererRegistry,
+  renderTaskGraphCsv,
+  renderTaskGraphHtml,
+  writeTaskGraphReports,
+  validateTaskGraphSchema,
+  validateAgainstSchema,
+  TASK_GRAPH_SCHEMA,
+  TaskGraph
+} from '../scripts/index';
+import { parseCliArgs, runRenderCli } from '../scripts/task-graph-render-cli';
+import { check, finishChecks } from './check-harness';
+
+const taskGraph: TaskGraph = {
+  tasks: [
+    { id: 1, title: 'Setup', description: 'Create the repository', priority: 'high', status: 'done', dependencies: [] },
+    {
+      id: 2, title: 'Build "API", v2', description: 'Endpoints\nand auth', priority: 'critical', dependencies: [1],
+      estimate: 5, milestone: 'MVP',
+      subtasks: [
+        { id: 1, title: 'Routes', description: 'Routing', dependencies: [] },
+        { id: 2, title: '=SUM(A1)', description: 'Handlers <script>', dependencies: [1] }
+      ]
+    },
+    { id: 10, title: 'Docs', description: 'Write docs', priority: 'low', dependencies: [2], repository: 'acme/docs' }
+  ],
+  metadata: { generatedAt: '2026-10-01T00:00:00Z' }
+};
+
+function testRegistry() {
+  console.log('🧪 Testing the renderer registry...');
+
+  const registry = createTaskGraphRendererRegistry();
+  check('built-in formats are registered', registry.formats().join(',') === 'markdown,html,csv,json-schema');
+  check('formats are looked up case-insensitively', registry.get('HTML')?.extension === '.html');
+
+  let duplicate = '';
+  try {
+    registry.register({ format: 'csv', description: 'Again', extension: '.csv', render: () => '' });
+  } catch (error) {
+    duplicate = error instanceof Error ? error.message : String(error);
+  }
+  check('formats are registered once', duplicate.includes('already registered'));
+
+  let unknown = '';
+  try {
+    registry.render('pdf', taskGraph);
+  } catch (error) {
+    unknown = error instanceof Error ? error.message : String(error);
+  }
+  check('unknown formats list the known ones', unknown.includes('"pdf"') && unknown.includes('json-schema'));
+
+  registry.register({ format: 'ids', description: 'Task IDs', extension: '.txt', render: graph => graph.tasks.map(task => task.id).join(' ') });
+  check('further formats can be registered', registry.render('ids', taskGraph) === '1 2 10');
+
+  check('markdown includes the dependency graph', registry.render('markdown', taskGraph).includes('```mermaid'));
+
+  console.log('');
+}
+
+function testCsv() {
+  console.log('🧪 Testing CSV...');
+
+  const csv = renderTaskGraphCsv(taskGraph, { issueNumbers: { '2.1': 42 } });
+  const lines = csv.trimEnd().split('\r\n');
+
+  check('a header leads', lines[0] === 'id,parent,depth,title,description,priority,status,dependencies,complexity,estimate,repository,milestone,issue');
+  check('every task and subtask has a row', csv.split('\r\n').filter(Boolean).length === 6, csv);
+  check('commas and quotes are quoted', csv.includes('2,,1,"Build ""API"", v2","Endpoints\nand auth",critical,,1,'));
+  check('subtasks name their parent and prefixed dependencies', csv.includes('\r\n2.2,2,2,'), csv);
+  check('formulas are defused', csv.includes(",'=SUM(A1),"));
+  check('planning fields are kept', csv.includes(',5,,MVP,') && csv.includes(',acme/docs,,'));
+  check('issue numbers are included', lines.some(line => line.startsWith('2.1,') && line.endsWith(',42')));
+
+  console.log('');
+}
+
+function testHtml() {
+  console.log('🧪 Testing HTML reports...');
+
+  const html = renderTaskGraphHtml(taskGraph, { title: 'Plan <v2>' });
+
+  check('the report is a standalone document', html.startsWith('<!DOCTYPE html>') && html.trimEnd().endsWith('</html>'));
+  check('the title is escaped', html.includes('<title>Plan &lt;v2&gt;</title>'));
+  check('task text is escaped', html.includes('Handlers &lt;script&gt;') && !html.includes('Handlers <script>'));
+  check('every task has a row', (html.match(/<tr class|<tr>/g) || []).length === 6, String((html.match(/<tr class|<tr>/g) || []).length));
+  check('IDs sort numerically', html.includes('data-sort="000010"') && html.includes('data-sort="000002.000001"'));
+  check('priorities sort by rank', html.includes('data-sort="0">critical'));
+  check('the table is sortable', html.includes("addEventListener('click'") && html.includes('aria-sort'));
+  check('the dependency graph is drawn by Mermaid', html.includes('<pre class="mermaid">\nflowchart TD') &&
+    html.includes('t1 --&gt; t2') && html.includes('mermaid.initialize'));
+  check('the generation time is shown', html.includes('generated 2026-10-01T00:00:00Z'));
+
+  console.log('');
+}
+
+function testSchema() {
+  console.log('🧪 Testing the task graph schema...');
+
+  check('the schema is a draft 2020-12 schema', TASK_GRAPH_SCHEMA.$schema === 'https://json-schema.org/draft/2020-12/schema');
+  check('valid task graphs pass', validateTaskGraphSchema(taskGraph).valid, validateTaskGraphSchema(taskGraph).errors.join('; '));
+
+  const invalid = validateTaskGraphSchema({
+    tasks: [
+      { id: '1', title: '', description: 'x', dependencies: [1, 'a'] },
+      { id: 2, title: 'B', description: 'y', subtasks: [{ id: 1, title: 'C' }] }
+    ],
+    milestones: [{ dueOn: '2026-13-45' }],
+    metadata: {}
+  });
+  const expected = [
+    '/tasks/0/id: must be a number [invalid-type]',
+    '/tasks/0/title: must not be empty [invalid-value]',
+    '/tasks/0/dependencies/1: must be a number [invalid-type]',
+    '/tasks/1/subtasks/0/description: is required [missing-property]',
+    '/milestones/0/title: is required [missing-property]',
+    '/milestones/0/dueOn: must be an ISO 8601 date [invalid-format]'
+  ];
+  check('violations name their JSON pointer and code', expected.every(message => invalid.errors.includes(message)) &&
+    invalid.errors.length === expected.length, invalid.errors.join('; '));
+
+  check('missing top-level properties are reported', validateTaskGraphSchema({}).errors.join(';') ===
+    '/tasks: is required [missing-property];/metadata: is required [missing-property]');
+  check('non-objects are rejected', !validateTaskGraphSchema([]).valid && !validateTaskGraphSchema(null).valid);
+  check('date-times are accepted as due dates', validateTaskGraphSchema({
+    tasks: [], milestones: [{ title: 'MVP', dueOn: '2026-10-09T00:00:00Z' }], metadata: {}
+  }).valid);
+
+  const enumViolations = validateAgainstSchema('urgent', { enum: ['low', 'high'] });
+  check('enums are checked', enumViolations.length === 1 && enumViolations[0].keyword === 'enum');
+
+  console.log('');
+}
+
+function testReportsAndCli() {
+  console.log('🧪 Testing report files and the render CLI...');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-graph-renderers-'));
+  try {
+    const taskGraphPath = path.join(dir, 'task-graph-web.json');
+    fs.writeFileSync(taskGraphPath, JSON.stringify(taskGraph));
+
+    const written = writeTaskGraphReports(taskGraph, taskGraphPath, ['html', 'csv', 'json-schema']);
+    check('reports are named after the task graph', written.html === path.join(dir, 'task-graph-web.html') &&
+      written.csv === path.join(dir, 'task-graph-web.csv') && written['json-schema'] === path.join(dir, 'task-graph-web.schema.json'));
+    check('the published schema is the one validated against',
+      JSON.stringify(JSON.parse(fs.readFileSync(written['json-schema'], 'utf8'))) === JSON.stringify(TASK_GRAPH_SCHEMA));
+
+    const options = parseCliArgs([taskGraphPath, '--format=csv', '--title', 'Web']);
+    check('CLI arguments are parsed', options.input === taskGraphPath && options.formats.join(',') === 'csv' && options.title === 'Web');
+    check('single formats go to stdout', runRenderCli(options).stdout === renderTaskGraphCsv(taskGraph));
+
+    const outDir = path.join(dir, 'reports');
+    const result = runRenderCli(parseCliArgs([taskGraphPath, '--format', 'html,json-schema', '--out-dir', outDir]));
+    check('several formats go to a directory', result.files.length === 2 && result.files.every(file => fs.existsSync(file)));
+
+    check('the schema needs no input', runRenderCli(parseCliArgs(['--format', 'json-schema'])).stdout!.includes('"$defs"'));
+
+    const badPath = path.join(dir, 'bad.json');
+    fs.writeFileSync(badPath, JSON.stringify({ tasks: [{ id: 1 }], metadata: {} }));
+    let rejected = '';
+    try {
+      runRenderCli(parseCliArgs([badPath, '--format', 'html']));
+    } catch (error) {
+      rejected = error instanceof Error ? error.message : String(error);
+    }
+    check('invalid task graphs are rejected', rejected.includes('is not a valid task graph') &&
+      rejected.includes('/tasks/0/title: is required [missing-property]'), rejected);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running task graph renderer tests...\n');
+
+  testRegistry();
+  testCsv();
+  testHtml();
+  testSchema();
+  testReportsAndCli();
+
+  finishChecks('task graph renderer');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,201 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test strict task graph validation: JSON pointers, codes, severities and
+ * dependency rules, and its use by output processing
+ */
+
+import {
+  validateTaskGraphStrict,
+  formatTaskGraphIssue,
+  toJsonPointer,
+  validateOutput,
+  processCliOutput,
+  TaskGraphIssue
+} from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+function describeIssues(issues: TaskGraphIssue[]): string {
+  return issues.map(formatTaskGraphIssue).join('; ');
+}
+
+function hasIssue(issues: TaskGraphIssue[], pointer: string, code: string, severity = 'error'): boolean {
+  return issues.some(issue => issue.pointer === pointer && issue.code === code && issue.severity === severity);
+}
+
+const validGraph = {
+  tasks: [
+    { id: 1, title: 'Setup', description: 'Create the repository', dependencies: [] },
+    {
+      id: 2, title: 'API', description: 'Build the API', dependencies: [1],
+      subtasks: [
+        { id: 1, title: 'Routes', description: 'Routing', dependencies: [] },
+        { id: 2, title: 'Handlers', description: 'Handlers', dependencies: [1] }
+      ]
+    }
+  ],
+  milestones: [{ title: 'MVP', tasks: [1, 2] }],
+  metadata: {}
+};
+
+function testPointers() {
+  console.log('🧪 Testing JSON pointers and schema issues...');
+
+  check('paths become JSON pointers', toJsonPointer(['tasks', 0, 'subtasks', 1, 'title']) === '/tasks/0/subtasks/1/title');
+  check('pointer segments are escaped', toJsonPointer(['a/b', 'c~d']) === '/a~1b/c~0d');
+
+  const valid = validateTaskGraphStrict(validGraph);
+  check('valid task graphs pass', valid.valid && valid.issues.length === 0, describeIssues(valid.issues));
+
+  const invalid = validateTaskGraphStrict({
+    tasks: [{ id: 'one', title: '', description: 'x' }, { id: 2, title: 'B' }],
+    milestones: [{ title: 'MVP', dueOn: 'soon' }],
+    metadata: {}
+  });
+  check('wrong types are invalid-type errors', hasIssue(invalid.issues, '/tasks/0/id', 'invalid-type'), describeIssues(invalid.issues));
+  check('empty strings are invalid-value errors', hasIssue(invalid.issues, '/tasks/0/title', 'invalid-value'));
+  check('missing properties point at the property', hasIssue(invalid.issues, '/tasks/1/description', 'missing-property'));
+  check('bad dates are invalid-format errors', hasIssue(invalid.issues, '/milestones/0/dueOn', 'invalid-format'));
+  check('errors are formatted with pointer and code', invalid.errors.includes('/tasks/1/description: is required [missing-property]'), invalid.errors.join('; '));
+
+  const notObject = validateTaskGraphStrict([]);
+  check('non-objects are rejected at the root', !notObject.valid && notObject.errors[0] === '(root): must be an object [invalid-type]', notObject.errors.join('; '));
+
+  console.log('');
+}
+
+function testDependencyRules() {
+  console.log('🧪 Testing dependency rules...');
+
+  const duplicates = validateTaskGraphStrict({
+    tasks: [
+      { id: 1, title: 'A', description: 'a' },
+      { id: 1, title: 'B', description: 'b' },
+      { id: 2, title: 'C', description: 'c', subtasks: [
+        { id: 1, title: 'D', description: 'd' },
+        { id: 1, title: 'E', description: 'e' }
+      ] }
+    ],
+    metadata: {}
+  });
+  check('duplicate top-level IDs are reported', hasIssue(duplicates.issues, '/tasks/1/id', 'duplicate-id'), describeIssues(duplicates.issues));
+  check('duplicate subtask IDs are reported', hasIssue(duplicates.issues, '/tasks/2/subtasks/1/id', 'duplicate-id'));
+  check('the first use of an ID is not reported', !hasIssue(duplicates.issues, '/tasks/0/id', 'duplicate-id'));
+  check('duplicates name the full ID', duplicates.errors.some(error => error.includes('task ID 2.1 is already used by /tasks/2/subtasks/0')));
+
+  const references = validateTaskGraphStrict({
+    tasks: [
+      { id: 1, title: 'A', description: 'a', dependencies: [1, 7] },
+      { id: 2, title: 'B', description: 'b', subtasks: [
+        { id: 1, title: 'C', description: 'c', dependencies: [2] },
+        { id: 3, title: 'D', description: 'd', dependencies: [4], subtasks: [
+          { id: 1, title: 'E', description: 'e', dependencies: [3] }
+        ] }
+      ] }
+    ],
+    metadata: {}
+  });
+  check('self-dependencies are reported', hasIssue(references.issues, '/tasks/0/dependencies/0', 'self-dependency'), describeIssues(references.issues));
+  check('unknown dependencies are reported', hasIssue(references.issues, '/tasks/0/dependencies/1', 'unknown-dependency'));
+  check('subtasks depending on their parent are reported', hasIssue(references.issues, '/tasks/1/subtasks/0/dependencies/0', 'ancestor-dependency'));
+  check('subtasks depending on an ancestor further up are reported',
+    hasIssue(references.issues, '/tasks/1/subtasks/1/subtasks/0/dependencies/0', 'ancestor-dependency'));
+  check('subtask dependencies missing everywhere are reported', hasIssue(references.issues, '/tasks/1/subtasks/1/dependencies/0', 'unknown-dependency') &&
+    references.errors.some(error => error.includes('task 2.4 does not exist')));
+
+  const topLevel = validateTaskGraphStrict({
+    tasks: [
+      { id: 1, title: 'A', description: 'a' },
+      { id: 2, title: 'B', description: 'b', subtasks: [
+        { id: 1, title: 'C', description: 'c' },
+        { id: 2, title: 'D', description: 'd', dependencies: [1] },
+        { id: 3, title: 'E', description: 'e', dependencies: [4] }
+      ] },
+      { id: 4, title: 'F', description: 'f' }
+    ],
+    metadata: {}
+  });
+  check('sibling IDs win over top-level IDs', !topLevel.issues.some(issue => issue.pointer === '/tasks/1/subtasks/1/dependencies/0'));
+  check('subtask dependencies fall back to top-level tasks', topLevel.valid && !hasIssue(topLevel.issues, '/tasks/1/subtasks/2/dependencies/0', 'unknown-dependency'),
+    describeIssues(topLevel.issues));
+
+  const cycle = validateTaskGraphStrict({
+    tasks: [
+      { id: 1, title: 'A', description: 'a', dependencies: [3] },
+      { id: 2, title: 'B', description: 'b', dependencies: [1] },
+      { id: 3, title: 'C', description: 'c', dependencies: [2], subtasks: [
+        { id: 1, title: 'D', description: 'd', dependencies: [2] },
+        { id: 2, title: 'E', description: 'e', dependencies: [1] }
+      ] }
+    ],
+    metadata: {}
+  });
+  const cycleIssues = cycle.issues.filter(issue => issue.code === 'dependency-cycle');
+  check('cycles are reported', cycleIssues.length === 2, describeIssues(cycle.issues));
+  check('cycles point at the dependency closing them', cycleIssues.some(issue => issue.pointer.startsWith('/tasks/') && issue.pointer.includes('/dependencies/')) &&
+    cycleIssues.some(issue => issue.pointer.startsWith('/tasks/2/subtasks/')));
+  check('cycles list their tasks', cycleIssues.some(issue => issue.message.includes('3.1 → 3.2 → 3.1') || issue.message.includes('3.2 → 3.1 → 3.2')),
+    cycleIssues.map(issue => issue.message).join('; '));
+
+  console.log('');
+}
+
+function testWarnings() {
+  console.log('🧪 Testing warnings...');
+
+  const result = validateTaskGraphStrict({
+    tasks: [
+      { id: 1, title: 'A', description: 'a' },
+      { id: 2, title: 'B', description: 'b', dependencies: [1, 1] }
+    ],
+    milestones: [{ title: 'MVP', tasks: [1, 9] }],
+    metadata: {}
+  });
+  check('warnings keep the task graph valid', result.valid && result.errors.length === 0, describeIssues(result.issues));
+  check('repeated dependencies are warnings', hasIssue(result.issues, '/tasks/1/dependencies/1', 'duplicate-dependency', 'warning'));
+  check('unknown milestone tasks are warnings', hasIssue(result.issues, '/milestones/0/tasks/1', 'unknown-milestone-task', 'warning'));
+  check('warnings are formatted', result.warnings.length === 2 && result.warnings[1] === '/milestones/0/tasks/1: task 9 does not exist [unknown-milestone-task]',
+    result.warnings.join('; '));
+
+  console.log('');
+}
+
+function testOutputProcessing() {
+  console.log('🧪 Testing output validation and processing...');
+
+  const bad = JSON.stringify({ tasks: [{ id: 1, title: 'A', description: 'a', dependencies: [5] }], metadata: {} });
+
+  const plain = validateOutput(bad, { expectedFormat: 'json' });
+  check('plain JSON validation ignores task graph rules', plain.valid && plain.issues === undefined);
+
+  const strict = validateOutput(bad, { expectedFormat: 'json', taskGraph: true });
+  check('task graph validation rejects bad graphs', !strict.valid && strict.data === undefined &&
+    strict.errors[0] === '/tasks/0/dependencies/0: task 5 does not exist [unknown-dependency]', strict.errors.join('; '));
+  check('task graph issues are kept on the result', strict.issues?.length === 1 && strict.issues[0].severity === 'error');
+
+  const notJson = validateOutput('<tasks/>', { expectedFormat: 'xml', taskGraph: true });
+  check('task graphs must be JSON', !notJson.valid && notJson.errors.some(error => error.includes('must be JSON')));
+
+  const rejected = processCliOutput(bad, { outputFormat: 'json', taskGraph: true });
+  check('processing rejects bad graphs', !rejected.success && rejected.errors.includes(strict.errors[0]), rejected.errors.join('; '));
+
+  const accepted = processCliOutput(JSON.stringify(validGraph), { outputFormat: 'json', sanitize: false, taskGraph: true });
+  check('processing accepts valid graphs', accepted.success && accepted.validation.data?.tasks.length === 2 &&
+    accepted.validation.warnings?.length === 0, accepted.errors.join('; '));
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running task graph validation tests...\n');
+
+  testPointers();
+  testDependencyRules();
+  testWarnings();
+  testOutputProcessing();
+
+  finishChecks('task graph validation');
+}
+
+// Run tests
+runAllTests();
@@ -0,0 +1,156 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test stable task keys and fuzzy matching of issues created before keys existed
+ */
+
+import {
+  buildTaskKey,
+  buildTaskKeyLine,
+  buildPrdNamespace,
+  extractTaskKey,
+  normalizeTitle,
+  calculateTitleSimilarity,
+  calculateDescriptionHash,
+  extractIssueDescription,
+  findBestTaskMatch
+} from '../scripts/task-identity';
+import { buildSubIssueBody, buildSubIssueTaskKey, Task } from '../scripts/sub-issue-creation';
+import { createGitHubApiClient } from '../scripts/github-api';
+import { check, finishChecks } from './check-harness';
+
+function issueBody(description: string, key?: string): string {
+  const frontMatter = key ? `---\nid: 1\n${buildTaskKeyLine(key)}\n---\n\n` : '---\nid: 1\n---\n\n';
+  return `${frontMatter}## Description\n\n${description}\n\n<!-- created-by-taskmaster-script -->`;
+}
+
+function testTaskKeys() {
+  console.log('🧪 Testing task keys...');
+
+  check('unscoped key is the task ID', buildTaskKey('1.2') === '1.2');
+  check('scoped key is prefixed', buildTaskKey(3, 'billing') === 'billing/3');
+
+  check('key is read from front-matter', extractTaskKey(issueBody('Something', 'billing/3')) === 'billing/3');
+  check('numeric-looking keys survive the round trip', extractTaskKey(issueBody('Something', '1.10')) === '1.10');
+  check('body without a key has none', extractTaskKey(issueBody('Something')) === undefined);
+  check('body without front-matter has none', extractTaskKey('Just text') === undefined);
+  check('missing body has none', extractTaskKey(null) === undefined);
+
+  const parentIssue = { number: 42 } as any;
+  const task: Task = { id: 2, title: 'Write docs', description: 'Document the API' };
+  const body = buildSubIssueBody(task, parentIssue);
+  check('sub-issue key is scoped to the parent issue', buildSubIssueTaskKey(task, parentIssue) === 'issue-42/2');
+  check('sub-issue body carries its key', extractTaskKey(body) === 'issue-42/2', body.split('\n')[1]);
+
+  check('PRD namespace comes from its path', buildPrdNamespace('docs/Billing.prd.md', '/repo') === 'docs-billing');
+  check('PRD namespace ignores the working directory form', buildPrdNamespace('/repo/docs/billing.prd.md', '/repo') === 'docs-billing');
+
+  console.log('');
+}
+
+function testSimilarity() {
+  console.log('🧪 Testing title similarity and description hashes...');
+
+  check('generated prefixes are stripped', normalizeTitle('[🔴 HIGH] [billing:1.2] Set up Database!') === 'set up database');
+  check('accented and non-Latin letters are kept', normalizeTitle('Café — Größe 📦 设置') === 'café größe 设置', normalizeTitle('Café — Größe 📦 设置'));
+  check('identical titles score 1', calculateTitleSimilarity('[1] Setup database', '[2] setup   database') === 1);
+
+  const close = calculateTitleSimilarity('Set up the database schema', 'Setup the database schemas');
+  check('small edits score high', close > 0.8, close.toFixed(2));
+
+  const far = calculateTitleSimilarity('Set up the database schema', 'Write user documentation');
+  check('unrelated titles score low', far < 0.5, far.toFixed(2));
+
+  check('description hash ignores case and whitespace',
+    calculateDescriptionHash('Create the  tables\nand indexes') === calculateDescriptionHash('create the tables and indexes'));
+  check('different descriptions hash differently',
+    calculateDescriptionHash('Create the tables') !== calculateDescriptionHash('Drop the tables'));
+
+  check('description is extracted from a generated body', extractIssueDescription(issueBody('Create the tables')) === 'Create the tables');
+
+  console.log('');
+}
+
+function testFuzzyMatching() {
+  console.log('🧪 Testing fuzzy matching...');
+
+  const issues = [
+    { number: 1, title: '[1] Set up the database schema', body: issueBody('Create the tables') },
+    { number: 2, title: '[2] Build the REST API', body: issueBody('Expose endpoints') },
+    { number: 3, title: '[3] Write user documentation', body: issueBody('Document everything', '3') }
+  ];
+
+  const renamed = findBestTaskMatch({ title: 'Design relational storage', description: 'Create the tables' }, issues);
+  check('retitled task matches by description hash', renamed?.issue.number === 1 && renamed.reason === 'description');
+
+  const reworded = findBestTaskMatch({ title: 'Build the REST APIs', description: 'Expose all endpoints' }, issues);
+  check('reworded task matches by title similarity', reworded?.issue.number === 2 && reworded.reason === 'title');
+
+  const keyed = findBestTaskMatch({ title: 'Write user documentation', description: 'Document everything' }, issues);
+  check('issues that already carry a key are never matched', keyed === null);
+
+  const unrelated = findBestTaskMatch({ title: 'Configure monitoring', description: 'Add dashboards' }, issues);
+  check('unrelated task has no match', unrelated === null);
+
+  const strict = findBestTaskMatch({ title: 'Build the REST APIs' }, issues, { titleThreshold: 0.99 });
+  check('title threshold is respected', strict === null);
+
+  console.log('');
+}
+
+async function testKeyLookup() {
+  console.log('🧪 Testing key lookup across many issues...');
+
+  // Almost every issue body contains "1", so a full-text search for the key would not find it
+  const issues = Array.from({ length: 250 }, (_, index) => ({
+    number: index + 1,
+    title: `[${index + 1}] Task ${index + 1}`,
+    body: issueBody(`Step ${index + 1} of 250`, `billing/${index + 1}`),
+    labels: [{ name: 'taskmaster' }]
+  }));
+  // Keyed by a single-PRD run before namespaces were always applied
+  issues.push({ number: 251, title: '[1] Legacy task', body: issueBody('Legacy', '1'), labels: [{ name: 'taskmaster' }] });
+  let listings = 0;
+
+  const client = createGitHubApiClient({ token: 'mock-token', owner: 'acme', repo: 'web' });
+  (client as any).octokit = {
+    issues: {
+      listForRepo: async ({ page, per_page }: any) => {
+        listings++;
+        return { data: issues.slice((page - 1) * per_page, page * per_page) };
+      }
+    },
+    search: {
+      issuesAndPullRequests: async () => ({ data: { items: [] } })
+    }
+  };
+
+  const found = await client.findExistingIssue('[1] Retitled task', undefined, { taskKey: 'billing/1' });
+  check('retitled task is found by key', found?.number === 1);
+
+  const late = await client.findExistingIssue('[201] Task 201', undefined, { taskKey: 'billing/201' });
+  check('keys past the first page are found', late?.number === 201);
+  check('labelled issues are listed once per client', listings === 3, String(listings));
+
+  const adopted = await client.findExistingIssue('[docs-prd:1] Legacy task', undefined, { taskKey: 'docs-prd/1', legacyTaskKey: '1' });
+  check('issue with a legacy key is adopted', adopted?.number === 251);
+  check('the adopted issue is only retitled with its namespace', normalizeTitle(adopted!.title) === normalizeTitle('[docs-prd:1] Legacy task'));
+  const again = await client.findExistingIssue('[docs-other:1] Legacy task', undefined, { taskKey: 'docs-other/1', legacyTaskKey: '1' });
+  check('a legacy issue is adopted only once', again === null);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running task identity tests...\n');
+
+  testTaskKeys();
+  testSimilarity();
+  testFuzzyMatching();
+  await testKeyLookup();
+
+  finishChecks('task identity');
+}
+
+// Run tests
+runAllTests();
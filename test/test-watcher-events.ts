@@ -0,0 +1,79 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Test the building blocks the watcher uses for reopen, edit, delete and transfer events
+ */
+
+import { DependencyGraphAnalyzer, parseIssueBody, updateDependencyEntry } from '../scripts/index';
+import { check, finishChecks } from './check-harness';
+
+const BODY = `## Details
+Checkout page
+
+## Dependencies
+
+- [x] #1 Cart
+- [ ] acme/api#1 Payments API
+- [ ] #2
+
+## Meta
+- **Parent Task:** #1
+`;
+
+const blocker = (repository: string, number: number) => {
+  const [owner, repo] = repository.split('/');
+  return { owner, repo, number };
+};
+
+function testChecklistEntries() {
+  console.log('🧪 Testing dependency checklist entries...');
+
+  const reopened = updateDependencyEntry(BODY, 'acme/web', blocker('acme/web', 1), { completed: false });
+  check('reopened blockers are unticked', reopened.includes('- [ ] #1 Cart') && reopened.includes('- [ ] acme/api#1 Payments API'), reopened);
+  check('other sections are left alone', reopened.includes('- **Parent Task:** #1'));
+  check('unticked entries block again', parseIssueBody(reopened).dependencies.every(dep => !dep.completed));
+
+  const closed = updateDependencyEntry(BODY, 'acme/web', blocker('acme/api', 1), { completed: true });
+  check('blockers in other repositories are matched by repository', closed.includes('- [x] acme/api#1 Payments API') &&
+    closed.includes('- [x] #1 Cart') && closed.includes('- [ ] #2'), closed);
+
+  const transferred = updateDependencyEntry(BODY, 'acme/web', blocker('acme/web', 2), { reference: blocker('acme/api', 7) });
+  check('transferred blockers point at their new location', transferred.includes('- [ ] acme/api#7') && !transferred.includes('#2\n'), transferred);
+
+  const deleted = updateDependencyEntry(BODY, 'acme/web', blocker('acme/web', 1), { reference: null });
+  check('deleted blockers are dropped', !deleted.includes('Cart') && parseIssueBody(deleted).dependencies.length === 2, deleted);
+
+  check('bodies without the blocker are unchanged', updateDependencyEntry(BODY, 'acme/web', blocker('acme/web', 9), { completed: true }) === BODY);
+
+  console.log('');
+}
+
+function testDependents() {
+  console.log('🧪 Testing affected dependents...');
+
+  const issue = (issueNumber: number, repository: string, body: string) => ({ ...parseIssueBody(body), issueNumber, repository });
+  const graph = DependencyGraphAnalyzer.buildDependencyGraph([
+    issue(3, 'acme/web', BODY),
+    issue(4, 'acme/web', '## Dependencies\n\n- [ ] #3\n'),
+    issue(5, 'acme/api', '## Dependencies\n\n- [ ] acme/web#1\n')
+  ], { repository: 'acme/web' });
+
+  const dependents = DependencyGraphAnalyzer.findDependentIssues(graph, ['acme/web#1']);
+  check('dependents of issues outside the graph are found', dependents.join(',') === 'acme/web#3,acme/api#5', dependents.join(','));
+  check('only direct dependents are affected', DependencyGraphAnalyzer.findDependentIssues(graph, ['acme/web#3']).join(',') === 'acme/web#4');
+  check('issues without dependents affect nothing', DependencyGraphAnalyzer.findDependentIssues(graph, ['acme/web#4']).length === 0);
+
+  console.log('');
+}
+
+async function runAllTests() {
+  console.log('🚀 Running watcher event tests...\n');
+
+  testChecklistEntries();
+  testDependents();
+
+  finishChecks('watcher event');
+}
+
+// Run tests
+runAllTests();